@@ -1,4 +1,10 @@
-import { Market, OpenOrders, Orderbook } from '@project-serum/serum';
+import {
+  getFeeRates,
+  getFeeTier,
+  Market,
+  OpenOrders,
+  Orderbook,
+} from '@project-serum/serum';
 import { AccountInfo, Connection, PublicKey } from '@solana/web3.js';
 import { I80F48, ONE_I80F48, ZERO_I80F48 } from './fixednum';
 import {
@@ -15,6 +21,7 @@ import {
   nativeI80F48ToUi,
   nativeToUi,
   splitOpenOrders,
+  uiToNative,
   zeroKey,
 } from './utils';
 
@@ -893,6 +900,219 @@ export default class EntropyAccount {
     );
   }
 
+  /**
+   * Health of this account after the actions, applied in order to a copy of
+   * it. Fills happen at the given price without walking the book and prices
+   * are those in entropyCache. Nothing is sent and this account is left as
+   * it is.
+   */
+  simulate(
+    entropyGroup: EntropyGroup,
+    entropyCache: EntropyCache,
+    actions: EntropyAccountAction[],
+  ): SimulatedHealth {
+    const account = this.clone();
+    for (const action of actions) {
+      account.applyAction(entropyGroup, entropyCache, action);
+    }
+
+    const liquidationPrices: (I80F48 | undefined)[] = [];
+    for (let i = 0; i < entropyGroup.numOracles; i++) {
+      liquidationPrices.push(
+        account.getLiquidationPrice(entropyGroup, entropyCache, i),
+      );
+    }
+    return {
+      account,
+      initHealth: account.getHealth(entropyGroup, entropyCache, 'Init'),
+      maintHealth: account.getHealth(entropyGroup, entropyCache, 'Maint'),
+      initHealthRatio: account.getHealthRatio(
+        entropyGroup,
+        entropyCache,
+        'Init',
+      ),
+      maintHealthRatio: account.getHealthRatio(
+        entropyGroup,
+        entropyCache,
+        'Maint',
+      ),
+      leverage: account.getLeverage(entropyGroup, entropyCache),
+      liquidationPrices,
+    };
+  }
+
+  private clone(): EntropyAccount {
+    const account = new EntropyAccount(this.publicKey, this);
+    account.deposits = [...this.deposits];
+    account.borrows = [...this.borrows];
+    account.spotOpenOrdersAccounts = [...this.spotOpenOrdersAccounts];
+    account.perpAccounts = this.perpAccounts.map((pa) => new PerpAccount(pa));
+    account.advancedOrders = [...this.advancedOrders];
+    return account;
+  }
+
+  private applyAction(
+    entropyGroup: EntropyGroup,
+    entropyCache: EntropyCache,
+    action: EntropyAccountAction,
+  ) {
+    switch (action.type) {
+      case 'deposit':
+      case 'withdraw':
+      case 'borrow': {
+        const { tokenIndex } = action;
+        const bankCache = entropyCache.rootBankCache[tokenIndex];
+        const native = I80F48.fromI64(
+          uiToNative(
+            action.quantity,
+            entropyGroup.getTokenDecimals(tokenIndex),
+          ),
+        );
+        if (action.type === 'deposit') {
+          this.addNet(bankCache, tokenIndex, native);
+          return;
+        }
+        if (
+          action.type === 'withdraw' &&
+          !action.allowBorrow &&
+          native.gt(this.getNativeDeposit(bankCache, tokenIndex))
+        ) {
+          throw new Error(
+            `Withdrawing ${action.quantity} of token ${tokenIndex} would borrow`,
+          );
+        }
+        this.addNet(bankCache, tokenIndex, native.neg());
+        return;
+      }
+      case 'spotFill': {
+        const { marketIndex, side, price, quantity } = action;
+        const fee = action.fee ?? getFeeRates(getFeeTier(0, 0)).taker;
+        const base = I80F48.fromI64(
+          uiToNative(quantity, entropyGroup.getTokenDecimals(marketIndex)),
+        );
+        const quote = I80F48.fromI64(
+          uiToNative(
+            quantity * price,
+            entropyGroup.getTokenDecimals(QUOTE_INDEX),
+          ),
+        );
+        const feePaid = quote.mul(I80F48.fromNumber(fee));
+        const baseBank = entropyCache.rootBankCache[marketIndex];
+        const quoteBank = entropyCache.rootBankCache[QUOTE_INDEX];
+        if (side === 'buy') {
+          this.addNet(baseBank, marketIndex, base);
+          this.addNet(quoteBank, QUOTE_INDEX, quote.add(feePaid).neg());
+        } else {
+          this.addNet(baseBank, marketIndex, base.neg());
+          this.addNet(quoteBank, QUOTE_INDEX, quote.sub(feePaid));
+        }
+        return;
+      }
+      case 'perpFill': {
+        const { marketIndex, side, price, quantity } = action;
+        const perpMarketInfo = entropyGroup.perpMarkets[marketIndex];
+        const fee = action.fee ?? perpMarketInfo.takerFee.toNumber();
+        const perpAccount = this.settleFunding(entropyCache, marketIndex);
+        const baseLots = uiToNative(
+          quantity,
+          entropyGroup.getTokenDecimals(marketIndex),
+        ).div(perpMarketInfo.baseLotSize);
+        const nativePrice = I80F48.fromNumber(
+          price *
+            Math.pow(
+              10,
+              entropyGroup.getTokenDecimals(QUOTE_INDEX) -
+                entropyGroup.getTokenDecimals(marketIndex),
+            ),
+        );
+        const quote = I80F48.fromI64(
+          baseLots.mul(perpMarketInfo.baseLotSize),
+        ).mul(nativePrice);
+        const feePaid = quote.mul(I80F48.fromNumber(fee));
+        if (side === 'buy') {
+          perpAccount.basePosition = perpAccount.basePosition.add(baseLots);
+          perpAccount.quotePosition = perpAccount.quotePosition
+            .sub(quote)
+            .sub(feePaid);
+        } else {
+          perpAccount.basePosition = perpAccount.basePosition.sub(baseLots);
+          perpAccount.quotePosition = perpAccount.quotePosition
+            .add(quote)
+            .sub(feePaid);
+        }
+        return;
+      }
+      case 'settlePnl': {
+        const { marketIndex } = action;
+        const perpAccount = this.settleFunding(entropyCache, marketIndex);
+        const pnl = perpAccount.getPnl(
+          entropyGroup.perpMarkets[marketIndex],
+          entropyCache.perpMarketCache[marketIndex],
+          entropyCache.priceCache[marketIndex].price,
+        );
+        perpAccount.quotePosition = perpAccount.quotePosition.sub(pnl);
+        this.addNet(
+          entropyCache.rootBankCache[QUOTE_INDEX],
+          QUOTE_INDEX,
+          pnl,
+        );
+        return;
+      }
+    }
+  }
+
+  /**
+   * Move native into the token's deposits, repaying borrows first, or out
+   * of them, borrowing what the deposits do not cover
+   */
+  private addNet(
+    bankCache: RootBankCache,
+    tokenIndex: number,
+    native: I80F48,
+  ) {
+    if (native.isPos()) {
+      const borrow = this.getNativeBorrow(bankCache, tokenIndex);
+      if (native.lte(borrow)) {
+        this.borrows[tokenIndex] = this.borrows[tokenIndex].sub(
+          native.div(bankCache.borrowIndex),
+        );
+      } else {
+        this.borrows[tokenIndex] = ZERO_I80F48;
+        this.deposits[tokenIndex] = this.deposits[tokenIndex].add(
+          native.sub(borrow).div(bankCache.depositIndex),
+        );
+      }
+    } else if (native.isNeg()) {
+      const deposit = this.getNativeDeposit(bankCache, tokenIndex);
+      if (native.neg().lte(deposit)) {
+        this.deposits[tokenIndex] = this.deposits[tokenIndex].add(
+          native.div(bankCache.depositIndex),
+        );
+      } else {
+        this.deposits[tokenIndex] = ZERO_I80F48;
+        this.borrows[tokenIndex] = this.borrows[tokenIndex].add(
+          native.neg().sub(deposit).div(bankCache.borrowIndex),
+        );
+      }
+    }
+  }
+
+  /**
+   * Move unsettled funding into the quote position, as the program does
+   * before changing a position
+   */
+  private settleFunding(
+    entropyCache: EntropyCache,
+    marketIndex: number,
+  ): PerpAccount {
+    const perpAccount = this.perpAccounts[marketIndex];
+    const perpMarketCache = entropyCache.perpMarketCache[marketIndex];
+    perpAccount.quotePosition = perpAccount.getQuotePosition(perpMarketCache);
+    perpAccount.longSettledFunding = perpMarketCache.longFunding;
+    perpAccount.shortSettledFunding = perpMarketCache.shortFunding;
+    return perpAccount;
+  }
+
   toPrettyString(
     groupConfig: GroupConfig,
     entropyGroup: EntropyGroup,
@@ -1080,3 +1300,48 @@ export default class EntropyAccount {
 }
 
 export type HealthType = 'Init' | 'Maint';
+
+/**
+ * A hypothetical change to an account for EntropyAccount.simulate. Quantities
+ * and prices are in UI units; fee is the fraction of the quote paid, the
+ * market's taker fee by default.
+ */
+export type EntropyAccountAction =
+  | { type: 'deposit'; tokenIndex: number; quantity: number }
+  | {
+      type: 'withdraw';
+      tokenIndex: number;
+      quantity: number;
+      allowBorrow?: boolean;
+    }
+  | { type: 'borrow'; tokenIndex: number; quantity: number }
+  | {
+      type: 'perpFill';
+      marketIndex: number;
+      side: 'buy' | 'sell';
+      price: number;
+      quantity: number;
+      fee?: number;
+    }
+  | {
+      type: 'spotFill';
+      marketIndex: number;
+      side: 'buy' | 'sell';
+      price: number;
+      quantity: number;
+      fee?: number;
+    }
+  | { type: 'settlePnl'; marketIndex: number };
+
+export interface SimulatedHealth {
+  /** The copy of the account the actions were applied to */
+  account: EntropyAccount;
+  /** Native quote, like getHealth */
+  initHealth: I80F48;
+  maintHealth: I80F48;
+  initHealthRatio: I80F48;
+  maintHealthRatio: I80F48;
+  leverage: I80F48;
+  /** getLiquidationPrice for each oracle; undefined where there is none */
+  liquidationPrices: (I80F48 | undefined)[];
+}
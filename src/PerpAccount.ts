@@ -1,3 +1,4 @@
+import { PublicKey } from '@solana/web3.js';
 import BN from 'bn.js';
 import { PerpMarketCache, PerpMarketInfo, ZERO_BN } from '.';
 import { I80F48, ZERO_I80F48 } from './fixednum';
@@ -8,6 +9,27 @@ import Big from 'big.js';
 const ZERO = new Big(0);
 const NEG_ONE = new Big(-1);
 
+/**
+ * The parts of a fill or liquidation the PnL methods read, with price and
+ * quantity in UI units. ParsedFillEvent, ParsedLiquidateEvent and
+ * TradeRecord all fit.
+ */
+export type PnlEvent =
+  | {
+      eventType: 'fill';
+      takerSide: 'buy' | 'sell';
+      maker: PublicKey | string;
+      taker: PublicKey | string;
+      price: number;
+      quantity: number;
+    }
+  | {
+      eventType: 'liquidate';
+      liqee: PublicKey | string;
+      price: number;
+      quantity: number;
+    };
+
 export default class PerpAccount {
   basePosition!: BN;
   quotePosition!: I80F48;
@@ -26,12 +48,12 @@ export default class PerpAccount {
   /**
    * Get average entry price of current position. Returned value is UI number.
    * Does not include fees.
-   * Events are sorted latest event first
+   * Events are sorted latest event first, as TradeStore.query returns them
    */
   getAverageOpenPrice(
     entropyAccount: EntropyAccount, // circular import?
     perpMarket: PerpMarket,
-    events: any[], // TODO - replace with actual Event types coming from DB
+    events: PnlEvent[],
   ): Big {
     if (this.basePosition.isZero()) {
       return ZERO;
@@ -44,7 +66,7 @@ export default class PerpAccount {
 
     for (const event of events) {
       let price, baseChange;
-      if ('liqor' in event) {
+      if (event.eventType === 'liquidate') {
         const le = event;
         price = new Big(le.price);
         let quantity = new Big(le.quantity);
@@ -65,7 +87,6 @@ export default class PerpAccount {
         }
       } else {
         const fe = event;
-        // TODO - verify this gives proper UI number
         price = new Big(fe.price);
         let quantity = new Big(fe.quantity);
 
@@ -106,7 +127,7 @@ export default class PerpAccount {
   getBreakEvenPrice(
     entropyAccount: EntropyAccount, // circular import?
     perpMarket: PerpMarket,
-    events: any[], // TODO - replace with actual Event types coming from DB
+    events: PnlEvent[],
   ): Big {
     if (this.basePosition.isZero()) {
       return ZERO;
@@ -118,8 +139,7 @@ export default class PerpAccount {
     let totalQuoteChange = ZERO;
     for (const event of events) {
       let price, baseChange;
-      if ('liqor' in event) {
-        // TODO - build cleaner way to distinguish events
+      if (event.eventType === 'liquidate') {
         const le = event;
         price = new Big(le.price);
         let quantity = new Big(le.quantity);
@@ -140,7 +160,6 @@ export default class PerpAccount {
         }
       } else {
         const fe = event;
-        // TODO - verify this gives proper UI number
         price = new Big(fe.price);
         let quantity = new Big(fe.quantity);
 
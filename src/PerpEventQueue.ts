@@ -1,5 +1,43 @@
 import BN from 'bn.js';
 import { FillEvent, LiquidateEvent, OutEvent, ZERO_BN } from '.';
+import { ONE_BN } from './utils';
+
+/**
+ * seqNums firstSeqNum to lastSeqNum inclusive, which were overwritten in the
+ * queue before they could be read
+ */
+export interface PerpEventGap {
+  eventType: 'gap';
+  firstSeqNum: BN;
+  lastSeqNum: BN;
+}
+
+/** An event as decoded from the queue, in native units */
+export type PerpQueueEvent =
+  | { eventType: 'fill'; fill: FillEvent }
+  | { eventType: 'out'; out: OutEvent }
+  | { eventType: 'liquidate'; liquidate: LiquidateEvent };
+
+function tagEvent(e: any): PerpQueueEvent | undefined {
+  if (e.fill) {
+    return { eventType: 'fill', fill: e.fill };
+  } else if (e.out) {
+    return { eventType: 'out', out: e.out };
+  } else if (e.liquidate) {
+    return { eventType: 'liquidate', liquidate: e.liquidate };
+  }
+}
+
+function untagEvent(e: PerpQueueEvent): FillEvent | OutEvent | LiquidateEvent {
+  switch (e.eventType) {
+    case 'fill':
+      return e.fill;
+    case 'out':
+      return e.out;
+    case 'liquidate':
+      return e.liquidate;
+  }
+}
 
 export default class PerpEventQueue {
   head!: BN;
@@ -24,6 +62,49 @@ export default class PerpEventQueue {
     return events;
   }
 
+  /** seqNum of the oldest event the ring buffer can still hold */
+  get oldestSeqNum(): BN {
+    return this.seqNum.sub(BN.min(this.seqNum, new BN(this.events.length)));
+  }
+
+  /**
+   * Returns the events from seqNum up to the queue's seqNum in seqNum order.
+   * seqNums no longer in the queue come back as gap events.
+   */
+  eventsFrom(seqNum: BN): (PerpQueueEvent | PerpEventGap)[] {
+    const found = this.events
+      .map(tagEvent)
+      .filter((e): e is PerpQueueEvent => {
+        if (!e) return false;
+        const event = untagEvent(e);
+        // never written slots decode as fills at seqNum 0
+        return (
+          event.timestamp.gt(ZERO_BN) &&
+          event.seqNum.gte(seqNum) &&
+          event.seqNum.lt(this.seqNum)
+        );
+      })
+      .sort((a, b) => untagEvent(a).seqNum.cmp(untagEvent(b).seqNum));
+
+    const results: (PerpQueueEvent | PerpEventGap)[] = [];
+    let next = seqNum;
+    for (const event of [...found, undefined]) {
+      const end = event ? untagEvent(event).seqNum : this.seqNum;
+      if (end.gt(next)) {
+        results.push({
+          eventType: 'gap',
+          firstSeqNum: next,
+          lastSeqNum: end.sub(ONE_BN),
+        });
+      }
+      if (event) {
+        results.push(event);
+        next = end.add(ONE_BN);
+      }
+    }
+    return results;
+  }
+
   /**
    * Returns events since the lastSeqNum you've seen. If you haven't seen any yet,
    * send in undefined for lastSeqNum
@@ -31,46 +112,17 @@ export default class PerpEventQueue {
   eventsSince(
     lastSeqNum?: BN,
   ): { fill?: FillEvent; out?: OutEvent; liquidate?: LiquidateEvent }[] {
-    const flatEvents: (FillEvent | OutEvent | LiquidateEvent)[] = [];
-    for (const e of this.events) {
-      let event;
-      if (e.fill) {
-        event = e.fill;
-        event['eventType'] = 'fill';
-      } else if (e.out) {
-        event = e.out;
-        event['eventType'] = 'out';
-      } else if (e.liquidate) {
-        event = e.liquidate;
-        event['eventType'] = 'liquidate';
-      } else {
-        continue;
-      }
-      flatEvents.push(event);
-    }
-
-    let filtered: (FillEvent | OutEvent | LiquidateEvent)[];
-    if (lastSeqNum === undefined) {
-      filtered = flatEvents
-        .filter((e) => e.timestamp.gt(ZERO_BN))
-        .sort((a, b) => a.seqNum.cmp(b.seqNum));
-    } else {
-      filtered = flatEvents
-        .filter((e) => e.seqNum.gt(lastSeqNum))
-        .sort((a, b) => a.seqNum.cmp(b.seqNum));
-    }
-
-    // @ts-ignore
-    return filtered.map((e) => {
-      if (e['eventType'] === 'fill') {
-        return { fill: e };
-      } else if (e['eventType'] === 'out') {
-        return { out: e };
-      } else if (e['eventType'] === 'liquidate') {
-        return { liquidate: e };
-      }
-      // undefined if it's not one of those event types which it shouldn't be anyway
-    });
+    return this.events
+      .map(tagEvent)
+      .filter((e): e is PerpQueueEvent => {
+        if (!e) return false;
+        const event = untagEvent(e);
+        return lastSeqNum === undefined
+          ? event.timestamp.gt(ZERO_BN)
+          : event.seqNum.gt(lastSeqNum);
+      })
+      .sort((a, b) => untagEvent(a).seqNum.cmp(untagEvent(b).seqNum))
+      .map((e) => ({ [e.eventType]: untagEvent(e) }));
 
     // const modulo64Uint = new BN('10000000000000000', 'hex');
     // let missedEvents = this.seqNum
@@ -8,26 +8,61 @@ import {
   FillEvent,
   EntropyAccount,
   EntropyCache,
+  LiquidateEvent,
   MetaData,
   nativeToUi,
+  OutEvent,
   PerpEventQueue,
   PerpEventQueueLayout,
   PerpMarketConfig,
 } from '.';
 import { I80F48 } from './fixednum';
 import { Modify } from './types';
-import { ZERO_BN } from './utils';
+import { sleep, ZERO_BN } from './utils';
 import { EOL } from 'os';
 import EntropyGroup from './EntropyGroup';
+import { PerpEventGap } from './PerpEventQueue';
+import {
+  BookSubscription,
+  BookSubscriptionOptions,
+  BookUpdateCallback,
+} from './bookSubscription';
 
+/**
+ * Perp events with prices and quantities in UI units, told apart by
+ * eventType
+ */
 export type ParsedFillEvent = Modify<
   FillEvent,
   {
+    eventType: 'fill';
     price: number;
     quantity: number;
   }
 >;
 
+export type ParsedOutEvent = Modify<
+  OutEvent,
+  {
+    eventType: 'out';
+    quantity: number;
+  }
+>;
+
+export type ParsedLiquidateEvent = Modify<
+  LiquidateEvent,
+  {
+    eventType: 'liquidate';
+    price: number;
+    quantity: number;
+  }
+>;
+
+export type ParsedPerpEvent =
+  | ParsedFillEvent
+  | ParsedOutEvent
+  | ParsedLiquidateEvent;
+
 export default class PerpMarket {
   metaData!: MetaData;
   publicKey: PublicKey;
@@ -145,27 +180,88 @@ export default class PerpMarket {
     return new PerpEventQueue(parsed);
   }
 
+  /**
+   * Polls the event queue every interval milliseconds and yields its events in
+   * seqNum order, starting at fromSeqNum or, by default, the oldest event still
+   * in the queue. Events overwritten before a poll could read them are yielded
+   * as gap events. An RPC error ends the stream; start a new one from the
+   * seqNum after the last event seen.
+   */
+  async *streamEvents(
+    connection: Connection,
+    opts: { fromSeqNum?: BN; interval?: number } = {},
+  ): AsyncGenerator<ParsedPerpEvent | PerpEventGap> {
+    const interval = opts.interval ?? 1000;
+    let next = opts.fromSeqNum;
+    // eslint-disable-next-line
+    while (true) {
+      const queue = await this.loadEventQueue(connection);
+      next = next ?? queue.oldestSeqNum;
+      for (const event of queue.eventsFrom(next)) {
+        yield event.eventType === 'gap' ? event : this.parseEvent(event);
+      }
+      next = BN.max(next, queue.seqNum);
+      await sleep(interval);
+    }
+  }
+
   async loadFills(connection: Connection): Promise<ParsedFillEvent[]> {
     const q = await this.loadEventQueue(connection);
     // TODO - verify this works
     return q
       .eventsSince(ZERO_BN)
       .map((e) => e.fill)
-      .filter((e) => !!e)
-      .map(this.parseFillEvent.bind(this)) as ParsedFillEvent[];
+      .filter((e): e is FillEvent => !!e)
+      .map((e) => this.parseFillEvent(e));
+  }
+
+  /** Converts an event as decoded from the event queue to UI units */
+  parseEvent(event: {
+    fill?: FillEvent;
+    out?: OutEvent;
+    liquidate?: LiquidateEvent;
+  }): ParsedPerpEvent {
+    if (event.fill) {
+      return this.parseFillEvent(event.fill);
+    } else if (event.out) {
+      return this.parseOutEvent(event.out);
+    } else if (event.liquidate) {
+      return this.parseLiquidateEvent(event.liquidate);
+    }
+    throw new Error('Unknown perp event type');
   }
 
-  parseFillEvent(event) {
+  parseFillEvent(event: FillEvent): ParsedFillEvent {
     const quantity = this.baseLotsToNumber(event.quantity);
     const price = this.priceLotsToNumber(event.price);
 
     return {
       ...event,
+      eventType: 'fill',
       quantity,
       price,
     };
   }
 
+  parseOutEvent(event: OutEvent): ParsedOutEvent {
+    return {
+      ...event,
+      eventType: 'out',
+      quantity: this.baseLotsToNumber(event.quantity),
+    };
+  }
+
+  parseLiquidateEvent(event: LiquidateEvent): ParsedLiquidateEvent {
+    // liquidation prices are native quote per native base, not lots
+    const nativeToUi = new Big(10).pow(this.baseDecimals - this.quoteDecimals);
+    return {
+      ...event,
+      eventType: 'liquidate',
+      quantity: this.baseLotsToNumber(event.quantity),
+      price: event.price.toBig().mul(nativeToUi).toNumber(),
+    };
+  }
+
   async loadBids(connection: Connection): Promise<BookSide> {
     const acc = await connection.getAccountInfo(this.bids);
     const book = new BookSide(
@@ -186,15 +282,27 @@ export default class PerpMarket {
     return book;
   }
 
+  /**
+   * Calls back with the orders and levels that changed each time the bids or
+   * asks account changes. close() the subscription to stop.
+   */
+  subscribeBook(
+    connection: Connection,
+    callback: BookUpdateCallback,
+    opts?: BookSubscriptionOptions,
+  ): BookSubscription {
+    return new BookSubscription(connection, this, callback, opts);
+  }
+
   async loadOrdersForAccount(connection: Connection, account: EntropyAccount) {
     const [bids, asks] = await Promise.all([
       this.loadBids(connection),
       this.loadAsks(connection),
     ]);
-    // @ts-ignore
-    return [...bids, ...asks].filter((order) =>
-      order.owner.equals(account.publicKey),
-    );
+    return [
+      ...bids.ordersByOwner(account.publicKey),
+      ...asks.ordersByOwner(account.publicKey),
+    ];
   }
   uiToNativePriceQuantity(price: number, quantity: number): [BN, BN] {
     const baseUnit = Math.pow(10, this.baseDecimals);
@@ -0,0 +1,159 @@
+import {
+  AccountInfo,
+  Commitment,
+  Connection,
+  PublicKey,
+} from '@solana/web3.js';
+import { sleep } from './utils';
+
+export interface AccountLoaderOptions {
+  /** Keys per getMultipleAccounts request; the RPC limit is 100 */
+  chunkSize?: number;
+  /** Requests in flight at once */
+  maxConcurrency?: number;
+  /** Retries of a rate limited request before giving up */
+  maxRetries?: number;
+  /** Milliseconds before the first retry; doubled for each one after */
+  retryDelay?: number;
+  commitment?: Commitment;
+}
+
+export interface LoadedAccount {
+  publicKey: PublicKey;
+  context: { slot: number };
+  accountInfo: AccountInfo<Buffer>;
+}
+
+interface PendingLoad {
+  publicKey: PublicKey;
+  promise: Promise<LoadedAccount | null>;
+  resolve: (account: LoadedAccount | null) => void;
+  reject: (error: any) => void;
+}
+
+/**
+ * Loads accounts with getMultipleAccounts without flooding the RPC node.
+ * Keys requested in the same tick are gathered and loaded once, split into
+ * chunks of chunkSize with at most maxConcurrency requests in flight, and
+ * requests rejected with HTTP 429 are retried with exponential backoff.
+ *
+ * Connections retry 429s on their own unless created with
+ * disableRetryOnRateLimit; the loader's retries come after those.
+ */
+export class AccountLoader {
+  connection: Connection;
+  chunkSize: number;
+  maxConcurrency: number;
+  maxRetries: number;
+  retryDelay: number;
+  commitment?: Commitment;
+
+  private pending = new Map<string, PendingLoad>();
+  private scheduled = false;
+
+  constructor(connection: Connection, opts: AccountLoaderOptions = {}) {
+    this.connection = connection;
+    this.chunkSize = opts.chunkSize ?? 100;
+    this.maxConcurrency = opts.maxConcurrency ?? 4;
+    this.maxRetries = opts.maxRetries ?? 5;
+    this.retryDelay = opts.retryDelay ?? 500;
+    this.commitment = opts.commitment;
+  }
+
+  /** Resolves to null if the account does not exist */
+  load(publicKey: PublicKey): Promise<LoadedAccount | null> {
+    const key = publicKey.toBase58();
+    const existing = this.pending.get(key);
+    if (existing) {
+      return existing.promise;
+    }
+
+    let resolve!: PendingLoad['resolve'];
+    let reject!: PendingLoad['reject'];
+    const promise = new Promise<LoadedAccount | null>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    this.pending.set(key, { publicKey, promise, resolve, reject });
+
+    if (!this.scheduled) {
+      this.scheduled = true;
+      setTimeout(() => this.flush(), 0);
+    }
+    return promise;
+  }
+
+  /**
+   * Same result as utils.getMultipleAccounts, in the order of publicKeys.
+   * Accounts that do not exist are left out.
+   */
+  async loadMultiple(publicKeys: PublicKey[]): Promise<LoadedAccount[]> {
+    const accounts = await Promise.all(publicKeys.map((pk) => this.load(pk)));
+    return accounts.filter((a): a is LoadedAccount => a !== null);
+  }
+
+  private async flush() {
+    const batch = [...this.pending.values()];
+    this.pending.clear();
+    this.scheduled = false;
+
+    const chunks: PendingLoad[][] = [];
+    for (let i = 0; i < batch.length; i += this.chunkSize) {
+      chunks.push(batch.slice(i, i + this.chunkSize));
+    }
+
+    let next = 0;
+    const worker = async () => {
+      while (next < chunks.length) {
+        const chunk = chunks[next++];
+        try {
+          const accounts = await this.requestWithRetry(
+            chunk.map((p) => p.publicKey),
+          );
+          chunk.forEach((p, i) => p.resolve(accounts[i]));
+        } catch (e) {
+          chunk.forEach((p) => p.reject(e));
+        }
+      }
+    };
+    await Promise.all(
+      [...Array(Math.min(this.maxConcurrency, chunks.length))].map(worker),
+    );
+  }
+
+  private async requestWithRetry(
+    publicKeys: PublicKey[],
+  ): Promise<(LoadedAccount | null)[]> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.request(publicKeys);
+      } catch (e) {
+        if (!isRateLimited(e) || attempt >= this.maxRetries) {
+          throw e;
+        }
+        await sleep(this.retryDelay * 2 ** attempt);
+      }
+    }
+  }
+
+  private async request(
+    publicKeys: PublicKey[],
+  ): Promise<(LoadedAccount | null)[]> {
+    const { context, value } =
+      await this.connection.getMultipleAccountsInfoAndContext(
+        publicKeys,
+        this.commitment,
+      );
+    return value.map((accountInfo, i) =>
+      accountInfo ? { publicKey: publicKeys[i], context, accountInfo } : null,
+    );
+  }
+}
+
+function isRateLimited(e: any): boolean {
+  return (
+    e?.code === 429 ||
+    e?.code === -32429 ||
+    /^429\b|too many requests/i.test(e?.message ?? '')
+  );
+}
@@ -0,0 +1,284 @@
+import { OpenOrders } from '@project-serum/serum';
+import {
+  AccountInfo,
+  Commitment,
+  Connection,
+  PublicKey,
+} from '@solana/web3.js';
+import { AccountLoader } from './accountLoader';
+import EntropyAccount from './EntropyAccount';
+import { AdvancedOrdersLayout, EntropyAccountLayout } from './layout';
+import { ConsoleLogger, Logger } from './logger';
+import { zeroKey } from './utils';
+
+export interface EntropyAccountSubscriptionOptions {
+  commitment?: Commitment;
+  /**
+   * Milliseconds between reloads that pick up anything the websocket missed.
+   * Defaults to 60000; 0 disables
+   */
+  resyncInterval?: number;
+  logger?: Logger;
+}
+
+export type EntropyAccountCallback = (
+  entropyAccount: EntropyAccount,
+  slot: number,
+) => void;
+
+interface AccountState {
+  accountInfo: AccountInfo<Buffer>;
+  slot: number;
+}
+
+/** The events of the websocket client web3.js keeps in Connection._rpcWebSocket */
+interface RpcWebSocketEvents {
+  on(event: 'open', listener: () => void): unknown;
+  off(event: 'open', listener: () => void): unknown;
+}
+
+/**
+ * The connection's websocket client, which is not part of the public
+ * Connection API, or undefined where it cannot be reached
+ */
+function getRpcWebSocket(
+  connection: Connection,
+): RpcWebSocketEvents | undefined {
+  const { _rpcWebSocket: webSocket } = connection as unknown as {
+    _rpcWebSocket?: Partial<RpcWebSocketEvents>;
+  };
+  return typeof webSocket?.on === 'function' &&
+    typeof webSocket.off === 'function'
+    ? (webSocket as RpcWebSocketEvents)
+    : undefined;
+}
+
+/**
+ * Keeps a decoded EntropyAccount up to date from account change
+ * notifications for the account, its spot open orders and its advanced
+ * orders, and calls back with a new EntropyAccount whenever any of them
+ * changes.
+ *
+ * Notifications no newer than the slot already held for an account are
+ * dropped, and changes that arrive together are delivered in one callback.
+ * web3.js resubscribes after the websocket reconnects; the accounts are then
+ * reloaded so changes made while disconnected are not lost. Connections whose
+ * websocket cannot be watched are only reloaded every resyncInterval.
+ */
+export class EntropyAccountSubscription {
+  publicKey: PublicKey;
+  connection: Connection;
+  logger: Logger;
+  /** The latest account delivered to the callback */
+  entropyAccount?: EntropyAccount;
+  /** Highest slot among the accounts entropyAccount was decoded from */
+  slot = 0;
+  /** Resolves with the first account delivered to the callback */
+  ready: Promise<EntropyAccount>;
+
+  private loader: AccountLoader;
+  private callback: EntropyAccountCallback;
+  private commitment?: Commitment;
+  private states = new Map<string, AccountState>();
+  private subscriptionIds = new Map<string, number>();
+  private changed = false;
+  private scheduled = false;
+  private closed = false;
+  private timer?: ReturnType<typeof setInterval>;
+  private webSocket?: RpcWebSocketEvents;
+  private resolveReady!: (entropyAccount: EntropyAccount) => void;
+  private onReconnect = () => {
+    this.resync();
+  };
+
+  constructor(
+    connection: Connection,
+    loader: AccountLoader,
+    publicKey: PublicKey,
+    callback: EntropyAccountCallback,
+    opts: EntropyAccountSubscriptionOptions = {},
+  ) {
+    this.connection = connection;
+    this.loader = loader;
+    this.publicKey = publicKey;
+    this.callback = callback;
+    this.commitment = opts.commitment;
+    this.logger = opts.logger ?? new ConsoleLogger();
+
+    this.ready = new Promise((resolve) => (this.resolveReady = resolve));
+    this.listen(publicKey);
+    this.resync();
+
+    const resyncInterval = opts.resyncInterval ?? 60000;
+    if (resyncInterval > 0) {
+      this.timer = setInterval(() => this.resync(), resyncInterval);
+    }
+    this.webSocket = getRpcWebSocket(connection);
+    if (this.webSocket) {
+      this.webSocket.on('open', this.onReconnect);
+    } else {
+      this.logger.warn(
+        'Cannot watch the websocket for reconnects, relying on resyncInterval',
+        { entropyAccount: publicKey.toBase58(), resyncInterval },
+      );
+    }
+  }
+
+  /** Reload the account and everything it references */
+  async resync(): Promise<void> {
+    try {
+      const keys = [this.publicKey, ...this.dependencies()];
+      await Promise.all(keys.map((pk) => this.fetch(pk)));
+    } catch (e) {
+      this.logger.warn('Could not reload entropy account', {
+        entropyAccount: this.publicKey.toBase58(),
+        error: e,
+      });
+    }
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.timer) clearInterval(this.timer);
+    this.webSocket?.off('open', this.onReconnect);
+    await Promise.all(
+      [...this.subscriptionIds.values()].map((id) =>
+        this.connection.removeAccountChangeListener(id),
+      ),
+    );
+    this.subscriptionIds.clear();
+  }
+
+  private listen(publicKey: PublicKey) {
+    const id = this.connection.onAccountChange(
+      publicKey,
+      (accountInfo, { slot }) => this.update(publicKey, accountInfo, slot),
+      this.commitment,
+    );
+    this.subscriptionIds.set(publicKey.toBase58(), id);
+  }
+
+  private async fetch(publicKey: PublicKey) {
+    const account = await this.loader.load(publicKey);
+    if (account) {
+      this.update(publicKey, account.accountInfo, account.context.slot);
+    }
+  }
+
+  private update(
+    publicKey: PublicKey,
+    accountInfo: AccountInfo<Buffer>,
+    slot: number,
+  ) {
+    const key = publicKey.toBase58();
+    const state = this.states.get(key);
+    if (this.closed || (state && slot <= state.slot)) {
+      return;
+    }
+    if (key !== this.publicKey.toBase58() && !this.subscriptionIds.has(key)) {
+      // no longer referenced by the entropy account
+      return;
+    }
+
+    this.states.set(key, { accountInfo, slot });
+    if (key === this.publicKey.toBase58()) {
+      this.updateDependencies();
+    }
+    this.changed = true;
+    if (!this.scheduled) {
+      this.scheduled = true;
+      setTimeout(() => this.deliver(), 0);
+    }
+  }
+
+  /** Open orders and advanced orders keys of the latest entropy account */
+  private dependencies(): PublicKey[] {
+    const state = this.states.get(this.publicKey.toBase58());
+    if (!state) return [];
+    const decoded = EntropyAccountLayout.decode(state.accountInfo.data);
+    return [...decoded.spotOpenOrders, decoded.advancedOrdersKey].filter(
+      (pk: PublicKey) => !pk.equals(zeroKey),
+    );
+  }
+
+  /** Follow open orders accounts added to or removed from the account */
+  private updateDependencies() {
+    const wanted = new Map(
+      this.dependencies().map((pk) => [pk.toBase58(), pk]),
+    );
+    wanted.set(this.publicKey.toBase58(), this.publicKey);
+
+    for (const [key, id] of this.subscriptionIds) {
+      if (!wanted.has(key)) {
+        this.connection.removeAccountChangeListener(id).catch((e) =>
+          this.logger.warn('Could not remove account listener', {
+            account: key,
+            error: e,
+          }),
+        );
+        this.subscriptionIds.delete(key);
+        this.states.delete(key);
+      }
+    }
+    for (const [key, pk] of wanted) {
+      if (!this.subscriptionIds.has(key)) {
+        this.listen(pk);
+        this.fetch(pk).catch((e) =>
+          this.logger.warn('Could not load account', {
+            account: key,
+            error: e,
+          }),
+        );
+      }
+    }
+  }
+
+  private deliver() {
+    this.scheduled = false;
+    const state = this.states.get(this.publicKey.toBase58());
+    if (this.closed || !this.changed || !state) {
+      return;
+    }
+
+    const dependencies = this.dependencies();
+    if (dependencies.some((pk) => !this.states.has(pk.toBase58()))) {
+      // delivered once the rest has loaded
+      return;
+    }
+
+    const entropyAccount = new EntropyAccount(
+      this.publicKey,
+      EntropyAccountLayout.decode(state.accountInfo.data),
+    );
+
+    entropyAccount.spotOpenOrdersAccounts = entropyAccount.spotOpenOrders.map(
+      (pk) => {
+        if (pk.equals(zeroKey)) return undefined;
+        const { accountInfo } = this.states.get(pk.toBase58()) as AccountState;
+        // the owner is the dex program, whose version decides the layout
+        return OpenOrders.fromAccountInfo(pk, accountInfo, accountInfo.owner);
+      },
+    );
+    if (!entropyAccount.advancedOrdersKey.equals(zeroKey)) {
+      const { accountInfo } = this.states.get(
+        entropyAccount.advancedOrdersKey.toBase58(),
+      ) as AccountState;
+      entropyAccount.advancedOrders = AdvancedOrdersLayout.decode(
+        accountInfo.data,
+      ).orders;
+    }
+
+    this.changed = false;
+    this.entropyAccount = entropyAccount;
+    this.slot = Math.max(...[...this.states.values()].map((s) => s.slot));
+    this.resolveReady(entropyAccount);
+    try {
+      this.callback(entropyAccount, this.slot);
+    } catch (e) {
+      this.logger.error('Entropy account callback error', {
+        entropyAccount: this.publicKey.toBase58(),
+        error: e,
+      });
+    }
+  }
+}
@@ -1,8 +1,10 @@
 import BN from 'bn.js';
 import { PublicKey } from '@solana/web3.js';
+import EntropyGroup from './EntropyGroup';
 import { DataType } from './layout';
+import type { MarketBook } from './marketBook';
 import PerpMarket from './PerpMarket';
-import { ZERO_BN } from './utils';
+import { nativeToUi, uiToNative, ZERO_BN } from './utils';
 
 export interface PerpOrder {
   orderId: BN;
@@ -19,8 +21,62 @@ export interface PerpOrder {
   timestamp: BN;
 }
 
+/** The parts of an order that every book has, perp or spot */
+export interface BookOrder {
+  orderId: BN;
+  /** The entropy account for perp orders, the open orders account for spot */
+  owner: PublicKey;
+  openOrdersSlot: number;
+  price: number;
+  priceLots: BN;
+  size: number;
+  sizeLots: BN;
+  side: 'buy' | 'sell';
+  clientId?: BN;
+}
+
+/**
+ * A taker order to simulate, sized in base (quantity) or in quote spent or
+ * received (quoteAmount), both in UI units. Without a limitPrice it takes
+ * whatever the book holds, like a 'market' order.
+ */
+export type TakerOrderSize = (
+  | { quantity: number; quoteAmount?: undefined }
+  | { quoteAmount: number; quantity?: undefined }
+) & {
+  limitPrice?: number;
+};
+
+export type TakerOrderParams = TakerOrderSize & {
+  /**
+   * The group the market is in, whose PerpMarketInfo has the taker fee.
+   * Needed for perp books only; spot books know their fee.
+   */
+  entropyGroup?: EntropyGroup;
+};
+
+/** What a taker order would fill, in UI units */
+export interface TakerOrderSimulation {
+  /** The taker's side, opposite the book side */
+  side: 'buy' | 'sell';
+  /** Undefined when nothing fills */
+  averagePrice?: number;
+  worstPrice?: number;
+  /** Price levels the order fills against, fully or partly */
+  levelsConsumed: number;
+  filledQuantity: number;
+  /** Quote paid or received for the fill, before fees */
+  filledQuote: number;
+  /** Base left unfilled; for quoteAmount orders, zero */
+  unfilledQuantity: number;
+  /** Quote left unspent; for quantity orders, zero */
+  unfilledQuote: number;
+  takerFee: number;
+}
+
 // TODO - maybe store ref inside PerpMarket class
-export class BookSide {
+export class BookSide implements MarketBook {
+  readonly kind = 'perp';
   publicKey: PublicKey;
   isBids: boolean;
   perpMarket: PerpMarket;
@@ -32,6 +88,13 @@ export class BookSide {
   leafCount!: number;
   nodes!: any[]; // This is either AnyNode, FreeNode, InnerNode...
 
+  private orderCache?: PerpOrder[];
+  private indexes?: {
+    byOrderId: Map<string, PerpOrder>;
+    byClientId: Map<string, PerpOrder>;
+    byOwner: Map<string, PerpOrder[]>;
+  };
+
   constructor(publicKey: PublicKey, perpMarket: PerpMarket, decoded: any) {
     this.publicKey = publicKey;
     this.isBids = decoded.metaData.dataType === DataType.Bids;
@@ -39,9 +102,67 @@ export class BookSide {
     Object.assign(this, decoded);
   }
 
+  /** Orders best price first, decoded from the nodes on first use */
+  getOrders(): PerpOrder[] {
+    if (!this.orderCache) {
+      this.orderCache = this.decodeOrders();
+    }
+    return this.orderCache;
+  }
+
   *items(): Generator<PerpOrder> {
+    for (const order of this.getOrders()) {
+      yield order;
+    }
+  }
+
+  findByOrderId(orderId: BN): PerpOrder | undefined {
+    return this.getIndexes().byOrderId.get(orderId.toString());
+  }
+
+  findByClientId(owner: PublicKey, clientId: BN): PerpOrder | undefined {
+    return this.getIndexes().byClientId.get(
+      `${owner.toBase58()}:${clientId.toString()}`,
+    );
+  }
+
+  /** The owner's orders, best price first */
+  ordersByOwner(owner: PublicKey): PerpOrder[] {
+    return this.getIndexes().byOwner.get(owner.toBase58()) ?? [];
+  }
+
+  private getIndexes() {
+    if (!this.indexes) {
+      const indexes = {
+        byOrderId: new Map<string, PerpOrder>(),
+        byClientId: new Map<string, PerpOrder>(),
+        byOwner: new Map<string, PerpOrder[]>(),
+      };
+      for (const order of this.getOrders()) {
+        const owner = order.owner.toBase58();
+        indexes.byOrderId.set(order.orderId.toString(), order);
+        if (order.clientId && !order.clientId.isZero()) {
+          indexes.byClientId.set(
+            `${owner}:${order.clientId.toString()}`,
+            order,
+          );
+        }
+        const owned = indexes.byOwner.get(owner);
+        if (owned) {
+          owned.push(order);
+        } else {
+          indexes.byOwner.set(owner, [order]);
+        }
+      }
+      this.indexes = indexes;
+    }
+    return this.indexes;
+  }
+
+  private decodeOrders(): PerpOrder[] {
+    const orders: PerpOrder[] = [];
     if (this.leafCount === 0) {
-      return;
+      return orders;
     }
     const stack = [this.rootNode];
     while (stack.length > 0) {
@@ -52,7 +173,7 @@ export class BookSide {
 
       if (leafNode) {
         const price = getPriceFromKey(leafNode.key);
-        yield {
+        orders.push({
           orderId: leafNode.key,
           clientId: leafNode.clientOrderId,
           owner: leafNode.owner,
@@ -65,7 +186,7 @@ export class BookSide {
           side: (this.isBids ? 'buy' : 'sell') as 'buy' | 'sell',
           bestInitial: leafNode.bestInitial,
           timestamp: leafNode.timestamp,
-        };
+        });
       } else if (innerNode) {
         if (this.isBids) {
           stack.push(innerNode.children[0], innerNode.children[1]);
@@ -74,6 +195,7 @@ export class BookSide {
         }
       }
     }
+    return orders;
   }
 
   /**
@@ -90,7 +212,31 @@ export class BookSide {
     }
     return undefined;
   }
+  /**
+   * Walks the book to find what a taker order against this side would fill,
+   * stopping at limitPrice. Nothing is sent; the book does not change.
+   */
+  simulateTakerOrder(params: TakerOrderParams): TakerOrderSimulation {
+    const { perpMarket } = this;
+    const { entropyGroup } = params;
+    if (!entropyGroup) {
+      throw new Error('Simulating a perp order needs the entropyGroup');
+    }
+    const marketIndex = entropyGroup.getPerpMarketIndex(perpMarket.publicKey);
+    const takerFee = entropyGroup.perpMarkets[marketIndex].takerFee.toNumber();
+    return simulateTakerFill(
+      this,
+      this.isBids,
+      perpBookLots(perpMarket),
+      takerFee,
+      params,
+    );
+  }
+
   getBest(): PerpOrder | undefined {
+    if (this.orderCache) {
+      return this.orderCache[0];
+    }
     if (this.leafCount === 0) {
       return;
     }
@@ -135,7 +281,7 @@ export class BookSide {
       } else if (levels.length === depth) {
         break;
       } else {
-        levels.push([priceLots, sizeLots]);
+        levels.push([priceLots, sizeLots.clone()]);
       }
     }
     return levels.map(([priceLots, sizeLots]) => [
@@ -147,6 +293,210 @@ export class BookSide {
   }
 }
 
+/**
+ * Conversions between UI units and the lots a book is kept in. serum's
+ * Market has them all under these names.
+ */
+export interface BookLots {
+  baseSizeNumberToLots(size: number): BN;
+  baseSizeLotsToNumber(size: BN): number;
+  quoteSizeNumberToLots(size: number): BN;
+  quoteSizeLotsToNumber(size: BN): number;
+  priceLotsToNumber(price: BN): number;
+}
+
+function perpBookLots(perpMarket: PerpMarket): BookLots {
+  return {
+    baseSizeNumberToLots: (size) =>
+      uiToNative(size, perpMarket.baseDecimals).div(perpMarket.baseLotSize),
+    baseSizeLotsToNumber: (size) => perpMarket.baseLotsToNumber(size),
+    quoteSizeNumberToLots: (size) =>
+      uiToNative(size, perpMarket.quoteDecimals).div(perpMarket.quoteLotSize),
+    quoteSizeLotsToNumber: (size) =>
+      nativeToUi(
+        size.mul(perpMarket.quoteLotSize).toNumber(),
+        perpMarket.quoteDecimals,
+      ),
+    priceLotsToNumber: (price) => perpMarket.priceLotsToNumber(price),
+  };
+}
+
+/**
+ * Fills a taker order against orders of one book side, given best price
+ * first, and charges takerFee, a fraction of the quote filled
+ */
+export function simulateTakerFill(
+  orders: Iterable<BookOrder>,
+  isBids: boolean,
+  lots: BookLots,
+  takerFee: number,
+  params: TakerOrderSize,
+): TakerOrderSimulation {
+  const { limitPrice } = params;
+  let baseLeft =
+    params.quantity !== undefined
+      ? lots.baseSizeNumberToLots(params.quantity)
+      : undefined;
+  let quoteLeft =
+    params.quoteAmount !== undefined
+      ? lots.quoteSizeNumberToLots(params.quoteAmount)
+      : undefined;
+
+  const filledBase = ZERO_BN.clone();
+  const filledQuote = ZERO_BN.clone();
+  let levelsConsumed = 0;
+  let lastPriceLots: BN | undefined;
+  for (const order of orders) {
+    if (
+      limitPrice !== undefined &&
+      (isBids ? order.price < limitPrice : order.price > limitPrice)
+    ) {
+      break;
+    }
+    let sizeLots = order.sizeLots;
+    if (baseLeft) {
+      sizeLots = BN.min(sizeLots, baseLeft);
+    } else if (quoteLeft) {
+      sizeLots = BN.min(sizeLots, quoteLeft.div(order.priceLots));
+    }
+    if (sizeLots.isZero()) {
+      break;
+    }
+
+    if (!lastPriceLots || !lastPriceLots.eq(order.priceLots)) {
+      levelsConsumed++;
+      lastPriceLots = order.priceLots;
+    }
+    const quoteLots = sizeLots.mul(order.priceLots);
+    filledBase.iadd(sizeLots);
+    filledQuote.iadd(quoteLots);
+    baseLeft = baseLeft?.sub(sizeLots);
+    quoteLeft = quoteLeft?.sub(quoteLots);
+  }
+
+  const filledQuantity = lots.baseSizeLotsToNumber(filledBase);
+  const filledQuoteUi = lots.quoteSizeLotsToNumber(filledQuote);
+  return {
+    side: isBids ? 'sell' : 'buy',
+    averagePrice: filledBase.isZero()
+      ? undefined
+      : filledQuoteUi / filledQuantity,
+    worstPrice: lastPriceLots
+      ? lots.priceLotsToNumber(lastPriceLots)
+      : undefined,
+    levelsConsumed,
+    filledQuantity,
+    filledQuote: filledQuoteUi,
+    unfilledQuantity: baseLeft ? lots.baseSizeLotsToNumber(baseLeft) : 0,
+    unfilledQuote: quoteLeft ? lots.quoteSizeLotsToNumber(quoteLeft) : 0,
+    takerFee: filledQuoteUi * takerFee,
+  };
+}
+
 export function getPriceFromKey(key: BN) {
   return key.ushrn(64); // TODO - maybe use shrn instead
 }
+
+/**
+ * A change to one order between two snapshots of a book side. order is the
+ * order as it is now, or as it was for removed orders.
+ */
+export interface L3OrderEvent {
+  type: 'added' | 'removed' | 'changed';
+  order: PerpOrder;
+  /** Size in lots before the change; zero for added orders */
+  previousSizeLots: BN;
+}
+
+/** The new total size at a price; zero when the level is gone */
+export interface L2LevelDelta {
+  side: 'buy' | 'sell';
+  price: number;
+  priceLots: BN;
+  size: number;
+  sizeLots: BN;
+  previousSizeLots: BN;
+}
+
+export interface BookSideDiff {
+  orders: L3OrderEvent[];
+  /** Best price first */
+  levels: L2LevelDelta[];
+}
+
+function orderKey(order: PerpOrder) {
+  return `${order.orderId.toString()}:${order.owner.toBase58()}`;
+}
+
+function levelSizes(bookSide: BookSide | undefined) {
+  const levels = new Map<string, { priceLots: BN; sizeLots: BN }>();
+  if (!bookSide) return levels;
+  for (const { priceLots, sizeLots } of bookSide) {
+    const level = levels.get(priceLots.toString());
+    if (level) {
+      level.sizeLots = level.sizeLots.add(sizeLots);
+    } else {
+      levels.set(priceLots.toString(), { priceLots, sizeLots });
+    }
+  }
+  return levels;
+}
+
+/**
+ * Order and level changes that turn prev into next, two snapshots of the same
+ * book side. Without prev every order and level in next counts as added.
+ */
+export function diffBookSides(
+  prev: BookSide | undefined,
+  next: BookSide,
+): BookSideDiff {
+  const prevOrders = new Map<string, PerpOrder>();
+  if (prev) {
+    for (const order of prev) {
+      prevOrders.set(orderKey(order), order);
+    }
+  }
+
+  const orders: L3OrderEvent[] = [];
+  for (const order of next) {
+    const key = orderKey(order);
+    const previous = prevOrders.get(key);
+    prevOrders.delete(key);
+    if (!previous) {
+      orders.push({ type: 'added', order, previousSizeLots: new BN(0) });
+    } else if (!previous.sizeLots.eq(order.sizeLots)) {
+      orders.push({
+        type: 'changed',
+        order,
+        previousSizeLots: previous.sizeLots,
+      });
+    }
+  }
+  for (const order of prevOrders.values()) {
+    orders.push({ type: 'removed', order, previousSizeLots: order.sizeLots });
+  }
+
+  const prevLevels = levelSizes(prev);
+  const nextLevels = levelSizes(next);
+  const levels: L2LevelDelta[] = [];
+  for (const key of new Set([...prevLevels.keys(), ...nextLevels.keys()])) {
+    const before = prevLevels.get(key);
+    const after = nextLevels.get(key);
+    const sizeLots = after?.sizeLots ?? new BN(0);
+    const previousSizeLots = before?.sizeLots ?? new BN(0);
+    if (sizeLots.eq(previousSizeLots)) continue;
+    const priceLots = (after ?? before)?.priceLots as BN;
+    levels.push({
+      side: next.isBids ? 'buy' : 'sell',
+      price: next.perpMarket.priceLotsToNumber(priceLots),
+      priceLots,
+      size: next.perpMarket.baseLotsToNumber(sizeLots),
+      sizeLots,
+      previousSizeLots,
+    });
+  }
+  levels.sort((a, b) =>
+    next.isBids ? b.priceLots.cmp(a.priceLots) : a.priceLots.cmp(b.priceLots),
+  );
+  return { orders, levels };
+}
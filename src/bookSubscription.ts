@@ -0,0 +1,143 @@
+import {
+  AccountInfo,
+  Commitment,
+  Connection,
+  PublicKey,
+} from '@solana/web3.js';
+import { BookSide, BookSideDiff, diffBookSides } from './book';
+import { BookSideLayout } from './layout';
+import { ConsoleLogger, Logger } from './logger';
+import type PerpMarket from './PerpMarket';
+
+export interface BookUpdate {
+  side: 'buy' | 'sell';
+  /** The book side as of slot */
+  bookSide: BookSide;
+  /** Changes since the previous update for this side */
+  diff: BookSideDiff;
+  slot: number;
+}
+
+export type BookUpdateCallback = (update: BookUpdate) => void;
+
+export interface BookSubscriptionOptions {
+  commitment?: Commitment;
+  logger?: Logger;
+}
+
+/**
+ * Follows a perp market's bids and asks accounts and calls back with what
+ * changed whenever either one does. The first update for each side diffs
+ * against an empty book, so it lists every order.
+ */
+export class BookSubscription {
+  perpMarket: PerpMarket;
+  connection: Connection;
+  logger: Logger;
+  bids?: BookSide;
+  asks?: BookSide;
+  /**
+   * Resolves once both sides have been delivered. Rejects if they could not
+   * be loaded, which is logged; changes are still delivered as they come.
+   */
+  ready: Promise<void>;
+
+  private callback: BookUpdateCallback;
+  private commitment?: Commitment;
+  private slots = new Map<string, number>();
+  private subscriptionIds: number[] = [];
+  private closed = false;
+
+  constructor(
+    connection: Connection,
+    perpMarket: PerpMarket,
+    callback: BookUpdateCallback,
+    opts: BookSubscriptionOptions = {},
+  ) {
+    this.connection = connection;
+    this.perpMarket = perpMarket;
+    this.callback = callback;
+    this.commitment = opts.commitment;
+    this.logger = opts.logger ?? new ConsoleLogger();
+
+    for (const publicKey of [perpMarket.bids, perpMarket.asks]) {
+      this.subscriptionIds.push(
+        connection.onAccountChange(
+          publicKey,
+          (accountInfo, { slot }) => this.update(publicKey, accountInfo, slot),
+          this.commitment,
+        ),
+      );
+    }
+    this.ready = Promise.all(
+      [perpMarket.bids, perpMarket.asks].map(async (publicKey) => {
+        const { context, value } = await connection.getAccountInfoAndContext(
+          publicKey,
+          this.commitment,
+        );
+        if (value) {
+          this.update(publicKey, value, context.slot);
+        }
+      }),
+    ).then(() => undefined);
+    // handled here so a failed load does not go unhandled when nobody awaits
+    this.ready.catch((e) =>
+      this.logger.error('Could not load book', {
+        perpMarket: perpMarket.publicKey.toBase58(),
+        error: e,
+      }),
+    );
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    const ids = this.subscriptionIds;
+    this.subscriptionIds = [];
+    await Promise.all(
+      ids.map((id) => this.connection.removeAccountChangeListener(id)),
+    );
+  }
+
+  private update(
+    publicKey: PublicKey,
+    accountInfo: AccountInfo<Buffer>,
+    slot: number,
+  ) {
+    const key = publicKey.toBase58();
+    const last = this.slots.get(key);
+    if (this.closed || (last !== undefined && slot <= last)) {
+      return;
+    }
+    this.slots.set(key, slot);
+
+    const bookSide = new BookSide(
+      publicKey,
+      this.perpMarket,
+      BookSideLayout.decode(accountInfo.data),
+    );
+    const previous = bookSide.isBids ? this.bids : this.asks;
+    if (bookSide.isBids) {
+      this.bids = bookSide;
+    } else {
+      this.asks = bookSide;
+    }
+
+    const diff = diffBookSides(previous, bookSide);
+    if (previous && !diff.orders.length) {
+      return;
+    }
+    try {
+      this.callback({
+        side: bookSide.isBids ? 'buy' : 'sell',
+        bookSide,
+        diff,
+        slot,
+      });
+    } catch (e) {
+      this.logger.error('Book callback error', {
+        perpMarket: this.perpMarket.publicKey.toBase58(),
+        error: e,
+      });
+    }
+  }
+}
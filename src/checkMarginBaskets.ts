@@ -1,6 +1,7 @@
 import { Account, Commitment, Connection } from '@solana/web3.js';
 import { EntropyClient } from './client';
 import { Cluster, Config } from './config';
+import { EntropyAccountIndex } from './entropyAccountIndex';
 import * as os from 'os';
 import * as fs from 'fs';
 
@@ -30,11 +31,8 @@ const payer = new Account(
 
 async function check() {
   const group = await client.getEntropyGroup(entropyGroupKey);
-  const entropyAccounts = await client.getAllEntropyAccounts(
-    group,
-    undefined,
-    true,
-  );
+  const index = await new EntropyAccountIndex(client, group).load();
+  const entropyAccounts = index.all();
   let total = 0;
 
   for (const entropyAccount of entropyAccounts) {
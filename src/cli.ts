@@ -28,8 +28,10 @@ import {
   PerpMarketConfig,
 } from './config';
 import { EntropyClient } from './client';
+import { EntropyAccountIndex } from './entropyAccountIndex';
 import { throwUndefined, uiToNative } from './utils';
 import { QUOTE_INDEX } from './layout';
+import { serveRemoteSigner } from './signer';
 import { Coder } from '@project-serum/anchor';
 import idl from './entropy_logs.json';
 import { getMarketIndexBySymbol } from '.';
@@ -708,20 +710,15 @@ yargs(hideBin(process.argv)).command(
 
     const client = new EntropyClient(connection, groupConfig.entropyProgramId);
     const entropyGroup = await client.getEntropyGroup(groupConfig.publicKey);
-    const entropyAccounts = await client.getAllEntropyAccounts(
-      entropyGroup,
-      [],
-      false,
-    );
-
-    entropyAccounts.sort((a, b) =>
-      b.perpAccounts[perpMarketConfig.marketIndex].basePosition
-        .abs()
-        .cmp(a.perpAccounts[perpMarketConfig.marketIndex].basePosition.abs()),
+    const index = await new EntropyAccountIndex(client, entropyGroup, {
+      includeOpenOrders: false,
+    }).load();
+    const entropyAccounts = index.topByPerpPosition(
+      perpMarketConfig.marketIndex,
     );
 
     const entropyCache = await entropyGroup.loadCache(connection);
-    for (let i = 0; i < 10; i++) {
+    for (let i = 0; i < entropyAccounts.length; i++) {
       console.log(
         `${i}: ${entropyAccounts[i].toPrettyString(
           groupConfig,
@@ -756,20 +753,16 @@ yargs(hideBin(process.argv)).command(
 
     const client = new EntropyClient(connection, groupConfig.entropyProgramId);
     const entropyGroup = await client.getEntropyGroup(groupConfig.publicKey);
-    const entropyAccounts = await client.getAllEntropyAccounts(
-      entropyGroup,
-      [],
-      false,
-    );
-
-    entropyAccounts.sort((a, b) =>
-      b[args.deposits_or_borrows as string][marketIndex]
-        .abs()
-        .cmp(a[args.deposits_or_borrows as string][marketIndex].abs()),
-    );
+    const index = await new EntropyAccountIndex(client, entropyGroup, {
+      includeOpenOrders: false,
+    }).load();
+    const entropyAccounts =
+      args.deposits_or_borrows === 'borrows'
+        ? index.topByBorrow(marketIndex)
+        : index.topByDeposit(marketIndex);
 
     const entropyCache = await entropyGroup.loadCache(connection);
-    for (let i = 0; i < 10; i++) {
+    for (let i = 0; i < entropyAccounts.length; i++) {
       console.log(
         `${i}: ${entropyAccounts[i].toPrettyString(
           groupConfig,
@@ -1036,3 +1029,140 @@ yargs(hideBin(process.argv)).command(
     process.exit(0);
   },
 ).argv;
+
+yargs(hideBin(process.argv)).command(
+  'serve-signer <socket> <descriptor>',
+  'hold a keypair in this process and sign for bots started with REMOTE_SIGNER=<descriptor>',
+  (y) => {
+    return y
+      .positional('socket', {
+        describe: 'the unix socket path to listen on',
+        type: 'string',
+      })
+      .positional('descriptor', {
+        describe: 'where to write the descriptor file bots load',
+        type: 'string',
+      })
+      .option(...keypairDesc);
+  },
+  async (args) => {
+    const account = readKeypair(args.keypair as string);
+    serveRemoteSigner(
+      args.socket as string,
+      account,
+      args.descriptor as string,
+    );
+    console.log(
+      `signing for ${account.publicKey.toBase58()} on ${args.socket}`,
+    );
+  },
+).argv;
+
+yargs(hideBin(process.argv)).command(
+  'create-lookup-table <group>',
+  'create an address lookup table holding the accounts shared by the group',
+  (y) => {
+    return y
+      .positional(...groupDesc)
+      .option(...keypairDesc)
+      .option(...configDesc);
+  },
+  async (args) => {
+    console.log('create-lookup-table', args);
+    const account = readKeypair(args.keypair as string);
+    const config = readConfig(args.config as string);
+    const groupConfig = config.getGroupWithName(
+      args.group as string,
+    ) as GroupConfig;
+
+    const connection = openConnection(config, groupConfig.cluster);
+
+    const client = new EntropyClient(connection, groupConfig.entropyProgramId);
+    const lookupTable = await client.createGroupLookupTable(
+      groupConfig,
+      account,
+    );
+    console.log(`lookup table: ${lookupTable.toBase58()}`);
+    process.exit(0);
+  },
+).argv;
+
+yargs(hideBin(process.argv)).command(
+  'extend-lookup-table <group> <lookup_table>',
+  'add group accounts missing from an address lookup table',
+  (y) => {
+    return y
+      .positional(...groupDesc)
+      .positional('lookup_table', {
+        describe: 'the public key of the lookup table',
+        type: 'string',
+      })
+      .option(...keypairDesc)
+      .option(...configDesc);
+  },
+  async (args) => {
+    console.log('extend-lookup-table', args);
+    const account = readKeypair(args.keypair as string);
+    const config = readConfig(args.config as string);
+    const groupConfig = config.getGroupWithName(
+      args.group as string,
+    ) as GroupConfig;
+
+    const connection = openConnection(config, groupConfig.cluster);
+
+    const client = new EntropyClient(connection, groupConfig.entropyProgramId);
+    const added = await client.extendGroupLookupTable(
+      new PublicKey(args.lookup_table as string),
+      groupConfig,
+      account,
+    );
+    console.log(`added ${added.length} addresses`);
+    process.exit(0);
+  },
+).argv;
+
+yargs(hideBin(process.argv)).command(
+  'dump-snapshot <group> <filename>',
+  'write the group, its banks, perp markets, books, event queues and the ' +
+    'given entropy accounts, read at one slot, to a file',
+  (y) => {
+    return y
+      .positional(...groupDesc)
+      .positional('filename', {
+        describe: 'the file to write the snapshot to',
+        type: 'string',
+      })
+      .option('accounts', {
+        describe: 'entropy accounts to include',
+        type: 'array',
+        default: [],
+      })
+      .option(...configDesc);
+  },
+  async (args) => {
+    console.log('dump-snapshot', args);
+    const config = readConfig(args.config as string);
+    const groupConfig = config.getGroupWithName(
+      args.group as string,
+    ) as GroupConfig;
+
+    const connection = openConnection(config, groupConfig.cluster);
+
+    const client = new EntropyClient(connection, groupConfig.entropyProgramId);
+    const snapshot = await client.loadGroupSnapshot(groupConfig.publicKey, {
+      books: true,
+      eventQueues: true,
+      entropyAccounts: (args.accounts as string[]).map(
+        (pk) => new PublicKey(pk),
+      ),
+    });
+    fs.writeFileSync(
+      args.filename as string,
+      JSON.stringify(snapshot, null, 2),
+    );
+    console.log(
+      `wrote ${snapshot.accounts.size} accounts at slot ${snapshot.slot}`,
+    );
+    process.exit(0);
+  },
+).argv;
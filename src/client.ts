@@ -1,35 +1,31 @@
 import {
   Account,
   AccountInfo,
+  AddressLookupTableAccount,
+  AddressLookupTableProgram,
   Connection,
-  Keypair,
-  LAMPORTS_PER_SOL,
   PublicKey,
   SimulatedTransactionResponse,
-  SystemProgram,
   Transaction,
   TransactionConfirmationStatus,
+  TransactionMessage,
   TransactionSignature,
+  VersionedTransaction,
 } from '@solana/web3.js';
 import BN from 'bn.js';
+import { utils } from '@project-serum/anchor';
 import {
   createAccountInstruction,
   createSignerKeyAndNonce,
   createTokenAccountInstructions,
   getFilteredProgramAccounts,
-  getMultipleAccounts,
-  nativeToUi,
-  promiseUndef,
   simulateTransaction,
   sleep,
-  uiToNative,
-  ZERO_BN,
   zeroKey,
 } from './utils';
 import {
   AssetType,
   BookSideLayout,
-  FREE_ORDER_SLOT,
   EntropyAccountLayout,
   EntropyCache,
   EntropyCacheLayout,
@@ -38,121 +34,187 @@ import {
   PerpEventLayout,
   PerpEventQueueHeaderLayout,
   PerpMarketLayout,
-  QUOTE_INDEX,
   RootBankLayout,
-  StubOracleLayout,
 } from './layout';
 import EntropyAccount from './EntropyAccount';
 import PerpMarket from './PerpMarket';
 import RootBank from './RootBank';
 import {
-  makeAddEntropyAccountInfoInstruction,
-  makeAddOracleInstruction,
   makeAddPerpMarketInstruction,
-  makeAddPerpTriggerOrderInstruction,
-  makeAddSpotMarketInstruction,
-  makeCachePerpMarketsInstruction,
-  makeCachePricesInstruction,
-  makeCacheRootBankInstruction,
-  makeCancelAllPerpOrdersInstruction,
-  makeCancelPerpOrderInstruction,
-  makeCancelSpotOrderInstruction,
-  makeChangePerpMarketParams2Instruction,
-  makeChangePerpMarketParamsInstruction,
-  makeConsumeEventsInstruction,
-  makeCreatePerpMarketInstruction,
-  makeDepositInstruction,
-  makeDepositMsrmInstruction,
-  makeExecutePerpTriggerOrderInstruction,
-  makeForceCancelPerpOrdersInstruction,
-  makeForceCancelSpotOrdersInstruction,
-  makeInitAdvancedOrdersInstruction,
-  makeInitEntropyAccountInstruction,
   makeInitEntropyGroupInstruction,
-  makeInitSpotOpenOrdersInstruction,
-  makeLiquidatePerpMarketInstruction,
-  makeLiquidateTokenAndPerpInstruction,
-  makeLiquidateTokenAndTokenInstruction,
-  makePlacePerpOrderInstruction,
-  makePlaceSpotOrder2Instruction,
-  makePlaceSpotOrderInstruction,
-  makeRedeemMngoInstruction,
-  makeRemoveAdvancedOrderInstruction,
-  makeResolvePerpBankruptcyInstruction,
-  makeResolveTokenBankruptcyInstruction,
-  makeSetGroupAdminInstruction,
-  makeSetOracleInstruction,
-  makeSettleFeesInstruction,
-  makeSettleFundsInstruction,
-  makeSettlePnlInstruction,
-  makeUpdateFundingInstruction,
-  makeUpdateMarginBasketInstruction,
-  makeUpdateRootBankInstruction,
-  makeWithdrawInstruction,
-  makeWithdrawMsrmInstruction,
 } from './instruction';
-import {
-  getFeeRates,
-  getFeeTier,
-  Market,
-  OpenOrders,
-} from '@project-serum/serum';
-import { I80F48, ZERO_I80F48 } from './fixednum';
+import { Market, OpenOrders } from '@project-serum/serum';
+import { I80F48 } from './fixednum';
 import { Order } from '@project-serum/serum/lib/market';
 
-import { PerpOrderType, WalletAdapter } from './types';
+import {
+  ActionOptions,
+  ActionResult,
+  SimulatedOr,
+  PerpOrderType,
+  SimulationResult,
+} from './types';
 import { BookSide, PerpOrder } from './book';
+import EntropyGroup from './EntropyGroup';
+import { TimeoutError } from '.';
+import { BlockhashExpiredError, decodeTransactionError } from './errors';
+import { EntropyInstructionBuilder } from './instructionBuilder';
+import { SignerLike, toEntropySigner } from './signer';
 import {
-  closeAccount,
-  initializeAccount,
-  WRAPPED_SOL_MINT,
-} from '@project-serum/serum/lib/token-instructions';
+  MAX_TRANSACTION_COMPUTE_UNITS,
+  TransactionPacker,
+} from './transactionPacker';
 import {
-  ASSOCIATED_TOKEN_PROGRAM_ID,
-  Token,
-  TOKEN_PROGRAM_ID,
-} from '@solana/spl-token';
-import EntropyGroup from './EntropyGroup';
-import { EntropyError, TimeoutError } from '.';
-import { makeChangeMaxEntropyAccountsInstruction } from './instruction';
+  autoComputeUnitLimit,
+  ComputeBudgetOptions,
+  hasComputeBudgetInstructions,
+  makeComputeBudgetInstructions,
+} from './computeBudget';
+import {
+  DEFAULT_SEND_POLICY,
+  SendPolicy,
+  SendTransactionResult,
+} from './sendPolicy';
+import { GroupConfig, MarketConfig } from './config';
+import { MarketBooks, SpotBookSide } from './marketBook';
+import {
+  LOOKUP_TABLE_MAX_ADDRESSES,
+  loadGroupLookupTableAddresses,
+  makeExtendLookupTableInstructions,
+} from './lookupTable';
+import { TransactionEventEmitter } from './transactionEvents';
+import { ConsoleLogger, Logger } from './logger';
+import { AccountLoader, AccountLoaderOptions } from './accountLoader';
+import {
+  EntropyAccountCallback,
+  EntropyAccountSubscription,
+  EntropyAccountSubscriptionOptions,
+} from './accountSubscription';
+import {
+  GroupSnapshot,
+  GroupSnapshotOptions,
+  loadGroupSnapshot,
+} from './groupSnapshot';
+
+/**
+ * Estimated compute units of one instruction of the batch actions, for packing
+ * them under the transaction's compute limit. Cancelling is for up to 20 orders.
+ */
+const CANCEL_ALL_PERP_ORDERS_COMPUTE_UNITS = 100_000;
+const SETTLE_FUNDS_COMPUTE_UNITS = 60_000;
+const REDEEM_MNGO_COMPUTE_UNITS = 20_000;
 
 export const getUnixTs = () => {
   return new Date().getTime() / 1000;
 };
 
+/** The fee payer's signature, which is the transaction id once sent */
+function transactionSignature(
+  transaction: Transaction | VersionedTransaction,
+): TransactionSignature {
+  return utils.bytes.bs58.encode(
+    transaction instanceof VersionedTransaction
+      ? transaction.signatures[0]
+      : (transaction.signature as Buffer),
+  );
+}
+
+/** The fee payer's signature, if it has signed already */
+function existingSignature(
+  transaction: Transaction | VersionedTransaction,
+): TransactionSignature | undefined {
+  const signature =
+    transaction instanceof VersionedTransaction
+      ? transaction.signatures[0]
+      : transaction.signature;
+  return signature?.some((byte) => byte !== 0)
+    ? utils.bytes.bs58.encode(signature)
+    : undefined;
+}
+
+/** Fold the legacy positional timeout/confirmLevel arguments into a policy */
+function mergeSendOverrides(
+  policy: Partial<SendPolicy> | undefined,
+  timeout: number | null | undefined,
+  confirmLevel: TransactionConfirmationStatus | undefined,
+): Partial<SendPolicy> {
+  const overrides: Partial<SendPolicy> = { ...policy };
+  if (timeout !== undefined) {
+    overrides.timeout = timeout;
+  }
+  if (confirmLevel) {
+    overrides.commitment = confirmLevel;
+  }
+  return overrides;
+}
+
 /**
  * A class for interacting with the Entropy V3 Program
  *
  * @param connection A solana web.js Connection object
  * @param programId The PublicKey of the Entropy V3 Program
- * @param opts An object used to configure the EntropyClient. Accepts a postSendTxCallback
+ * @param opts An object used to configure the EntropyClient. Accepts a postSendTxCallback, a default sendPolicy, a default computeBudget, default lookupTables, a logger and accountLoader options
+ *
+ * Subscribe to `client.events` to follow transactions as they are built,
+ * signed, sent, resent, confirmed, failed or timed out.
+ *
+ * Actions take ActionOptions as their last argument; with `{ simulate: true }`
+ * they resolve to a SimulationResult, one per transaction, instead of sending.
+ * With `{ sendResult: true }` they resolve to a SendTransactionResult per
+ * transaction instead of the bare signature.
  */
 export class EntropyClient {
   connection: Connection;
   programId: PublicKey;
   lastSlot: number;
-  postSendTxCallback?: ({ txid: string }) => void;
+  /** @deprecated Listen for the 'sent' event on events instead */
+  postSendTxCallback?: ({ txid }: { txid: string }) => void;
+  events: TransactionEventEmitter;
+  logger: Logger;
+  instructions: EntropyInstructionBuilder;
+  sendPolicy: SendPolicy;
+  computeBudget: ComputeBudgetOptions;
+  /** Actions are sent as v0 transactions using these tables when non-empty */
+  lookupTables: AddressLookupTableAccount[];
+  accountLoader: AccountLoader;
 
   constructor(
     connection: Connection,
     programId: PublicKey,
-    opts: { postSendTxCallback?: ({ txid }: { txid: string }) => void } = {},
+    opts: {
+      postSendTxCallback?: ({ txid }: { txid: string }) => void;
+      sendPolicy?: Partial<SendPolicy>;
+      computeBudget?: ComputeBudgetOptions;
+      lookupTables?: AddressLookupTableAccount[];
+      logger?: Logger;
+      accountLoader?: AccountLoaderOptions;
+    } = {},
   ) {
     this.connection = connection;
     this.programId = programId;
     this.lastSlot = 0;
+    this.instructions = new EntropyInstructionBuilder(this);
+    this.sendPolicy = { ...DEFAULT_SEND_POLICY, ...opts.sendPolicy };
+    this.computeBudget = opts.computeBudget ?? {};
+    this.lookupTables = opts.lookupTables ?? [];
+    this.logger = opts.logger ?? new ConsoleLogger();
+    this.accountLoader = new AccountLoader(connection, opts.accountLoader);
+    this.events = new TransactionEventEmitter(this.logger);
     if (opts.postSendTxCallback) {
       this.postSendTxCallback = opts.postSendTxCallback;
     }
+    this.events.on('sent', ({ txid }) => this.postSendTxCallback?.({ txid }));
     // console.log("Program Id from client.ts")
   }
 
   async sendTransactions(
     transactions: Transaction[],
-    payer: Account | WalletAdapter,
+    payer: SignerLike,
     additionalSigners: Account[],
-    timeout = 60000,
+    timeout?: number | null,
     confirmLevel: TransactionConfirmationStatus = 'confirmed',
+    policy?: Partial<SendPolicy>,
+    computeBudget?: ComputeBudgetOptions,
   ): Promise<TransactionSignature[]> {
     return await Promise.all(
       transactions.map((tx) =>
@@ -162,263 +224,517 @@ export class EntropyClient {
           additionalSigners,
           timeout,
           confirmLevel,
+          undefined,
+          policy,
+          computeBudget,
         ),
       ),
     );
   }
 
-  async signTransaction({ transaction, payer, signers }) {
-    transaction.recentBlockhash = (
-      await this.connection.getRecentBlockhash()
-    ).blockhash;
-    transaction.setSigners(payer.publicKey, ...signers.map((s) => s.publicKey));
+  /**
+   * @param computeBudget Overrides for the client's compute budget. Nothing is
+   * added if the transaction already has ComputeBudget instructions.
+   */
+  async signTransaction({
+    transaction,
+    payer,
+    signers,
+    computeBudget,
+    marketName,
+  }: {
+    transaction: Transaction;
+    payer: SignerLike;
+    signers: Account[];
+    computeBudget?: ComputeBudgetOptions;
+    marketName?: string | null;
+  }): Promise<Transaction> {
+    const { blockhash, lastValidBlockHeight } =
+      await this.connection.getLatestBlockhash();
+    transaction.recentBlockhash = blockhash;
+    transaction.lastValidBlockHeight = lastValidBlockHeight;
+    transaction.feePayer = payer.publicKey;
+    await this.addComputeBudget(transaction, computeBudget);
+    const event = { marketName: marketName ?? undefined, attempts: 0 };
     if (signers.length > 0) {
       transaction.partialSign(...signers);
     }
+    this.events.emit('built', {
+      ...event,
+      txid: existingSignature(transaction),
+      latency: 0,
+    });
 
-    if (payer?.connected) {
-      console.log(new Date().toISOString(), 'signing as wallet', payer.publicKey);
-      return await payer.signTransaction(transaction);
-    } else {
-      transaction.sign(...[payer].concat(signers));
-    }
+    const signed = await toEntropySigner(payer).signTransaction(transaction);
+    // wallets may hand back a fresh Transaction without the expiry height
+    signed.lastValidBlockHeight ??= lastValidBlockHeight;
+    this.events.emit('signed', {
+      ...event,
+      txid: transactionSignature(signed),
+      latency: 0,
+    });
+    return signed;
   }
 
   async signTransactions({
     transactionsAndSigners,
     payer,
+    computeBudget,
   }: {
     transactionsAndSigners: {
       transaction: Transaction;
       signers?: Array<Account>;
     }[];
-    payer: Account | WalletAdapter;
-  }) {
-    const blockhash = (await this.connection.getRecentBlockhash('max'))
-      .blockhash;
-    transactionsAndSigners.forEach(({ transaction, signers = [] }) => {
+    payer: SignerLike;
+    computeBudget?: ComputeBudgetOptions;
+  }): Promise<Transaction[]> {
+    const { blockhash, lastValidBlockHeight } =
+      await this.connection.getLatestBlockhash('finalized');
+    for (const { transaction, signers = [] } of transactionsAndSigners) {
       transaction.recentBlockhash = blockhash;
-      transaction.setSigners(
-        payer.publicKey,
-        ...signers.map((s) => s.publicKey),
-      );
+      transaction.lastValidBlockHeight = lastValidBlockHeight;
+      transaction.feePayer = payer.publicKey;
+      await this.addComputeBudget(transaction, computeBudget);
       if (signers?.length > 0) {
         transaction.partialSign(...signers);
       }
+      this.events.emit('built', {
+        txid: existingSignature(transaction),
+        attempts: 0,
+        latency: 0,
+      });
+    }
+    const signed = await toEntropySigner(payer).signAllTransactions(
+      transactionsAndSigners.map(({ transaction }) => transaction),
+    );
+    for (const tx of signed) {
+      tx.lastValidBlockHeight ??= lastValidBlockHeight;
+      this.events.emit('signed', {
+        txid: transactionSignature(tx),
+        attempts: 0,
+        latency: 0,
+      });
+    }
+    return signed;
+  }
+
+  /**
+   * Compile transaction's instructions into a v0 transaction that looks up
+   * accounts in lookupTables, and sign it. The result can be passed straight
+   * to sendSignedTransactionWithResult.
+   */
+  async signVersionedTransaction({
+    transaction,
+    payer,
+    signers,
+    lookupTables,
+    computeBudget,
+    marketName,
+  }: {
+    transaction: Transaction;
+    payer: SignerLike;
+    signers: Account[];
+    lookupTables: AddressLookupTableAccount[];
+    computeBudget?: ComputeBudgetOptions;
+    marketName?: string | null;
+  }): Promise<{
+    signedTransaction: VersionedTransaction;
+    lastValidBlockHeight: number;
+  }> {
+    const { blockhash, lastValidBlockHeight } =
+      await this.connection.getLatestBlockhash();
+    transaction.recentBlockhash = blockhash;
+    transaction.feePayer = payer.publicKey;
+    await this.addComputeBudget(transaction, computeBudget, lookupTables);
+
+    const versioned = new VersionedTransaction(
+      new TransactionMessage({
+        payerKey: payer.publicKey,
+        recentBlockhash: blockhash,
+        instructions: transaction.instructions,
+      }).compileToV0Message(lookupTables),
+    );
+    const event = { marketName: marketName ?? undefined, attempts: 0 };
+    if (signers.length > 0) {
+      versioned.sign(signers);
+    }
+    this.events.emit('built', {
+      ...event,
+      txid: existingSignature(versioned),
+      latency: 0,
     });
-    if (!(payer instanceof Account)) {
-      return await payer.signAllTransactions(
-        transactionsAndSigners.map(({ transaction }) => transaction),
-      );
-    } else {
-      transactionsAndSigners.forEach(({ transaction, signers }) => {
-        // @ts-ignore
-        transaction.sign(...[payer].concat(signers));
+    const signedTransaction = await toEntropySigner(payer).signTransaction(
+      versioned,
+    );
+    this.events.emit('signed', {
+      ...event,
+      txid: transactionSignature(signedTransaction),
+      latency: 0,
+    });
+    return { signedTransaction, lastValidBlockHeight };
+  }
+
+  /**
+   * Prepend ComputeBudget instructions for the client's compute budget merged
+   * with computeBudget. transaction needs its feePayer and blockhash set.
+   */
+  private async addComputeBudget(
+    transaction: Transaction,
+    computeBudget?: ComputeBudgetOptions,
+    lookupTables?: AddressLookupTableAccount[],
+  ) {
+    const { computeUnitLimit, computeUnitPrice, autoMargin } = {
+      ...this.computeBudget,
+      ...computeBudget,
+    };
+    if (hasComputeBudgetInstructions(transaction)) {
+      return;
+    }
+
+    const limit =
+      computeUnitLimit === 'auto'
+        ? await this.estimateComputeUnitLimit(
+            transaction,
+            autoMargin,
+            lookupTables,
+          )
+        : computeUnitLimit;
+    transaction.instructions.unshift(
+      ...makeComputeBudgetInstructions(limit, computeUnitPrice),
+    );
+  }
+
+  /**
+   * Simulate transaction with the maximum compute limit and return the units
+   * it used plus margin, or undefined if the simulation failed. With
+   * lookupTables it is simulated as a v0 transaction.
+   */
+  async estimateComputeUnitLimit(
+    transaction: Transaction,
+    margin?: number,
+    lookupTables?: AddressLookupTableAccount[],
+  ): Promise<number | undefined> {
+    const unsigned = new Transaction({
+      feePayer: transaction.feePayer,
+      recentBlockhash: transaction.recentBlockhash,
+    }).add(
+      ...makeComputeBudgetInstructions(MAX_TRANSACTION_COMPUTE_UNITS),
+      ...transaction.instructions,
+    );
+    const { value } = lookupTables?.length
+      ? await this.connection.simulateTransaction(
+          new VersionedTransaction(
+            new TransactionMessage({
+              payerKey: unsigned.feePayer as PublicKey,
+              recentBlockhash: unsigned.recentBlockhash as string,
+              instructions: unsigned.instructions,
+            }).compileToV0Message(lookupTables),
+          ),
+          { sigVerify: false, commitment: 'processed' },
+        )
+      : await simulateTransaction(
+          this.connection,
+          Transaction.populate(unsigned.compileMessage()),
+          'processed',
+        );
+    if (value.err || !value.unitsConsumed) {
+      this.logger.warn('Compute estimate simulation failed', {
+        err: value.err,
       });
+      return undefined;
     }
+    return autoComputeUnitLimit(value.unitsConsumed, margin);
   }
 
-  // TODO - switch Account to Keypair and switch off setSigners due to deprecated
   /**
    * Send a transaction using the Solana Web3.js connection on the entropy client
    *
    * @param transaction
    * @param payer
    * @param additionalSigners
-   * @param timeout Retries sending the transaction and trying to confirm it until the given timeout. Defaults to 60000ms. Passing null will disable the transaction confirmation check and always return success.
+   * @param timeout Overrides the send policy timeout. Passing null will disable the transaction confirmation check and always return success.
+   * @param confirmLevel Overrides the send policy commitment
+   * @param marketName Prefixed to log lines and error messages
+   * @param policy Overrides for the client's send policy for this call only
+   * @param computeBudget Overrides for the client's compute budget for this call only
    */
   async sendTransaction(
     transaction: Transaction,
-    payer: Account | WalletAdapter | Keypair,
+    payer: SignerLike,
     additionalSigners: Account[],
-    timeout: number | null = 60000,
-    confirmLevel: TransactionConfirmationStatus = 'processed',
-    marketName?: string | null
+    timeout?: number | null,
+    confirmLevel?: TransactionConfirmationStatus,
+    marketName?: string | null,
+    policy?: Partial<SendPolicy>,
+    computeBudget?: ComputeBudgetOptions,
   ): Promise<TransactionSignature> {
-    await this.signTransaction({
+    const { txid } = await this.sendTransactionWithResult(
+      transaction,
+      payer,
+      additionalSigners,
+      mergeSendOverrides(policy, timeout, confirmLevel),
+      marketName,
+      computeBudget,
+    );
+    return txid;
+  }
+
+  /**
+   * Sign and send a transaction, returning how it landed instead of only the txid
+   */
+  async sendTransactionWithResult(
+    transaction: Transaction,
+    payer: SignerLike,
+    additionalSigners: Account[],
+    policy?: Partial<SendPolicy>,
+    marketName?: string | null,
+    computeBudget?: ComputeBudgetOptions,
+  ): Promise<SendTransactionResult> {
+    const signedTransaction = await this.signTransaction({
       transaction,
       payer,
       signers: additionalSigners,
+      computeBudget,
+      marketName,
     });
+    return await this.sendSignedTransactionWithResult({
+      signedTransaction,
+      policy,
+      marketName,
+    });
+  }
 
-    const rawTransaction = transaction.serialize();
-    const startTime = getUnixTs();
-
-    const txid: TransactionSignature = await this.connection.sendRawTransaction(
-      rawTransaction,
-      { skipPreflight: true },
+  /**
+   * Like sendTransaction, but sent as a v0 transaction that loads accounts
+   * from lookupTables, which defaults to the client's lookupTables
+   */
+  async sendVersionedTransaction(
+    transaction: Transaction,
+    payer: SignerLike,
+    additionalSigners: Account[],
+    lookupTables: AddressLookupTableAccount[] = this.lookupTables,
+    policy?: Partial<SendPolicy>,
+    marketName?: string | null,
+    computeBudget?: ComputeBudgetOptions,
+  ): Promise<TransactionSignature> {
+    const { txid } = await this.sendVersionedTransactionWithResult(
+      transaction,
+      payer,
+      additionalSigners,
+      lookupTables,
+      policy,
+      marketName,
+      computeBudget,
     );
-
-    if (this.postSendTxCallback) {
-      try {
-        this.postSendTxCallback({ txid });
-      } catch (e) {
-        console.log(new Date().toISOString(), `${marketName} postSendTxCallback error ${e}`);
-      }
-    }
-
-    // console.log('checking timeout');
-
-    if (!timeout) return txid;
-
-    console.log(new Date().toISOString(), `${marketName} Started awaiting confirmation for txid: `, txid, ' size:', rawTransaction.length);
-
-    let done = false;
-    let retryCount = 0;
-    const retrySleep = 2000;
-    (async () => {
-      // TODO - make sure this works well on mainnet
-      while (!done && getUnixTs() - startTime < timeout / 1000) {
-        retryCount += 1;
-        await sleep(retrySleep);
-        console.log(new Date().toISOString(), `${marketName}: sending tx `, txid);
-        console.log("Retry Count: ", retryCount);
-        this.connection.sendRawTransaction(rawTransaction, {
-          skipPreflight: true,
-        });
-      }
-    })();
-
-    try {
-      await this.awaitTransactionSignatureConfirmation(
-        txid,
-        timeout,
-        confirmLevel,
-      );
-    } catch (err: any) {
-      if (err.timeout) {
-        throw new TimeoutError({ txid });
-      }
-      let simulateResult: SimulatedTransactionResponse | null = null;
-      try {
-        simulateResult = (
-          await simulateTransaction(this.connection, transaction, 'processed')
-        ).value;
-      } catch (e) {
-        console.warn('Simulate transaction failed');
-      }
-
-      if (simulateResult && simulateResult.err) {
-        if (simulateResult.logs) {
-          for (let i = simulateResult.logs.length - 1; i >= 0; --i) {
-            const line = simulateResult.logs[i];
-            if (line.startsWith('Program log: ')) {
-              throw new EntropyError({
-                message:
-                  new Date().toISOString() + `${marketName} Transaction failed: ` + line.slice('Program log: '.length),
-                txid,
-              });
-            }
-          }
-        }
-        throw new EntropyError({
-          message: JSON.stringify(simulateResult.err),
-          txid,
-        });
-      }
-      throw new EntropyError({
-        message: new Date().toISOString() + ' Transaction failed', txid
-      });
-    } finally {
-      done = true;
-    }
-
-    console.log(new Date().toISOString(), `${marketName} Transaction Latency for txid: `, txid, getUnixTs() - startTime);
     return txid;
   }
 
+  /**
+   * Like sendTransactionWithResult, but sent as a v0 transaction that loads
+   * accounts from lookupTables
+   */
+  async sendVersionedTransactionWithResult(
+    transaction: Transaction,
+    payer: SignerLike,
+    additionalSigners: Account[],
+    lookupTables: AddressLookupTableAccount[] = this.lookupTables,
+    policy?: Partial<SendPolicy>,
+    marketName?: string | null,
+    computeBudget?: ComputeBudgetOptions,
+  ): Promise<SendTransactionResult> {
+    const signed = await this.signVersionedTransaction({
+      transaction,
+      payer,
+      signers: additionalSigners,
+      lookupTables,
+      computeBudget,
+      marketName,
+    });
+    return await this.sendSignedTransactionWithResult({
+      ...signed,
+      policy,
+      marketName,
+    });
+  }
+
   async sendSignedTransaction({
     signedTransaction,
-    timeout = 60000,
-    confirmLevel = 'processed',
+    timeout,
+    confirmLevel,
+    policy,
   }: {
     signedTransaction: Transaction;
-    timeout?: number;
+    timeout?: number | null;
     confirmLevel?: TransactionConfirmationStatus;
+    policy?: Partial<SendPolicy>;
   }): Promise<TransactionSignature> {
+    const { txid } = await this.sendSignedTransactionWithResult({
+      signedTransaction,
+      policy: mergeSendOverrides(policy, timeout, confirmLevel),
+    });
+    return txid;
+  }
+
+  /**
+   * Broadcast a signed transaction and await confirmation according to the
+   * client's send policy merged with the given overrides. If the transaction
+   * carries a lastValidBlockHeight, a BlockhashExpiredError is thrown as soon
+   * as the chain moves past it rather than waiting for the timeout.
+   *
+   * @param lastValidBlockHeight Required for expiry detection of v0
+   * transactions, which do not carry one
+   */
+  async sendSignedTransactionWithResult({
+    signedTransaction,
+    lastValidBlockHeight,
+    policy,
+    marketName,
+  }: {
+    signedTransaction: Transaction | VersionedTransaction;
+    lastValidBlockHeight?: number;
+    policy?: Partial<SendPolicy>;
+    marketName?: string | null;
+  }): Promise<SendTransactionResult> {
+    const sendPolicy: SendPolicy = { ...this.sendPolicy, ...policy };
+    const versioned = signedTransaction instanceof VersionedTransaction;
+    if (!versioned) {
+      lastValidBlockHeight ??= signedTransaction.lastValidBlockHeight;
+    }
+    const logPrefix = marketName ? `${marketName} ` : '';
+    const event = { marketName: marketName ?? undefined };
     const rawTransaction = signedTransaction.serialize();
     const startTime = getUnixTs();
+    const elapsed = () => Math.round((getUnixTs() - startTime) * 1000);
 
-    const txid: TransactionSignature = await this.connection.sendRawTransaction(
-      rawTransaction,
-      {
-        skipPreflight: true,
-      },
-    );
-
-    if (this.postSendTxCallback) {
-      try {
-        this.postSendTxCallback({ txid });
-      } catch (e) {
-        console.log(new Date().toISOString(), `postSendTxCallback error ${e}`);
-      }
+    let txid: TransactionSignature;
+    try {
+      txid = await this.connection.sendRawTransaction(rawTransaction, {
+        skipPreflight: !sendPolicy.preflight,
+        preflightCommitment: sendPolicy.commitment,
+      });
+    } catch (e: any) {
+      // with logs, preflight simulation rejected the transaction; otherwise
+      // the node could not be reached or refused it outright
+      const error = e.logs
+        ? decodeTransactionError({
+            txid: transactionSignature(signedTransaction),
+            err: e.message,
+            logs: e.logs,
+            programId: this.programId,
+            messagePrefix: logPrefix,
+          })
+        : e;
+      this.events.emit('failed', {
+        ...event,
+        txid: transactionSignature(signedTransaction),
+        attempts: 1,
+        latency: elapsed(),
+        error,
+      });
+      throw error;
     }
+    let attempts = 1;
+    this.events.emit('sent', {
+      ...event,
+      txid,
+      attempts,
+      latency: 0,
+      size: rawTransaction.length,
+    });
 
-    // console.log('Started awaiting confirmation for', txid);
+    if (sendPolicy.timeout == null) {
+      return { txid, attempts, latency: 0 };
+    }
 
     let done = false;
     (async () => {
-      await sleep(500);
-      while (!done && getUnixTs() - startTime < timeout) {
-        this.connection.sendRawTransaction(rawTransaction, {
-          skipPreflight: true,
-        });
-        await sleep(1000);
+      while (!done && attempts <= sendPolicy.maxResends) {
+        await sleep(sendPolicy.resendInterval);
+        if (done) break;
+        attempts += 1;
+        const resent = { ...event, txid, attempts, latency: elapsed() };
+        this.connection
+          .sendRawTransaction(rawTransaction, { skipPreflight: true })
+          .then(() => this.events.emit('resent', resent))
+          .catch((error) => this.events.emit('resent', { ...resent, error }));
       }
     })();
+
+    let slot: number | undefined;
     try {
-      await this.awaitTransactionSignatureConfirmation(
+      const status: any = await this.awaitTransactionSignatureConfirmation(
         txid,
-        timeout,
-        confirmLevel,
+        sendPolicy.timeout,
+        sendPolicy.commitment,
+        sendPolicy.detectExpiry ? lastValidBlockHeight : undefined,
       );
+      slot = status?.slot ?? this.lastSlot;
     } catch (err: any) {
-      if (err.timeout) {
-        throw new TimeoutError({ txid });
+      if (err.timeout || err.expired) {
+        const error = err.timeout
+          ? new TimeoutError({ txid })
+          : new BlockhashExpiredError({ txid, lastValidBlockHeight });
+        this.events.emit('timedOut', {
+          ...event,
+          txid,
+          attempts,
+          latency: elapsed(),
+          error,
+        });
+        throw error;
       }
       let simulateResult: SimulatedTransactionResponse | null = null;
       try {
         simulateResult = (
-          await simulateTransaction(
-            this.connection,
-            signedTransaction,
-            'single',
-          )
+          versioned
+            ? await this.connection.simulateTransaction(signedTransaction, {
+                commitment: 'processed',
+              })
+            : await simulateTransaction(
+                this.connection,
+                signedTransaction,
+                'processed',
+              )
         ).value;
       } catch (e) {
-        console.log(new Date().toISOString(), 'Simulate tx failed');
-      }
-      if (simulateResult && simulateResult.err) {
-        if (simulateResult.logs) {
-          for (let i = simulateResult.logs.length - 1; i >= 0; --i) {
-            const line = simulateResult.logs[i];
-            if (line.startsWith('Program log: ')) {
-              throw new EntropyError({
-                message:
-                  'Transaction failed: ' + line.slice('Program log: '.length),
-                txid,
-              });
-            }
-          }
-        }
-        throw new EntropyError({
-          message: JSON.stringify(simulateResult.err),
-          txid,
-        });
+        this.logger.warn('Simulate transaction failed', { txid });
       }
-      throw new EntropyError({ message: 'Transaction failed', txid });
+
+      const error = decodeTransactionError({
+        txid,
+        err: simulateResult?.err ?? err,
+        logs: simulateResult?.logs,
+        programId: this.programId,
+        messagePrefix: logPrefix,
+      });
+      this.events.emit('failed', {
+        ...event,
+        txid,
+        attempts,
+        latency: elapsed(),
+        error,
+      });
+      throw error;
     } finally {
       done = true;
     }
 
-    console.log(new Date().toISOString(), 'Transaction Latency for txid: ', txid, getUnixTs() - startTime);
-    return txid;
+    const latency = elapsed();
+    this.events.emit('confirmed', { ...event, txid, slot, attempts, latency });
+    return { txid, slot, attempts, latency };
   }
 
+  /**
+   * Resolves with the signature status once txid reaches confirmLevel.
+   * Rejects with `{ timeout: true }` after timeout ms, and with
+   * `{ expired: true }` if lastValidBlockHeight is given and the chain
+   * passes it before the signature reaches confirmLevel.
+   */
   async awaitTransactionSignatureConfirmation(
     txid: TransactionSignature,
     timeout: number,
     confirmLevel: TransactionConfirmationStatus,
+    lastValidBlockHeight?: number,
   ) {
     let done = false;
 
@@ -432,89 +748,358 @@ export class EntropyClient {
       confirmLevels.push('processed');
     }
     let subscriptionId;
+    let timer: ReturnType<typeof setTimeout> | undefined;
 
-    const result = await new Promise((resolve, reject) => {
-      (async () => {
-        setTimeout(() => {
-          if (done) {
-            return;
-          }
-          done = true;
-          console.log(new Date().toISOString(), 'Timed out for txid: ', txid);
-          reject({ timeout: true });
-        }, timeout);
-        try {
-          subscriptionId = this.connection.onSignature(
-            txid,
-            (result, context) => {
-              subscriptionId = undefined;
-              done = true;
-              if (result.err) {
-                reject(result.err);
-              } else {
-                this.lastSlot = context?.slot;
-                resolve(result);
-              }
-            },
-            'processed',
-          );
-        } catch (e) {
-          done = true;
-          console.log(new Date().toISOString(), 'WS error in setup', txid, e);
-        }
-        let retrySleep = 200;
-        while (!done) {
-          // eslint-disable-next-line no-loop-func
-          await sleep(retrySleep);
-          (async () => {
-            try {
-              const response = await this.connection.getSignatureStatuses([
-                txid,
-              ]);
-
-              const result = response && response.value[0];
-              if (!done) {
-                if (!result) {
-                  // console.log('REST null result for', txid, result);
-                } else if (result.err) {
-                  console.log(new Date().toISOString(), 'REST error for', txid, result);
-                  done = true;
+    try {
+      return await new Promise((resolve, reject) => {
+        (async () => {
+          timer = setTimeout(() => {
+            if (done) {
+              return;
+            }
+            done = true;
+            this.logger.info('Timed out for txid: ', { txid });
+            reject({ timeout: true });
+          }, timeout);
+          try {
+            subscriptionId = this.connection.onSignature(
+              txid,
+              (result, context) => {
+                subscriptionId = undefined;
+                done = true;
+                if (result.err) {
                   reject(result.err);
-                } else if (
-                  !(
-                    result.confirmations ||
-                    confirmLevels.includes(result.confirmationStatus)
-                  )
-                ) {
-                  console.log(new Date().toISOString(), 'REST not confirmed', txid, result);
                 } else {
-                  this.lastSlot = response?.context?.slot;
-                  // console.log('REST confirmed', txid, result);
-                  done = true;
-                  resolve(result);
+                  this.lastSlot = context?.slot;
+                  resolve({ ...result, slot: context?.slot });
+                }
+              },
+              confirmLevel,
+            );
+          } catch (e) {
+            done = true;
+            this.logger.warn('WS error in setup', { txid, error: e });
+          }
+          let retrySleep = 200;
+          while (!done) {
+            // eslint-disable-next-line no-loop-func
+            await sleep(retrySleep);
+            (async () => {
+              try {
+                const response = await this.connection.getSignatureStatuses([
+                  txid,
+                ]);
+
+                const result = response && response.value[0];
+                if (!done) {
+                  if (result?.err) {
+                    this.logger.info('REST error for', { txid, result });
+                    done = true;
+                    reject(result.err);
+                  } else if (
+                    !result ||
+                    !(
+                      result.confirmations ||
+                      confirmLevels.includes(result.confirmationStatus)
+                    )
+                  ) {
+                    if (result) {
+                      this.logger.debug('REST not confirmed', { txid, result });
+                    }
+                    // a transaction only processed on a fork can still be
+                    // dropped, so keep checking until it reaches confirmLevel
+                    if (
+                      lastValidBlockHeight !== undefined &&
+                      (await this.connection.getBlockHeight(confirmLevel)) >
+                        lastValidBlockHeight &&
+                      !done
+                    ) {
+                      this.logger.info('Blockhash expired for txid: ', {
+                        txid,
+                      });
+                      done = true;
+                      reject({ expired: true });
+                    }
+                  } else {
+                    this.lastSlot = response?.context?.slot;
+                    // console.log('REST confirmed', txid, result);
+                    done = true;
+                    resolve(result);
+                  }
+                }
+              } catch (e) {
+                if (!done) {
+                  this.logger.warn('REST connection error: txid', {
+                    txid,
+                    error: e,
+                  });
                 }
               }
-            } catch (e) {
-              if (!done) {
-                console.log(new Date().toISOString(), 'REST connection error: txid', txid, e);
-              }
+            })();
+            if (retrySleep <= 1600) {
+              retrySleep = retrySleep * 2;
             }
-          })();
-          if (retrySleep <= 1600) {
-            retrySleep = retrySleep * 2;
           }
-        }
-      })();
+        })();
+      });
+    } finally {
+      done = true;
+      if (timer) clearTimeout(timer);
+      if (subscriptionId) {
+        this.connection.removeSignatureListener(subscriptionId).catch((e) => {
+          this.logger.warn('WS error in cleanup', { error: e });
+        });
+      }
+    }
+  }
+
+  /**
+   * Sign transaction and run it through simulateTransaction instead of
+   * sending it. If entropyAccount is given, its state after the transaction
+   * is decoded from the simulation, along with the open orders accounts it
+   * already had.
+   */
+  async simulateAction(
+    transaction: Transaction,
+    payer: SignerLike,
+    additionalSigners: Account[],
+    entropyAccount?: EntropyAccount | PublicKey,
+    computeBudget?: ComputeBudgetOptions,
+  ): Promise<SimulationResult> {
+    const signedTransaction = await this.signTransaction({
+      transaction,
+      payer,
+      signers: additionalSigners,
+      computeBudget,
+    });
+
+    const entropyAccountPk =
+      entropyAccount instanceof EntropyAccount
+        ? entropyAccount.publicKey
+        : entropyAccount;
+    const openOrdersPks =
+      entropyAccount instanceof EntropyAccount
+        ? entropyAccount.spotOpenOrders.filter((pk) => !pk.equals(zeroKey))
+        : [];
+    const { value } = await simulateTransaction(
+      this.connection,
+      signedTransaction,
+      'processed',
+      entropyAccountPk ? [entropyAccountPk, ...openOrdersPks] : undefined,
+    );
+
+    let simulatedAccount: EntropyAccount | undefined;
+    const [accountState, ...openOrdersStates] = value.accounts ?? [];
+    if (entropyAccountPk && accountState) {
+      simulatedAccount = new EntropyAccount(
+        entropyAccountPk,
+        EntropyAccountLayout.decode(
+          Buffer.from(accountState.data[0], 'base64'),
+        ),
+      );
+      simulatedAccount.spotOpenOrdersAccounts =
+        simulatedAccount.spotOpenOrders.map((pk) => {
+          const i = openOrdersPks.findIndex((o) => o.equals(pk));
+          const state = openOrdersStates[i];
+          if (i === -1 || !state) return undefined;
+          const owner = new PublicKey(state.owner);
+          return OpenOrders.fromAccountInfo(
+            pk,
+            { ...state, owner, data: Buffer.from(state.data[0], 'base64') },
+            owner,
+          );
+        });
+    }
+
+    return {
+      err: value.err,
+      error: value.err
+        ? decodeTransactionError({
+            txid: transactionSignature(signedTransaction),
+            err: value.err,
+            logs: value.logs,
+            programId: this.programId,
+          })
+        : undefined,
+      logs: value.logs ?? [],
+      unitsConsumed: value.unitsConsumed,
+      entropyAccount: simulatedAccount,
+    };
+  }
+
+  /**
+   * Send the transaction built by an action, or simulate it when
+   * `opts.simulate` is set
+   */
+  private async sendAction<O extends ActionOptions>(
+    transaction: Transaction,
+    payer: SignerLike,
+    additionalSigners: Account[],
+    opts: O | undefined,
+    entropyAccount?: EntropyAccount | PublicKey,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    if (opts?.simulate) {
+      return (await this.simulateAction(
+        transaction,
+        payer,
+        additionalSigners,
+        entropyAccount,
+        opts.computeBudget,
+      )) as ActionResult<O, TransactionSignature>;
+    }
+    const lookupTables = opts?.lookupTables ?? this.lookupTables;
+    const result =
+      lookupTables.length > 0
+        ? await this.sendVersionedTransactionWithResult(
+            transaction,
+            payer,
+            additionalSigners,
+            lookupTables,
+            opts?.sendPolicy,
+            undefined,
+            opts?.computeBudget,
+          )
+        : await this.sendTransactionWithResult(
+            transaction,
+            payer,
+            additionalSigners,
+            opts?.sendPolicy,
+            undefined,
+            opts?.computeBudget,
+          );
+    return (opts?.sendResult ? result : result.txid) as ActionResult<
+      O,
+      TransactionSignature
+    >;
+  }
+
+  /**
+   * Send one of the signed transactions of a multi-transaction action,
+   * resolving to its signature or, with `opts.sendResult`, how it landed
+   */
+  private async sendSignedAction(
+    signedTransaction: Transaction,
+    opts: ActionOptions | undefined,
+  ): Promise<TransactionSignature | SendTransactionResult> {
+    const result = await this.sendSignedTransactionWithResult({
+      signedTransaction,
+      policy: opts?.sendPolicy,
     });
+    return opts?.sendResult ? result : result.txid;
+  }
 
-    if (subscriptionId) {
-      this.connection.removeSignatureListener(subscriptionId).catch((e) => {
-        console.log(new Date().toISOString(), 'WS error in cleanup', e);
+  /**
+   * A TransactionPacker that leaves room for the compute budget instructions
+   * signing will add
+   */
+  makePacker(
+    payer: PublicKey,
+    computeBudget?: ComputeBudgetOptions,
+  ): TransactionPacker {
+    const { computeUnitLimit, computeUnitPrice } = {
+      ...this.computeBudget,
+      ...computeBudget,
+    };
+    const limit =
+      computeUnitLimit === 'auto'
+        ? MAX_TRANSACTION_COMPUTE_UNITS
+        : computeUnitLimit;
+    return new TransactionPacker(payer, {
+      maxComputeUnits: limit,
+      reservedInstructions: makeComputeBudgetInstructions(
+        limit,
+        computeUnitPrice,
+      ),
+    });
+  }
+
+  /**
+   * Fetch an address lookup table, e.g. one made by createGroupLookupTable,
+   * for use in lookupTables
+   */
+  async getLookupTable(address: PublicKey): Promise<AddressLookupTableAccount> {
+    const { value } = await this.connection.getAddressLookupTable(address);
+    if (!value) {
+      throw new Error(`Lookup table ${address.toBase58()} not found`);
+    }
+    return value;
+  }
+
+  /**
+   * Create an address lookup table owned by payer and fill it with the
+   * group's shared accounts. The table can be used once the next slot starts.
+   */
+  async createGroupLookupTable(
+    groupConfig: GroupConfig,
+    payer: SignerLike,
+  ): Promise<PublicKey> {
+    const [instruction, lookupTable] =
+      AddressLookupTableProgram.createLookupTable({
+        authority: payer.publicKey,
+        payer: payer.publicKey,
+        recentSlot: await this.connection.getSlot('finalized'),
       });
+    await this.sendTransaction(new Transaction().add(instruction), payer, []);
+    await this.extendGroupLookupTable(lookupTable, groupConfig, payer);
+    return lookupTable;
+  }
+
+  /**
+   * Add the group accounts lookupTable does not hold yet, e.g. after markets
+   * were added to the group. Returns the added addresses.
+   */
+  async extendGroupLookupTable(
+    lookupTable: PublicKey,
+    groupConfig: GroupConfig,
+    payer: SignerLike,
+  ): Promise<PublicKey[]> {
+    const existing =
+      (await this.connection.getAddressLookupTable(lookupTable)).value?.state
+        .addresses ?? [];
+    const missing = (
+      await loadGroupLookupTableAddresses(this.connection, groupConfig)
+    ).filter((address) => !existing.some((e) => e.equals(address)));
+    if (existing.length + missing.length > LOOKUP_TABLE_MAX_ADDRESSES) {
+      throw new Error(
+        `Lookup table ${lookupTable.toBase58()} cannot hold ${
+          existing.length + missing.length
+        } addresses`,
+      );
+    }
+
+    for (const instruction of makeExtendLookupTableInstructions(
+      lookupTable,
+      payer.publicKey,
+      payer.publicKey,
+      missing,
+    )) {
+      await this.sendTransaction(new Transaction().add(instruction), payer, []);
     }
+    return missing;
+  }
 
-    done = true;
-    return result;
+  /**
+   * Simulate each transaction of a multi-transaction action, one at a time
+   */
+  private async simulateActions(
+    transactionsAndSigners: { transaction: Transaction; signers: Account[] }[],
+    payer: SignerLike,
+    entropyAccount?: EntropyAccount | PublicKey,
+    computeBudget?: ComputeBudgetOptions,
+  ): Promise<SimulationResult[]> {
+    const results: SimulationResult[] = [];
+    for (const { transaction, signers } of transactionsAndSigners) {
+      results.push(
+        await this.simulateAction(
+          transaction,
+          payer,
+          signers,
+          entropyAccount,
+          computeBudget,
+        ),
+      );
+    }
+    return results;
   }
 
   /**
@@ -529,7 +1114,7 @@ export class EntropyClient {
     quoteOptimalUtil: number,
     quoteOptimalRate: number,
     quoteMaxRate: number,
-    payer: Account | WalletAdapter,
+    payer: SignerLike,
   ): Promise<PublicKey> {
     const accountInstruction = await createAccountInstruction(
       this.connection,
@@ -659,36 +1244,43 @@ export class EntropyClient {
     return new EntropyGroup(entropyGroup, decoded);
   }
 
+  /**
+   * Load the group with its cache, banks, perp markets and, with
+   * `{ books: true }`, their bids and asks, all read at one slot unless
+   * `maxSlotSpread` allows more
+   */
+  async loadGroupSnapshot(
+    entropyGroup: PublicKey,
+    opts: GroupSnapshotOptions = {},
+  ): Promise<GroupSnapshot> {
+    return loadGroupSnapshot(this.accountLoader, entropyGroup, opts);
+  }
+
   /**
    * Create a new Entropy Account on a given group
    */
-  async initEntropyAccount(
+  async initEntropyAccount<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
-    owner: Account | WalletAdapter,
-  ): Promise<PublicKey> {
-    const accountInstruction = await createAccountInstruction(
-      this.connection,
-      owner.publicKey,
-      EntropyAccountLayout.span,
-      this.programId,
-    );
-
-    const initEntropyAccountInstruction = makeInitEntropyAccountInstruction(
-      this.programId,
-      entropyGroup.publicKey,
-      accountInstruction.account.publicKey,
-      owner.publicKey,
-    );
+    owner: SignerLike,
+    opts?: O,
+  ): Promise<SimulatedOr<O, PublicKey>> {
+    const { instructions, signers, entropyAccount } =
+      await this.instructions.initEntropyAccount(entropyGroup, owner.publicKey);
 
     // Add all instructions to one atomic transaction
-    const transaction = new Transaction();
-    transaction.add(accountInstruction.instruction);
-    transaction.add(initEntropyAccountInstruction);
-
-    const additionalSigners = [accountInstruction.account];
-    await this.sendTransaction(transaction, owner, additionalSigners);
+    const transaction = new Transaction().add(...instructions);
+    if (opts?.simulate) {
+      return (await this.simulateAction(
+        transaction,
+        owner,
+        signers,
+        entropyAccount,
+        opts.computeBudget,
+      )) as SimulatedOr<O, PublicKey>;
+    }
+    await this.sendAction(transaction, owner, signers, opts, entropyAccount);
 
-    return accountInstruction.account.publicKey;
+    return entropyAccount as SimulatedOr<O, PublicKey>;
   }
 
   /**
@@ -710,6 +1302,25 @@ export class EntropyClient {
     return entropyAccount;
   }
 
+  /**
+   * Call back with the decoded entropy account, including its spot open
+   * orders and advanced orders, whenever it or one of those changes.
+   * Call close() on the subscription to stop.
+   */
+  subscribeEntropyAccount(
+    entropyAccountPk: PublicKey,
+    callback: EntropyAccountCallback,
+    opts: EntropyAccountSubscriptionOptions = {},
+  ): EntropyAccountSubscription {
+    return new EntropyAccountSubscription(
+      this.connection,
+      this.accountLoader,
+      entropyAccountPk,
+      callback,
+      { logger: this.logger, ...opts },
+    );
+  }
+
   /**
    * Create a new Entropy Account and deposit some tokens in a single transaction
    *
@@ -719,9 +1330,9 @@ export class EntropyClient {
    * @param tokenAcc The token account to transfer from
    * @param info An optional UI name for the account
    */
-  async initEntropyAccountAndDeposit(
+  async initEntropyAccountAndDeposit<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
-    owner: Account | WalletAdapter,
+    owner: SignerLike,
     rootBank: PublicKey,
     nodeBank: PublicKey,
     vault: PublicKey,
@@ -729,101 +1340,33 @@ export class EntropyClient {
 
     quantity: number,
     info?: string,
-  ): Promise<string> {
-    const transaction = new Transaction();
-    const accountInstruction = await createAccountInstruction(
-      this.connection,
-      owner.publicKey,
-      EntropyAccountLayout.span,
-      this.programId,
-    );
-
-    const initEntropyAccountInstruction = makeInitEntropyAccountInstruction(
-      this.programId,
-      entropyGroup.publicKey,
-      accountInstruction.account.publicKey,
-      owner.publicKey,
-    );
-
-    transaction.add(accountInstruction.instruction);
-    transaction.add(initEntropyAccountInstruction);
-
-    const additionalSigners = [accountInstruction.account];
-
-    const tokenIndex = entropyGroup.getRootBankIndex(rootBank);
-    const tokenMint = entropyGroup.tokens[tokenIndex].mint;
-
-    let wrappedSolAccount: Account | null = null;
-    if (
-      tokenMint.equals(WRAPPED_SOL_MINT) &&
-      tokenAcc.toBase58() === owner.publicKey.toBase58()
-    ) {
-      wrappedSolAccount = new Account();
-      const lamports = Math.round(quantity * LAMPORTS_PER_SOL) + 1e7;
-      transaction.add(
-        SystemProgram.createAccount({
-          fromPubkey: owner.publicKey,
-          newAccountPubkey: wrappedSolAccount.publicKey,
-          lamports,
-          space: 165,
-          programId: TOKEN_PROGRAM_ID,
-        }),
-      );
-
-      transaction.add(
-        initializeAccount({
-          account: wrappedSolAccount.publicKey,
-          mint: WRAPPED_SOL_MINT,
-          owner: owner.publicKey,
-        }),
-      );
-
-      additionalSigners.push(wrappedSolAccount);
-    }
-
-    const nativeQuantity = uiToNative(
-      quantity,
-      entropyGroup.tokens[tokenIndex].decimals,
-    );
-
-    const instruction = makeDepositInstruction(
-      this.programId,
-      entropyGroup.publicKey,
-      owner.publicKey,
-      entropyGroup.entropyCache,
-      accountInstruction.account.publicKey,
-      rootBank,
-      nodeBank,
-      vault,
-      wrappedSolAccount?.publicKey ?? tokenAcc,
-      nativeQuantity,
-    );
-    transaction.add(instruction);
-
-    if (info) {
-      const addAccountNameinstruction = makeAddEntropyAccountInfoInstruction(
-        this.programId,
-        entropyGroup.publicKey,
-        accountInstruction.account.publicKey,
+    opts?: O,
+  ): Promise<SimulatedOr<O, string>> {
+    const { instructions, signers, entropyAccount } =
+      await this.instructions.initEntropyAccountAndDeposit(
+        entropyGroup,
         owner.publicKey,
+        rootBank,
+        nodeBank,
+        vault,
+        tokenAcc,
+        quantity,
         info,
       );
-      transaction.add(addAccountNameinstruction);
-    }
 
-    if (wrappedSolAccount) {
-      transaction.add(
-        closeAccount({
-          source: wrappedSolAccount.publicKey,
-          destination: owner.publicKey,
-          owner: owner.publicKey,
-        }),
-      );
+    const transaction = new Transaction().add(...instructions);
+    const result = await this.sendAction(
+      transaction,
+      owner,
+      signers,
+      opts,
+      entropyAccount,
+    );
+    if (opts?.simulate) {
+      return result;
     }
 
-    await this.sendTransaction(transaction, owner, additionalSigners);
-
-    return accountInstruction.account.publicKey.toString();
+    return entropyAccount.toString() as SimulatedOr<O, string>;
   }
 
   /**
@@ -834,81 +1377,37 @@ export class EntropyClient {
    * @param vault The token account asociated with the NodeBank
    * @param tokenAcc The token account to transfer from
    */
-  async deposit(
+  async deposit<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     entropyAccount: EntropyAccount,
-    owner: Account | WalletAdapter,
+    owner: SignerLike,
     rootBank: PublicKey,
     nodeBank: PublicKey,
     vault: PublicKey,
     tokenAcc: PublicKey,
 
     quantity: number,
-  ): Promise<TransactionSignature> {
-    const transaction = new Transaction();
-    const additionalSigners: Array<Account> = [];
-    const tokenIndex = entropyGroup.getRootBankIndex(rootBank);
-    const tokenMint = entropyGroup.tokens[tokenIndex].mint;
-
-    let wrappedSolAccount: Account | null = null;
-    if (
-      tokenMint.equals(WRAPPED_SOL_MINT) &&
-      tokenAcc.toBase58() === owner.publicKey.toBase58()
-    ) {
-      wrappedSolAccount = new Account();
-      const lamports = Math.round(quantity * LAMPORTS_PER_SOL) + 1e7;
-      transaction.add(
-        SystemProgram.createAccount({
-          fromPubkey: owner.publicKey,
-          newAccountPubkey: wrappedSolAccount.publicKey,
-          lamports,
-          space: 165,
-          programId: TOKEN_PROGRAM_ID,
-        }),
-      );
-
-      transaction.add(
-        initializeAccount({
-          account: wrappedSolAccount.publicKey,
-          mint: WRAPPED_SOL_MINT,
-          owner: owner.publicKey,
-        }),
-      );
-
-      additionalSigners.push(wrappedSolAccount);
-    }
-
-    const nativeQuantity = uiToNative(
-      quantity,
-      entropyGroup.tokens[tokenIndex].decimals,
-    );
-
-    const instruction = makeDepositInstruction(
-      this.programId,
-      entropyGroup.publicKey,
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } = await this.instructions.deposit(
+      entropyGroup,
+      entropyAccount,
       owner.publicKey,
-      entropyGroup.entropyCache,
-      entropyAccount.publicKey,
       rootBank,
       nodeBank,
       vault,
-      wrappedSolAccount?.publicKey ?? tokenAcc,
-      nativeQuantity,
+      tokenAcc,
+      quantity,
     );
 
-    transaction.add(instruction);
-
-    if (wrappedSolAccount) {
-      transaction.add(
-        closeAccount({
-          source: wrappedSolAccount.publicKey,
-          destination: owner.publicKey,
-          owner: owner.publicKey,
-        }),
-      );
-    }
-
-    return await this.sendTransaction(transaction, owner, additionalSigners);
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(
+      transaction,
+      owner,
+      signers,
+      opts,
+      entropyAccount,
+    );
   }
 
   /**
@@ -919,257 +1418,177 @@ export class EntropyClient {
    * @param vault The token account asociated with the NodeBank
    * @param allowBorrow Whether to borrow tokens if there are not enough deposits for the withdrawal
    */
-  async withdraw(
+  async withdraw<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     entropyAccount: EntropyAccount,
-    owner: Account | WalletAdapter,
+    owner: SignerLike,
     rootBank: PublicKey,
     nodeBank: PublicKey,
     vault: PublicKey,
 
     quantity: number,
     allowBorrow: boolean,
-  ): Promise<TransactionSignature> {
-    const transaction = new Transaction();
-    const additionalSigners: Account[] = [];
-    const tokenIndex = entropyGroup.getRootBankIndex(rootBank);
-    const tokenMint = entropyGroup.tokens[tokenIndex].mint;
-
-    let tokenAcc = await Token.getAssociatedTokenAddress(
-      ASSOCIATED_TOKEN_PROGRAM_ID,
-      TOKEN_PROGRAM_ID,
-      tokenMint,
-      owner.publicKey,
-    );
-
-    let wrappedSolAccount: Account | null = null;
-    if (tokenMint.equals(WRAPPED_SOL_MINT)) {
-      wrappedSolAccount = new Account();
-      tokenAcc = wrappedSolAccount.publicKey;
-      const space = 165;
-      const lamports = await this.connection.getMinimumBalanceForRentExemption(
-        space,
-        'processed',
-      );
-      transaction.add(
-        SystemProgram.createAccount({
-          fromPubkey: owner.publicKey,
-          newAccountPubkey: tokenAcc,
-          lamports,
-          space,
-          programId: TOKEN_PROGRAM_ID,
-        }),
-      );
-      transaction.add(
-        initializeAccount({
-          account: tokenAcc,
-          mint: WRAPPED_SOL_MINT,
-          owner: owner.publicKey,
-        }),
-      );
-      additionalSigners.push(wrappedSolAccount);
-    } else {
-      const tokenAccExists = await this.connection.getAccountInfo(
-        tokenAcc,
-        'recent',
-      );
-      if (!tokenAccExists) {
-        transaction.add(
-          Token.createAssociatedTokenAccountInstruction(
-            ASSOCIATED_TOKEN_PROGRAM_ID,
-            TOKEN_PROGRAM_ID,
-            tokenMint,
-            tokenAcc,
-            owner.publicKey,
-            owner.publicKey,
-          ),
-        );
-      }
-    }
-
-    const nativeQuantity = uiToNative(
-      quantity,
-      entropyGroup.tokens[tokenIndex].decimals,
-    );
-
-    const instruction = makeWithdrawInstruction(
-      this.programId,
-      entropyGroup.publicKey,
-      entropyAccount.publicKey,
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } = await this.instructions.withdraw(
+      entropyGroup,
+      entropyAccount,
       owner.publicKey,
-      entropyGroup.entropyCache,
       rootBank,
       nodeBank,
       vault,
-      tokenAcc,
-      entropyGroup.signerKey,
-      entropyAccount.spotOpenOrders,
-      nativeQuantity,
+      quantity,
       allowBorrow,
     );
-    transaction.add(instruction);
 
-    if (wrappedSolAccount) {
-      transaction.add(
-        closeAccount({
-          source: wrappedSolAccount.publicKey,
-          destination: owner.publicKey,
-          owner: owner.publicKey,
-        }),
-      );
-    }
-
-    return await this.sendTransaction(transaction, owner, additionalSigners);
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(
+      transaction,
+      owner,
+      signers,
+      opts,
+      entropyAccount,
+    );
   }
 
-  async changeMaxAccounts(
+  async changeMaxAccounts<O extends ActionOptions = ActionOptions>(
     entropyGroupPk: PublicKey,
-    admin: Account,
-    numAccounts: BN
-  ) {
-    console.log('num accounts = ', numAccounts.toString());
-    const instruction = makeChangeMaxEntropyAccountsInstruction(
-      this.programId,
+    admin: SignerLike,
+    numAccounts: BN,
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    this.logger.info('num accounts = ', {
+      numAccounts: numAccounts.toString(),
+    });
+    const { instructions, signers } = await this.instructions.changeMaxAccounts(
       entropyGroupPk,
       admin.publicKey,
       numAccounts,
     );
 
-    const transaction = new Transaction();
-    transaction.add(instruction);
-
-    const additionalSigners = [];
-    return await this.sendTransaction(transaction, admin, additionalSigners);
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(transaction, admin, signers, opts);
   }
 
   /**
    * Called by the Keeper to cache interest rates from the RootBanks
    */
-  async cacheRootBanks(
+  async cacheRootBanks<O extends ActionOptions = ActionOptions>(
     entropyGroup: PublicKey,
     entropyCache: PublicKey,
     rootBanks: PublicKey[],
-    payer: Account | WalletAdapter,
-  ): Promise<TransactionSignature> {
-    const cacheRootBanksInstruction = makeCacheRootBankInstruction(
-      this.programId,
+    payer: SignerLike,
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } = await this.instructions.cacheRootBanks(
       entropyGroup,
       entropyCache,
       rootBanks,
     );
 
-    const transaction = new Transaction();
-    transaction.add(cacheRootBanksInstruction);
-
-    return await this.sendTransaction(transaction, payer, []);
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(transaction, payer, signers, opts);
   }
 
   /**
    * Called by the Keeper to cache prices from the Oracles
    */
-  async cachePrices(
+  async cachePrices<O extends ActionOptions = ActionOptions>(
     entropyGroup: PublicKey,
     entropyCache: PublicKey,
     oracles: PublicKey[],
-    payer: Account | WalletAdapter,
-  ): Promise<TransactionSignature> {
-    const cachePricesInstruction = makeCachePricesInstruction(
-      this.programId,
+    payer: SignerLike,
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } = await this.instructions.cachePrices(
       entropyGroup,
       entropyCache,
       oracles,
     );
 
-    const transaction = new Transaction();
-    transaction.add(cachePricesInstruction);
-
-    return await this.sendTransaction(transaction, payer, []);
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(transaction, payer, signers, opts);
   }
 
   /**
    * Called by the Keeper to cache perp market funding
    */
-  async cachePerpMarkets(
+  async cachePerpMarkets<O extends ActionOptions = ActionOptions>(
     entropyGroup: PublicKey,
     entropyCache: PublicKey,
     perpMarkets: PublicKey[],
-    payer: Account,
-  ): Promise<TransactionSignature> {
-    const cachePerpMarketsInstruction = makeCachePerpMarketsInstruction(
-      this.programId,
+    payer: SignerLike,
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } = await this.instructions.cachePerpMarkets(
       entropyGroup,
       entropyCache,
       perpMarkets,
     );
 
-    const transaction = new Transaction();
-    transaction.add(cachePerpMarketsInstruction);
-
-    return await this.sendTransaction(transaction, payer, []);
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(transaction, payer, signers, opts);
   }
 
   /**
    * Called by the Keeper to update interest rates on the RootBanks
    */
-  async updateRootBank(
+  async updateRootBank<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     rootBank: PublicKey,
     nodeBanks: PublicKey[],
-    payer: Account | WalletAdapter,
-  ): Promise<TransactionSignature> {
-    const updateRootBanksInstruction = makeUpdateRootBankInstruction(
-      this.programId,
-      entropyGroup.publicKey,
-      entropyGroup.entropyCache,
+    payer: SignerLike,
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } = await this.instructions.updateRootBank(
+      entropyGroup,
       rootBank,
       nodeBanks,
     );
 
-    const transaction = new Transaction();
-    transaction.add(updateRootBanksInstruction);
-
-    return await this.sendTransaction(transaction, payer, []);
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(transaction, payer, signers, opts);
   }
 
   /**
    * Called by the Keeper to process events on the Perp order book
    */
-  async consumeEvents(
+  async consumeEvents<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     perpMarket: PerpMarket,
     entropyAccounts: PublicKey[],
-    payer: Account,
+    payer: SignerLike,
     limit: BN,
-  ): Promise<TransactionSignature> {
-    const consumeEventsInstruction = makeConsumeEventsInstruction(
-      this.programId,
-      entropyGroup.publicKey,
-      entropyGroup.entropyCache,
-      perpMarket.publicKey,
-      perpMarket.eventQueue,
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } = await this.instructions.consumeEvents(
+      entropyGroup,
+      perpMarket,
       entropyAccounts,
       limit,
     );
 
-    const transaction = new Transaction();
-    transaction.add(consumeEventsInstruction);
-
-    return await this.sendTransaction(transaction, payer, [], null);
+    const transaction = new Transaction().add(...instructions);
+    // fire and forget unless the caller asks to confirm
+    return await this.sendAction(transaction, payer, signers, {
+      ...opts,
+      sendPolicy: { timeout: null, ...opts?.sendPolicy },
+    } as O);
   }
 
   /**
    * Called by the Keeper to update funding on the perp markets
    */
-  async updateFunding(
+  async updateFunding<O extends ActionOptions = ActionOptions>(
     entropyGroup: PublicKey,
     entropyCache: PublicKey,
     perpMarket: PublicKey,
     bids: PublicKey,
     asks: PublicKey,
-    payer: Account,
-  ): Promise<TransactionSignature> {
-    const updateFundingInstruction = makeUpdateFundingInstruction(
-      this.programId,
+    payer: SignerLike,
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } = await this.instructions.updateFunding(
       entropyGroup,
       entropyCache,
       perpMarket,
@@ -1177,10 +1596,8 @@ export class EntropyClient {
       asks,
     );
 
-    const transaction = new Transaction();
-    transaction.add(updateFundingInstruction);
-
-    return await this.sendTransaction(transaction, payer, []);
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(transaction, payer, signers, opts);
   }
 
   /**
@@ -1201,18 +1618,61 @@ export class EntropyClient {
     return perpMarket;
   }
 
+  /**
+   * Load both sides of a spot or perp market's order book
+   */
+  async loadBook(marketConfig: MarketConfig): Promise<MarketBooks> {
+    const { publicKey, bidsKey, asksKey, baseDecimals, quoteDecimals } =
+      marketConfig;
+    const [market, bids, asks] = await Promise.all(
+      [publicKey, bidsKey, asksKey].map(async (pk) => {
+        const account = await this.accountLoader.load(pk);
+        if (!account) {
+          throw new Error(`Account ${pk.toBase58()} not found`);
+        }
+        return account.accountInfo;
+      }),
+    );
+
+    if (marketConfig.kind === 'spot') {
+      // the market account is owned by the dex program it runs on
+      const spotMarket = new Market(
+        Market.getLayout(market.owner).decode(market.data),
+        baseDecimals,
+        quoteDecimals,
+        {},
+        market.owner,
+      );
+      return {
+        bids: SpotBookSide.decode(spotMarket, bids.data),
+        asks: SpotBookSide.decode(spotMarket, asks.data),
+      };
+    }
+
+    const perpMarket = new PerpMarket(
+      publicKey,
+      baseDecimals,
+      quoteDecimals,
+      PerpMarketLayout.decode(market.data),
+    );
+    return {
+      bids: new BookSide(bidsKey, perpMarket, BookSideLayout.decode(bids.data)),
+      asks: new BookSide(asksKey, perpMarket, BookSideLayout.decode(asks.data)),
+    };
+  }
+
   /**
    * Place an order on a perp market
    *
    * @param clientOrderId An optional id that can be used to correlate events related to your order
    * @param bookSideInfo Account info for asks if side === bid, bids if side === ask. If this is given, crank instruction is added
    */
-  async placePerpOrder(
+  async placePerpOrder<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     entropyAccount: EntropyAccount,
     entropyCache: PublicKey, // TODO - remove; already in EntropyGroup
     perpMarket: PerpMarket,
-    owner: Account | WalletAdapter,
+    owner: SignerLike,
 
     side: 'buy' | 'sell',
     price: number,
@@ -1221,67 +1681,31 @@ export class EntropyClient {
     clientOrderId = 0,
     bookSideInfo?: AccountInfo<Buffer>,
     reduceOnly?: boolean,
-  ): Promise<TransactionSignature> {
-    const [nativePrice, nativeQuantity] = perpMarket.uiToNativePriceQuantity(
-      price,
-      quantity,
-    );
-    const transaction = new Transaction();
-    const additionalSigners: Account[] = [];
-
-    const instruction = makePlacePerpOrderInstruction(
-      this.programId,
-      entropyGroup.publicKey,
-      entropyAccount.publicKey,
-      owner.publicKey,
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } = await this.instructions.placePerpOrder(
+      entropyGroup,
+      entropyAccount,
       entropyCache,
-      perpMarket.publicKey,
-      perpMarket.bids,
-      perpMarket.asks,
-      perpMarket.eventQueue,
-      entropyAccount.spotOpenOrders,
-      nativePrice,
-      nativeQuantity,
-      new BN(clientOrderId),
+      perpMarket,
+      owner.publicKey,
       side,
+      price,
+      quantity,
       orderType,
+      clientOrderId,
+      bookSideInfo,
       reduceOnly,
     );
-    transaction.add(instruction);
 
-    if (bookSideInfo) {
-      const bookSide = bookSideInfo.data
-        ? new BookSide(
-          side === 'buy' ? perpMarket.asks : perpMarket.bids,
-          perpMarket,
-          BookSideLayout.decode(bookSideInfo.data),
-        )
-        : [];
-      const accounts: Set<string> = new Set();
-      accounts.add(entropyAccount.publicKey.toBase58());
-
-      for (const order of bookSide) {
-        accounts.add(order.owner.toBase58());
-        if (accounts.size >= 10) {
-          break;
-        }
-      }
-
-      const consumeInstruction = makeConsumeEventsInstruction(
-        this.programId,
-        entropyGroup.publicKey,
-        entropyGroup.entropyCache,
-        perpMarket.publicKey,
-        perpMarket.eventQueue,
-        Array.from(accounts)
-          .map((s) => new PublicKey(s))
-          .sort(),
-        new BN(4),
-      );
-      transaction.add(consumeInstruction);
-    }
-
-    return await this.sendTransaction(transaction, owner, additionalSigners);
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(
+      transaction,
+      owner,
+      signers,
+      opts,
+      entropyAccount,
+    );
   }
 
   /**
@@ -1289,104 +1713,87 @@ export class EntropyClient {
    *
    * @param invalidIdOk Don't throw error if order is invalid
    */
-  async cancelPerpOrder(
+  async cancelPerpOrder<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     entropyAccount: EntropyAccount,
-    owner: Account | WalletAdapter,
+    owner: SignerLike,
     perpMarket: PerpMarket,
     order: PerpOrder,
     invalidIdOk = false,
-  ): Promise<TransactionSignature> {
-    const instruction = makeCancelPerpOrderInstruction(
-      this.programId,
-      entropyGroup.publicKey,
-      entropyAccount.publicKey,
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } = await this.instructions.cancelPerpOrder(
+      entropyGroup,
+      entropyAccount,
       owner.publicKey,
-      perpMarket.publicKey,
-      perpMarket.bids,
-      perpMarket.asks,
+      perpMarket,
       order,
       invalidIdOk,
     );
 
-    const transaction = new Transaction();
-    transaction.add(instruction);
-    const additionalSigners = [];
-
-    return await this.sendTransaction(transaction, owner, additionalSigners);
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(
+      transaction,
+      owner,
+      signers,
+      opts,
+      entropyAccount,
+    );
   }
 
   /**
    * Cancel all perp orders across all markets
    */
-  async cancelAllPerpOrders(
+  async cancelAllPerpOrders<O extends ActionOptions = ActionOptions>(
     group: EntropyGroup,
     perpMarkets: PerpMarket[],
     entropyAccount: EntropyAccount,
-    owner: Account | WalletAdapter,
-  ): Promise<TransactionSignature[]> {
-    let tx = new Transaction();
-    const transactions: Transaction[] = [];
-
-    // Determine which market indexes have open orders
-    const hasOrders = new Array(group.perpMarkets.length).fill(false);
-    for (let i = 0; i < entropyAccount.orderMarket.length; i++) {
-      if (entropyAccount.orderMarket[i] !== FREE_ORDER_SLOT) {
-        hasOrders[entropyAccount.orderMarket[i]] = true;
-      }
-    }
-
-    for (let i = 0; i < group.perpMarkets.length; i++) {
-      if (!hasOrders[i]) continue;
-
-      const pmi = group.perpMarkets[i];
-      if (pmi.isEmpty()) continue;
-      const perpMarket = perpMarkets.find((pm) =>
-        pm.publicKey.equals(pmi.perpMarket),
-      );
-      if (perpMarket === undefined) continue;
-
-      const cancelAllInstr = makeCancelAllPerpOrdersInstruction(
-        this.programId,
-        group.publicKey,
-        entropyAccount.publicKey,
-        owner.publicKey,
-        perpMarket.publicKey,
-        perpMarket.bids,
-        perpMarket.asks,
-        new BN(20),
-      );
-      tx.add(cancelAllInstr);
-      if (tx.instructions.length === 2) {
-        transactions.push(tx);
-        tx = new Transaction();
-      }
-    }
-    if (tx.instructions.length > 0) {
-      transactions.push(tx);
-    }
+    owner: SignerLike,
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature[]>> {
+    const { instructions } = await this.instructions.cancelAllPerpOrders(
+      group,
+      perpMarkets,
+      entropyAccount,
+      owner.publicKey,
+    );
 
-    const transactionsAndSigners = transactions.map((tx) => ({
-      transaction: tx,
-      signers: [],
-    }));
+    const transactionsAndSigners = this.makePacker(
+      owner.publicKey,
+      opts?.computeBudget,
+    ).pack(
+      instructions.map((instruction) => ({
+        instruction,
+        computeUnits: CANCEL_ALL_PERP_ORDERS_COMPUTE_UNITS,
+      })),
+    );
 
     if (transactionsAndSigners.length === 0) {
       throw new Error('No orders to cancel');
     }
 
+    if (opts?.simulate) {
+      return (await this.simulateActions(
+        transactionsAndSigners,
+        owner,
+        entropyAccount,
+        opts.computeBudget,
+      )) as ActionResult<O, TransactionSignature[]>;
+    }
+
     // Sign multiple transactions at once for better UX
     const signedTransactions = await this.signTransactions({
       transactionsAndSigners,
       payer: owner,
+      computeBudget: opts?.computeBudget,
     });
 
     if (signedTransactions) {
-      return await Promise.all(
+      return (await Promise.all(
         signedTransactions.map((signedTransaction) =>
-          this.sendSignedTransaction({ signedTransaction }),
+          this.sendSignedAction(signedTransaction, opts),
         ),
-      );
+      )) as ActionResult<O, TransactionSignature[]>;
     } else {
       throw new Error('Unable to sign all CancelAllPerpOrders transactions');
     }
@@ -1414,55 +1821,49 @@ export class EntropyClient {
   /**
    * Add a new oracle to a group
    */
-  async addOracle(
+  async addOracle<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     oracle: PublicKey,
-    admin: Account,
-  ): Promise<TransactionSignature> {
-    const instruction = makeAddOracleInstruction(
-      this.programId,
-      entropyGroup.publicKey,
+    admin: SignerLike,
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } = await this.instructions.addOracle(
+      entropyGroup,
       oracle,
       admin.publicKey,
     );
 
-    const transaction = new Transaction();
-    transaction.add(instruction);
-
-    const additionalSigners = [];
-    return await this.sendTransaction(transaction, admin, additionalSigners);
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(transaction, admin, signers, opts);
   }
 
   /**
    * Set the price of a 'stub' type oracle
    */
-  async setOracle(
+  async setOracle<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     oracle: PublicKey,
-    admin: Account,
+    admin: SignerLike,
     price: I80F48,
-  ): Promise<TransactionSignature> {
-    const instruction = makeSetOracleInstruction(
-      this.programId,
-      entropyGroup.publicKey,
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } = await this.instructions.setOracle(
+      entropyGroup,
       oracle,
       admin.publicKey,
       price,
     );
 
-    const transaction = new Transaction();
-    transaction.add(instruction);
-
-    const additionalSigners = [];
-    return await this.sendTransaction(transaction, admin, additionalSigners);
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(transaction, admin, signers, opts);
   }
 
-  async addSpotMarket(
+  async addSpotMarket<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     oracle: PublicKey,
     spotMarket: PublicKey,
     mint: PublicKey,
-    admin: Account,
+    admin: SignerLike,
 
     maintLeverage: number,
     initLeverage: number,
@@ -1470,244 +1871,93 @@ export class EntropyClient {
     optimalUtil: number,
     optimalRate: number,
     maxRate: number,
-  ): Promise<TransactionSignature> {
-    const vaultAccount = new Account();
-
-    const vaultAccountInstructions = await createTokenAccountInstructions(
-      this.connection,
-      admin.publicKey,
-      vaultAccount.publicKey,
-      mint,
-      entropyGroup.signerKey,
-    );
-
-    const nodeBankAccountInstruction = await createAccountInstruction(
-      this.connection,
-      admin.publicKey,
-      NodeBankLayout.span,
-      this.programId,
-    );
-    const rootBankAccountInstruction = await createAccountInstruction(
-      this.connection,
-      admin.publicKey,
-      RootBankLayout.span,
-      this.programId,
-    );
-
-    const instruction = makeAddSpotMarketInstruction(
-      this.programId,
-      entropyGroup.publicKey,
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } = await this.instructions.addSpotMarket(
+      entropyGroup,
       oracle,
       spotMarket,
-      entropyGroup.dexProgramId,
       mint,
-      nodeBankAccountInstruction.account.publicKey,
-      vaultAccount.publicKey,
-      rootBankAccountInstruction.account.publicKey,
       admin.publicKey,
-      I80F48.fromNumber(maintLeverage),
-      I80F48.fromNumber(initLeverage),
-      I80F48.fromNumber(liquidationFee),
-      I80F48.fromNumber(optimalUtil),
-      I80F48.fromNumber(optimalRate),
-      I80F48.fromNumber(maxRate),
+      maintLeverage,
+      initLeverage,
+      liquidationFee,
+      optimalUtil,
+      optimalRate,
+      maxRate,
     );
-    const transaction = new Transaction();
-    transaction.add(...vaultAccountInstructions);
-    transaction.add(nodeBankAccountInstruction.instruction);
-    transaction.add(rootBankAccountInstruction.instruction);
-    transaction.add(instruction);
 
-    const additionalSigners = [
-      vaultAccount,
-      nodeBankAccountInstruction.account,
-      rootBankAccountInstruction.account,
-    ];
-    return await this.sendTransaction(transaction, admin, additionalSigners);
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(transaction, admin, signers, opts);
   }
 
   /**
    * Make sure entropyAccount has recent and valid inMarginBasket and spotOpenOrders
    */
-  async placeSpotOrder(
+  async placeSpotOrder<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     entropyAccount: EntropyAccount,
     entropyCache: PublicKey,
     spotMarket: Market,
-    owner: Account | WalletAdapter,
+    owner: SignerLike,
 
     side: 'buy' | 'sell',
     price: number,
     size: number,
     orderType?: 'limit' | 'ioc' | 'postOnly',
     clientId?: BN,
-  ): Promise<TransactionSignature> {
-    const limitPrice = spotMarket.priceNumberToLots(price);
-    const maxBaseQuantity = spotMarket.baseSizeNumberToLots(size);
-
-    // TODO implement srm vault fee discount
-    // const feeTier = getFeeTier(0, nativeToUi(entropyGroup.nativeSrm || 0, SRM_DECIMALS));
-    const feeTier = getFeeTier(0, nativeToUi(0, 0));
-    const rates = getFeeRates(feeTier);
-    const maxQuoteQuantity = new BN(
-      spotMarket['_decoded'].quoteLotSize.toNumber() * (1 + rates.taker),
-    ).mul(
-      spotMarket
-        .baseSizeNumberToLots(size)
-        .mul(spotMarket.priceNumberToLots(price)),
-    );
-
-    if (maxBaseQuantity.lte(ZERO_BN)) {
-      throw new Error('size too small');
-    }
-    if (limitPrice.lte(ZERO_BN)) {
-      throw new Error('invalid price');
-    }
-    const selfTradeBehavior = 'decrementTake';
-    clientId = clientId ?? new BN(Date.now());
-
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
     const spotMarketIndex = entropyGroup.getSpotMarketIndex(spotMarket.publicKey);
-
-    if (!entropyGroup.rootBankAccounts.filter((a) => !!a).length) {
-      await entropyGroup.loadRootBanks(this.connection);
-    }
-
-    const baseRootBank = entropyGroup.rootBankAccounts[spotMarketIndex];
-    const baseNodeBank = baseRootBank?.nodeBankAccounts[0];
-    const quoteRootBank = entropyGroup.rootBankAccounts[QUOTE_INDEX];
-    const quoteNodeBank = quoteRootBank?.nodeBankAccounts[0];
-
-    if (!baseRootBank || !baseNodeBank || !quoteRootBank || !quoteNodeBank) {
-      throw new Error('Invalid or missing banks');
-    }
-
-    const transaction = new Transaction();
-    const additionalSigners: Account[] = [];
-    const openOrdersKeys: { pubkey: PublicKey; isWritable: boolean }[] = [];
-
-    // Only pass in open orders if in margin basket or current market index, and
-    // the only writable account should be OpenOrders for current market index
-    for (let i = 0; i < entropyAccount.spotOpenOrders.length; i++) {
-      let pubkey = zeroKey;
-      let isWritable = false;
-
-      if (i === spotMarketIndex) {
-        isWritable = true;
-
-        if (entropyAccount.spotOpenOrders[spotMarketIndex].equals(zeroKey)) {
-          // open orders missing for this market; create a new one now
-          const openOrdersSpace = OpenOrders.getLayout(
-            entropyGroup.dexProgramId,
-          ).span;
-
-          const openOrdersLamports =
-            await this.connection.getMinimumBalanceForRentExemption(
-              openOrdersSpace,
-              'processed',
-            );
-
-          const accInstr = await createAccountInstruction(
-            this.connection,
-            owner.publicKey,
-            openOrdersSpace,
-            entropyGroup.dexProgramId,
-            openOrdersLamports,
-          );
-
-          const initOpenOrders = makeInitSpotOpenOrdersInstruction(
-            this.programId,
-            entropyGroup.publicKey,
-            entropyAccount.publicKey,
-            owner.publicKey,
-            entropyGroup.dexProgramId,
-            accInstr.account.publicKey,
-            spotMarket.publicKey,
-            entropyGroup.signerKey,
-          );
-
-          const initTx = new Transaction();
-
-          initTx.add(accInstr.instruction);
-          initTx.add(initOpenOrders);
-
-          await this.sendTransaction(initTx, owner, [accInstr.account]);
-
-          pubkey = accInstr.account.publicKey;
-        } else {
-          pubkey = entropyAccount.spotOpenOrders[i];
-        }
-      } else if (entropyAccount.inMarginBasket[i]) {
-        pubkey = entropyAccount.spotOpenOrders[i];
-      }
-
-      openOrdersKeys.push({ pubkey, isWritable });
-    }
-
-    const dexSigner = await PublicKey.createProgramAddress(
-      [
-        spotMarket.publicKey.toBuffer(),
-        spotMarket['_decoded'].vaultSignerNonce.toArrayLike(Buffer, 'le', 8),
-      ],
-      spotMarket.programId,
+    await this.ensureSpotOpenOrders(
+      entropyGroup,
+      entropyAccount,
+      spotMarket,
+      owner,
+      opts,
     );
 
-    const placeOrderInstruction = makePlaceSpotOrderInstruction(
-      this.programId,
-      entropyGroup.publicKey,
-      entropyAccount.publicKey,
-      owner.publicKey,
-      entropyCache,
-      spotMarket.programId,
-      spotMarket.publicKey,
-      spotMarket['_decoded'].bids,
-      spotMarket['_decoded'].asks,
-      spotMarket['_decoded'].requestQueue,
-      spotMarket['_decoded'].eventQueue,
-      spotMarket['_decoded'].baseVault,
-      spotMarket['_decoded'].quoteVault,
-      baseRootBank.publicKey,
-      baseNodeBank.publicKey,
-      baseNodeBank.vault,
-      quoteRootBank.publicKey,
-      quoteNodeBank.publicKey,
-      quoteNodeBank.vault,
-      entropyGroup.signerKey,
-      dexSigner,
-      entropyGroup.srmVault, // TODO: choose msrm vault if it has any deposits
-      openOrdersKeys,
-      side,
-      limitPrice,
-      maxBaseQuantity,
-      maxQuoteQuantity,
-      selfTradeBehavior,
-      orderType,
-      clientId,
-    );
-    transaction.add(placeOrderInstruction);
+    const { instructions, signers, openOrders } =
+      await this.instructions.placeSpotOrder(
+        entropyGroup,
+        entropyAccount,
+        entropyCache,
+        spotMarket,
+        owner.publicKey,
+        side,
+        price,
+        size,
+        orderType,
+        clientId,
+      );
 
     if (spotMarketIndex > 0) {
-      console.log(new Date().toISOString(),
-        spotMarketIndex - 1,
-        entropyAccount.spotOpenOrders[spotMarketIndex - 1].toBase58(),
-        openOrdersKeys[spotMarketIndex - 1].pubkey.toBase58(),
-      );
+      this.logger.debug('Previous spot open orders', {
+        marketIndex: spotMarketIndex - 1,
+        openOrders:
+          entropyAccount.spotOpenOrders[spotMarketIndex - 1].toBase58(),
+      });
     }
 
-    const txid = await this.sendTransaction(
+    const transaction = new Transaction().add(...instructions);
+    const txid = await this.sendAction(
       transaction,
       owner,
-      additionalSigners,
+      signers,
+      opts,
+      entropyAccount,
     );
+    if (opts?.simulate) {
+      return txid;
+    }
 
     // update EntropyAccount to have new OpenOrders pubkey
-    entropyAccount.spotOpenOrders[spotMarketIndex] =
-      openOrdersKeys[spotMarketIndex].pubkey;
+    entropyAccount.spotOpenOrders[spotMarketIndex] = openOrders;
     entropyAccount.inMarginBasket[spotMarketIndex] = true;
-    console.log(new Date().toISOString(),
-      spotMarketIndex,
-      entropyAccount.spotOpenOrders[spotMarketIndex].toBase58(),
-      openOrdersKeys[spotMarketIndex].pubkey.toBase58(),
-    );
+    this.logger.debug('Spot open orders', {
+      marketIndex: spotMarketIndex,
+      openOrders: entropyAccount.spotOpenOrders[spotMarketIndex].toBase58(),
+    });
 
     return txid;
   }
@@ -1715,11 +1965,11 @@ export class EntropyClient {
   /**
    * Make sure entropyAccount has recent and valid inMarginBasket and spotOpenOrders
    */
-  async placeSpotOrder2(
+  async placeSpotOrder2<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     entropyAccount: EntropyAccount,
     spotMarket: Market,
-    owner: Account | WalletAdapter,
+    owner: SignerLike,
 
     side: 'buy' | 'sell',
     price: number,
@@ -1727,535 +1977,202 @@ export class EntropyClient {
     orderType?: 'limit' | 'ioc' | 'postOnly',
     clientOrderId?: BN,
     useMsrmVault?: boolean | undefined,
-  ): Promise<TransactionSignature> {
-    const limitPrice = spotMarket.priceNumberToLots(price);
-    const maxBaseQuantity = spotMarket.baseSizeNumberToLots(size);
-
-    // TODO implement srm vault fee discount
-    // const feeTier = getFeeTier(0, nativeToUi(entropyGroup.nativeSrm || 0, SRM_DECIMALS));
-    const feeTier = getFeeTier(0, nativeToUi(0, 0));
-    const rates = getFeeRates(feeTier);
-    const maxQuoteQuantity = new BN(
-      spotMarket['_decoded'].quoteLotSize.toNumber() * (1 + rates.taker),
-    ).mul(
-      spotMarket
-        .baseSizeNumberToLots(size)
-        .mul(spotMarket.priceNumberToLots(price)),
-    );
-
-    if (maxBaseQuantity.lte(ZERO_BN)) {
-      throw new Error('size too small');
-    }
-    if (limitPrice.lte(ZERO_BN)) {
-      throw new Error('invalid price');
-    }
-    const selfTradeBehavior = 'decrementTake';
-
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
     const spotMarketIndex = entropyGroup.getSpotMarketIndex(spotMarket.publicKey);
-
-    if (!entropyGroup.rootBankAccounts.filter((a) => !!a).length) {
-      await entropyGroup.loadRootBanks(this.connection);
-    }
-    let feeVault: PublicKey = zeroKey;
-    if (useMsrmVault) {
-      feeVault = entropyGroup.msrmVault;
-    } else if (useMsrmVault === false) {
-      feeVault = entropyGroup.srmVault;
-    } else {
-      const totalMsrm = await this.connection.getTokenAccountBalance(
-        entropyGroup.msrmVault,
-      );
-      feeVault =
-        totalMsrm?.value?.uiAmount && totalMsrm.value.uiAmount > 0
-          ? entropyGroup.msrmVault
-          : entropyGroup.srmVault;
-    }
-
-    const baseRootBank = entropyGroup.rootBankAccounts[spotMarketIndex];
-    const baseNodeBank = baseRootBank?.nodeBankAccounts[0];
-    const quoteRootBank = entropyGroup.rootBankAccounts[QUOTE_INDEX];
-    const quoteNodeBank = quoteRootBank?.nodeBankAccounts[0];
-
-    if (!baseRootBank || !baseNodeBank || !quoteRootBank || !quoteNodeBank) {
-      throw new Error('Invalid or missing banks');
-    }
-
-    const transaction = new Transaction();
-    const additionalSigners: Account[] = [];
-    const openOrdersKeys: { pubkey: PublicKey; isWritable: boolean }[] = [];
-
-    // Only pass in open orders if in margin basket or current market index, and
-    // the only writable account should be OpenOrders for current market index
-    let marketOpenOrdersKey = zeroKey;
-    for (let i = 0; i < entropyAccount.spotOpenOrders.length; i++) {
-      let pubkey = zeroKey;
-      let isWritable = false;
-
-      if (i === spotMarketIndex) {
-        isWritable = true;
-
-        if (entropyAccount.spotOpenOrders[spotMarketIndex].equals(zeroKey)) {
-          // open orders missing for this market; create a new one now
-          const openOrdersSpace = OpenOrders.getLayout(
-            entropyGroup.dexProgramId,
-          ).span;
-
-          const openOrdersLamports =
-            await this.connection.getMinimumBalanceForRentExemption(
-              openOrdersSpace,
-              'processed',
-            );
-
-          const accInstr = await createAccountInstruction(
-            this.connection,
-            owner.publicKey,
-            openOrdersSpace,
-            entropyGroup.dexProgramId,
-            openOrdersLamports,
-          );
-
-          const initOpenOrders = makeInitSpotOpenOrdersInstruction(
-            this.programId,
-            entropyGroup.publicKey,
-            entropyAccount.publicKey,
-            owner.publicKey,
-            entropyGroup.dexProgramId,
-            accInstr.account.publicKey,
-            spotMarket.publicKey,
-            entropyGroup.signerKey,
-          );
-
-          const initTx = new Transaction();
-
-          initTx.add(accInstr.instruction);
-          initTx.add(initOpenOrders);
-
-          await this.sendTransaction(initTx, owner, [accInstr.account]);
-          pubkey = accInstr.account.publicKey;
-        } else {
-          pubkey = entropyAccount.spotOpenOrders[i];
-        }
-        marketOpenOrdersKey = pubkey;
-      } else if (entropyAccount.inMarginBasket[i]) {
-        pubkey = entropyAccount.spotOpenOrders[i];
-      }
-
-      // new design does not require zero keys to be passed in
-      if (!pubkey.equals(zeroKey)) {
-        openOrdersKeys.push({ pubkey, isWritable });
-      }
-    }
-
-    const dexSigner = await PublicKey.createProgramAddress(
-      [
-        spotMarket.publicKey.toBuffer(),
-        spotMarket['_decoded'].vaultSignerNonce.toArrayLike(Buffer, 'le', 8),
-      ],
-      spotMarket.programId,
+    await this.ensureSpotOpenOrders(
+      entropyGroup,
+      entropyAccount,
+      spotMarket,
+      owner,
+      opts,
     );
 
-    const placeOrderInstruction = makePlaceSpotOrder2Instruction(
-      this.programId,
-      entropyGroup.publicKey,
-      entropyAccount.publicKey,
-      owner.publicKey,
-      entropyGroup.entropyCache,
-      spotMarket.programId,
-      spotMarket.publicKey,
-      spotMarket['_decoded'].bids,
-      spotMarket['_decoded'].asks,
-      spotMarket['_decoded'].requestQueue,
-      spotMarket['_decoded'].eventQueue,
-      spotMarket['_decoded'].baseVault,
-      spotMarket['_decoded'].quoteVault,
-      baseRootBank.publicKey,
-      baseNodeBank.publicKey,
-      baseNodeBank.vault,
-      quoteRootBank.publicKey,
-      quoteNodeBank.publicKey,
-      quoteNodeBank.vault,
-      entropyGroup.signerKey,
-      dexSigner,
-      feeVault,
-      openOrdersKeys,
-      side,
-      limitPrice,
-      maxBaseQuantity,
-      maxQuoteQuantity,
-      selfTradeBehavior,
-      orderType,
-      clientOrderId ?? new BN(Date.now()),
-    );
-    transaction.add(placeOrderInstruction);
+    const { instructions, signers, openOrders } =
+      await this.instructions.placeSpotOrder2(
+        entropyGroup,
+        entropyAccount,
+        spotMarket,
+        owner.publicKey,
+        side,
+        price,
+        size,
+        orderType,
+        clientOrderId,
+        useMsrmVault,
+      );
 
-    const txid = await this.sendTransaction(
+    const transaction = new Transaction().add(...instructions);
+    const txid = await this.sendAction(
       transaction,
       owner,
-      additionalSigners,
+      signers,
+      opts,
+      entropyAccount,
     );
+    if (opts?.simulate) {
+      return txid;
+    }
 
     // update EntropyAccount to have new OpenOrders pubkey
     // We know this new key is in margin basket because if it was a full taker trade
     // there is some leftover from fee rebate. If maker trade there's the order.
     // and if it failed then we already exited before this line
-    entropyAccount.spotOpenOrders[spotMarketIndex] = marketOpenOrdersKey;
+    entropyAccount.spotOpenOrders[spotMarketIndex] = openOrders;
     entropyAccount.inMarginBasket[spotMarketIndex] = true;
-    console.log(new Date().toISOString(),
-      spotMarketIndex,
-      entropyAccount.spotOpenOrders[spotMarketIndex].toBase58(),
-      marketOpenOrdersKey.toBase58(),
-    );
+    this.logger.debug('Spot open orders', {
+      marketIndex: spotMarketIndex,
+      openOrders: entropyAccount.spotOpenOrders[spotMarketIndex].toBase58(),
+    });
 
     return txid;
   }
 
-  async cancelSpotOrder(
+  async cancelSpotOrder<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     entropyAccount: EntropyAccount,
-    owner: Account | WalletAdapter,
+    owner: SignerLike,
     spotMarket: Market,
     order: Order,
-  ): Promise<TransactionSignature> {
-    const transaction = new Transaction();
-    const instruction = makeCancelSpotOrderInstruction(
-      this.programId,
-      entropyGroup.publicKey,
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } = await this.instructions.cancelSpotOrder(
+      entropyGroup,
+      entropyAccount,
       owner.publicKey,
-      entropyAccount.publicKey,
-      spotMarket.programId,
-      spotMarket.publicKey,
-      spotMarket['_decoded'].bids,
-      spotMarket['_decoded'].asks,
-      order.openOrdersAddress,
-      entropyGroup.signerKey,
-      spotMarket['_decoded'].eventQueue,
+      spotMarket,
       order,
     );
-    transaction.add(instruction);
-
-    const dexSigner = await PublicKey.createProgramAddress(
-      [
-        spotMarket.publicKey.toBuffer(),
-        spotMarket['_decoded'].vaultSignerNonce.toArrayLike(Buffer, 'le', 8),
-      ],
-      spotMarket.programId,
-    );
-
-    const marketIndex = entropyGroup.getSpotMarketIndex(spotMarket.publicKey);
-    if (!entropyGroup.rootBankAccounts.length) {
-      await entropyGroup.loadRootBanks(this.connection);
-    }
-    const baseRootBank = entropyGroup.rootBankAccounts[marketIndex];
-    const quoteRootBank = entropyGroup.rootBankAccounts[QUOTE_INDEX];
-    const baseNodeBank = baseRootBank?.nodeBankAccounts[0];
-    const quoteNodeBank = quoteRootBank?.nodeBankAccounts[0];
 
-    if (!baseNodeBank || !quoteNodeBank) {
-      throw new Error('Invalid or missing node banks');
-    }
-    const settleFundsInstruction = makeSettleFundsInstruction(
-      this.programId,
-      entropyGroup.publicKey,
-      entropyGroup.entropyCache,
-      owner.publicKey,
-      entropyAccount.publicKey,
-      spotMarket.programId,
-      spotMarket.publicKey,
-      entropyAccount.spotOpenOrders[marketIndex],
-      entropyGroup.signerKey,
-      spotMarket['_decoded'].baseVault,
-      spotMarket['_decoded'].quoteVault,
-      entropyGroup.tokens[marketIndex].rootBank,
-      baseNodeBank.publicKey,
-      entropyGroup.tokens[QUOTE_INDEX].rootBank,
-      quoteNodeBank.publicKey,
-      baseNodeBank.vault,
-      quoteNodeBank.vault,
-      dexSigner,
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(
+      transaction,
+      owner,
+      signers,
+      opts,
+      entropyAccount,
     );
-    transaction.add(settleFundsInstruction);
-
-    const additionalSigners = [];
-
-    return await this.sendTransaction(transaction, owner, additionalSigners);
   }
 
-  async settleFunds(
+  async settleFunds<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     entropyAccount: EntropyAccount,
-    owner: Account | WalletAdapter,
+    owner: SignerLike,
     spotMarket: Market,
-  ): Promise<TransactionSignature> {
-    const marketIndex = entropyGroup.getSpotMarketIndex(spotMarket.publicKey);
-    const dexSigner = await PublicKey.createProgramAddress(
-      [
-        spotMarket.publicKey.toBuffer(),
-        spotMarket['_decoded'].vaultSignerNonce.toArrayLike(Buffer, 'le', 8),
-      ],
-      spotMarket.programId,
-    );
-
-    if (!entropyGroup.rootBankAccounts.length) {
-      await entropyGroup.loadRootBanks(this.connection);
-    }
-    const baseRootBank = entropyGroup.rootBankAccounts[marketIndex];
-    const quoteRootBank = entropyGroup.rootBankAccounts[QUOTE_INDEX];
-    const baseNodeBank = baseRootBank?.nodeBankAccounts[0];
-    const quoteNodeBank = quoteRootBank?.nodeBankAccounts[0];
-
-    if (!baseNodeBank || !quoteNodeBank) {
-      throw new Error('Invalid or missing node banks');
-    }
-
-    const instruction = makeSettleFundsInstruction(
-      this.programId,
-      entropyGroup.publicKey,
-      entropyGroup.entropyCache,
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } = await this.instructions.settleFunds(
+      entropyGroup,
+      entropyAccount,
       owner.publicKey,
-      entropyAccount.publicKey,
-      spotMarket.programId,
-      spotMarket.publicKey,
-      entropyAccount.spotOpenOrders[marketIndex],
-      entropyGroup.signerKey,
-      spotMarket['_decoded'].baseVault,
-      spotMarket['_decoded'].quoteVault,
-      entropyGroup.tokens[marketIndex].rootBank,
-      baseNodeBank.publicKey,
-      entropyGroup.tokens[QUOTE_INDEX].rootBank,
-      quoteNodeBank.publicKey,
-      baseNodeBank.vault,
-      quoteNodeBank.vault,
-      dexSigner,
+      spotMarket,
     );
 
-    const transaction = new Transaction();
-    transaction.add(instruction);
-
-    const additionalSigners = [];
-    return await this.sendTransaction(transaction, owner, additionalSigners);
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(
+      transaction,
+      owner,
+      signers,
+      opts,
+      entropyAccount,
+    );
   }
 
   /**
    * Assumes spotMarkets contains all Markets in EntropyGroup in order
    */
-  async settleAll(
+  async settleAll<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     entropyAccount: EntropyAccount,
     spotMarkets: Market[],
-    owner: Account | WalletAdapter,
-  ): Promise<TransactionSignature[]> {
-    const transactions: Transaction[] = [];
-
-    let j = 0;
-    for (let i = 0; i < entropyGroup.spotMarkets.length; i++) {
-      if (entropyGroup.spotMarkets[i].isEmpty()) continue;
-      const spotMarket = spotMarkets[j];
-      j++;
-
-      const transaction = new Transaction();
-      const openOrdersAccount = entropyAccount.spotOpenOrdersAccounts[i];
-      if (openOrdersAccount === undefined) continue;
-
-      if (
-        openOrdersAccount.quoteTokenFree.toNumber() +
-        openOrdersAccount['referrerRebatesAccrued'].toNumber() ===
-        0 &&
-        openOrdersAccount.baseTokenFree.toNumber() === 0
-      ) {
-        continue;
-      }
-
-      const dexSigner = await PublicKey.createProgramAddress(
-        [
-          spotMarket.publicKey.toBuffer(),
-          spotMarket['_decoded'].vaultSignerNonce.toArrayLike(Buffer, 'le', 8),
-        ],
-        spotMarket.programId,
-      );
-
-      if (!entropyGroup.rootBankAccounts.length) {
-        await entropyGroup.loadRootBanks(this.connection);
-      }
-      const baseRootBank = entropyGroup.rootBankAccounts[i];
-      const quoteRootBank = entropyGroup.rootBankAccounts[QUOTE_INDEX];
-      const baseNodeBank = baseRootBank?.nodeBankAccounts[0];
-      const quoteNodeBank = quoteRootBank?.nodeBankAccounts[0];
-
-      if (!baseNodeBank || !quoteNodeBank) {
-        throw new Error('Invalid or missing node banks');
-      }
-
-      const instruction = makeSettleFundsInstruction(
-        this.programId,
-        entropyGroup.publicKey,
-        entropyGroup.entropyCache,
-        owner.publicKey,
-        entropyAccount.publicKey,
-        spotMarket.programId,
-        spotMarket.publicKey,
-        entropyAccount.spotOpenOrders[i],
-        entropyGroup.signerKey,
-        spotMarket['_decoded'].baseVault,
-        spotMarket['_decoded'].quoteVault,
-        entropyGroup.tokens[i].rootBank,
-        baseNodeBank.publicKey,
-        entropyGroup.tokens[QUOTE_INDEX].rootBank,
-        quoteNodeBank.publicKey,
-        baseNodeBank.vault,
-        quoteNodeBank.vault,
-        dexSigner,
-      );
+    owner: SignerLike,
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature[]>> {
+    const { instructions } = await this.instructions.settleAll(
+      entropyGroup,
+      entropyAccount,
+      spotMarkets,
+      owner.publicKey,
+    );
 
-      transaction.add(instruction);
-      transactions.push(transaction);
+    const transactionsAndSigners = this.makePacker(
+      owner.publicKey,
+      opts?.computeBudget,
+    ).pack(
+      instructions.map((instruction) => ({
+        instruction,
+        computeUnits: SETTLE_FUNDS_COMPUTE_UNITS,
+      })),
+    );
+
+    if (opts?.simulate) {
+      return (await this.simulateActions(
+        transactionsAndSigners,
+        owner,
+        entropyAccount,
+        opts.computeBudget,
+      )) as ActionResult<O, TransactionSignature[]>;
     }
 
-    const signers = [];
-    const transactionsAndSigners = transactions.map((tx) => ({
-      transaction: tx,
-      signers,
-    }));
-
     const signedTransactions = await this.signTransactions({
       transactionsAndSigners,
       payer: owner,
+      computeBudget: opts?.computeBudget,
     });
 
-    const txids: TransactionSignature[] = [];
+    const txids: (TransactionSignature | SendTransactionResult)[] = [];
 
     if (signedTransactions) {
       for (const signedTransaction of signedTransactions) {
         if (signedTransaction.instructions.length == 0) {
           continue;
         }
-        const txid = await this.sendSignedTransaction({
-          signedTransaction,
-        });
-        txids.push(txid);
+        txids.push(await this.sendSignedAction(signedTransaction, opts));
       }
     } else {
       throw new Error('Unable to sign Settle All transaction');
     }
 
-    return txids;
+    return txids as ActionResult<O, TransactionSignature[]>;
   }
 
   /**
    * Automatically fetch EntropyAccounts for this PerpMarket
    * Pick enough EntropyAccounts that have opposite sign and send them in to get settled
    */
-  async settlePnl(
+  async settlePnl<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     entropyCache: EntropyCache,
     entropyAccount: EntropyAccount,
     perpMarket: PerpMarket,
     quoteRootBank: RootBank,
     price: I80F48, // should be the EntropyCache price
-    owner: Account | WalletAdapter,
+    owner: SignerLike,
     entropyAccounts?: EntropyAccount[],
-  ): Promise<TransactionSignature | null> {
-    // fetch all EntropyAccounts filtered for having this perp market in basket
-    const marketIndex = entropyGroup.getPerpMarketIndex(perpMarket.publicKey);
-    const perpMarketInfo = entropyGroup.perpMarkets[marketIndex];
-    let pnl = entropyAccount.perpAccounts[marketIndex].getPnl(
-      perpMarketInfo,
-      entropyCache.perpMarketCache[marketIndex],
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature> | null> {
+    const { instructions, signers } = await this.instructions.settlePnl(
+      entropyGroup,
+      entropyCache,
+      entropyAccount,
+      perpMarket,
+      quoteRootBank,
       price,
+      entropyAccounts,
     );
-    const transaction = new Transaction();
-    const additionalSigners: Account[] = [];
-
-    let sign;
-    if (pnl.eq(ZERO_I80F48)) {
-      // Can't settle pnl if there is no pnl
-      return null;
-    } else if (pnl.gt(ZERO_I80F48)) {
-      sign = 1;
-    } else {
-      // Can settle fees first against perpmarket
-
-      sign = -1;
-      if (!quoteRootBank.nodeBankAccounts) {
-        await quoteRootBank.loadNodeBanks(this.connection);
-      }
-      const settleFeesInstr = makeSettleFeesInstruction(
-        this.programId,
-        entropyGroup.publicKey,
-        entropyCache.publicKey,
-        perpMarket.publicKey,
-        entropyAccount.publicKey,
-        quoteRootBank.publicKey,
-        quoteRootBank.nodeBanks[0],
-        quoteRootBank.nodeBankAccounts[0].vault,
-        entropyGroup.feesVault,
-        entropyGroup.signerKey,
-      );
-      transaction.add(settleFeesInstr);
-      pnl = pnl.add(perpMarket.feesAccrued).min(I80F48.fromString('-0.000001'));
-      const remSign = pnl.gt(ZERO_I80F48) ? 1 : -1;
-      if (remSign !== sign) {
-        // if pnl has changed sign, then we're done
-        return await this.sendTransaction(
-          transaction,
-          owner,
-          additionalSigners,
-        );
-      }
-    }
-
-    if (entropyAccounts === undefined) {
-      entropyAccounts = await this.getAllEntropyAccounts(entropyGroup, [], false);
-    }
-
-    const accountsWithPnl = entropyAccounts
-      .map((m) => ({
-        account: m,
-        pnl: m.perpAccounts[marketIndex].getPnl(
-          perpMarketInfo,
-          entropyCache.perpMarketCache[marketIndex],
-          price,
-        ),
-      }))
-      .sort((a, b) => sign * a.pnl.cmp(b.pnl));
-
-    for (const account of accountsWithPnl) {
-      // ignore own account explicitly
-      if (account.account.publicKey.equals(entropyAccount.publicKey)) {
-        continue;
-      }
-      if (
-        ((pnl.isPos() && account.pnl.isNeg()) ||
-          (pnl.isNeg() && account.pnl.isPos())) &&
-        transaction.instructions.length < 10
-      ) {
-        // Account pnl must have opposite signs
-        const instr = makeSettlePnlInstruction(
-          this.programId,
-          entropyGroup.publicKey,
-          entropyAccount.publicKey,
-          account.account.publicKey,
-          entropyGroup.entropyCache,
-          quoteRootBank.publicKey,
-          quoteRootBank.nodeBanks[0],
-          new BN(marketIndex),
-        );
-        transaction.add(instr);
-        pnl = pnl.add(account.pnl);
-        // if pnl has changed sign, then we're done
-        const remSign = pnl.gt(ZERO_I80F48) ? 1 : -1;
-        if (remSign !== sign) {
-          break;
-        }
-      } else {
-        // means we ran out of accounts to settle against (shouldn't happen) OR transaction too big
-        // TODO - create a multi tx to be signed by user
-        continue;
-      }
+    if (instructions.length === 0) {
+      // Can't settle pnl if there is no pnl
+      return null;
     }
 
-    return await this.sendTransaction(transaction, owner, additionalSigners);
-
-    // Calculate the profit or loss per market
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(
+      transaction,
+      owner,
+      signers,
+      opts,
+      entropyAccount,
+    );
   }
 
   getEntropyAccountsForOwner(
@@ -2316,8 +2233,7 @@ export class EntropyClient {
         .map((ma) => ma.spotOpenOrders.filter((pk) => !pk.equals(zeroKey)))
         .flat();
 
-      const openOrderAccountInfos = await getMultipleAccounts(
-        this.connection,
+      const openOrderAccountInfos = await this.accountLoader.loadMultiple(
         openOrderPks,
       );
 
@@ -2349,55 +2265,43 @@ export class EntropyClient {
     return entropyAccounts;
   }
 
-  async addStubOracle(entropyGroupPk: PublicKey, admin: Account) {
-    const createOracleAccountInstruction = await createAccountInstruction(
-      this.connection,
-      admin.publicKey,
-      StubOracleLayout.span,
-      this.programId,
-    );
-
-    const instruction = makeAddOracleInstruction(
-      this.programId,
+  async addStubOracle<O extends ActionOptions = ActionOptions>(
+    entropyGroupPk: PublicKey,
+    admin: SignerLike,
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } = await this.instructions.addStubOracle(
       entropyGroupPk,
-      createOracleAccountInstruction.account.publicKey,
       admin.publicKey,
     );
 
-    const transaction = new Transaction();
-    transaction.add(createOracleAccountInstruction.instruction);
-    transaction.add(instruction);
-
-    const additionalSigners = [createOracleAccountInstruction.account];
-    return await this.sendTransaction(transaction, admin, additionalSigners);
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(transaction, admin, signers, opts);
   }
 
-  async setStubOracle(
+  async setStubOracle<O extends ActionOptions = ActionOptions>(
     entropyGroupPk: PublicKey,
     oraclePk: PublicKey,
-    admin: Account,
+    admin: SignerLike,
     price: number,
-  ) {
-    const instruction = makeSetOracleInstruction(
-      this.programId,
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } = await this.instructions.setStubOracle(
       entropyGroupPk,
       oraclePk,
       admin.publicKey,
-      I80F48.fromNumber(price),
+      price,
     );
 
-    const transaction = new Transaction();
-    transaction.add(instruction);
-
-    const additionalSigners = [];
-    return await this.sendTransaction(transaction, admin, additionalSigners);
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(transaction, admin, signers, opts);
   }
 
   async addPerpMarket(
     entropyGroup: EntropyGroup,
     oraclePk: PublicKey,
     mngoMintPk: PublicKey,
-    admin: Account,
+    admin: SignerLike,
     maintLeverage: number,
     initLeverage: number,
     liquidationFee: number,
@@ -2496,11 +2400,11 @@ export class EntropyClient {
     return await this.sendTransaction(transaction, admin, additionalSigners);
   }
 
-  async createPerpMarket(
+  async createPerpMarket<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     oraclePk: PublicKey,
     mngoMintPk: PublicKey,
-    admin: Account | Keypair,
+    admin: SignerLike,
     maintLeverage: number,
     initLeverage: number,
     liquidationFee: number,
@@ -2517,636 +2421,508 @@ export class EntropyClient {
     version: number,
     lmSizeShift: number,
     baseDecimals: number,
-  ) {
-    const [perpMarketPk] = await PublicKey.findProgramAddress(
-      [
-        entropyGroup.publicKey.toBytes(),
-        new Buffer('PerpMarket', 'utf-8'),
-        oraclePk.toBytes(),
-      ],
-      this.programId,
-    );
-    const makeEventQueueAccountInstruction = await createAccountInstruction(
-      this.connection,
-      admin.publicKey,
-      PerpEventQueueHeaderLayout.span + maxNumEvents * PerpEventLayout.span,
-      this.programId,
-    );
-
-    const makeBidAccountInstruction = await createAccountInstruction(
-      this.connection,
-      admin.publicKey,
-      BookSideLayout.span,
-      this.programId,
-    );
-
-    const makeAskAccountInstruction = await createAccountInstruction(
-      this.connection,
-      admin.publicKey,
-      BookSideLayout.span,
-      this.programId,
-    );
-
-    const [mngoVaultPk] = await PublicKey.findProgramAddress(
-      [
-        perpMarketPk.toBytes(),
-        TOKEN_PROGRAM_ID.toBytes(),
-        mngoMintPk.toBytes(),
-      ],
-      this.programId,
-    );
-    const instruction = await makeCreatePerpMarketInstruction(
-      this.programId,
-      entropyGroup.publicKey,
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } = await this.instructions.createPerpMarket(
+      entropyGroup,
       oraclePk,
-      perpMarketPk,
-      makeEventQueueAccountInstruction.account.publicKey,
-      makeBidAccountInstruction.account.publicKey,
-      makeAskAccountInstruction.account.publicKey,
       mngoMintPk,
-      mngoVaultPk,
       admin.publicKey,
-      entropyGroup.signerKey,
-      I80F48.fromNumber(maintLeverage),
-      I80F48.fromNumber(initLeverage),
-      I80F48.fromNumber(liquidationFee),
-      I80F48.fromNumber(makerFee),
-      I80F48.fromNumber(takerFee),
-      new BN(baseLotSize),
-      new BN(quoteLotSize),
-      I80F48.fromNumber(rate),
-      I80F48.fromNumber(maxDepthBps),
-      new BN(targetPeriodLength),
-      new BN(mngoPerPeriod),
-      new BN(exp),
-      new BN(version),
-      new BN(lmSizeShift),
-      new BN(baseDecimals),
-    );
-
-    const transaction = new Transaction();
-    transaction.add(makeEventQueueAccountInstruction.instruction);
-    transaction.add(makeBidAccountInstruction.instruction);
-    transaction.add(makeAskAccountInstruction.instruction);
-    transaction.add(instruction);
-
-    const additionalSigners = [
-      makeEventQueueAccountInstruction.account,
-      makeBidAccountInstruction.account,
-      makeAskAccountInstruction.account,
-    ];
-
-    return await this.sendTransaction(transaction, admin, additionalSigners);
+      maintLeverage,
+      initLeverage,
+      liquidationFee,
+      makerFee,
+      takerFee,
+      baseLotSize,
+      quoteLotSize,
+      maxNumEvents,
+      rate,
+      maxDepthBps,
+      targetPeriodLength,
+      mngoPerPeriod,
+      exp,
+      version,
+      lmSizeShift,
+      baseDecimals,
+    );
+
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(transaction, admin, signers, opts);
   }
 
   // Liquidator Functions
-  async forceCancelSpotOrders(
+  async forceCancelSpotOrders<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     liqeeEntropyAccount: EntropyAccount,
     spotMarket: Market,
     baseRootBank: RootBank,
     quoteRootBank: RootBank,
-    payer: Account,
+    payer: SignerLike,
     limit: BN,
-  ) {
-    const baseNodeBanks = await baseRootBank.loadNodeBanks(this.connection);
-    const quoteNodeBanks = await quoteRootBank.loadNodeBanks(this.connection);
-
-    const openOrdersKeys: { pubkey: PublicKey; isWritable: boolean }[] = [];
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
     const spotMarketIndex = entropyGroup.getSpotMarketIndex(spotMarket.publicKey);
-    // Only pass in open orders if in margin basket or current market index, and
-    // the only writable account should be OpenOrders for current market index
-    for (let i = 0; i < liqeeEntropyAccount.spotOpenOrders.length; i++) {
-      let pubkey = zeroKey;
-      let isWritable = false;
-
-      if (i === spotMarketIndex) {
-        isWritable = true;
-
-        if (liqeeEntropyAccount.spotOpenOrders[spotMarketIndex].equals(zeroKey)) {
-          console.log('missing oo for ', spotMarketIndex);
-          // open orders missing for this market; create a new one now
-          // const openOrdersSpace = OpenOrders.getLayout(
-          //   entropyGroup.dexProgramId,
-          // ).span;
-          // const openOrdersLamports =
-          //   await this.connection.getMinimumBalanceForRentExemption(
-          //     openOrdersSpace,
-          //     'singleGossip',
-          //   );
-          // const accInstr = await createAccountInstruction(
-          //   this.connection,
-          //   owner.publicKey,
-          //   openOrdersSpace,
-          //   entropyGroup.dexProgramId,
-          //   openOrdersLamports,
-          // );
-
-          // transaction.add(accInstr.instruction);
-          // additionalSigners.push(accInstr.account);
-          // pubkey = accInstr.account.publicKey;
-        } else {
-          pubkey = liqeeEntropyAccount.spotOpenOrders[i];
-        }
-      } else if (liqeeEntropyAccount.inMarginBasket[i]) {
-        pubkey = liqeeEntropyAccount.spotOpenOrders[i];
-      }
-
-      openOrdersKeys.push({ pubkey, isWritable });
+    if (liqeeEntropyAccount.spotOpenOrders[spotMarketIndex].equals(zeroKey)) {
+      this.logger.warn('missing oo for ', { marketIndex: spotMarketIndex });
     }
 
-    const dexSigner = await PublicKey.createProgramAddress(
-      [
-        spotMarket.publicKey.toBuffer(),
-        spotMarket['_decoded'].vaultSignerNonce.toArrayLike(Buffer, 'le', 8),
-      ],
-      spotMarket.programId,
-    );
+    const { instructions, signers } =
+      await this.instructions.forceCancelSpotOrders(
+        entropyGroup,
+        liqeeEntropyAccount,
+        spotMarket,
+        baseRootBank,
+        quoteRootBank,
+        limit,
+      );
 
-    const instruction = makeForceCancelSpotOrdersInstruction(
-      this.programId,
-      entropyGroup.publicKey,
-      entropyGroup.entropyCache,
-      liqeeEntropyAccount.publicKey,
-      baseRootBank.publicKey,
-      baseNodeBanks[0].publicKey,
-      baseNodeBanks[0].vault,
-      quoteRootBank.publicKey,
-      quoteNodeBanks[0].publicKey,
-      quoteNodeBanks[0].vault,
-      spotMarket.publicKey,
-      spotMarket.bidsAddress,
-      spotMarket.asksAddress,
-      entropyGroup.signerKey,
-      spotMarket['_decoded'].eventQueue,
-      spotMarket['_decoded'].baseVault,
-      spotMarket['_decoded'].quoteVault,
-      dexSigner,
-      entropyGroup.dexProgramId,
-      openOrdersKeys,
-      limit,
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(
+      transaction,
+      payer,
+      signers,
+      opts,
+      liqeeEntropyAccount,
     );
-
-    const transaction = new Transaction();
-    transaction.add(instruction);
-
-    return await this.sendTransaction(transaction, payer, []);
   }
 
   /**
    * Send multiple instructions to cancel all perp orders in this market
    */
-  async forceCancelAllPerpOrdersInMarket(
+  async forceCancelAllPerpOrdersInMarket<
+    O extends ActionOptions = ActionOptions,
+  >(
     entropyGroup: EntropyGroup,
     liqee: EntropyAccount,
     perpMarket: PerpMarket,
-    payer: Account | WalletAdapter,
+    payer: SignerLike,
     limitPerInstruction: number,
-  ): Promise<TransactionSignature> {
-    const transaction = new Transaction();
-    const marketIndex = entropyGroup.getPerpMarketIndex(perpMarket.publicKey);
-    const instruction = makeForceCancelPerpOrdersInstruction(
-      this.programId,
-      entropyGroup.publicKey,
-      entropyGroup.entropyCache,
-      perpMarket.publicKey,
-      perpMarket.bids,
-      perpMarket.asks,
-      liqee.publicKey,
-      liqee.spotOpenOrders,
-      new BN(limitPerInstruction),
-    );
-    transaction.add(instruction);
-
-    let orderCount = 0;
-    for (let i = 0; i < liqee.orderMarket.length; i++) {
-      if (liqee.orderMarket[i] !== marketIndex) {
-        continue;
-      }
-      orderCount++;
-      if (orderCount === limitPerInstruction) {
-        orderCount = 0;
-        const instruction = makeForceCancelPerpOrdersInstruction(
-          this.programId,
-          entropyGroup.publicKey,
-          entropyGroup.entropyCache,
-          perpMarket.publicKey,
-          perpMarket.bids,
-          perpMarket.asks,
-          liqee.publicKey,
-          liqee.spotOpenOrders,
-          new BN(limitPerInstruction),
-        );
-        transaction.add(instruction);
-
-        // TODO - verify how many such instructions can go into one tx
-        // right now 10 seems reasonable considering size of 800ish bytes if all spot open orders present
-        if (transaction.instructions.length === 10) {
-          break;
-        }
-      }
-    }
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } =
+      await this.instructions.forceCancelAllPerpOrdersInMarket(
+        entropyGroup,
+        liqee,
+        perpMarket,
+        limitPerInstruction,
+      );
 
-    return await this.sendTransaction(transaction, payer, []);
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(transaction, payer, signers, opts, liqee);
   }
 
-  async forceCancelPerpOrders(
+  async forceCancelPerpOrders<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     liqeeEntropyAccount: EntropyAccount,
     perpMarket: PerpMarket,
-    payer: Account,
+    payer: SignerLike,
     limit: BN,
-  ) {
-    const instruction = makeForceCancelPerpOrdersInstruction(
-      this.programId,
-      entropyGroup.publicKey,
-      entropyGroup.entropyCache,
-      perpMarket.publicKey,
-      perpMarket.bids,
-      perpMarket.asks,
-      liqeeEntropyAccount.publicKey,
-      liqeeEntropyAccount.spotOpenOrders,
-      limit,
-    );
-
-    const transaction = new Transaction();
-    transaction.add(instruction);
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } =
+      await this.instructions.forceCancelPerpOrders(
+        entropyGroup,
+        liqeeEntropyAccount,
+        perpMarket,
+        limit,
+      );
 
-    return await this.sendTransaction(transaction, payer, []);
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(
+      transaction,
+      payer,
+      signers,
+      opts,
+      liqeeEntropyAccount,
+    );
   }
 
-  async liquidateTokenAndToken(
+  async liquidateTokenAndToken<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     liqeeEntropyAccount: EntropyAccount,
     liqorEntropyAccount: EntropyAccount,
     assetRootBank: RootBank,
     liabRootBank: RootBank,
-    payer: Account,
+    payer: SignerLike,
     maxLiabTransfer: I80F48,
-  ) {
-    const instruction = makeLiquidateTokenAndTokenInstruction(
-      this.programId,
-      entropyGroup.publicKey,
-      entropyGroup.entropyCache,
-      liqeeEntropyAccount.publicKey,
-      liqorEntropyAccount.publicKey,
-      payer.publicKey,
-      assetRootBank.publicKey,
-      assetRootBank.nodeBanks[0],
-      liabRootBank.publicKey,
-      liabRootBank.nodeBanks[0],
-      liqeeEntropyAccount.spotOpenOrders,
-      liqorEntropyAccount.spotOpenOrders,
-      maxLiabTransfer,
-    );
-
-    const transaction = new Transaction();
-    transaction.add(instruction);
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } =
+      await this.instructions.liquidateTokenAndToken(
+        entropyGroup,
+        liqeeEntropyAccount,
+        liqorEntropyAccount,
+        assetRootBank,
+        liabRootBank,
+        payer.publicKey,
+        maxLiabTransfer,
+      );
 
-    return await this.sendTransaction(transaction, payer, []);
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(
+      transaction,
+      payer,
+      signers,
+      opts,
+      liqorEntropyAccount,
+    );
   }
 
-  async liquidateTokenAndPerp(
+  async liquidateTokenAndPerp<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     liqeeEntropyAccount: EntropyAccount,
     liqorEntropyAccount: EntropyAccount,
     rootBank: RootBank,
-    payer: Account,
+    payer: SignerLike,
     assetType: AssetType,
     assetIndex: number,
     liabType: AssetType,
     liabIndex: number,
     maxLiabTransfer: I80F48,
-  ) {
-    const instruction = makeLiquidateTokenAndPerpInstruction(
-      this.programId,
-      entropyGroup.publicKey,
-      entropyGroup.entropyCache,
-      liqeeEntropyAccount.publicKey,
-      liqorEntropyAccount.publicKey,
-      payer.publicKey,
-      rootBank.publicKey,
-      rootBank.nodeBanks[0],
-      liqeeEntropyAccount.spotOpenOrders,
-      liqorEntropyAccount.spotOpenOrders,
-      assetType,
-      new BN(assetIndex),
-      liabType,
-      new BN(liabIndex),
-      maxLiabTransfer,
-    );
-
-    const transaction = new Transaction();
-    transaction.add(instruction);
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } =
+      await this.instructions.liquidateTokenAndPerp(
+        entropyGroup,
+        liqeeEntropyAccount,
+        liqorEntropyAccount,
+        rootBank,
+        payer.publicKey,
+        assetType,
+        assetIndex,
+        liabType,
+        liabIndex,
+        maxLiabTransfer,
+      );
 
-    return await this.sendTransaction(transaction, payer, []);
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(
+      transaction,
+      payer,
+      signers,
+      opts,
+      liqorEntropyAccount,
+    );
   }
 
-  async liquidatePerpMarket(
+  async liquidatePerpMarket<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     liqeeEntropyAccount: EntropyAccount,
     liqorEntropyAccount: EntropyAccount,
     perpMarket: PerpMarket,
-    payer: Account,
+    payer: SignerLike,
     baseTransferRequest: BN,
-  ) {
-    const instruction = makeLiquidatePerpMarketInstruction(
-      this.programId,
-      entropyGroup.publicKey,
-      entropyGroup.entropyCache,
-      perpMarket.publicKey,
-      perpMarket.eventQueue,
-      liqeeEntropyAccount.publicKey,
-      liqorEntropyAccount.publicKey,
-      payer.publicKey,
-      liqeeEntropyAccount.spotOpenOrders,
-      liqorEntropyAccount.spotOpenOrders,
-      baseTransferRequest,
-    );
-
-    const transaction = new Transaction();
-    transaction.add(instruction);
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } =
+      await this.instructions.liquidatePerpMarket(
+        entropyGroup,
+        liqeeEntropyAccount,
+        liqorEntropyAccount,
+        perpMarket,
+        payer.publicKey,
+        baseTransferRequest,
+      );
 
-    return await this.sendTransaction(transaction, payer, []);
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(
+      transaction,
+      payer,
+      signers,
+      opts,
+      liqorEntropyAccount,
+    );
   }
 
-  async settleFees(
+  async settleFees<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     entropyAccount: EntropyAccount,
     perpMarket: PerpMarket,
     rootBank: RootBank,
-    payer: Account,
-  ) {
-    const nodeBanks = await rootBank.loadNodeBanks(this.connection);
-
-    const instruction = makeSettleFeesInstruction(
-      this.programId,
-      entropyGroup.publicKey,
-      entropyGroup.entropyCache,
-      perpMarket.publicKey,
-      entropyAccount.publicKey,
-      rootBank.publicKey,
-      nodeBanks[0].publicKey,
-      nodeBanks[0].vault,
-      entropyGroup.feesVault,
-      entropyGroup.signerKey,
+    payer: SignerLike,
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } = await this.instructions.settleFees(
+      entropyGroup,
+      entropyAccount,
+      perpMarket,
+      rootBank,
     );
 
-    const transaction = new Transaction();
-    transaction.add(instruction);
-
-    return await this.sendTransaction(transaction, payer, []);
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(
+      transaction,
+      payer,
+      signers,
+      opts,
+      entropyAccount,
+    );
   }
 
-  async resolvePerpBankruptcy(
+  async resolvePerpBankruptcy<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     liqeeEntropyAccount: EntropyAccount,
     liqorEntropyAccount: EntropyAccount,
     perpMarket: PerpMarket,
     rootBank: RootBank,
-    payer: Account,
+    payer: SignerLike,
     liabIndex: number,
     maxLiabTransfer: I80F48,
-  ) {
-    const nodeBanks = await rootBank.loadNodeBanks(this.connection);
-    const instruction = makeResolvePerpBankruptcyInstruction(
-      this.programId,
-      entropyGroup.publicKey,
-      entropyGroup.entropyCache,
-      liqeeEntropyAccount.publicKey,
-      liqorEntropyAccount.publicKey,
-      payer.publicKey,
-      rootBank.publicKey,
-      nodeBanks[0].publicKey,
-      nodeBanks[0].vault,
-      entropyGroup.insuranceVault,
-      entropyGroup.signerKey,
-      perpMarket.publicKey,
-      liqorEntropyAccount.spotOpenOrders,
-      new BN(liabIndex),
-      maxLiabTransfer,
-    );
-
-    const transaction = new Transaction();
-    transaction.add(instruction);
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } =
+      await this.instructions.resolvePerpBankruptcy(
+        entropyGroup,
+        liqeeEntropyAccount,
+        liqorEntropyAccount,
+        perpMarket,
+        rootBank,
+        payer.publicKey,
+        liabIndex,
+        maxLiabTransfer,
+      );
 
-    return await this.sendTransaction(transaction, payer, []);
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(
+      transaction,
+      payer,
+      signers,
+      opts,
+      liqorEntropyAccount,
+    );
   }
 
-  async resolveTokenBankruptcy(
+  async resolveTokenBankruptcy<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     liqeeEntropyAccount: EntropyAccount,
     liqorEntropyAccount: EntropyAccount,
     quoteRootBank: RootBank,
     liabRootBank: RootBank,
-    payer: Account,
+    payer: SignerLike,
     maxLiabTransfer: I80F48,
-  ) {
-    const quoteNodeBanks = await quoteRootBank.loadNodeBanks(this.connection);
-    const instruction = makeResolveTokenBankruptcyInstruction(
-      this.programId,
-      entropyGroup.publicKey,
-      entropyGroup.entropyCache,
-      liqeeEntropyAccount.publicKey,
-      liqorEntropyAccount.publicKey,
-      payer.publicKey,
-      quoteRootBank.publicKey,
-      quoteRootBank.nodeBanks[0],
-      quoteNodeBanks[0].vault,
-      entropyGroup.insuranceVault,
-      entropyGroup.signerKey,
-      liabRootBank.publicKey,
-      liabRootBank.nodeBanks[0],
-      liqorEntropyAccount.spotOpenOrders,
-      liabRootBank.nodeBanks,
-      maxLiabTransfer,
-    );
-
-    const transaction = new Transaction();
-    transaction.add(instruction);
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } =
+      await this.instructions.resolveTokenBankruptcy(
+        entropyGroup,
+        liqeeEntropyAccount,
+        liqorEntropyAccount,
+        quoteRootBank,
+        liabRootBank,
+        payer.publicKey,
+        maxLiabTransfer,
+      );
 
-    return await this.sendTransaction(transaction, payer, []);
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(
+      transaction,
+      payer,
+      signers,
+      opts,
+      liqorEntropyAccount,
+    );
   }
 
-  async redeemMngo(
+  async redeemMngo<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     entropyAccount: EntropyAccount,
     perpMarket: PerpMarket,
-    payer: Account | WalletAdapter,
+    payer: SignerLike,
     mngoRootBank: PublicKey,
     mngoNodeBank: PublicKey,
     mngoVault: PublicKey,
-  ): Promise<TransactionSignature> {
-    const instruction = makeRedeemMngoInstruction(
-      this.programId,
-      entropyGroup.publicKey,
-      entropyGroup.entropyCache,
-      entropyAccount.publicKey,
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } = await this.instructions.redeemMngo(
+      entropyGroup,
+      entropyAccount,
+      perpMarket,
       payer.publicKey,
-      perpMarket.publicKey,
-      perpMarket.mngoVault,
       mngoRootBank,
       mngoNodeBank,
       mngoVault,
-      entropyGroup.signerKey,
     );
-    const transaction = new Transaction();
-    transaction.add(instruction);
 
-    return await this.sendTransaction(transaction, payer, []);
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(
+      transaction,
+      payer,
+      signers,
+      opts,
+      entropyAccount,
+    );
   }
 
-  async redeemAllMngo(
+  /**
+   * Redeem accrued MNGO on every perp market. Resolves to the signature (or
+   * simulation) of the first transaction; use redeemAllMngoTransactions for
+   * all of them.
+   */
+  async redeemAllMngo<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     entropyAccount: EntropyAccount,
-    payer: Account | WalletAdapter,
+    payer: SignerLike,
     mngoRootBank: PublicKey,
     mngoNodeBank: PublicKey,
     mngoVault: PublicKey,
-  ): Promise<TransactionSignature> {
-    const transactions: Transaction[] = [];
-    let transaction = new Transaction();
-
-    const perpMarkets = await Promise.all(
-      entropyAccount.perpAccounts.map((perpAccount, i) => {
-        if (perpAccount.mngoAccrued.eq(ZERO_BN)) {
-          return promiseUndef();
-        } else {
-          return this.getPerpMarket(
-            entropyGroup.perpMarkets[i].perpMarket,
-            entropyGroup.tokens[i].decimals,
-            entropyGroup.tokens[QUOTE_INDEX].decimals,
-          );
-        }
-      }),
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const results = (await this.redeemAllMngoTransactions(
+      entropyGroup,
+      entropyAccount,
+      payer,
+      mngoRootBank,
+      mngoNodeBank,
+      mngoVault,
+      opts,
+    )) as ActionResult<O, TransactionSignature>[];
+    return results[0];
+  }
+
+  /**
+   * Redeem accrued MNGO on every perp market, a few markets per transaction.
+   * Resolves to the signature (or simulation) of each transaction.
+   */
+  async redeemAllMngoTransactions<O extends ActionOptions = ActionOptions>(
+    entropyGroup: EntropyGroup,
+    entropyAccount: EntropyAccount,
+    payer: SignerLike,
+    mngoRootBank: PublicKey,
+    mngoNodeBank: PublicKey,
+    mngoVault: PublicKey,
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature[]>> {
+    const { instructions } = await this.instructions.redeemAllMngo(
+      entropyGroup,
+      entropyAccount,
+      payer.publicKey,
+      mngoRootBank,
+      mngoNodeBank,
+      mngoVault,
     );
 
-    for (let i = 0; i < entropyAccount.perpAccounts.length; i++) {
-      const perpMarket = perpMarkets[i];
-      if (perpMarket === undefined) continue;
-
-      const instruction = makeRedeemMngoInstruction(
-        this.programId,
-        entropyGroup.publicKey,
-        entropyGroup.entropyCache,
-        entropyAccount.publicKey,
-        payer.publicKey,
-        perpMarket.publicKey,
-        perpMarket.mngoVault,
-        mngoRootBank,
-        mngoNodeBank,
-        mngoVault,
-        entropyGroup.signerKey,
-      );
-      transaction.add(instruction);
-      if (transaction.instructions.length === 9) {
-        transactions.push(transaction);
-        transaction = new Transaction();
-      }
-    }
-    if (transaction.instructions.length > 0) {
-      transactions.push(transaction);
-
-      // txProms.push(this.sendTransaction(transaction, payer, []));
-    }
-
-    const transactionsAndSigners = transactions.map((tx) => ({
-      transaction: tx,
-      signers: [],
-    }));
+    const transactionsAndSigners = this.makePacker(
+      payer.publicKey,
+      opts?.computeBudget,
+    ).pack(
+      instructions.map((instruction) => ({
+        instruction,
+        computeUnits: REDEEM_MNGO_COMPUTE_UNITS,
+      })),
+    );
 
     if (transactionsAndSigners.length === 0) {
       throw new Error('No MNGO rewards to redeem');
     }
 
+    if (opts?.simulate) {
+      return (await this.simulateActions(
+        transactionsAndSigners,
+        payer,
+        entropyAccount,
+        opts.computeBudget,
+      )) as ActionResult<O, TransactionSignature[]>;
+    }
+
     // Sign multiple transactions at once for better UX
     const signedTransactions = await this.signTransactions({
       transactionsAndSigners,
       payer,
+      computeBudget: opts?.computeBudget,
     });
 
     if (signedTransactions) {
       const txSigs = await Promise.all(
         signedTransactions.map((signedTransaction) =>
-          this.sendSignedTransaction({ signedTransaction }),
+          this.sendSignedAction(signedTransaction, opts),
         ),
       );
-      return txSigs[0];
+      return txSigs as ActionResult<O, TransactionSignature[]>;
     } else {
       throw new Error('Unable to sign all RedeemMngo transactions');
     }
   }
 
-  async addEntropyAccountInfo(
+  async addEntropyAccountInfo<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     entropyAccount: EntropyAccount,
-    owner: Account | WalletAdapter,
+    owner: SignerLike,
     info: string,
-  ): Promise<TransactionSignature> {
-    const instruction = makeAddEntropyAccountInfoInstruction(
-      this.programId,
-      entropyGroup.publicKey,
-      entropyAccount.publicKey,
-      owner.publicKey,
-      info,
-    );
-    const transaction = new Transaction();
-    transaction.add(instruction);
-    const additionalSigners = [];
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } =
+      await this.instructions.addEntropyAccountInfo(
+        entropyGroup,
+        entropyAccount,
+        owner.publicKey,
+        info,
+      );
 
-    return await this.sendTransaction(transaction, owner, additionalSigners);
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(
+      transaction,
+      owner,
+      signers,
+      opts,
+      entropyAccount,
+    );
   }
 
-  async depositMsrm(
+  async depositMsrm<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     entropyAccount: EntropyAccount,
-    owner: Account | WalletAdapter,
+    owner: SignerLike,
     msrmAccount: PublicKey,
     quantity: number,
-  ): Promise<TransactionSignature> {
-    const instruction = makeDepositMsrmInstruction(
-      this.programId,
-      entropyGroup.publicKey,
-      entropyAccount.publicKey,
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } = await this.instructions.depositMsrm(
+      entropyGroup,
+      entropyAccount,
       owner.publicKey,
       msrmAccount,
-      entropyGroup.msrmVault,
-      new BN(Math.floor(quantity)),
+      quantity,
     );
-    const transaction = new Transaction();
-    transaction.add(instruction);
-    const additionalSigners = [];
 
-    return await this.sendTransaction(transaction, owner, additionalSigners);
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(
+      transaction,
+      owner,
+      signers,
+      opts,
+      entropyAccount,
+    );
   }
-  async withdrawMsrm(
+  async withdrawMsrm<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     entropyAccount: EntropyAccount,
-    owner: Account | WalletAdapter,
+    owner: SignerLike,
     msrmAccount: PublicKey,
     quantity: number,
-  ): Promise<TransactionSignature> {
-    const instruction = makeWithdrawMsrmInstruction(
-      this.programId,
-      entropyGroup.publicKey,
-      entropyAccount.publicKey,
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } = await this.instructions.withdrawMsrm(
+      entropyGroup,
+      entropyAccount,
       owner.publicKey,
       msrmAccount,
-      entropyGroup.msrmVault,
-      entropyGroup.signerKey,
-      new BN(Math.floor(quantity)),
+      quantity,
     );
-    const transaction = new Transaction();
-    transaction.add(instruction);
-    const additionalSigners = [];
 
-    return await this.sendTransaction(transaction, owner, additionalSigners);
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(
+      transaction,
+      owner,
+      signers,
+      opts,
+      entropyAccount,
+    );
   }
 
-  async changePerpMarketParams(
+  async changePerpMarketParams<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     perpMarket: PerpMarket,
-    admin: Account | WalletAdapter,
+    admin: SignerLike,
 
     maintLeverage: number | undefined,
     initLeverage: number | undefined,
@@ -3158,35 +2934,33 @@ export class EntropyClient {
     targetPeriodLength: number | undefined,
     mngoPerPeriod: number | undefined,
     exp: number | undefined,
-  ): Promise<TransactionSignature> {
-    const instruction = makeChangePerpMarketParamsInstruction(
-      this.programId,
-      entropyGroup.publicKey,
-      perpMarket.publicKey,
-      admin.publicKey,
-      I80F48.fromNumberOrUndef(maintLeverage),
-      I80F48.fromNumberOrUndef(initLeverage),
-      I80F48.fromNumberOrUndef(liquidationFee),
-      I80F48.fromNumberOrUndef(makerFee),
-      I80F48.fromNumberOrUndef(takerFee),
-      I80F48.fromNumberOrUndef(rate),
-      I80F48.fromNumberOrUndef(maxDepthBps),
-      targetPeriodLength !== undefined ? new BN(targetPeriodLength) : undefined,
-      mngoPerPeriod !== undefined ? new BN(mngoPerPeriod) : undefined,
-      exp !== undefined ? new BN(exp) : undefined,
-    );
-
-    const transaction = new Transaction();
-    transaction.add(instruction);
-    const additionalSigners = [];
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } =
+      await this.instructions.changePerpMarketParams(
+        entropyGroup,
+        perpMarket,
+        admin.publicKey,
+        maintLeverage,
+        initLeverage,
+        liquidationFee,
+        makerFee,
+        takerFee,
+        rate,
+        maxDepthBps,
+        targetPeriodLength,
+        mngoPerPeriod,
+        exp,
+      );
 
-    return await this.sendTransaction(transaction, admin, additionalSigners);
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(transaction, admin, signers, opts);
   }
 
-  async changePerpMarketParams2(
+  async changePerpMarketParams2<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     perpMarket: PerpMarket,
-    admin: Account | WalletAdapter,
+    admin: SignerLike,
 
     maintLeverage: number | undefined,
     initLeverage: number | undefined,
@@ -3200,282 +2974,124 @@ export class EntropyClient {
     exp: number | undefined,
     version: number | undefined,
     lmSizeShift: number | undefined,
-  ): Promise<TransactionSignature> {
-    const instruction = makeChangePerpMarketParams2Instruction(
-      this.programId,
-      entropyGroup.publicKey,
-      perpMarket.publicKey,
-      admin.publicKey,
-      I80F48.fromNumberOrUndef(maintLeverage),
-      I80F48.fromNumberOrUndef(initLeverage),
-      I80F48.fromNumberOrUndef(liquidationFee),
-      I80F48.fromNumberOrUndef(makerFee),
-      I80F48.fromNumberOrUndef(takerFee),
-      I80F48.fromNumberOrUndef(rate),
-      I80F48.fromNumberOrUndef(maxDepthBps),
-      targetPeriodLength !== undefined ? new BN(targetPeriodLength) : undefined,
-      mngoPerPeriod !== undefined ? new BN(mngoPerPeriod) : undefined,
-      exp !== undefined ? new BN(exp) : undefined,
-      version !== undefined ? new BN(version) : undefined,
-      lmSizeShift !== undefined ? new BN(lmSizeShift) : undefined,
-    );
-
-    const transaction = new Transaction();
-    transaction.add(instruction);
-    const additionalSigners = [];
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } =
+      await this.instructions.changePerpMarketParams2(
+        entropyGroup,
+        perpMarket,
+        admin.publicKey,
+        maintLeverage,
+        initLeverage,
+        liquidationFee,
+        makerFee,
+        takerFee,
+        rate,
+        maxDepthBps,
+        targetPeriodLength,
+        mngoPerPeriod,
+        exp,
+        version,
+        lmSizeShift,
+      );
 
-    return await this.sendTransaction(transaction, admin, additionalSigners);
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(transaction, admin, signers, opts);
   }
 
-  async setGroupAdmin(
+  async setGroupAdmin<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     newAdmin: PublicKey,
-    admin: Account | WalletAdapter,
-  ): Promise<TransactionSignature> {
-    const instruction = makeSetGroupAdminInstruction(
-      this.programId,
-      entropyGroup.publicKey,
+    admin: SignerLike,
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } = await this.instructions.setGroupAdmin(
+      entropyGroup,
       newAdmin,
       admin.publicKey,
     );
-    const transaction = new Transaction();
-    transaction.add(instruction);
-    const additionalSigners = [];
-    return await this.sendTransaction(transaction, admin, additionalSigners);
+
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(transaction, admin, signers, opts);
   }
 
   /**
    * Add allowance for orders to be cancelled and replaced in a single transaction
    */
-  async modifySpotOrder(
+  async modifySpotOrder<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     entropyAccount: EntropyAccount,
     entropyCache: PublicKey,
     spotMarket: Market,
-    owner: Account | WalletAdapter,
+    owner: SignerLike,
     order: Order,
 
     side: 'buy' | 'sell',
     price: number,
     size: number,
     orderType?: 'limit' | 'ioc' | 'postOnly',
-  ): Promise<TransactionSignature> {
-    const transaction = new Transaction();
-
-    const instruction = makeCancelSpotOrderInstruction(
-      this.programId,
-      entropyGroup.publicKey,
-      owner.publicKey,
-      entropyAccount.publicKey,
-      spotMarket.programId,
-      spotMarket.publicKey,
-      spotMarket['_decoded'].bids,
-      spotMarket['_decoded'].asks,
-      order.openOrdersAddress,
-      entropyGroup.signerKey,
-      spotMarket['_decoded'].eventQueue,
-      order,
-    );
-    transaction.add(instruction);
-
-    const dexSigner = await PublicKey.createProgramAddress(
-      [
-        spotMarket.publicKey.toBuffer(),
-        spotMarket['_decoded'].vaultSignerNonce.toArrayLike(Buffer, 'le', 8),
-      ],
-      spotMarket.programId,
-    );
-
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
     const spotMarketIndex = entropyGroup.getSpotMarketIndex(spotMarket.publicKey);
-    if (!entropyGroup.rootBankAccounts.length) {
-      await entropyGroup.loadRootBanks(this.connection);
-    }
-    const baseRootBank = entropyGroup.rootBankAccounts[spotMarketIndex];
-    const baseNodeBank = baseRootBank?.nodeBankAccounts[0];
-    const quoteRootBank = entropyGroup.rootBankAccounts[QUOTE_INDEX];
-    const quoteNodeBank = quoteRootBank?.nodeBankAccounts[0];
-
-    if (!baseNodeBank || !quoteNodeBank) {
-      throw new Error('Invalid or missing node banks');
-    }
-    const settleFundsInstruction = makeSettleFundsInstruction(
-      this.programId,
-      entropyGroup.publicKey,
-      entropyGroup.entropyCache,
-      owner.publicKey,
-      entropyAccount.publicKey,
-      spotMarket.programId,
-      spotMarket.publicKey,
-      entropyAccount.spotOpenOrders[spotMarketIndex],
-      entropyGroup.signerKey,
-      spotMarket['_decoded'].baseVault,
-      spotMarket['_decoded'].quoteVault,
-      entropyGroup.tokens[spotMarketIndex].rootBank,
-      baseNodeBank.publicKey,
-      entropyGroup.tokens[QUOTE_INDEX].rootBank,
-      quoteNodeBank.publicKey,
-      baseNodeBank.vault,
-      quoteNodeBank.vault,
-      dexSigner,
-    );
-    transaction.add(settleFundsInstruction);
-
-    const additionalSigners: Account[] = [];
-
-    const limitPrice = spotMarket.priceNumberToLots(price);
-    const maxBaseQuantity = spotMarket.baseSizeNumberToLots(size);
-
-    // TODO implement srm vault fee discount
-    // const feeTier = getFeeTier(0, nativeToUi(entropyGroup.nativeSrm || 0, SRM_DECIMALS));
-    const feeTier = getFeeTier(0, nativeToUi(0, 0));
-    const rates = getFeeRates(feeTier);
-    const maxQuoteQuantity = new BN(
-      spotMarket['_decoded'].quoteLotSize.toNumber() * (1 + rates.taker),
-    ).mul(
-      spotMarket
-        .baseSizeNumberToLots(size)
-        .mul(spotMarket.priceNumberToLots(price)),
-    );
-
-    // Checks already completed as only price modified
-    if (maxBaseQuantity.lte(ZERO_BN)) {
-      throw new Error('size too small');
-    }
-    if (limitPrice.lte(ZERO_BN)) {
-      throw new Error('invalid price');
-    }
-    const selfTradeBehavior = 'decrementTake';
-
-    if (!baseRootBank || !baseNodeBank || !quoteRootBank || !quoteNodeBank) {
-      throw new Error('Invalid or missing banks');
-    }
-
-    const openOrdersKeys: { pubkey: PublicKey; isWritable: boolean }[] = [];
-
-    // Only pass in open orders if in margin basket or current market index, and
-    // the only writable account should be OpenOrders for current market index
-    for (let i = 0; i < entropyAccount.spotOpenOrders.length; i++) {
-      let pubkey = zeroKey;
-      let isWritable = false;
-
-      if (i === spotMarketIndex) {
-        isWritable = true;
-
-        if (entropyAccount.spotOpenOrders[spotMarketIndex].equals(zeroKey)) {
-          // open orders missing for this market; create a new one now
-          const openOrdersSpace = OpenOrders.getLayout(
-            entropyGroup.dexProgramId,
-          ).span;
-
-          const openOrdersLamports =
-            await this.connection.getMinimumBalanceForRentExemption(
-              openOrdersSpace,
-              'processed',
-            );
-
-          const accInstr = await createAccountInstruction(
-            this.connection,
-            owner.publicKey,
-            openOrdersSpace,
-            entropyGroup.dexProgramId,
-            openOrdersLamports,
-          );
-
-          const initOpenOrders = makeInitSpotOpenOrdersInstruction(
-            this.programId,
-            entropyGroup.publicKey,
-            entropyAccount.publicKey,
-            owner.publicKey,
-            entropyGroup.dexProgramId,
-            accInstr.account.publicKey,
-            spotMarket.publicKey,
-            entropyGroup.signerKey,
-          );
-
-          const initTx = new Transaction();
-
-          initTx.add(accInstr.instruction);
-          initTx.add(initOpenOrders);
-
-          await this.sendTransaction(initTx, owner, [accInstr.account]);
-
-          pubkey = accInstr.account.publicKey;
-        } else {
-          pubkey = entropyAccount.spotOpenOrders[i];
-        }
-      } else if (entropyAccount.inMarginBasket[i]) {
-        pubkey = entropyAccount.spotOpenOrders[i];
-      }
-
-      openOrdersKeys.push({ pubkey, isWritable });
-    }
-
-    const placeOrderInstruction = makePlaceSpotOrderInstruction(
-      this.programId,
-      entropyGroup.publicKey,
-      entropyAccount.publicKey,
-      owner.publicKey,
-      entropyCache,
-      spotMarket.programId,
-      spotMarket.publicKey,
-      spotMarket['_decoded'].bids,
-      spotMarket['_decoded'].asks,
-      spotMarket['_decoded'].requestQueue,
-      spotMarket['_decoded'].eventQueue,
-      spotMarket['_decoded'].baseVault,
-      spotMarket['_decoded'].quoteVault,
-      baseRootBank.publicKey,
-      baseNodeBank.publicKey,
-      baseNodeBank.vault,
-      quoteRootBank.publicKey,
-      quoteNodeBank.publicKey,
-      quoteNodeBank.vault,
-      entropyGroup.signerKey,
-      dexSigner,
-      entropyGroup.srmVault, // TODO: choose msrm vault if it has any deposits
-      openOrdersKeys,
-      side,
-      limitPrice,
-      maxBaseQuantity,
-      maxQuoteQuantity,
-      selfTradeBehavior,
-      orderType,
-      order.clientId,
+    await this.ensureSpotOpenOrders(
+      entropyGroup,
+      entropyAccount,
+      spotMarket,
+      owner,
+      opts,
     );
-    transaction.add(placeOrderInstruction);
 
-    if (spotMarketIndex > 0) {
-      console.log(new Date().toISOString(),
-        spotMarketIndex - 1,
-        entropyAccount.spotOpenOrders[spotMarketIndex - 1].toBase58(),
-        openOrdersKeys[spotMarketIndex - 1].pubkey.toBase58(),
+    const { instructions, signers, openOrders } =
+      await this.instructions.modifySpotOrder(
+        entropyGroup,
+        entropyAccount,
+        entropyCache,
+        spotMarket,
+        owner.publicKey,
+        order,
+        side,
+        price,
+        size,
+        orderType,
       );
+
+    if (spotMarketIndex > 0) {
+      this.logger.debug('Previous spot open orders', {
+        marketIndex: spotMarketIndex - 1,
+        openOrders:
+          entropyAccount.spotOpenOrders[spotMarketIndex - 1].toBase58(),
+      });
     }
-    const txid = await this.sendTransaction(
+
+    const transaction = new Transaction().add(...instructions);
+    const txid = await this.sendAction(
       transaction,
       owner,
-      additionalSigners,
+      signers,
+      opts,
+      entropyAccount,
     );
+    if (opts?.simulate) {
+      return txid;
+    }
 
     // update EntropyAccount to have new OpenOrders pubkey
-    entropyAccount.spotOpenOrders[spotMarketIndex] =
-      openOrdersKeys[spotMarketIndex].pubkey;
+    entropyAccount.spotOpenOrders[spotMarketIndex] = openOrders;
     entropyAccount.inMarginBasket[spotMarketIndex] = true;
-    console.log(new Date().toISOString(),
-      spotMarketIndex,
-      entropyAccount.spotOpenOrders[spotMarketIndex].toBase58(),
-      openOrdersKeys[spotMarketIndex].pubkey.toBase58(),
-    );
+    this.logger.debug('Spot open orders', {
+      marketIndex: spotMarketIndex,
+      openOrders: entropyAccount.spotOpenOrders[spotMarketIndex].toBase58(),
+    });
 
     return txid;
   }
 
-  async modifyPerpOrder(
+  async modifyPerpOrder<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     entropyAccount: EntropyAccount,
     entropyCache: PublicKey,
     perpMarket: PerpMarket,
-    owner: Account | WalletAdapter,
+    owner: SignerLike,
     order: PerpOrder,
 
     side: 'buy' | 'sell',
@@ -3484,91 +3100,40 @@ export class EntropyClient {
     orderType?: PerpOrderType,
     clientOrderId?: number,
     bookSideInfo?: AccountInfo<Buffer>, // ask if side === bid, bids if side === ask; if this is given; crank instruction is added
-    invalidIdOk = false, // Don't throw error if order is invalid
-  ): Promise<TransactionSignature> {
-    const transaction = new Transaction();
-    const additionalSigners: Account[] = [];
-
-    const cancelInstruction = makeCancelPerpOrderInstruction(
-      this.programId,
-      entropyGroup.publicKey,
-      entropyAccount.publicKey,
+    invalidIdOk = false, // Don't throw error if order is invalid,
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } = await this.instructions.modifyPerpOrder(
+      entropyGroup,
+      entropyAccount,
+      entropyCache,
+      perpMarket,
       owner.publicKey,
-      perpMarket.publicKey,
-      perpMarket.bids,
-      perpMarket.asks,
       order,
-      invalidIdOk,
-    );
-
-    transaction.add(cancelInstruction);
-
-    const [nativePrice, nativeQuantity] = perpMarket.uiToNativePriceQuantity(
+      side,
       price,
       quantity,
-    );
-
-    const placeInstruction = makePlacePerpOrderInstruction(
-      this.programId,
-      entropyGroup.publicKey,
-      entropyAccount.publicKey,
-      owner.publicKey,
-      entropyCache,
-      perpMarket.publicKey,
-      perpMarket.bids,
-      perpMarket.asks,
-      perpMarket.eventQueue,
-      entropyAccount.spotOpenOrders,
-      nativePrice,
-      nativeQuantity,
-      clientOrderId
-        ? new BN(clientOrderId)
-        : order.clientId ?? new BN(Date.now()),
-      side,
       orderType,
+      clientOrderId,
+      bookSideInfo,
+      invalidIdOk,
     );
-    transaction.add(placeInstruction);
-
-    if (bookSideInfo) {
-      const bookSide = bookSideInfo.data
-        ? new BookSide(
-          side === 'buy' ? perpMarket.asks : perpMarket.bids,
-          perpMarket,
-          BookSideLayout.decode(bookSideInfo.data),
-        )
-        : [];
-      const accounts: Set<string> = new Set();
-      accounts.add(entropyAccount.publicKey.toBase58());
-
-      for (const order of bookSide) {
-        accounts.add(order.owner.toBase58());
-        if (accounts.size >= 10) {
-          break;
-        }
-      }
-
-      const consumeInstruction = makeConsumeEventsInstruction(
-        this.programId,
-        entropyGroup.publicKey,
-        entropyGroup.entropyCache,
-        perpMarket.publicKey,
-        perpMarket.eventQueue,
-        Array.from(accounts)
-          .map((s) => new PublicKey(s))
-          .sort(),
-        new BN(4),
-      );
-      transaction.add(consumeInstruction);
-    }
 
-    return await this.sendTransaction(transaction, owner, additionalSigners);
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(
+      transaction,
+      owner,
+      signers,
+      opts,
+      entropyAccount,
+    );
   }
 
-  async addPerpTriggerOrder(
+  async addPerpTriggerOrder<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     entropyAccount: EntropyAccount,
     perpMarket: PerpMarket,
-    owner: Account | WalletAdapter,
+    owner: SignerLike,
     orderType: PerpOrderType,
     side: 'buy' | 'sell',
     price: number,
@@ -3577,147 +3142,150 @@ export class EntropyClient {
     triggerPrice: number,
     reduceOnly: boolean,
     clientOrderId?: number,
-  ): Promise<TransactionSignature> {
-    const transaction = new Transaction();
-    const additionalSigners: Account[] = [];
-
-    let advancedOrders: PublicKey = entropyAccount.advancedOrdersKey;
-    if (entropyAccount.advancedOrdersKey.equals(zeroKey)) {
-      [advancedOrders] = await PublicKey.findProgramAddress(
-        [entropyAccount.publicKey.toBytes()],
-        this.programId,
-      );
-
-      console.log(new Date().toISOString(), 'AdvancedOrders PDA:', advancedOrders.toBase58());
-
-      transaction.add(
-        makeInitAdvancedOrdersInstruction(
-          this.programId,
-          entropyGroup.publicKey,
-          entropyAccount.publicKey,
-          owner.publicKey,
-          advancedOrders,
-        ),
-      );
-    }
-
-    const marketIndex = entropyGroup.getPerpMarketIndex(perpMarket.publicKey);
-
-    const baseTokenInfo = entropyGroup.tokens[marketIndex];
-    const quoteTokenInfo = entropyGroup.tokens[QUOTE_INDEX];
-    const baseUnit = Math.pow(10, baseTokenInfo.decimals);
-    const quoteUnit = Math.pow(10, quoteTokenInfo.decimals);
-
-    const nativePrice = new BN(price * quoteUnit)
-      .mul(perpMarket.baseLotSize)
-      .div(perpMarket.quoteLotSize.mul(new BN(baseUnit)));
-    const nativeQuantity = new BN(quantity * baseUnit).div(
-      perpMarket.baseLotSize,
-    );
-
-    const nativeTriggerPrice = I80F48.fromNumber(
-      triggerPrice *
-      Math.pow(10, perpMarket.quoteDecimals - perpMarket.baseDecimals),
-    );
-    const openOrders = entropyAccount.spotOpenOrders.filter(
-      (pk, i) => entropyAccount.inMarginBasket[i],
-    );
-
-    transaction.add(
-      makeAddPerpTriggerOrderInstruction(
-        this.programId,
-        entropyGroup.publicKey,
-        entropyAccount.publicKey,
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers, advancedOrders } =
+      await this.instructions.addPerpTriggerOrder(
+        entropyGroup,
+        entropyAccount,
+        perpMarket,
         owner.publicKey,
-        advancedOrders,
-        entropyGroup.entropyCache,
-        perpMarket.publicKey,
-        openOrders,
         orderType,
         side,
-        nativePrice,
-        nativeQuantity,
+        price,
+        quantity,
         triggerCondition,
-        nativeTriggerPrice,
+        triggerPrice,
         reduceOnly,
-        new BN(clientOrderId ?? Date.now()),
-      ),
-    );
-    const txid = await this.sendTransaction(
+        clientOrderId,
+      );
+
+    if (entropyAccount.advancedOrdersKey.equals(zeroKey)) {
+      this.logger.debug('AdvancedOrders PDA:', {
+        advancedOrders: advancedOrders.toBase58(),
+      });
+    }
+
+    const transaction = new Transaction().add(...instructions);
+    const txid = await this.sendAction(
       transaction,
       owner,
-      additionalSigners,
+      signers,
+      opts,
+      entropyAccount,
     );
+    if (opts?.simulate) {
+      return txid;
+    }
     entropyAccount.advancedOrdersKey = advancedOrders;
     return txid;
   }
 
-  async removeAdvancedOrder(
+  async removeAdvancedOrder<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     entropyAccount: EntropyAccount,
-    owner: Account | WalletAdapter,
+    owner: SignerLike,
     orderIndex: number,
-  ): Promise<TransactionSignature> {
-    const instruction = makeRemoveAdvancedOrderInstruction(
-      this.programId,
-      entropyGroup.publicKey,
-      entropyAccount.publicKey,
-      owner.publicKey,
-      entropyAccount.advancedOrdersKey,
-      orderIndex,
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } =
+      await this.instructions.removeAdvancedOrder(
+        entropyGroup,
+        entropyAccount,
+        owner.publicKey,
+        orderIndex,
+      );
+
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(
+      transaction,
+      owner,
+      signers,
+      opts,
+      entropyAccount,
     );
-    const transaction = new Transaction();
-    transaction.add(instruction);
-    const additionalSigners = [];
-    return await this.sendTransaction(transaction, owner, additionalSigners);
   }
 
-  async executePerpTriggerOrder(
+  async executePerpTriggerOrder<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     entropyAccount: EntropyAccount,
     entropyCache: EntropyCache,
     perpMarket: PerpMarket,
-    payer: Account | WalletAdapter,
+    payer: SignerLike,
     orderIndex: number,
-  ): Promise<TransactionSignature> {
-    const openOrders = entropyAccount.spotOpenOrders.filter(
-      (pk, i) => entropyAccount.inMarginBasket[i],
-    );
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } =
+      await this.instructions.executePerpTriggerOrder(
+        entropyGroup,
+        entropyAccount,
+        entropyCache,
+        perpMarket,
+        payer.publicKey,
+        orderIndex,
+      );
 
-    const instruction = makeExecutePerpTriggerOrderInstruction(
-      this.programId,
-      entropyGroup.publicKey,
-      entropyAccount.publicKey,
-      entropyAccount.advancedOrdersKey,
-      payer.publicKey,
-      entropyCache.publicKey,
-      perpMarket.publicKey,
-      perpMarket.bids,
-      perpMarket.asks,
-      perpMarket.eventQueue,
-      openOrders,
-      new BN(orderIndex),
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(
+      transaction,
+      payer,
+      signers,
+      opts,
+      entropyAccount,
     );
-    const transaction = new Transaction();
-    transaction.add(instruction);
-    const additionalSigners = [];
-    return await this.sendTransaction(transaction, payer, additionalSigners);
   }
 
-  async updateMarginBasket(
+  async updateMarginBasket<O extends ActionOptions = ActionOptions>(
     entropyGroup: EntropyGroup,
     entropyAccount: EntropyAccount,
-    payer: Account | WalletAdapter,
-  ) {
-    const instruction = makeUpdateMarginBasketInstruction(
-      this.programId,
-      entropyGroup.publicKey,
-      entropyAccount.publicKey,
-      entropyAccount.spotOpenOrders,
+    payer: SignerLike,
+    opts?: O,
+  ): Promise<ActionResult<O, TransactionSignature>> {
+    const { instructions, signers } =
+      await this.instructions.updateMarginBasket(entropyGroup, entropyAccount);
+
+    const transaction = new Transaction().add(...instructions);
+    return await this.sendAction(
+      transaction,
+      payer,
+      signers,
+      opts,
+      entropyAccount,
     );
-    const transaction = new Transaction();
-    transaction.add(instruction);
-    const additionalSigners = [];
-    return await this.sendTransaction(transaction, payer, additionalSigners);
+  }
+
+  /**
+   * Create the OpenOrders account for this spot market in its own transaction
+   * if entropyAccount doesn't have one yet. A simulation can't, so it needs
+   * the account to exist.
+   */
+  private async ensureSpotOpenOrders(
+    entropyGroup: EntropyGroup,
+    entropyAccount: EntropyAccount,
+    spotMarket: Market,
+    owner: SignerLike,
+    opts?: ActionOptions,
+  ): Promise<void> {
+    const spotMarketIndex = entropyGroup.getSpotMarketIndex(spotMarket.publicKey);
+    if (!entropyAccount.spotOpenOrders[spotMarketIndex].equals(zeroKey)) {
+      return;
+    }
+    if (opts?.simulate) {
+      throw new Error(
+        `No OpenOrders account for spot market ${spotMarketIndex} to simulate an order with; send client.instructions.initSpotOpenOrders first`,
+      );
+    }
+
+    const { instructions, signers, openOrders } =
+      await this.instructions.initSpotOpenOrders(
+        entropyGroup,
+        entropyAccount,
+        spotMarket,
+        owner.publicKey,
+      );
+
+    const initTx = new Transaction().add(...instructions);
+    await this.sendAction(initTx, owner, signers, opts);
+    entropyAccount.spotOpenOrders[spotMarketIndex] = openOrders;
   }
 }
@@ -3,7 +3,7 @@ import { EntropyClient } from '../client';
 import EntropyAccount from '../EntropyAccount';
 import PerpMarket from '../PerpMarket';
 import { getPerpMarketByIndex, getTokenByMint, GroupConfig } from '../config';
-import { EntropyCache, QUOTE_INDEX } from '../layout';
+import { EntropyCache, PerpMarketLayout, QUOTE_INDEX } from '../layout';
 import { I80F48, ZERO_I80F48 } from '../fixednum';
 import { ZERO_BN, zeroKey } from '../utils';
 import RootBank from '../RootBank';
@@ -19,16 +19,18 @@ async function setUp(client: EntropyClient, entropyGroupKey: PublicKey) {
   );
 
   const entropyCache = await entropyGroup.loadCache(client.connection);
+  // loaded together in as few requests as the account loader allows
   const perpMarkets: (PerpMarket | undefined)[] = await Promise.all(
-    entropyGroup.perpMarkets.map((pmi, i) =>
-      pmi.isEmpty()
-        ? undefined
-        : client.getPerpMarket(
-            pmi.perpMarket,
-            entropyGroup.tokens[i].decimals,
-            entropyGroup.tokens[QUOTE_INDEX].decimals,
-          ),
-    ),
+    entropyGroup.perpMarkets.map(async (pmi, i) => {
+      if (pmi.isEmpty()) return undefined;
+      const account = await client.accountLoader.load(pmi.perpMarket);
+      return new PerpMarket(
+        pmi.perpMarket,
+        entropyGroup.tokens[i].decimals,
+        entropyGroup.tokens[QUOTE_INDEX].decimals,
+        PerpMarketLayout.decode(account?.accountInfo.data),
+      );
+    }),
   );
 
   return { entropyGroup, entropyCache, entropyAccounts, perpMarkets };
@@ -0,0 +1,94 @@
+import {
+  ComputeBudgetProgram,
+  Transaction,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import { ConsoleLogger, Logger } from './logger';
+import { MAX_TRANSACTION_COMPUTE_UNITS } from './transactionPacker';
+
+/** Fraction added on top of simulated compute usage in auto mode */
+export const DEFAULT_AUTO_COMPUTE_MARGIN = 0.1;
+
+/**
+ * ComputeBudget instructions EntropyClient prepends to a transaction before
+ * signing. Nothing is added for fields left undefined.
+ */
+export interface ComputeBudgetOptions {
+  /** Compute unit limit, or 'auto' to simulate first and add autoMargin */
+  computeUnitLimit?: number | 'auto';
+  /** Priority fee in micro-lamports per compute unit */
+  computeUnitPrice?: number;
+  /** Used with computeUnitLimit 'auto'. Defaults to DEFAULT_AUTO_COMPUTE_MARGIN */
+  autoMargin?: number;
+}
+
+export function makeComputeBudgetInstructions(
+  computeUnitLimit?: number,
+  computeUnitPrice?: number,
+): TransactionInstruction[] {
+  const instructions: TransactionInstruction[] = [];
+  if (computeUnitLimit !== undefined) {
+    instructions.push(
+      ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnitLimit }),
+    );
+  }
+  if (computeUnitPrice) {
+    instructions.push(
+      ComputeBudgetProgram.setComputeUnitPrice({
+        microLamports: computeUnitPrice,
+      }),
+    );
+  }
+  return instructions;
+}
+
+export function hasComputeBudgetInstructions(transaction: Transaction) {
+  return transaction.instructions.some((ix) =>
+    ix.programId.equals(ComputeBudgetProgram.programId),
+  );
+}
+
+/**
+ * The compute limit to request after a simulation used unitsConsumed
+ */
+export function autoComputeUnitLimit(
+  unitsConsumed: number,
+  margin = DEFAULT_AUTO_COMPUTE_MARGIN,
+): number {
+  return Math.min(
+    Math.ceil(unitsConsumed * (1 + margin)),
+    MAX_TRANSACTION_COMPUTE_UNITS,
+  );
+}
+
+/**
+ * Read ComputeBudgetOptions from strings such as environment variables.
+ * limit may be a number or 'auto'. Values that are not whole numbers are
+ * left undefined with a warning.
+ */
+export function parseComputeBudget(
+  limit?: string,
+  price?: string,
+  logger: Logger = new ConsoleLogger(),
+): ComputeBudgetOptions {
+  return {
+    computeUnitLimit:
+      limit === 'auto'
+        ? 'auto'
+        : parseUnits('compute unit limit', limit, logger),
+    computeUnitPrice: parseUnits('compute unit price', price, logger),
+  };
+}
+
+function parseUnits(
+  name: string,
+  value: string | undefined,
+  logger: Logger,
+): number | undefined {
+  if (!value) return undefined;
+  if (!/^\d+$/.test(value.trim())) {
+    logger.warn(`Ignoring ${name} that is not a whole number`, { value });
+    return undefined;
+  }
+  return parseInt(value, 10);
+}
@@ -0,0 +1,292 @@
+import { Commitment, Connection, ConnectionConfig } from '@solana/web3.js';
+import { QuorumError } from './errors';
+import { ConsoleLogger, Logger } from './logger';
+import { sleep } from './utils';
+
+/** Reads that quorum() connections check across endpoints */
+export const QUORUM_METHODS = [
+  'getAccountInfo',
+  'getMultipleAccounts',
+  'getProgramAccounts',
+];
+
+export interface ConnectionPoolOptions {
+  commitment?: Commitment;
+  /** Milliseconds before a request counts as failed and the next endpoint is tried. Defaults to 30000 */
+  requestTimeout?: number;
+  /** Send transactions to every endpoint at once instead of only the active one */
+  broadcast?: boolean;
+  /** Endpoints that must return the same data for QUORUM_METHODS; 0 disables */
+  quorum?: number;
+  /** Most slots apart the agreeing responses may be. Defaults to 2 */
+  quorumSlotTolerance?: number;
+  /** Rounds of asking every endpoint before a read without quorum fails */
+  quorumAttempts?: number;
+  /** Milliseconds to wait before the second round; doubled for each one after. Defaults to 200 */
+  quorumRetryDelay?: number;
+  /** Extra Connection settings for each endpoint */
+  connectionConfig?: ConnectionConfig;
+  logger?: Logger;
+}
+
+/**
+ * A Connection that spreads requests over several RPC endpoints. Requests
+ * go to the active endpoint; on an error or timeout the next one becomes
+ * active and the request is retried there, until every endpoint has failed.
+ * JSON-RPC error responses are returned as they are, since another endpoint
+ * would give the same answer.
+ *
+ * Subscriptions use the websocket of the first endpoint.
+ *
+ * Requests are intercepted by overriding Connection's private _rpcRequest
+ * and _rpcBatchRequest, which every @solana/web3.js 1.x release routes its
+ * HTTP requests through. Check they still exist before moving past 1.x.
+ */
+export class ConnectionPool extends Connection {
+  endpoints: string[];
+  connections: Connection[];
+  requestTimeout: number;
+  broadcast: boolean;
+  quorumSize: number;
+  quorumSlotTolerance: number;
+  quorumAttempts: number;
+  quorumRetryDelay: number;
+  logger: Logger;
+  /** Index of the endpoint requests go to first */
+  active = 0;
+  private options: ConnectionPoolOptions;
+
+  constructor(endpoints: string[], options: ConnectionPoolOptions = {}) {
+    if (endpoints.length === 0) {
+      throw new Error('ConnectionPool needs at least one endpoint');
+    }
+    const config: ConnectionConfig = {
+      ...options.connectionConfig,
+      commitment: options.commitment ?? options.connectionConfig?.commitment,
+      // a rate limited endpoint is failed over instead of retried
+      disableRetryOnRateLimit:
+        endpoints.length > 1 ||
+        options.connectionConfig?.disableRetryOnRateLimit,
+    };
+    super(endpoints[0], config);
+
+    this.endpoints = endpoints;
+    this.connections = endpoints.map((url) => new Connection(url, config));
+    this.requestTimeout = options.requestTimeout ?? 30000;
+    this.broadcast = options.broadcast ?? false;
+    this.quorumSize = Math.min(options.quorum ?? 0, endpoints.length);
+    this.quorumSlotTolerance = options.quorumSlotTolerance ?? 2;
+    this.quorumAttempts = options.quorumAttempts ?? 3;
+    this.quorumRetryDelay = options.quorumRetryDelay ?? 200;
+    this.logger = options.logger ?? new ConsoleLogger();
+    this.options = options;
+
+    const self = this as any;
+    self._rpcRequest = (method: string, args: any[]) =>
+      this.request(method, args);
+    self._rpcBatchRequest = (requests: any[]) =>
+      this.failover('batch', (connection) =>
+        (connection as any)._rpcBatchRequest(requests),
+      );
+  }
+
+  /**
+   * A pool over the same endpoints whose account reads only resolve once
+   * `size` endpoints agree, for reads that must not be stale such as
+   * EntropyGroup.loadCache
+   */
+  quorum(size = 2): ConnectionPool {
+    return new ConnectionPool(this.endpoints, {
+      ...this.options,
+      quorum: size,
+    });
+  }
+
+  private async request(method: string, args: any[]): Promise<any> {
+    if (method === 'sendTransaction' && this.broadcast) {
+      return await this.sendToAll(method, args);
+    }
+    if (this.quorumSize > 1 && QUORUM_METHODS.includes(method)) {
+      return await this.requestWithQuorum(method, args);
+    }
+    return await this.failover(method, (connection) =>
+      rpcRequest(connection, method, args),
+    );
+  }
+
+  /** Try each endpoint starting at the active one until a request succeeds */
+  private async failover(
+    method: string,
+    request: (connection: Connection) => Promise<any>,
+  ): Promise<any> {
+    let lastError: any;
+    for (let i = 0; i < this.connections.length; i++) {
+      const index = (this.active + i) % this.connections.length;
+      try {
+        const response = await this.withTimeout(
+          request(this.connections[index]),
+        );
+        this.active = index;
+        return response;
+      } catch (e) {
+        lastError = e;
+        this.logger.warn('RPC endpoint failed', {
+          endpoint: this.endpoints[index],
+          method,
+          error: e,
+        });
+      }
+    }
+    throw lastError;
+  }
+
+  /** Resolves with the first successful response; rejects if all fail */
+  private sendToAll(method: string, args: any[]): Promise<any> {
+    return new Promise((resolve, reject) => {
+      let failed = 0;
+      this.connections.forEach((connection, index) => {
+        this.withTimeout(rpcRequest(connection, method, args))
+          .then((response) => {
+            if (response.error && ++failed < this.connections.length) return;
+            resolve(response);
+          })
+          .catch((e) => {
+            this.logger.warn('RPC endpoint failed', {
+              endpoint: this.endpoints[index],
+              method,
+              error: e,
+            });
+            if (++failed === this.connections.length) {
+              reject(e);
+            }
+          });
+      });
+    });
+  }
+
+  private async requestWithQuorum(
+    method: string,
+    args: any[],
+  ): Promise<RpcResponse> {
+    let responses: RpcResponse[] = [];
+    for (let attempt = 0; attempt < this.quorumAttempts; attempt++) {
+      if (attempt > 0) {
+        await sleep(this.quorumRetryDelay * 2 ** (attempt - 1));
+      }
+      responses = (
+        await Promise.all(
+          this.connections.map((connection) =>
+            this.withTimeout(rpcRequest(connection, method, args)).catch(
+              () => undefined,
+            ),
+          ),
+        )
+      ).filter((response): response is RpcResponse =>
+        Boolean(response && !response.error),
+      );
+
+      const agreed = this.findQuorum(responses);
+      if (agreed) {
+        return agreed;
+      }
+    }
+    throw new QuorumError({
+      method,
+      required: this.quorumSize,
+      responses: responses.length,
+    });
+  }
+
+  /**
+   * The newest of quorumSize responses with the same value whose slots are
+   * at most quorumSlotTolerance apart, if there are that many
+   */
+  private findQuorum(responses: RpcResponse[]): RpcResponse | undefined {
+    const byValue = new Map<string, RpcResponse[]>();
+    for (const response of responses) {
+      const key = JSON.stringify(responseValue(response));
+      byValue.set(key, [...(byValue.get(key) ?? []), response]);
+    }
+    for (const agreeing of byValue.values()) {
+      agreeing.sort((a, b) => responseSlot(a) - responseSlot(b));
+      for (let i = this.quorumSize - 1; i < agreeing.length; i++) {
+        const newest = agreeing[i];
+        const oldest = agreeing[i - this.quorumSize + 1];
+        if (
+          responseSlot(newest) - responseSlot(oldest) <=
+          this.quorumSlotTolerance
+        ) {
+          return newest;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  private withTimeout<T>(promise: Promise<T>): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`RPC request timed out`)),
+        this.requestTimeout,
+      );
+    });
+    return Promise.race([promise, timeout]).finally(() => {
+      if (timer) clearTimeout(timer);
+    });
+  }
+}
+
+/**
+ * The connection the bots use: a ConnectionPool over the comma separated
+ * ENDPOINT_URLS that broadcasts transactions, or a Connection to defaultUrl
+ * when it is not set
+ */
+export function connectionFromEnv(
+  defaultUrl: string,
+  commitment: Commitment,
+  logger?: Logger,
+): Connection {
+  if (!process.env.ENDPOINT_URLS) {
+    return new Connection(defaultUrl, commitment);
+  }
+  return new ConnectionPool(process.env.ENDPOINT_URLS.split(','), {
+    commitment,
+    broadcast: true,
+    logger,
+  });
+}
+
+/**
+ * connection.quorum(RPC_QUORUM) for reads that must not be stale, or
+ * connection itself when RPC_QUORUM is unset or connection is not a pool
+ */
+export function quorumFromEnv(connection: Connection): Connection {
+  const quorum = parseInt(process.env.RPC_QUORUM || '0', 10);
+  return quorum > 1 && connection instanceof ConnectionPool
+    ? connection.quorum(quorum)
+    : connection;
+}
+
+/** A JSON-RPC response as Connection._rpcRequest resolves it */
+interface RpcResponse {
+  result?: any;
+  error?: { code: number; message: string };
+}
+
+function rpcRequest(
+  connection: Connection,
+  method: string,
+  args: any[],
+): Promise<RpcResponse> {
+  return (connection as any)._rpcRequest(method, args);
+}
+
+/** Reads without a context, e.g. getProgramAccounts, return the value bare */
+function responseValue(response: RpcResponse): any {
+  return response.result?.context ? response.result.value : response.result;
+}
+
+function responseSlot(response: RpcResponse): number {
+  return response.result?.context?.slot ?? 0;
+}
@@ -7,7 +7,6 @@ import { EntropyClient } from './client';
 import {
   Account,
   Commitment,
-  Connection,
   PublicKey,
   Transaction,
 } from '@solana/web3.js';
@@ -21,10 +20,13 @@ import {
   Market,
 } from '@project-serum/serum';
 import { Token, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { loggerFromEnv } from './logger';
+import { connectionFromEnv } from './connectionPool';
+import { logTransactionEvents } from './transactionEvents';
 
 // const interval = process.env.INTERVAL || 3500;
 const interval = 4000; // TODO - stop sharing env var with Keeper
-const maxUniqueAccounts = parseInt(process.env.MAX_UNIQUE_ACCOUNTS || '10');
+const maxUniqueAccounts = parseInt(process.env.MAX_UNIQUE_ACCOUNTS || '10', 10);
 const consumeEventsLimit = new BN(process.env.CONSUME_EVENTS_LIMIT || '10');
 const config = new Config(configFile);
 
@@ -44,11 +46,18 @@ const payer = new Account(
   ),
 );
 
-const connection = new Connection(
+// LOG_FORMAT=json writes JSON lines; client lines carry component 'client'
+const logger = loggerFromEnv({ component: 'crank' });
+// ENDPOINT_URLS lists several RPC endpoints to fail over between
+const connection = connectionFromEnv(
   process.env.ENDPOINT_URL || config.cluster_urls[cluster],
   'confirmed' as Commitment,
+  logger,
 );
-const client = new EntropyClient(connection, entropyProgramId);
+const client = new EntropyClient(connection, entropyProgramId, {
+  logger: logger.child({ component: 'client' }),
+});
+logTransactionEvents(client.events);
 
 async function run() {
   if (!groupIds) {
@@ -140,13 +149,10 @@ async function run() {
       const transaction = new Transaction();
       transaction.add(instr);
 
-      console.log(
-        'market',
-        i,
-        'sending consume events for',
-        events.length,
-        'events',
-      );
+      logger.info('sending consume events', {
+        marketIndex: i,
+        events: events.length,
+      });
       await client.sendTransaction(transaction, payer, []);
     }
     await sleep(interval);
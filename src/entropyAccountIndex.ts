@@ -0,0 +1,294 @@
+import { OpenOrders } from '@project-serum/serum';
+import { AccountInfo, Commitment, PublicKey } from '@solana/web3.js';
+import { EntropyClient } from './client';
+import EntropyAccount, { HealthType } from './EntropyAccount';
+import EntropyGroup from './EntropyGroup';
+import { I80F48 } from './fixednum';
+import { EntropyAccountLayout, EntropyCache } from './layout';
+import { Logger } from './logger';
+import { zeroKey } from './utils';
+
+export interface EntropyAccountIndexOptions {
+  /** Keep spotOpenOrdersAccounts loaded and up to date. Defaults to true */
+  includeOpenOrders?: boolean;
+  commitment?: Commitment;
+  logger?: Logger;
+}
+
+/**
+ * Every entropy account of a group, kept in memory. load() reads them all
+ * with getAllEntropyAccounts; subscribe() then applies program account
+ * changes for entropy accounts and their open orders as they happen, so
+ * queries never scan the chain. The slot each account was last updated at is
+ * kept, and anything from an earlier slot is dropped.
+ */
+export class EntropyAccountIndex {
+  client: EntropyClient;
+  entropyGroup: EntropyGroup;
+  includeOpenOrders: boolean;
+  commitment: Commitment;
+  logger: Logger;
+
+  private accounts = new Map<string, EntropyAccount>();
+  /** Open orders key to the entropy account holding it */
+  private openOrdersOwners = new Map<string, string>();
+  /** Slot of the last update applied, by entropy account or open orders key */
+  private slots = new Map<string, number>();
+  private subscriptionIds: number[] = [];
+
+  constructor(
+    client: EntropyClient,
+    entropyGroup: EntropyGroup,
+    opts: EntropyAccountIndexOptions = {},
+  ) {
+    this.client = client;
+    this.entropyGroup = entropyGroup;
+    this.includeOpenOrders = opts.includeOpenOrders ?? true;
+    this.commitment = opts.commitment ?? 'processed';
+    this.logger = opts.logger ?? client.logger;
+  }
+
+  get size(): number {
+    return this.accounts.size;
+  }
+
+  /**
+   * Replace the index with a full load of the group's accounts. Accounts
+   * changed since the load began keep their changes.
+   */
+  async load(): Promise<this> {
+    // the accounts come back at this slot or a later one
+    const slot = await this.client.connection.getSlot(this.commitment);
+    const entropyAccounts = await this.client.getAllEntropyAccounts(
+      this.entropyGroup,
+      undefined,
+      this.includeOpenOrders,
+    );
+
+    const loaded = new Set<string>();
+    for (const entropyAccount of entropyAccounts) {
+      const key = entropyAccount.publicKey.toBase58();
+      loaded.add(key);
+      if (!this.isStale(key, slot)) {
+        this.set(entropyAccount, slot);
+      }
+    }
+    for (const [key, entropyAccount] of [...this.accounts]) {
+      if (!loaded.has(key) && !this.isStale(key, slot)) {
+        this.delete(entropyAccount);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Apply account changes as they happen. Calling it again replaces the
+   * websocket subscriptions, which recovers from ones that went quiet.
+   */
+  async subscribe(): Promise<void> {
+    await this.unsubscribe();
+    const connection = this.client.connection;
+    this.subscriptionIds.push(
+      connection.onProgramAccountChange(
+        this.client.programId,
+        ({ accountId, accountInfo }, { slot }) =>
+          this.applyAccountChange(accountId, accountInfo, slot).catch((e) =>
+            this.logger.error('Could not update entropy account', {
+              entropyAccount: accountId.toBase58(),
+              error: e,
+            }),
+          ),
+        this.commitment,
+        [
+          { dataSize: EntropyAccountLayout.span },
+          {
+            memcmp: {
+              offset: EntropyAccountLayout.offsetOf('entropyGroup'),
+              bytes: this.entropyGroup.publicKey.toBase58(),
+            },
+          },
+        ],
+      ),
+    );
+
+    if (this.includeOpenOrders) {
+      const layout = OpenOrders.getLayout(this.entropyGroup.dexProgramId);
+      this.subscriptionIds.push(
+        connection.onProgramAccountChange(
+          this.entropyGroup.dexProgramId,
+          ({ accountId, accountInfo }, { slot }) =>
+            this.applyOpenOrdersChange(accountId, accountInfo, slot),
+          this.commitment,
+          [
+            { dataSize: layout.span },
+            {
+              memcmp: {
+                offset: layout.offsetOf('owner'),
+                bytes: this.entropyGroup.signerKey.toBase58(),
+              },
+            },
+          ],
+        ),
+      );
+    }
+  }
+
+  async unsubscribe(): Promise<void> {
+    const ids = this.subscriptionIds;
+    this.subscriptionIds = [];
+    await Promise.all(
+      ids.map((id) =>
+        this.client.connection.removeProgramAccountChangeListener(id),
+      ),
+    );
+  }
+
+  /**
+   * Decode a changed entropy account into the index. Open orders already
+   * held are kept; ones the account did not have before are loaded.
+   * A change from before the slot the account was last updated at, including
+   * one overtaken while its open orders loaded, is dropped and the account
+   * held is returned. Without a slot the change is always applied.
+   */
+  async applyAccountChange(
+    publicKey: PublicKey,
+    accountInfo: AccountInfo<Buffer>,
+    slot?: number,
+  ): Promise<EntropyAccount> {
+    const key = publicKey.toBase58();
+    if (this.isStale(key, slot)) {
+      return this.accounts.get(key) as EntropyAccount;
+    }
+    const entropyAccount = new EntropyAccount(
+      publicKey,
+      EntropyAccountLayout.decode(accountInfo.data),
+    );
+    if (this.includeOpenOrders) {
+      const previous = this.accounts.get(key);
+      const missing: PublicKey[] = [];
+      entropyAccount.spotOpenOrders.forEach((pk, i) => {
+        if (pk.equals(zeroKey)) return;
+        const held = previous?.spotOpenOrdersAccounts[i];
+        if (held && held.publicKey.equals(pk)) {
+          entropyAccount.spotOpenOrdersAccounts[i] = held;
+        } else {
+          missing.push(pk);
+        }
+      });
+      const loaded = await this.client.accountLoader.loadMultiple(missing);
+      for (const { publicKey: pk, accountInfo: info } of loaded) {
+        const i = entropyAccount.spotOpenOrders.findIndex((k) => k.equals(pk));
+        entropyAccount.spotOpenOrdersAccounts[i] = OpenOrders.fromAccountInfo(
+          pk,
+          info,
+          this.entropyGroup.dexProgramId,
+        );
+      }
+    }
+    if (this.isStale(key, slot)) {
+      return this.accounts.get(key) as EntropyAccount;
+    }
+    this.set(entropyAccount, slot);
+    return entropyAccount;
+  }
+
+  applyOpenOrdersChange(
+    publicKey: PublicKey,
+    accountInfo: AccountInfo<Buffer>,
+    slot?: number,
+  ) {
+    const key = publicKey.toBase58();
+    const owner = this.accounts.get(this.openOrdersOwners.get(key) ?? '');
+    if (!owner || this.isStale(key, slot)) return;
+    if (slot !== undefined) this.slots.set(key, slot);
+    const i = owner.spotOpenOrders.findIndex((pk) => pk.equals(publicKey));
+    owner.spotOpenOrdersAccounts[i] = OpenOrders.fromAccountInfo(
+      publicKey,
+      accountInfo,
+      this.entropyGroup.dexProgramId,
+    );
+  }
+
+  get(publicKey: PublicKey): EntropyAccount | undefined {
+    return this.accounts.get(publicKey.toBase58());
+  }
+
+  all(): EntropyAccount[] {
+    return [...this.accounts.values()];
+  }
+
+  byOwner(owner: PublicKey): EntropyAccount[] {
+    return this.all().filter((a) => a.owner.equals(owner));
+  }
+
+  /** Largest absolute base positions first */
+  topByPerpPosition(marketIndex: number, limit = 10): EntropyAccount[] {
+    return this.all()
+      .sort((a, b) =>
+        b.perpAccounts[marketIndex].basePosition
+          .abs()
+          .cmp(a.perpAccounts[marketIndex].basePosition.abs()),
+      )
+      .slice(0, limit);
+  }
+
+  topByDeposit(tokenIndex: number, limit = 10): EntropyAccount[] {
+    return this.all()
+      .sort((a, b) => b.deposits[tokenIndex].cmp(a.deposits[tokenIndex]))
+      .slice(0, limit);
+  }
+
+  topByBorrow(tokenIndex: number, limit = 10): EntropyAccount[] {
+    return this.all()
+      .sort((a, b) => b.borrows[tokenIndex].cmp(a.borrows[tokenIndex]))
+      .slice(0, limit);
+  }
+
+  /** Accounts whose health ratio is below ratio, lowest first */
+  accountsBelowHealthRatio(
+    ratio: number,
+    entropyCache: EntropyCache,
+    healthType: HealthType = 'Maint',
+  ): EntropyAccount[] {
+    const limit = I80F48.fromNumber(ratio);
+    return this.all()
+      .map((entropyAccount) => ({
+        entropyAccount,
+        healthRatio: entropyAccount.getHealthRatio(
+          this.entropyGroup,
+          entropyCache,
+          healthType,
+        ),
+      }))
+      .filter(({ healthRatio }) => healthRatio.lt(limit))
+      .sort((a, b) => a.healthRatio.cmp(b.healthRatio))
+      .map(({ entropyAccount }) => entropyAccount);
+  }
+
+  /** Whether an update at slot is older than the last one applied to key */
+  private isStale(key: string, slot?: number): boolean {
+    return slot !== undefined && (this.slots.get(key) ?? -1) > slot;
+  }
+
+  private set(entropyAccount: EntropyAccount, slot?: number) {
+    const key = entropyAccount.publicKey.toBase58();
+    this.accounts.get(key)?.spotOpenOrders.forEach((pk) => {
+      this.openOrdersOwners.delete(pk.toBase58());
+    });
+    this.accounts.set(key, entropyAccount);
+    if (slot !== undefined) this.slots.set(key, slot);
+    entropyAccount.spotOpenOrders.forEach((pk) => {
+      if (!pk.equals(zeroKey)) this.openOrdersOwners.set(pk.toBase58(), key);
+    });
+  }
+
+  private delete(entropyAccount: EntropyAccount) {
+    const key = entropyAccount.publicKey.toBase58();
+    entropyAccount.spotOpenOrders.forEach((pk) => {
+      this.openOrdersOwners.delete(pk.toBase58());
+      this.slots.delete(pk.toBase58());
+    });
+    this.accounts.delete(key);
+    this.slots.delete(key);
+  }
+}
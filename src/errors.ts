@@ -0,0 +1,201 @@
+import { PublicKey, TransactionError } from '@solana/web3.js';
+import { EntropyError } from './utils';
+
+/**
+ * EntropyErrorCode variants in program order; the index is the value the
+ * program returns as a custom error code
+ */
+export const ENTROPY_ERROR_CODES = [
+  'InvalidCache',
+  'InvalidOwner',
+  'InvalidGroupOwner',
+  'InvalidSignerKey',
+  'InvalidAdminKey',
+  'InvalidVault',
+  'MathError',
+  'InsufficientFunds',
+  'InvalidToken',
+  'InvalidMarket',
+  'InvalidProgramId',
+  'GroupNotRentExempt',
+  'OutOfSpace',
+  'TooManyOpenOrders',
+  'AccountNotRentExempt',
+  'ClientIdNotFound',
+  'InvalidNodeBank',
+  'InvalidRootBank',
+  'MarginBasketFull',
+  'NotLiquidatable',
+  'Unimplemented',
+  'PostOnly',
+  'Bankrupt',
+  'InsufficientHealth',
+  'InvalidParam',
+  'InvalidAccount',
+  'InvalidAccountState',
+  'SignerNecessary',
+  'InsufficientLiquidity',
+  'InvalidOrderId',
+  'InvalidOpenOrdersAccount',
+  'BeingLiquidated',
+  'InvalidRootBankCache',
+  'InvalidPriceCache',
+  'InvalidPerpMarketCache',
+  'TriggerConditionFalse',
+  'InvalidSeeds',
+  'InvalidOracleType',
+  'InvalidOraclePrice',
+  'MaxAccountsReached',
+];
+
+export class InsufficientHealthError extends EntropyError {}
+export class InvalidOracleError extends EntropyError {}
+export class OutOfSpaceError extends EntropyError {}
+export class SlippageError extends EntropyError {}
+
+export class BlockhashExpiredError extends Error {
+  message: string;
+  txid: string;
+  lastValidBlockHeight: number;
+
+  constructor({ txid, lastValidBlockHeight }) {
+    super();
+    this.message = `Blockhash expired after block height ${lastValidBlockHeight} before the transaction confirmed`;
+    this.txid = txid;
+    this.lastValidBlockHeight = lastValidBlockHeight;
+  }
+}
+
+export class QuorumError extends Error {
+  message: string;
+  method: string;
+
+  constructor({ method, required, responses }) {
+    super();
+    this.message = `${method}: fewer than ${required} of ${responses} RPC responses agreed on the data within a few slots`;
+    this.method = method;
+  }
+}
+
+export class InconsistentSnapshotError extends Error {
+  message: string;
+  slots: number[];
+
+  constructor({ slots, attempts }) {
+    super();
+    this.message = `Accounts were still too many slots apart (${slots.join(
+      ', ',
+    )}) after ${attempts} attempts`;
+    this.slots = slots;
+  }
+}
+
+const ERROR_CLASSES: { [code: string]: typeof EntropyError } = {
+  InsufficientHealth: InsufficientHealthError,
+  InvalidOracleType: InvalidOracleError,
+  InvalidOraclePrice: InvalidOracleError,
+  InvalidPriceCache: InvalidOracleError,
+  OutOfSpace: OutOfSpaceError,
+  MarginBasketFull: OutOfSpaceError,
+  TooManyOpenOrders: OutOfSpaceError,
+  MaxAccountsReached: OutOfSpaceError,
+  Slippage: SlippageError,
+};
+
+/**
+ * Log lines that identify a failure when no custom error code is available,
+ * e.g. when the failure comes from a CPI into another program
+ */
+const LOG_PATTERNS: [RegExp, string][] = [
+  [/insufficient health/i, 'InsufficientHealth'],
+  [/slippage/i, 'Slippage'],
+  [/(invalid|stale) oracle/i, 'InvalidOraclePrice'],
+  [/out of space/i, 'OutOfSpace'],
+];
+
+const ERROR_CODE_LOG = /EntropyErrorCode::(\w+)/;
+const FAILED_LOG =
+  /^Program (\w+) failed: custom program error: (0x[0-9a-f]+)/i;
+const PREFLIGHT_MESSAGE =
+  /Error processing Instruction (\d+): custom program error: (0x[0-9a-f]+)/i;
+
+/**
+ * Turn a failed transaction's error and logs into an EntropyError, or one of
+ * its subclasses when the failure is recognised. `code` is the EntropyErrorCode
+ * name (or 'Slippage'), so callers can branch on it instead of message text.
+ *
+ * @param err The TransactionError from a signature status or simulation
+ * @param logs Simulation or preflight logs, if any
+ * @param programId When given, custom codes from other programs are not mapped
+ * @param messagePrefix Prepended to the message, e.g. a market name
+ */
+export function decodeTransactionError({
+  txid,
+  err,
+  logs,
+  programId,
+  messagePrefix = '',
+}: {
+  txid: string;
+  err?: TransactionError | string | null;
+  logs?: string[] | null;
+  programId?: PublicKey;
+  messagePrefix?: string;
+}): EntropyError {
+  let instructionIndex: number | undefined;
+  let customCode: number | undefined;
+
+  const instructionError = (err as any)?.InstructionError;
+  if (Array.isArray(instructionError)) {
+    instructionIndex = instructionError[0];
+    customCode = instructionError[1]?.Custom;
+  } else if (typeof err === 'string') {
+    const match = err.match(PREFLIGHT_MESSAGE);
+    if (match) {
+      instructionIndex = parseInt(match[1], 10);
+      customCode = parseInt(match[2], 16);
+    }
+  }
+
+  let code: string | undefined;
+  let message: string | undefined;
+  logs = logs ?? [];
+
+  for (let i = logs.length - 1; i >= 0; --i) {
+    const line = logs[i];
+    if (line.startsWith('Program log: ')) {
+      message ??= line.slice('Program log: '.length);
+      const match = line.match(ERROR_CODE_LOG);
+      if (match) {
+        code = match[1];
+        break;
+      }
+    }
+  }
+
+  if (code === undefined && customCode !== undefined) {
+    // the first failure logged is the innermost program, which owns the code
+    const failed = logs.map((l) => l.match(FAILED_LOG)).find((m) => m);
+    const fromEntropy =
+      !programId || !failed || failed[1] === programId.toBase58();
+    if (fromEntropy && customCode < ENTROPY_ERROR_CODES.length) {
+      code = ENTROPY_ERROR_CODES[customCode];
+    }
+  }
+
+  if (code === undefined) {
+    const text = logs.join('\n');
+    code = LOG_PATTERNS.find(([pattern]) => pattern.test(text))?.[1];
+  }
+
+  message = message
+    ? `${messagePrefix}Transaction failed: ${message}`
+    : typeof err === 'string'
+    ? err
+    : err
+    ? JSON.stringify(err)
+    : `${messagePrefix}Transaction failed`;
+
+  const ErrorClass = (code && ERROR_CLASSES[code]) || EntropyError;
+  return new ErrorClass({ txid, message, code, instructionIndex });
+}
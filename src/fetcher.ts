@@ -3,7 +3,6 @@ import {
   Commitment,
   Connection
 } from '@solana/web3.js';
-import { sleep } from './utils';
 import configFile from './ids.json';
 import {
   Cluster,
@@ -11,7 +10,6 @@ import {
   getPerpMarketByBaseSymbol,
   PerpMarketConfig
 } from './config';
-import { ONE_BN, ZERO_BN } from '.';
 
 export class Fetcher {
   /**
@@ -63,14 +61,15 @@ export class Fetcher {
       mk.quoteDecimals,
     );
 
-    let lastSeqNum = ZERO_BN;
-    // eslint-disable-next-line
-    while (true) {
-      await sleep(interval);
-      const queue = await perpMarket.loadEventQueue(connection);
-      console.log(queue.eventsSince(lastSeqNum));
-      // -1 here since queue.seqNum is the seqNum for the next (future) event
-      lastSeqNum = queue.seqNum.sub(ONE_BN);
+    for await (const event of perpMarket.streamEvents(connection, {
+      interval: Number(interval),
+    })) {
+      if (event.eventType === 'gap') {
+        const { firstSeqNum, lastSeqNum } = event;
+        console.warn(`Missed events ${firstSeqNum} to ${lastSeqNum}`);
+      } else {
+        console.log(event);
+      }
     }
   }
 }
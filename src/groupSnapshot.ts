@@ -0,0 +1,423 @@
+import { OpenOrders } from '@project-serum/serum';
+import { AccountInfo, PublicKey } from '@solana/web3.js';
+import { AccountLoader } from './accountLoader';
+import { BookSide } from './book';
+import EntropyAccount from './EntropyAccount';
+import EntropyGroup from './EntropyGroup';
+import { InconsistentSnapshotError } from './errors';
+import { I80F48 } from './fixednum';
+import {
+  BookSideLayout,
+  EntropyAccountLayout,
+  EntropyCache,
+  EntropyCacheLayout,
+  EntropyGroupLayout,
+  NodeBank,
+  NodeBankLayout,
+  PerpEventQueueLayout,
+  PerpMarketLayout,
+  QUOTE_INDEX,
+  RootBankLayout,
+} from './layout';
+import PerpEventQueue from './PerpEventQueue';
+import PerpMarket from './PerpMarket';
+import RootBank from './RootBank';
+import { zeroKey } from './utils';
+
+export interface GroupSnapshotOptions {
+  /** Also load the bids and asks of every perp market */
+  books?: boolean;
+  /** Also load the event queue of every perp market */
+  eventQueues?: boolean;
+  /** Entropy accounts to load with their spot open orders */
+  entropyAccounts?: PublicKey[];
+  /**
+   * Rounds of loading before giving up, counting those that only discover
+   * further accounts. Defaults to 5; a cold load needs three.
+   */
+  maxAttempts?: number;
+  /**
+   * Most slots the accounts of a snapshot may be apart. Loads of more than
+   * one chunk of keys are answered by separate requests, which may land in
+   * different slots; such a round is repeated. Defaults to 0. With a
+   * tolerance, the snapshot's slot is only the latest slot an account was read
+   * at, and the accounts may not be mutually consistent.
+   */
+  maxSlotSpread?: number;
+  /**
+   * An earlier snapshot of the same group. Its accounts are requested
+   * straight away, so a refresh takes one round-trip unless banks or markets
+   * were added since.
+   */
+  previous?: GroupSnapshot;
+}
+
+/** Version of the GroupSnapshot JSON format written by toJSON */
+export const GROUP_SNAPSHOT_VERSION = 1;
+
+/** A GroupSnapshot as stored on disk; account data is base64 */
+export interface GroupSnapshotJson {
+  version: number;
+  group: string;
+  slot: number;
+  entropyAccounts: string[];
+  accounts: {
+    [publicKey: string]: {
+      data: string;
+      owner: string;
+      lamports: number;
+      executable: boolean;
+    };
+  };
+}
+
+/**
+ * A group with its cache, root and node banks, perp markets and optionally
+ * their books, event queues and chosen entropy accounts, all decoded from
+ * accounts read at one slot, or within maxSlotSpread slots of each other when
+ * loaded with a tolerance. The snapshot and its arrays are frozen; the decoded
+ * objects are shared with it and should be treated as read-only.
+ *
+ * toJSON and fromJSON store and restore the raw accounts, so a production
+ * moment can be reproduced offline or kept as a test fixture.
+ */
+export class GroupSnapshot {
+  /** The latest slot any of the accounts was read at */
+  readonly slot: number;
+  readonly entropyGroup: EntropyGroup;
+  readonly cache: EntropyCache;
+  /** Indexed by token index; undefined where the group has no token */
+  readonly rootBanks: readonly (RootBank | undefined)[];
+  /** Indexed by market index; undefined where the group has no perp market */
+  readonly perpMarkets: readonly (PerpMarket | undefined)[];
+  readonly bids: readonly (BookSide | undefined)[];
+  readonly asks: readonly (BookSide | undefined)[];
+  readonly eventQueues: readonly (PerpEventQueue | undefined)[];
+  /** With spotOpenOrdersAccounts filled in from the snapshot */
+  readonly entropyAccounts: readonly EntropyAccount[];
+  /** The raw accounts the snapshot was decoded from, by base58 key */
+  readonly accounts: ReadonlyMap<string, AccountInfo<Buffer>>;
+
+  /**
+   * Decode a snapshot from raw accounts. Books and event queues are decoded
+   * for the markets whose accounts for them are among the accounts.
+   */
+  constructor(
+    groupKey: PublicKey,
+    slot: number,
+    accounts: Map<string, AccountInfo<Buffer>>,
+    entropyAccountKeys: PublicKey[] = [],
+  ) {
+    const data = (publicKey: PublicKey) => {
+      const account = accounts.get(publicKey.toBase58());
+      if (!account) {
+        throw new Error(`Snapshot is missing account ${publicKey.toBase58()}`);
+      }
+      return account.data;
+    };
+
+    this.slot = slot;
+    this.accounts = accounts;
+    this.entropyGroup = new EntropyGroup(
+      groupKey,
+      EntropyGroupLayout.decode(data(groupKey)),
+    );
+    const group = this.entropyGroup;
+    this.cache = new EntropyCache(
+      group.entropyCache,
+      EntropyCacheLayout.decode(data(group.entropyCache)),
+    );
+
+    this.rootBanks = Object.freeze(
+      group.tokens.map((token) => {
+        if (token.rootBank.equals(zeroKey)) return undefined;
+        const rootBank = new RootBank(
+          token.rootBank,
+          RootBankLayout.decode(data(token.rootBank)),
+        );
+        rootBank.nodeBankAccounts = rootBank.nodeBanks
+          .filter((pk) => !pk.equals(zeroKey))
+          .map((pk) => new NodeBank(pk, NodeBankLayout.decode(data(pk))));
+        return rootBank;
+      }),
+    );
+    group.rootBankAccounts = [...this.rootBanks];
+
+    this.perpMarkets = Object.freeze(
+      group.perpMarkets.map((info, i) =>
+        info.isEmpty()
+          ? undefined
+          : new PerpMarket(
+              info.perpMarket,
+              group.tokens[i].decimals,
+              group.tokens[QUOTE_INDEX].decimals,
+              PerpMarketLayout.decode(data(info.perpMarket)),
+            ),
+      ),
+    );
+
+    const loadBook = (market: PerpMarket | undefined, key: 'bids' | 'asks') =>
+      market && accounts.has(market[key].toBase58())
+        ? new BookSide(
+            market[key],
+            market,
+            BookSideLayout.decode(data(market[key])),
+          )
+        : undefined;
+    this.bids = Object.freeze(this.perpMarkets.map((m) => loadBook(m, 'bids')));
+    this.asks = Object.freeze(this.perpMarkets.map((m) => loadBook(m, 'asks')));
+    this.eventQueues = Object.freeze(
+      this.perpMarkets.map((market) =>
+        market && accounts.has(market.eventQueue.toBase58())
+          ? new PerpEventQueue(
+              PerpEventQueueLayout.decode(data(market.eventQueue)),
+            )
+          : undefined,
+      ),
+    );
+
+    this.entropyAccounts = Object.freeze(
+      entropyAccountKeys.map((pk) => {
+        const entropyAccount = new EntropyAccount(
+          pk,
+          EntropyAccountLayout.decode(data(pk)),
+        );
+        entropyAccount.spotOpenOrdersAccounts =
+          entropyAccount.spotOpenOrders.map((openOrdersPk) => {
+            if (openOrdersPk.equals(zeroKey)) return undefined;
+            const accountInfo = accounts.get(openOrdersPk.toBase58());
+            if (!accountInfo) {
+              throw new Error(
+                `Snapshot is missing account ${openOrdersPk.toBase58()}`,
+              );
+            }
+            return OpenOrders.fromAccountInfo(
+              openOrdersPk,
+              accountInfo,
+              group.dexProgramId,
+            );
+          });
+        return entropyAccount;
+      }),
+    );
+
+    Object.freeze(this);
+  }
+
+  get publicKeys(): PublicKey[] {
+    return [...this.accounts.keys()].map((key) => new PublicKey(key));
+  }
+
+  getRootBank(tokenIndex: number): RootBank {
+    const rootBank = this.rootBanks[tokenIndex];
+    if (!rootBank) throw new Error(`No root bank for token ${tokenIndex}`);
+    return rootBank;
+  }
+
+  getNodeBanks(tokenIndex: number): NodeBank[] {
+    return this.getRootBank(tokenIndex).nodeBankAccounts;
+  }
+
+  getPerpMarket(marketIndex: number): PerpMarket {
+    const perpMarket = this.perpMarkets[marketIndex];
+    if (!perpMarket) throw new Error(`No perp market at index ${marketIndex}`);
+    return perpMarket;
+  }
+
+  getBids(marketIndex: number): BookSide {
+    const bids = this.bids[marketIndex];
+    if (!bids) throw new Error(`No bids loaded for market ${marketIndex}`);
+    return bids;
+  }
+
+  getAsks(marketIndex: number): BookSide {
+    const asks = this.asks[marketIndex];
+    if (!asks) throw new Error(`No asks loaded for market ${marketIndex}`);
+    return asks;
+  }
+
+  getEventQueue(marketIndex: number): PerpEventQueue {
+    const eventQueue = this.eventQueues[marketIndex];
+    if (!eventQueue) {
+      throw new Error(`No event queue loaded for market ${marketIndex}`);
+    }
+    return eventQueue;
+  }
+
+  getEntropyAccount(publicKey: PublicKey): EntropyAccount {
+    const entropyAccount = this.entropyAccounts.find((a) =>
+      a.publicKey.equals(publicKey),
+    );
+    if (!entropyAccount) {
+      throw new Error(`Entropy account ${publicKey.toBase58()} not loaded`);
+    }
+    return entropyAccount;
+  }
+
+  getPrice(tokenIndex: number): I80F48 {
+    return this.entropyGroup.getPrice(tokenIndex, this.cache);
+  }
+
+  getPriceUi(tokenIndex: number): number {
+    return this.entropyGroup.getPriceUi(tokenIndex, this.cache);
+  }
+
+  /**
+   * The raw accounts, slot and version, for writing to a file that fromJSON
+   * restores without an RPC
+   */
+  toJSON(): GroupSnapshotJson {
+    const accounts: GroupSnapshotJson['accounts'] = {};
+    this.accounts.forEach((account, key) => {
+      accounts[key] = {
+        data: account.data.toString('base64'),
+        owner: account.owner.toBase58(),
+        lamports: account.lamports,
+        executable: account.executable,
+      };
+    });
+    return {
+      version: GROUP_SNAPSHOT_VERSION,
+      group: this.entropyGroup.publicKey.toBase58(),
+      slot: this.slot,
+      entropyAccounts: this.entropyAccounts.map((a) => a.publicKey.toBase58()),
+      accounts,
+    };
+  }
+
+  static fromJSON(json: GroupSnapshotJson): GroupSnapshot {
+    if (json.version !== GROUP_SNAPSHOT_VERSION) {
+      throw new Error(
+        `Unsupported snapshot version ${json.version}, expected ${GROUP_SNAPSHOT_VERSION}`,
+      );
+    }
+    const accounts = new Map<string, AccountInfo<Buffer>>();
+    for (const [key, account] of Object.entries(json.accounts)) {
+      accounts.set(key, {
+        data: Buffer.from(account.data, 'base64'),
+        owner: new PublicKey(account.owner),
+        lamports: account.lamports,
+        executable: account.executable,
+      });
+    }
+    return new GroupSnapshot(
+      new PublicKey(json.group),
+      json.slot,
+      accounts,
+      json.entropyAccounts.map((key) => new PublicKey(key)),
+    );
+  }
+}
+
+/**
+ * Load a GroupSnapshot. Each round loads every account known to be needed in
+ * one batch; the group, root banks, perp markets and entropy accounts point
+ * to further accounts, so a cold load takes three rounds and a load with
+ * `previous` one.
+ * A round whose accounts came back more than maxSlotSpread slots apart is
+ * repeated. After maxAttempts rounds in all InconsistentSnapshotError is
+ * thrown.
+ */
+export async function loadGroupSnapshot(
+  loader: AccountLoader,
+  groupKey: PublicKey,
+  opts: GroupSnapshotOptions = {},
+): Promise<GroupSnapshot> {
+  const maxAttempts = opts.maxAttempts ?? 5;
+  const maxSlotSpread = opts.maxSlotSpread ?? 0;
+  let keys = opts.previous ? opts.previous.publicKeys : [groupKey];
+  let slots: number[] = [];
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const loaded = await Promise.all(keys.map((pk) => loader.load(pk)));
+    const accounts = new Map<string, AccountInfo<Buffer>>();
+    const slotSet = new Set<number>();
+    loaded.forEach((account, i) => {
+      if (!account) {
+        throw new Error(`Account ${keys[i].toBase58()} not found`);
+      }
+      accounts.set(keys[i].toBase58(), account.accountInfo);
+      slotSet.add(account.context.slot);
+    });
+    slots = [...slotSet].sort((a, b) => a - b);
+
+    const needed = neededKeys(groupKey, accounts, opts);
+    keys = needed;
+    if (needed.some((pk) => !accounts.has(pk.toBase58()))) {
+      // discovered more accounts
+      continue;
+    }
+
+    if (slots[slots.length - 1] - slots[0] <= maxSlotSpread) {
+      const snapshotAccounts = new Map(
+        needed.map((pk) => [
+          pk.toBase58(),
+          accounts.get(pk.toBase58()) as AccountInfo<Buffer>,
+        ]),
+      );
+      return new GroupSnapshot(
+        groupKey,
+        slots[slots.length - 1],
+        snapshotAccounts,
+        opts.entropyAccounts,
+      );
+    }
+  }
+  throw new InconsistentSnapshotError({ slots, attempts: maxAttempts });
+}
+
+/** Every account the snapshot needs that can be derived from those loaded */
+function neededKeys(
+  groupKey: PublicKey,
+  accounts: Map<string, AccountInfo<Buffer>>,
+  opts: GroupSnapshotOptions,
+): PublicKey[] {
+  const keys: PublicKey[] = [groupKey];
+  const group = accounts.get(groupKey.toBase58());
+  if (!group) return keys;
+
+  const decoded = EntropyGroupLayout.decode(group.data);
+  keys.push(decoded.entropyCache);
+
+  for (const token of decoded.tokens) {
+    if (token.rootBank.equals(zeroKey)) continue;
+    keys.push(token.rootBank);
+    const rootBank = accounts.get(token.rootBank.toBase58());
+    if (rootBank) {
+      const nodeBanks = RootBankLayout.decode(rootBank.data).nodeBanks;
+      keys.push(...nodeBanks.filter((pk) => !pk.equals(zeroKey)));
+    }
+  }
+
+  for (const info of decoded.perpMarkets) {
+    if (info.isEmpty()) continue;
+    keys.push(info.perpMarket);
+    const perpMarket = accounts.get(info.perpMarket.toBase58());
+    if (perpMarket && (opts.books || opts.eventQueues)) {
+      const { bids, asks, eventQueue } = PerpMarketLayout.decode(
+        perpMarket.data,
+      );
+      if (opts.books) keys.push(bids, asks);
+      if (opts.eventQueues) keys.push(eventQueue);
+    }
+  }
+
+  for (const pk of opts.entropyAccounts ?? []) {
+    keys.push(pk);
+    const entropyAccount = accounts.get(pk.toBase58());
+    if (entropyAccount) {
+      const { spotOpenOrders } = EntropyAccountLayout.decode(
+        entropyAccount.data,
+      );
+      keys.push(...spotOpenOrders.filter((oo) => !oo.equals(zeroKey)));
+    }
+  }
+
+  const seen = new Set<string>();
+  return keys.filter((pk) => {
+    const key = pk.toBase58();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
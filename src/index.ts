@@ -17,12 +17,30 @@ export {
   RootBank,
 };
 
+export * from './accountLoader';
+export * from './accountSubscription';
 export * from './book';
+export * from './bookSubscription';
 export * from './client';
+export * from './computeBudget';
 export * from './config';
+export * from './connectionPool';
+export * from './entropyAccountIndex';
+export * from './errors';
 export * from './fixednum';
+export * from './groupSnapshot';
 export * from './instruction';
+export * from './instructionBuilder';
 export * from './layout';
+export * from './logger';
+export * from './lookupTable';
+export * from './marketBook';
+export * from './sendPolicy';
+export * from './signer';
+export * from './stressTest';
 export * from './token';
+export * from './tradeHistory';
+export * from './transactionEvents';
+export * from './transactionPacker';
 export * from './types';
 export * from './utils';
@@ -0,0 +1,2469 @@
+import {
+  Account,
+  AccountInfo,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import BN from 'bn.js';
+import {
+  getFeeRates,
+  getFeeTier,
+  Market,
+  OpenOrders,
+} from '@project-serum/serum';
+import { Order } from '@project-serum/serum/lib/market';
+import {
+  closeAccount,
+  initializeAccount,
+  WRAPPED_SOL_MINT,
+} from '@project-serum/serum/lib/token-instructions';
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  Token,
+  TOKEN_PROGRAM_ID,
+} from '@solana/spl-token';
+import {
+  createAccountInstruction,
+  createTokenAccountInstructions,
+  nativeToUi,
+  uiToNative,
+  ZERO_BN,
+  zeroKey,
+} from './utils';
+import {
+  AssetType,
+  BookSideLayout,
+  EntropyAccountLayout,
+  EntropyCache,
+  FREE_ORDER_SLOT,
+  NodeBankLayout,
+  PerpEventLayout,
+  PerpEventQueueHeaderLayout,
+  QUOTE_INDEX,
+  RootBankLayout,
+  StubOracleLayout,
+} from './layout';
+import {
+  makeAddEntropyAccountInfoInstruction,
+  makeAddOracleInstruction,
+  makeAddPerpTriggerOrderInstruction,
+  makeAddSpotMarketInstruction,
+  makeCachePerpMarketsInstruction,
+  makeCachePricesInstruction,
+  makeCacheRootBankInstruction,
+  makeCancelAllPerpOrdersInstruction,
+  makeCancelPerpOrderInstruction,
+  makeCancelSpotOrderInstruction,
+  makeChangeMaxEntropyAccountsInstruction,
+  makeChangePerpMarketParams2Instruction,
+  makeChangePerpMarketParamsInstruction,
+  makeConsumeEventsInstruction,
+  makeCreatePerpMarketInstruction,
+  makeDepositInstruction,
+  makeDepositMsrmInstruction,
+  makeExecutePerpTriggerOrderInstruction,
+  makeForceCancelPerpOrdersInstruction,
+  makeForceCancelSpotOrdersInstruction,
+  makeInitAdvancedOrdersInstruction,
+  makeInitEntropyAccountInstruction,
+  makeInitSpotOpenOrdersInstruction,
+  makeLiquidatePerpMarketInstruction,
+  makeLiquidateTokenAndPerpInstruction,
+  makeLiquidateTokenAndTokenInstruction,
+  makePlacePerpOrderInstruction,
+  makePlaceSpotOrder2Instruction,
+  makePlaceSpotOrderInstruction,
+  makeRedeemMngoInstruction,
+  makeRemoveAdvancedOrderInstruction,
+  makeResolvePerpBankruptcyInstruction,
+  makeResolveTokenBankruptcyInstruction,
+  makeSetGroupAdminInstruction,
+  makeSetOracleInstruction,
+  makeSettleFeesInstruction,
+  makeSettleFundsInstruction,
+  makeSettlePnlInstruction,
+  makeUpdateFundingInstruction,
+  makeUpdateMarginBasketInstruction,
+  makeUpdateRootBankInstruction,
+  makeWithdrawInstruction,
+  makeWithdrawMsrmInstruction,
+} from './instruction';
+import { I80F48, ZERO_I80F48 } from './fixednum';
+import { PerpOrderType } from './types';
+import { BookSide, PerpOrder } from './book';
+import EntropyAccount from './EntropyAccount';
+import EntropyGroup from './EntropyGroup';
+import PerpMarket from './PerpMarket';
+import RootBank from './RootBank';
+import { EntropyClient } from './client';
+
+/**
+ * The instructions making up one client action, plus the freshly generated
+ * accounts that have to sign alongside the owner
+ */
+export interface InstructionsAndSigners {
+  instructions: TransactionInstruction[];
+  signers: Account[];
+}
+
+/**
+ * Builds the instructions for every EntropyClient action without signing or
+ * sending them, so several actions can be combined into one transaction.
+ * Available as `client.instructions`.
+ */
+export class EntropyInstructionBuilder {
+  client: EntropyClient;
+
+  constructor(client: EntropyClient) {
+    this.client = client;
+  }
+
+  get connection() {
+    return this.client.connection;
+  }
+
+  get programId() {
+    return this.client.programId;
+  }
+
+  /**
+   * Create a new Entropy Account on a given group
+   */
+  async initEntropyAccount(
+    entropyGroup: EntropyGroup,
+    owner: PublicKey,
+  ): Promise<InstructionsAndSigners & { entropyAccount: PublicKey }> {
+    const accountInstruction = await createAccountInstruction(
+      this.connection,
+      owner,
+      EntropyAccountLayout.span,
+      this.programId,
+    );
+
+    const initEntropyAccountInstruction = makeInitEntropyAccountInstruction(
+      this.programId,
+      entropyGroup.publicKey,
+      accountInstruction.account.publicKey,
+      owner,
+    );
+
+    return {
+      instructions: [
+        accountInstruction.instruction,
+        initEntropyAccountInstruction,
+      ],
+      signers: [accountInstruction.account],
+      entropyAccount: accountInstruction.account.publicKey,
+    };
+  }
+
+  /**
+   * Create a new Entropy Account and deposit some tokens
+   *
+   * @param rootBank The RootBank for the deposit currency
+   * @param nodeBank The NodeBank asociated with the RootBank
+   * @param vault The token account asociated with the NodeBank
+   * @param tokenAcc The token account to transfer from
+   * @param info An optional UI name for the account
+   */
+  async initEntropyAccountAndDeposit(
+    entropyGroup: EntropyGroup,
+    owner: PublicKey,
+    rootBank: PublicKey,
+    nodeBank: PublicKey,
+    vault: PublicKey,
+    tokenAcc: PublicKey,
+
+    quantity: number,
+    info?: string,
+  ): Promise<InstructionsAndSigners & { entropyAccount: PublicKey }> {
+    const { instructions, signers, entropyAccount } =
+      await this.initEntropyAccount(entropyGroup, owner);
+
+    const tokenIndex = entropyGroup.getRootBankIndex(rootBank);
+    const tokenMint = entropyGroup.tokens[tokenIndex].mint;
+
+    let wrappedSolAccount: Account | null = null;
+    if (
+      tokenMint.equals(WRAPPED_SOL_MINT) &&
+      tokenAcc.toBase58() === owner.toBase58()
+    ) {
+      wrappedSolAccount = new Account();
+      const lamports = Math.round(quantity * LAMPORTS_PER_SOL) + 1e7;
+      instructions.push(
+        SystemProgram.createAccount({
+          fromPubkey: owner,
+          newAccountPubkey: wrappedSolAccount.publicKey,
+          lamports,
+          space: 165,
+          programId: TOKEN_PROGRAM_ID,
+        }),
+      );
+
+      instructions.push(
+        initializeAccount({
+          account: wrappedSolAccount.publicKey,
+          mint: WRAPPED_SOL_MINT,
+          owner,
+        }),
+      );
+
+      signers.push(wrappedSolAccount);
+    }
+
+    const nativeQuantity = uiToNative(
+      quantity,
+      entropyGroup.tokens[tokenIndex].decimals,
+    );
+
+    instructions.push(
+      makeDepositInstruction(
+        this.programId,
+        entropyGroup.publicKey,
+        owner,
+        entropyGroup.entropyCache,
+        entropyAccount,
+        rootBank,
+        nodeBank,
+        vault,
+        wrappedSolAccount?.publicKey ?? tokenAcc,
+        nativeQuantity,
+      ),
+    );
+
+    if (info) {
+      instructions.push(
+        makeAddEntropyAccountInfoInstruction(
+          this.programId,
+          entropyGroup.publicKey,
+          entropyAccount,
+          owner,
+          info,
+        ),
+      );
+    }
+
+    if (wrappedSolAccount) {
+      instructions.push(
+        closeAccount({
+          source: wrappedSolAccount.publicKey,
+          destination: owner,
+          owner,
+        }),
+      );
+    }
+
+    return { instructions, signers, entropyAccount };
+  }
+
+  /**
+   * Deposit tokens in a Entropy Account
+   *
+   * @param rootBank The RootBank for the deposit currency
+   * @param nodeBank The NodeBank asociated with the RootBank
+   * @param vault The token account asociated with the NodeBank
+   * @param tokenAcc The token account to transfer from
+   */
+  async deposit(
+    entropyGroup: EntropyGroup,
+    entropyAccount: EntropyAccount,
+    owner: PublicKey,
+    rootBank: PublicKey,
+    nodeBank: PublicKey,
+    vault: PublicKey,
+    tokenAcc: PublicKey,
+
+    quantity: number,
+  ): Promise<InstructionsAndSigners> {
+    const instructions: TransactionInstruction[] = [];
+    const signers: Account[] = [];
+    const tokenIndex = entropyGroup.getRootBankIndex(rootBank);
+    const tokenMint = entropyGroup.tokens[tokenIndex].mint;
+
+    let wrappedSolAccount: Account | null = null;
+    if (
+      tokenMint.equals(WRAPPED_SOL_MINT) &&
+      tokenAcc.toBase58() === owner.toBase58()
+    ) {
+      wrappedSolAccount = new Account();
+      const lamports = Math.round(quantity * LAMPORTS_PER_SOL) + 1e7;
+      instructions.push(
+        SystemProgram.createAccount({
+          fromPubkey: owner,
+          newAccountPubkey: wrappedSolAccount.publicKey,
+          lamports,
+          space: 165,
+          programId: TOKEN_PROGRAM_ID,
+        }),
+      );
+
+      instructions.push(
+        initializeAccount({
+          account: wrappedSolAccount.publicKey,
+          mint: WRAPPED_SOL_MINT,
+          owner,
+        }),
+      );
+
+      signers.push(wrappedSolAccount);
+    }
+
+    const nativeQuantity = uiToNative(
+      quantity,
+      entropyGroup.tokens[tokenIndex].decimals,
+    );
+
+    instructions.push(
+      makeDepositInstruction(
+        this.programId,
+        entropyGroup.publicKey,
+        owner,
+        entropyGroup.entropyCache,
+        entropyAccount.publicKey,
+        rootBank,
+        nodeBank,
+        vault,
+        wrappedSolAccount?.publicKey ?? tokenAcc,
+        nativeQuantity,
+      ),
+    );
+
+    if (wrappedSolAccount) {
+      instructions.push(
+        closeAccount({
+          source: wrappedSolAccount.publicKey,
+          destination: owner,
+          owner,
+        }),
+      );
+    }
+
+    return { instructions, signers };
+  }
+
+  /**
+   * Withdraw tokens from a Entropy Account
+   *
+   * @param rootBank The RootBank for the withdrawn currency
+   * @param nodeBank The NodeBank asociated with the RootBank
+   * @param vault The token account asociated with the NodeBank
+   * @param allowBorrow Whether to borrow tokens if there are not enough deposits for the withdrawal
+   */
+  async withdraw(
+    entropyGroup: EntropyGroup,
+    entropyAccount: EntropyAccount,
+    owner: PublicKey,
+    rootBank: PublicKey,
+    nodeBank: PublicKey,
+    vault: PublicKey,
+
+    quantity: number,
+    allowBorrow: boolean,
+  ): Promise<InstructionsAndSigners> {
+    const instructions: TransactionInstruction[] = [];
+    const signers: Account[] = [];
+    const tokenIndex = entropyGroup.getRootBankIndex(rootBank);
+    const tokenMint = entropyGroup.tokens[tokenIndex].mint;
+
+    let tokenAcc = await Token.getAssociatedTokenAddress(
+      ASSOCIATED_TOKEN_PROGRAM_ID,
+      TOKEN_PROGRAM_ID,
+      tokenMint,
+      owner,
+    );
+
+    let wrappedSolAccount: Account | null = null;
+    if (tokenMint.equals(WRAPPED_SOL_MINT)) {
+      wrappedSolAccount = new Account();
+      tokenAcc = wrappedSolAccount.publicKey;
+      const space = 165;
+      const lamports = await this.connection.getMinimumBalanceForRentExemption(
+        space,
+        'processed',
+      );
+      instructions.push(
+        SystemProgram.createAccount({
+          fromPubkey: owner,
+          newAccountPubkey: tokenAcc,
+          lamports,
+          space,
+          programId: TOKEN_PROGRAM_ID,
+        }),
+      );
+      instructions.push(
+        initializeAccount({
+          account: tokenAcc,
+          mint: WRAPPED_SOL_MINT,
+          owner,
+        }),
+      );
+      signers.push(wrappedSolAccount);
+    } else {
+      const tokenAccExists = await this.connection.getAccountInfo(
+        tokenAcc,
+        'recent',
+      );
+      if (!tokenAccExists) {
+        instructions.push(
+          Token.createAssociatedTokenAccountInstruction(
+            ASSOCIATED_TOKEN_PROGRAM_ID,
+            TOKEN_PROGRAM_ID,
+            tokenMint,
+            tokenAcc,
+            owner,
+            owner,
+          ),
+        );
+      }
+    }
+
+    const nativeQuantity = uiToNative(
+      quantity,
+      entropyGroup.tokens[tokenIndex].decimals,
+    );
+
+    instructions.push(
+      makeWithdrawInstruction(
+        this.programId,
+        entropyGroup.publicKey,
+        entropyAccount.publicKey,
+        owner,
+        entropyGroup.entropyCache,
+        rootBank,
+        nodeBank,
+        vault,
+        tokenAcc,
+        entropyGroup.signerKey,
+        entropyAccount.spotOpenOrders,
+        nativeQuantity,
+        allowBorrow,
+      ),
+    );
+
+    if (wrappedSolAccount) {
+      instructions.push(
+        closeAccount({
+          source: wrappedSolAccount.publicKey,
+          destination: owner,
+          owner,
+        }),
+      );
+    }
+
+    return { instructions, signers };
+  }
+
+  async changeMaxAccounts(
+    entropyGroupPk: PublicKey,
+    admin: PublicKey,
+    numAccounts: BN,
+  ): Promise<InstructionsAndSigners> {
+    return {
+      instructions: [
+        makeChangeMaxEntropyAccountsInstruction(
+          this.programId,
+          entropyGroupPk,
+          admin,
+          numAccounts,
+        ),
+      ],
+      signers: [],
+    };
+  }
+
+  /**
+   * Called by the Keeper to cache interest rates from the RootBanks
+   */
+  async cacheRootBanks(
+    entropyGroup: PublicKey,
+    entropyCache: PublicKey,
+    rootBanks: PublicKey[],
+  ): Promise<InstructionsAndSigners> {
+    return {
+      instructions: [
+        makeCacheRootBankInstruction(
+          this.programId,
+          entropyGroup,
+          entropyCache,
+          rootBanks,
+        ),
+      ],
+      signers: [],
+    };
+  }
+
+  /**
+   * Called by the Keeper to cache prices from the Oracles
+   */
+  async cachePrices(
+    entropyGroup: PublicKey,
+    entropyCache: PublicKey,
+    oracles: PublicKey[],
+  ): Promise<InstructionsAndSigners> {
+    return {
+      instructions: [
+        makeCachePricesInstruction(
+          this.programId,
+          entropyGroup,
+          entropyCache,
+          oracles,
+        ),
+      ],
+      signers: [],
+    };
+  }
+
+  /**
+   * Called by the Keeper to cache perp market funding
+   */
+  async cachePerpMarkets(
+    entropyGroup: PublicKey,
+    entropyCache: PublicKey,
+    perpMarkets: PublicKey[],
+  ): Promise<InstructionsAndSigners> {
+    return {
+      instructions: [
+        makeCachePerpMarketsInstruction(
+          this.programId,
+          entropyGroup,
+          entropyCache,
+          perpMarkets,
+        ),
+      ],
+      signers: [],
+    };
+  }
+
+  /**
+   * Called by the Keeper to update interest rates on the RootBanks
+   */
+  async updateRootBank(
+    entropyGroup: EntropyGroup,
+    rootBank: PublicKey,
+    nodeBanks: PublicKey[],
+  ): Promise<InstructionsAndSigners> {
+    return {
+      instructions: [
+        makeUpdateRootBankInstruction(
+          this.programId,
+          entropyGroup.publicKey,
+          entropyGroup.entropyCache,
+          rootBank,
+          nodeBanks,
+        ),
+      ],
+      signers: [],
+    };
+  }
+
+  /**
+   * Called by the Keeper to process events on the Perp order book
+   */
+  async consumeEvents(
+    entropyGroup: EntropyGroup,
+    perpMarket: PerpMarket,
+    entropyAccounts: PublicKey[],
+    limit: BN,
+  ): Promise<InstructionsAndSigners> {
+    return {
+      instructions: [
+        makeConsumeEventsInstruction(
+          this.programId,
+          entropyGroup.publicKey,
+          entropyGroup.entropyCache,
+          perpMarket.publicKey,
+          perpMarket.eventQueue,
+          entropyAccounts,
+          limit,
+        ),
+      ],
+      signers: [],
+    };
+  }
+
+  /**
+   * Called by the Keeper to update funding on the perp markets
+   */
+  async updateFunding(
+    entropyGroup: PublicKey,
+    entropyCache: PublicKey,
+    perpMarket: PublicKey,
+    bids: PublicKey,
+    asks: PublicKey,
+  ): Promise<InstructionsAndSigners> {
+    return {
+      instructions: [
+        makeUpdateFundingInstruction(
+          this.programId,
+          entropyGroup,
+          entropyCache,
+          perpMarket,
+          bids,
+          asks,
+        ),
+      ],
+      signers: [],
+    };
+  }
+
+  /**
+   * Place an order on a perp market
+   *
+   * @param clientOrderId An optional id that can be used to correlate events related to your order
+   * @param bookSideInfo Account info for asks if side === bid, bids if side === ask. If this is given, crank instruction is added
+   */
+  async placePerpOrder(
+    entropyGroup: EntropyGroup,
+    entropyAccount: EntropyAccount,
+    entropyCache: PublicKey, // TODO - remove; already in EntropyGroup
+    perpMarket: PerpMarket,
+    owner: PublicKey,
+
+    side: 'buy' | 'sell',
+    price: number,
+    quantity: number,
+    orderType?: PerpOrderType,
+    clientOrderId = 0,
+    bookSideInfo?: AccountInfo<Buffer>,
+    reduceOnly?: boolean,
+  ): Promise<InstructionsAndSigners> {
+    const [nativePrice, nativeQuantity] = perpMarket.uiToNativePriceQuantity(
+      price,
+      quantity,
+    );
+
+    const instructions = [
+      makePlacePerpOrderInstruction(
+        this.programId,
+        entropyGroup.publicKey,
+        entropyAccount.publicKey,
+        owner,
+        entropyCache,
+        perpMarket.publicKey,
+        perpMarket.bids,
+        perpMarket.asks,
+        perpMarket.eventQueue,
+        entropyAccount.spotOpenOrders,
+        nativePrice,
+        nativeQuantity,
+        new BN(clientOrderId),
+        side,
+        orderType,
+        reduceOnly,
+      ),
+    ];
+
+    if (bookSideInfo) {
+      instructions.push(
+        this.makeCrankInstruction(
+          entropyGroup,
+          entropyAccount,
+          perpMarket,
+          side,
+          bookSideInfo,
+        ),
+      );
+    }
+
+    return { instructions, signers: [] };
+  }
+
+  /**
+   * Cancel an order on a perp market
+   *
+   * @param invalidIdOk Don't throw error if order is invalid
+   */
+  async cancelPerpOrder(
+    entropyGroup: EntropyGroup,
+    entropyAccount: EntropyAccount,
+    owner: PublicKey,
+    perpMarket: PerpMarket,
+    order: PerpOrder,
+    invalidIdOk = false,
+  ): Promise<InstructionsAndSigners> {
+    return {
+      instructions: [
+        makeCancelPerpOrderInstruction(
+          this.programId,
+          entropyGroup.publicKey,
+          entropyAccount.publicKey,
+          owner,
+          perpMarket.publicKey,
+          perpMarket.bids,
+          perpMarket.asks,
+          order,
+          invalidIdOk,
+        ),
+      ],
+      signers: [],
+    };
+  }
+
+  /**
+   * Cancel all perp orders across all markets. Returns one instruction per
+   * market with open orders.
+   */
+  async cancelAllPerpOrders(
+    group: EntropyGroup,
+    perpMarkets: PerpMarket[],
+    entropyAccount: EntropyAccount,
+    owner: PublicKey,
+  ): Promise<InstructionsAndSigners> {
+    const instructions: TransactionInstruction[] = [];
+
+    // Determine which market indexes have open orders
+    const hasOrders = new Array(group.perpMarkets.length).fill(false);
+    for (let i = 0; i < entropyAccount.orderMarket.length; i++) {
+      if (entropyAccount.orderMarket[i] !== FREE_ORDER_SLOT) {
+        hasOrders[entropyAccount.orderMarket[i]] = true;
+      }
+    }
+
+    for (let i = 0; i < group.perpMarkets.length; i++) {
+      if (!hasOrders[i]) continue;
+
+      const pmi = group.perpMarkets[i];
+      if (pmi.isEmpty()) continue;
+      const perpMarket = perpMarkets.find((pm) =>
+        pm.publicKey.equals(pmi.perpMarket),
+      );
+      if (perpMarket === undefined) continue;
+
+      instructions.push(
+        makeCancelAllPerpOrdersInstruction(
+          this.programId,
+          group.publicKey,
+          entropyAccount.publicKey,
+          owner,
+          perpMarket.publicKey,
+          perpMarket.bids,
+          perpMarket.asks,
+          new BN(20),
+        ),
+      );
+    }
+
+    return { instructions, signers: [] };
+  }
+
+  /**
+   * Add a new oracle to a group
+   */
+  async addOracle(
+    entropyGroup: EntropyGroup,
+    oracle: PublicKey,
+    admin: PublicKey,
+  ): Promise<InstructionsAndSigners> {
+    return {
+      instructions: [
+        makeAddOracleInstruction(
+          this.programId,
+          entropyGroup.publicKey,
+          oracle,
+          admin,
+        ),
+      ],
+      signers: [],
+    };
+  }
+
+  /**
+   * Set the price of a 'stub' type oracle
+   */
+  async setOracle(
+    entropyGroup: EntropyGroup,
+    oracle: PublicKey,
+    admin: PublicKey,
+    price: I80F48,
+  ): Promise<InstructionsAndSigners> {
+    return {
+      instructions: [
+        makeSetOracleInstruction(
+          this.programId,
+          entropyGroup.publicKey,
+          oracle,
+          admin,
+          price,
+        ),
+      ],
+      signers: [],
+    };
+  }
+
+  async addSpotMarket(
+    entropyGroup: EntropyGroup,
+    oracle: PublicKey,
+    spotMarket: PublicKey,
+    mint: PublicKey,
+    admin: PublicKey,
+
+    maintLeverage: number,
+    initLeverage: number,
+    liquidationFee: number,
+    optimalUtil: number,
+    optimalRate: number,
+    maxRate: number,
+  ): Promise<InstructionsAndSigners> {
+    const vaultAccount = new Account();
+
+    const vaultAccountInstructions = await createTokenAccountInstructions(
+      this.connection,
+      admin,
+      vaultAccount.publicKey,
+      mint,
+      entropyGroup.signerKey,
+    );
+
+    const nodeBankAccountInstruction = await createAccountInstruction(
+      this.connection,
+      admin,
+      NodeBankLayout.span,
+      this.programId,
+    );
+    const rootBankAccountInstruction = await createAccountInstruction(
+      this.connection,
+      admin,
+      RootBankLayout.span,
+      this.programId,
+    );
+
+    const instruction = makeAddSpotMarketInstruction(
+      this.programId,
+      entropyGroup.publicKey,
+      oracle,
+      spotMarket,
+      entropyGroup.dexProgramId,
+      mint,
+      nodeBankAccountInstruction.account.publicKey,
+      vaultAccount.publicKey,
+      rootBankAccountInstruction.account.publicKey,
+      admin,
+      I80F48.fromNumber(maintLeverage),
+      I80F48.fromNumber(initLeverage),
+      I80F48.fromNumber(liquidationFee),
+      I80F48.fromNumber(optimalUtil),
+      I80F48.fromNumber(optimalRate),
+      I80F48.fromNumber(maxRate),
+    );
+
+    return {
+      instructions: [
+        ...vaultAccountInstructions,
+        nodeBankAccountInstruction.instruction,
+        rootBankAccountInstruction.instruction,
+        instruction,
+      ],
+      signers: [
+        vaultAccount,
+        nodeBankAccountInstruction.account,
+        rootBankAccountInstruction.account,
+      ],
+    };
+  }
+
+  /**
+   * Create and register the OpenOrders account of entropyAccount for a spot market
+   */
+  async initSpotOpenOrders(
+    entropyGroup: EntropyGroup,
+    entropyAccount: EntropyAccount,
+    spotMarket: Market,
+    owner: PublicKey,
+  ): Promise<InstructionsAndSigners & { openOrders: PublicKey }> {
+    const openOrdersSpace = OpenOrders.getLayout(
+      entropyGroup.dexProgramId,
+    ).span;
+
+    const openOrdersLamports =
+      await this.connection.getMinimumBalanceForRentExemption(
+        openOrdersSpace,
+        'processed',
+      );
+
+    const accInstr = await createAccountInstruction(
+      this.connection,
+      owner,
+      openOrdersSpace,
+      entropyGroup.dexProgramId,
+      openOrdersLamports,
+    );
+
+    const initOpenOrders = makeInitSpotOpenOrdersInstruction(
+      this.programId,
+      entropyGroup.publicKey,
+      entropyAccount.publicKey,
+      owner,
+      entropyGroup.dexProgramId,
+      accInstr.account.publicKey,
+      spotMarket.publicKey,
+      entropyGroup.signerKey,
+    );
+
+    return {
+      instructions: [accInstr.instruction, initOpenOrders],
+      signers: [accInstr.account],
+      openOrders: accInstr.account.publicKey,
+    };
+  }
+
+  /**
+   * Place an order on a spot market. entropyAccount must already have an
+   * OpenOrders account for this market; see initSpotOpenOrders.
+   *
+   * Make sure entropyAccount has recent and valid inMarginBasket and spotOpenOrders
+   */
+  async placeSpotOrder(
+    entropyGroup: EntropyGroup,
+    entropyAccount: EntropyAccount,
+    entropyCache: PublicKey,
+    spotMarket: Market,
+    owner: PublicKey,
+
+    side: 'buy' | 'sell',
+    price: number,
+    size: number,
+    orderType?: 'limit' | 'ioc' | 'postOnly',
+    clientId?: BN,
+  ): Promise<InstructionsAndSigners & { openOrders: PublicKey }> {
+    const limitPrice = spotMarket.priceNumberToLots(price);
+    const maxBaseQuantity = spotMarket.baseSizeNumberToLots(size);
+    const maxQuoteQuantity = getMaxQuoteQuantity(spotMarket, price, size);
+
+    if (maxBaseQuantity.lte(ZERO_BN)) {
+      throw new Error('size too small');
+    }
+    if (limitPrice.lte(ZERO_BN)) {
+      throw new Error('invalid price');
+    }
+    const selfTradeBehavior = 'decrementTake';
+    clientId = clientId ?? new BN(Date.now());
+
+    const spotMarketIndex = entropyGroup.getSpotMarketIndex(
+      spotMarket.publicKey,
+    );
+
+    if (!entropyGroup.rootBankAccounts.filter((a) => !!a).length) {
+      await entropyGroup.loadRootBanks(this.connection);
+    }
+
+    const baseRootBank = entropyGroup.rootBankAccounts[spotMarketIndex];
+    const baseNodeBank = baseRootBank?.nodeBankAccounts[0];
+    const quoteRootBank = entropyGroup.rootBankAccounts[QUOTE_INDEX];
+    const quoteNodeBank = quoteRootBank?.nodeBankAccounts[0];
+
+    if (!baseRootBank || !baseNodeBank || !quoteRootBank || !quoteNodeBank) {
+      throw new Error('Invalid or missing banks');
+    }
+
+    const instructions: TransactionInstruction[] = [];
+    const signers: Account[] = [];
+    const openOrders = getSpotOpenOrders(entropyAccount, spotMarketIndex);
+    const openOrdersKeys: { pubkey: PublicKey; isWritable: boolean }[] = [];
+
+    // Only pass in open orders if in margin basket or current market index, and
+    // the only writable account should be OpenOrders for current market index
+    for (let i = 0; i < entropyAccount.spotOpenOrders.length; i++) {
+      let pubkey = zeroKey;
+      let isWritable = false;
+
+      if (i === spotMarketIndex) {
+        isWritable = true;
+        pubkey = openOrders;
+      } else if (entropyAccount.inMarginBasket[i]) {
+        pubkey = entropyAccount.spotOpenOrders[i];
+      }
+
+      openOrdersKeys.push({ pubkey, isWritable });
+    }
+
+    const dexSigner = await getDexSigner(spotMarket);
+
+    instructions.push(
+      makePlaceSpotOrderInstruction(
+        this.programId,
+        entropyGroup.publicKey,
+        entropyAccount.publicKey,
+        owner,
+        entropyCache,
+        spotMarket.programId,
+        spotMarket.publicKey,
+        spotMarket['_decoded'].bids,
+        spotMarket['_decoded'].asks,
+        spotMarket['_decoded'].requestQueue,
+        spotMarket['_decoded'].eventQueue,
+        spotMarket['_decoded'].baseVault,
+        spotMarket['_decoded'].quoteVault,
+        baseRootBank.publicKey,
+        baseNodeBank.publicKey,
+        baseNodeBank.vault,
+        quoteRootBank.publicKey,
+        quoteNodeBank.publicKey,
+        quoteNodeBank.vault,
+        entropyGroup.signerKey,
+        dexSigner,
+        entropyGroup.srmVault, // TODO: choose msrm vault if it has any deposits
+        openOrdersKeys,
+        side,
+        limitPrice,
+        maxBaseQuantity,
+        maxQuoteQuantity,
+        selfTradeBehavior,
+        orderType,
+        clientId,
+      ),
+    );
+
+    return { instructions, signers, openOrders };
+  }
+
+  /**
+   * Place an order on a spot market using the newer instruction, which only
+   * takes the OpenOrders accounts actually in use. entropyAccount must
+   * already have an OpenOrders account for this market; see
+   * initSpotOpenOrders.
+   *
+   * Make sure entropyAccount has recent and valid inMarginBasket and spotOpenOrders
+   */
+  async placeSpotOrder2(
+    entropyGroup: EntropyGroup,
+    entropyAccount: EntropyAccount,
+    spotMarket: Market,
+    owner: PublicKey,
+
+    side: 'buy' | 'sell',
+    price: number,
+    size: number,
+    orderType?: 'limit' | 'ioc' | 'postOnly',
+    clientOrderId?: BN,
+    useMsrmVault?: boolean | undefined,
+  ): Promise<InstructionsAndSigners & { openOrders: PublicKey }> {
+    const limitPrice = spotMarket.priceNumberToLots(price);
+    const maxBaseQuantity = spotMarket.baseSizeNumberToLots(size);
+    const maxQuoteQuantity = getMaxQuoteQuantity(spotMarket, price, size);
+
+    if (maxBaseQuantity.lte(ZERO_BN)) {
+      throw new Error('size too small');
+    }
+    if (limitPrice.lte(ZERO_BN)) {
+      throw new Error('invalid price');
+    }
+    const selfTradeBehavior = 'decrementTake';
+
+    const spotMarketIndex = entropyGroup.getSpotMarketIndex(
+      spotMarket.publicKey,
+    );
+
+    if (!entropyGroup.rootBankAccounts.filter((a) => !!a).length) {
+      await entropyGroup.loadRootBanks(this.connection);
+    }
+    let feeVault: PublicKey = zeroKey;
+    if (useMsrmVault) {
+      feeVault = entropyGroup.msrmVault;
+    } else if (useMsrmVault === false) {
+      feeVault = entropyGroup.srmVault;
+    } else {
+      const totalMsrm = await this.connection.getTokenAccountBalance(
+        entropyGroup.msrmVault,
+      );
+      feeVault =
+        totalMsrm?.value?.uiAmount && totalMsrm.value.uiAmount > 0
+          ? entropyGroup.msrmVault
+          : entropyGroup.srmVault;
+    }
+
+    const baseRootBank = entropyGroup.rootBankAccounts[spotMarketIndex];
+    const baseNodeBank = baseRootBank?.nodeBankAccounts[0];
+    const quoteRootBank = entropyGroup.rootBankAccounts[QUOTE_INDEX];
+    const quoteNodeBank = quoteRootBank?.nodeBankAccounts[0];
+
+    if (!baseRootBank || !baseNodeBank || !quoteRootBank || !quoteNodeBank) {
+      throw new Error('Invalid or missing banks');
+    }
+
+    const instructions: TransactionInstruction[] = [];
+    const signers: Account[] = [];
+    const openOrders = getSpotOpenOrders(entropyAccount, spotMarketIndex);
+    const openOrdersKeys: { pubkey: PublicKey; isWritable: boolean }[] = [];
+
+    // Only pass in open orders if in margin basket or current market index, and
+    // the only writable account should be OpenOrders for current market index
+    for (let i = 0; i < entropyAccount.spotOpenOrders.length; i++) {
+      let pubkey = zeroKey;
+      let isWritable = false;
+
+      if (i === spotMarketIndex) {
+        isWritable = true;
+        pubkey = openOrders;
+      } else if (entropyAccount.inMarginBasket[i]) {
+        pubkey = entropyAccount.spotOpenOrders[i];
+      }
+
+      // new design does not require zero keys to be passed in
+      if (!pubkey.equals(zeroKey)) {
+        openOrdersKeys.push({ pubkey, isWritable });
+      }
+    }
+
+    const dexSigner = await getDexSigner(spotMarket);
+
+    instructions.push(
+      makePlaceSpotOrder2Instruction(
+        this.programId,
+        entropyGroup.publicKey,
+        entropyAccount.publicKey,
+        owner,
+        entropyGroup.entropyCache,
+        spotMarket.programId,
+        spotMarket.publicKey,
+        spotMarket['_decoded'].bids,
+        spotMarket['_decoded'].asks,
+        spotMarket['_decoded'].requestQueue,
+        spotMarket['_decoded'].eventQueue,
+        spotMarket['_decoded'].baseVault,
+        spotMarket['_decoded'].quoteVault,
+        baseRootBank.publicKey,
+        baseNodeBank.publicKey,
+        baseNodeBank.vault,
+        quoteRootBank.publicKey,
+        quoteNodeBank.publicKey,
+        quoteNodeBank.vault,
+        entropyGroup.signerKey,
+        dexSigner,
+        feeVault,
+        openOrdersKeys,
+        side,
+        limitPrice,
+        maxBaseQuantity,
+        maxQuoteQuantity,
+        selfTradeBehavior,
+        orderType,
+        clientOrderId ?? new BN(Date.now()),
+      ),
+    );
+
+    return { instructions, signers, openOrders };
+  }
+
+  /**
+   * Cancel a spot order and settle the funds it releases
+   */
+  async cancelSpotOrder(
+    entropyGroup: EntropyGroup,
+    entropyAccount: EntropyAccount,
+    owner: PublicKey,
+    spotMarket: Market,
+    order: Order,
+  ): Promise<InstructionsAndSigners> {
+    const cancelInstruction = makeCancelSpotOrderInstruction(
+      this.programId,
+      entropyGroup.publicKey,
+      owner,
+      entropyAccount.publicKey,
+      spotMarket.programId,
+      spotMarket.publicKey,
+      spotMarket['_decoded'].bids,
+      spotMarket['_decoded'].asks,
+      order.openOrdersAddress,
+      entropyGroup.signerKey,
+      spotMarket['_decoded'].eventQueue,
+      order,
+    );
+
+    const { instructions } = await this.settleFunds(
+      entropyGroup,
+      entropyAccount,
+      owner,
+      spotMarket,
+    );
+
+    return { instructions: [cancelInstruction, ...instructions], signers: [] };
+  }
+
+  async settleFunds(
+    entropyGroup: EntropyGroup,
+    entropyAccount: EntropyAccount,
+    owner: PublicKey,
+    spotMarket: Market,
+  ): Promise<InstructionsAndSigners> {
+    const marketIndex = entropyGroup.getSpotMarketIndex(spotMarket.publicKey);
+    const dexSigner = await getDexSigner(spotMarket);
+
+    if (!entropyGroup.rootBankAccounts.length) {
+      await entropyGroup.loadRootBanks(this.connection);
+    }
+    const baseRootBank = entropyGroup.rootBankAccounts[marketIndex];
+    const quoteRootBank = entropyGroup.rootBankAccounts[QUOTE_INDEX];
+    const baseNodeBank = baseRootBank?.nodeBankAccounts[0];
+    const quoteNodeBank = quoteRootBank?.nodeBankAccounts[0];
+
+    if (!baseNodeBank || !quoteNodeBank) {
+      throw new Error('Invalid or missing node banks');
+    }
+
+    return {
+      instructions: [
+        makeSettleFundsInstruction(
+          this.programId,
+          entropyGroup.publicKey,
+          entropyGroup.entropyCache,
+          owner,
+          entropyAccount.publicKey,
+          spotMarket.programId,
+          spotMarket.publicKey,
+          entropyAccount.spotOpenOrders[marketIndex],
+          entropyGroup.signerKey,
+          spotMarket['_decoded'].baseVault,
+          spotMarket['_decoded'].quoteVault,
+          entropyGroup.tokens[marketIndex].rootBank,
+          baseNodeBank.publicKey,
+          entropyGroup.tokens[QUOTE_INDEX].rootBank,
+          quoteNodeBank.publicKey,
+          baseNodeBank.vault,
+          quoteNodeBank.vault,
+          dexSigner,
+        ),
+      ],
+      signers: [],
+    };
+  }
+
+  /**
+   * Settle funds on every spot market that has any. Returns one instruction
+   * per market.
+   *
+   * Assumes spotMarkets contains all Markets in EntropyGroup in order
+   */
+  async settleAll(
+    entropyGroup: EntropyGroup,
+    entropyAccount: EntropyAccount,
+    spotMarkets: Market[],
+    owner: PublicKey,
+  ): Promise<InstructionsAndSigners> {
+    const instructions: TransactionInstruction[] = [];
+
+    let j = 0;
+    for (let i = 0; i < entropyGroup.spotMarkets.length; i++) {
+      if (entropyGroup.spotMarkets[i].isEmpty()) continue;
+      const spotMarket = spotMarkets[j];
+      j++;
+
+      const openOrdersAccount = entropyAccount.spotOpenOrdersAccounts[i];
+      if (openOrdersAccount === undefined) continue;
+
+      if (
+        openOrdersAccount.quoteTokenFree.toNumber() +
+          openOrdersAccount['referrerRebatesAccrued'].toNumber() ===
+          0 &&
+        openOrdersAccount.baseTokenFree.toNumber() === 0
+      ) {
+        continue;
+      }
+
+      const { instructions: settleInstructions } = await this.settleFunds(
+        entropyGroup,
+        entropyAccount,
+        owner,
+        spotMarket,
+      );
+      instructions.push(...settleInstructions);
+    }
+
+    return { instructions, signers: [] };
+  }
+
+  /**
+   * Automatically fetch EntropyAccounts for this PerpMarket
+   * Pick enough EntropyAccounts that have opposite sign to settle against.
+   * Returns no instructions if there is no pnl to settle.
+   */
+  async settlePnl(
+    entropyGroup: EntropyGroup,
+    entropyCache: EntropyCache,
+    entropyAccount: EntropyAccount,
+    perpMarket: PerpMarket,
+    quoteRootBank: RootBank,
+    price: I80F48, // should be the EntropyCache price
+    entropyAccounts?: EntropyAccount[],
+  ): Promise<InstructionsAndSigners> {
+    // fetch all EntropyAccounts filtered for having this perp market in basket
+    const marketIndex = entropyGroup.getPerpMarketIndex(perpMarket.publicKey);
+    const perpMarketInfo = entropyGroup.perpMarkets[marketIndex];
+    let pnl = entropyAccount.perpAccounts[marketIndex].getPnl(
+      perpMarketInfo,
+      entropyCache.perpMarketCache[marketIndex],
+      price,
+    );
+    const instructions: TransactionInstruction[] = [];
+
+    let sign;
+    if (pnl.eq(ZERO_I80F48)) {
+      // Can't settle pnl if there is no pnl
+      return { instructions, signers: [] };
+    } else if (pnl.gt(ZERO_I80F48)) {
+      sign = 1;
+    } else {
+      // Can settle fees first against perpmarket
+
+      sign = -1;
+      if (!quoteRootBank.nodeBankAccounts) {
+        await quoteRootBank.loadNodeBanks(this.connection);
+      }
+      instructions.push(
+        makeSettleFeesInstruction(
+          this.programId,
+          entropyGroup.publicKey,
+          entropyCache.publicKey,
+          perpMarket.publicKey,
+          entropyAccount.publicKey,
+          quoteRootBank.publicKey,
+          quoteRootBank.nodeBanks[0],
+          quoteRootBank.nodeBankAccounts[0].vault,
+          entropyGroup.feesVault,
+          entropyGroup.signerKey,
+        ),
+      );
+      pnl = pnl.add(perpMarket.feesAccrued).min(I80F48.fromString('-0.000001'));
+      const remSign = pnl.gt(ZERO_I80F48) ? 1 : -1;
+      if (remSign !== sign) {
+        // if pnl has changed sign, then we're done
+        return { instructions, signers: [] };
+      }
+    }
+
+    if (entropyAccounts === undefined) {
+      entropyAccounts = await this.client.getAllEntropyAccounts(
+        entropyGroup,
+        [],
+        false,
+      );
+    }
+
+    const accountsWithPnl = entropyAccounts
+      .map((m) => ({
+        account: m,
+        pnl: m.perpAccounts[marketIndex].getPnl(
+          perpMarketInfo,
+          entropyCache.perpMarketCache[marketIndex],
+          price,
+        ),
+      }))
+      .sort((a, b) => sign * a.pnl.cmp(b.pnl));
+
+    for (const account of accountsWithPnl) {
+      // ignore own account explicitly
+      if (account.account.publicKey.equals(entropyAccount.publicKey)) {
+        continue;
+      }
+      if (
+        ((pnl.isPos() && account.pnl.isNeg()) ||
+          (pnl.isNeg() && account.pnl.isPos())) &&
+        instructions.length < 10
+      ) {
+        // Account pnl must have opposite signs
+        instructions.push(
+          makeSettlePnlInstruction(
+            this.programId,
+            entropyGroup.publicKey,
+            entropyAccount.publicKey,
+            account.account.publicKey,
+            entropyGroup.entropyCache,
+            quoteRootBank.publicKey,
+            quoteRootBank.nodeBanks[0],
+            new BN(marketIndex),
+          ),
+        );
+        pnl = pnl.add(account.pnl);
+        // if pnl has changed sign, then we're done
+        const remSign = pnl.gt(ZERO_I80F48) ? 1 : -1;
+        if (remSign !== sign) {
+          break;
+        }
+      } else {
+        // means we ran out of accounts to settle against (shouldn't happen) OR transaction too big
+        // TODO - create a multi tx to be signed by user
+        continue;
+      }
+    }
+
+    return { instructions, signers: [] };
+  }
+
+  async addStubOracle(
+    entropyGroupPk: PublicKey,
+    admin: PublicKey,
+  ): Promise<InstructionsAndSigners> {
+    const createOracleAccountInstruction = await createAccountInstruction(
+      this.connection,
+      admin,
+      StubOracleLayout.span,
+      this.programId,
+    );
+
+    const instruction = makeAddOracleInstruction(
+      this.programId,
+      entropyGroupPk,
+      createOracleAccountInstruction.account.publicKey,
+      admin,
+    );
+
+    return {
+      instructions: [createOracleAccountInstruction.instruction, instruction],
+      signers: [createOracleAccountInstruction.account],
+    };
+  }
+
+  async setStubOracle(
+    entropyGroupPk: PublicKey,
+    oraclePk: PublicKey,
+    admin: PublicKey,
+    price: number,
+  ): Promise<InstructionsAndSigners> {
+    return {
+      instructions: [
+        makeSetOracleInstruction(
+          this.programId,
+          entropyGroupPk,
+          oraclePk,
+          admin,
+          I80F48.fromNumber(price),
+        ),
+      ],
+      signers: [],
+    };
+  }
+
+  async createPerpMarket(
+    entropyGroup: EntropyGroup,
+    oraclePk: PublicKey,
+    mngoMintPk: PublicKey,
+    admin: PublicKey,
+    maintLeverage: number,
+    initLeverage: number,
+    liquidationFee: number,
+    makerFee: number,
+    takerFee: number,
+    baseLotSize: number,
+    quoteLotSize: number,
+    maxNumEvents: number,
+    rate: number, // liquidity mining params; set rate == 0 if no liq mining
+    maxDepthBps: number,
+    targetPeriodLength: number,
+    mngoPerPeriod: number,
+    exp: number,
+    version: number,
+    lmSizeShift: number,
+    baseDecimals: number,
+  ): Promise<InstructionsAndSigners> {
+    const [perpMarketPk] = await PublicKey.findProgramAddress(
+      [
+        entropyGroup.publicKey.toBytes(),
+        new Buffer('PerpMarket', 'utf-8'),
+        oraclePk.toBytes(),
+      ],
+      this.programId,
+    );
+    const makeEventQueueAccountInstruction = await createAccountInstruction(
+      this.connection,
+      admin,
+      PerpEventQueueHeaderLayout.span + maxNumEvents * PerpEventLayout.span,
+      this.programId,
+    );
+
+    const makeBidAccountInstruction = await createAccountInstruction(
+      this.connection,
+      admin,
+      BookSideLayout.span,
+      this.programId,
+    );
+
+    const makeAskAccountInstruction = await createAccountInstruction(
+      this.connection,
+      admin,
+      BookSideLayout.span,
+      this.programId,
+    );
+
+    const [mngoVaultPk] = await PublicKey.findProgramAddress(
+      [
+        perpMarketPk.toBytes(),
+        TOKEN_PROGRAM_ID.toBytes(),
+        mngoMintPk.toBytes(),
+      ],
+      this.programId,
+    );
+    const instruction = await makeCreatePerpMarketInstruction(
+      this.programId,
+      entropyGroup.publicKey,
+      oraclePk,
+      perpMarketPk,
+      makeEventQueueAccountInstruction.account.publicKey,
+      makeBidAccountInstruction.account.publicKey,
+      makeAskAccountInstruction.account.publicKey,
+      mngoMintPk,
+      mngoVaultPk,
+      admin,
+      entropyGroup.signerKey,
+      I80F48.fromNumber(maintLeverage),
+      I80F48.fromNumber(initLeverage),
+      I80F48.fromNumber(liquidationFee),
+      I80F48.fromNumber(makerFee),
+      I80F48.fromNumber(takerFee),
+      new BN(baseLotSize),
+      new BN(quoteLotSize),
+      I80F48.fromNumber(rate),
+      I80F48.fromNumber(maxDepthBps),
+      new BN(targetPeriodLength),
+      new BN(mngoPerPeriod),
+      new BN(exp),
+      new BN(version),
+      new BN(lmSizeShift),
+      new BN(baseDecimals),
+    );
+
+    return {
+      instructions: [
+        makeEventQueueAccountInstruction.instruction,
+        makeBidAccountInstruction.instruction,
+        makeAskAccountInstruction.instruction,
+        instruction,
+      ],
+      signers: [
+        makeEventQueueAccountInstruction.account,
+        makeBidAccountInstruction.account,
+        makeAskAccountInstruction.account,
+      ],
+    };
+  }
+
+  // Liquidator Functions
+  async forceCancelSpotOrders(
+    entropyGroup: EntropyGroup,
+    liqeeEntropyAccount: EntropyAccount,
+    spotMarket: Market,
+    baseRootBank: RootBank,
+    quoteRootBank: RootBank,
+    limit: BN,
+  ): Promise<InstructionsAndSigners> {
+    const baseNodeBanks = await baseRootBank.loadNodeBanks(this.connection);
+    const quoteNodeBanks = await quoteRootBank.loadNodeBanks(this.connection);
+
+    const openOrdersKeys: { pubkey: PublicKey; isWritable: boolean }[] = [];
+    const spotMarketIndex = entropyGroup.getSpotMarketIndex(
+      spotMarket.publicKey,
+    );
+    // Only pass in open orders if in margin basket or current market index, and
+    // the only writable account should be OpenOrders for current market index
+    for (let i = 0; i < liqeeEntropyAccount.spotOpenOrders.length; i++) {
+      let pubkey = zeroKey;
+      let isWritable = false;
+
+      if (i === spotMarketIndex) {
+        isWritable = true;
+        pubkey = liqeeEntropyAccount.spotOpenOrders[i];
+      } else if (liqeeEntropyAccount.inMarginBasket[i]) {
+        pubkey = liqeeEntropyAccount.spotOpenOrders[i];
+      }
+
+      openOrdersKeys.push({ pubkey, isWritable });
+    }
+
+    const dexSigner = await getDexSigner(spotMarket);
+
+    return {
+      instructions: [
+        makeForceCancelSpotOrdersInstruction(
+          this.programId,
+          entropyGroup.publicKey,
+          entropyGroup.entropyCache,
+          liqeeEntropyAccount.publicKey,
+          baseRootBank.publicKey,
+          baseNodeBanks[0].publicKey,
+          baseNodeBanks[0].vault,
+          quoteRootBank.publicKey,
+          quoteNodeBanks[0].publicKey,
+          quoteNodeBanks[0].vault,
+          spotMarket.publicKey,
+          spotMarket.bidsAddress,
+          spotMarket.asksAddress,
+          entropyGroup.signerKey,
+          spotMarket['_decoded'].eventQueue,
+          spotMarket['_decoded'].baseVault,
+          spotMarket['_decoded'].quoteVault,
+          dexSigner,
+          entropyGroup.dexProgramId,
+          openOrdersKeys,
+          limit,
+        ),
+      ],
+      signers: [],
+    };
+  }
+
+  /**
+   * Enough instructions to cancel all perp orders of liqee in this market
+   */
+  async forceCancelAllPerpOrdersInMarket(
+    entropyGroup: EntropyGroup,
+    liqee: EntropyAccount,
+    perpMarket: PerpMarket,
+    limitPerInstruction: number,
+  ): Promise<InstructionsAndSigners> {
+    const marketIndex = entropyGroup.getPerpMarketIndex(perpMarket.publicKey);
+    const makeInstruction = () =>
+      makeForceCancelPerpOrdersInstruction(
+        this.programId,
+        entropyGroup.publicKey,
+        entropyGroup.entropyCache,
+        perpMarket.publicKey,
+        perpMarket.bids,
+        perpMarket.asks,
+        liqee.publicKey,
+        liqee.spotOpenOrders,
+        new BN(limitPerInstruction),
+      );
+    const instructions = [makeInstruction()];
+
+    let orderCount = 0;
+    for (let i = 0; i < liqee.orderMarket.length; i++) {
+      if (liqee.orderMarket[i] !== marketIndex) {
+        continue;
+      }
+      orderCount++;
+      if (orderCount === limitPerInstruction) {
+        orderCount = 0;
+        instructions.push(makeInstruction());
+
+        // TODO - verify how many such instructions can go into one tx
+        // right now 10 seems reasonable considering size of 800ish bytes if all spot open orders present
+        if (instructions.length === 10) {
+          break;
+        }
+      }
+    }
+
+    return { instructions, signers: [] };
+  }
+
+  async forceCancelPerpOrders(
+    entropyGroup: EntropyGroup,
+    liqeeEntropyAccount: EntropyAccount,
+    perpMarket: PerpMarket,
+    limit: BN,
+  ): Promise<InstructionsAndSigners> {
+    return {
+      instructions: [
+        makeForceCancelPerpOrdersInstruction(
+          this.programId,
+          entropyGroup.publicKey,
+          entropyGroup.entropyCache,
+          perpMarket.publicKey,
+          perpMarket.bids,
+          perpMarket.asks,
+          liqeeEntropyAccount.publicKey,
+          liqeeEntropyAccount.spotOpenOrders,
+          limit,
+        ),
+      ],
+      signers: [],
+    };
+  }
+
+  async liquidateTokenAndToken(
+    entropyGroup: EntropyGroup,
+    liqeeEntropyAccount: EntropyAccount,
+    liqorEntropyAccount: EntropyAccount,
+    assetRootBank: RootBank,
+    liabRootBank: RootBank,
+    payer: PublicKey,
+    maxLiabTransfer: I80F48,
+  ): Promise<InstructionsAndSigners> {
+    return {
+      instructions: [
+        makeLiquidateTokenAndTokenInstruction(
+          this.programId,
+          entropyGroup.publicKey,
+          entropyGroup.entropyCache,
+          liqeeEntropyAccount.publicKey,
+          liqorEntropyAccount.publicKey,
+          payer,
+          assetRootBank.publicKey,
+          assetRootBank.nodeBanks[0],
+          liabRootBank.publicKey,
+          liabRootBank.nodeBanks[0],
+          liqeeEntropyAccount.spotOpenOrders,
+          liqorEntropyAccount.spotOpenOrders,
+          maxLiabTransfer,
+        ),
+      ],
+      signers: [],
+    };
+  }
+
+  async liquidateTokenAndPerp(
+    entropyGroup: EntropyGroup,
+    liqeeEntropyAccount: EntropyAccount,
+    liqorEntropyAccount: EntropyAccount,
+    rootBank: RootBank,
+    payer: PublicKey,
+    assetType: AssetType,
+    assetIndex: number,
+    liabType: AssetType,
+    liabIndex: number,
+    maxLiabTransfer: I80F48,
+  ): Promise<InstructionsAndSigners> {
+    return {
+      instructions: [
+        makeLiquidateTokenAndPerpInstruction(
+          this.programId,
+          entropyGroup.publicKey,
+          entropyGroup.entropyCache,
+          liqeeEntropyAccount.publicKey,
+          liqorEntropyAccount.publicKey,
+          payer,
+          rootBank.publicKey,
+          rootBank.nodeBanks[0],
+          liqeeEntropyAccount.spotOpenOrders,
+          liqorEntropyAccount.spotOpenOrders,
+          assetType,
+          new BN(assetIndex),
+          liabType,
+          new BN(liabIndex),
+          maxLiabTransfer,
+        ),
+      ],
+      signers: [],
+    };
+  }
+
+  async liquidatePerpMarket(
+    entropyGroup: EntropyGroup,
+    liqeeEntropyAccount: EntropyAccount,
+    liqorEntropyAccount: EntropyAccount,
+    perpMarket: PerpMarket,
+    payer: PublicKey,
+    baseTransferRequest: BN,
+  ): Promise<InstructionsAndSigners> {
+    return {
+      instructions: [
+        makeLiquidatePerpMarketInstruction(
+          this.programId,
+          entropyGroup.publicKey,
+          entropyGroup.entropyCache,
+          perpMarket.publicKey,
+          perpMarket.eventQueue,
+          liqeeEntropyAccount.publicKey,
+          liqorEntropyAccount.publicKey,
+          payer,
+          liqeeEntropyAccount.spotOpenOrders,
+          liqorEntropyAccount.spotOpenOrders,
+          baseTransferRequest,
+        ),
+      ],
+      signers: [],
+    };
+  }
+
+  async settleFees(
+    entropyGroup: EntropyGroup,
+    entropyAccount: EntropyAccount,
+    perpMarket: PerpMarket,
+    rootBank: RootBank,
+  ): Promise<InstructionsAndSigners> {
+    const nodeBanks = await rootBank.loadNodeBanks(this.connection);
+
+    return {
+      instructions: [
+        makeSettleFeesInstruction(
+          this.programId,
+          entropyGroup.publicKey,
+          entropyGroup.entropyCache,
+          perpMarket.publicKey,
+          entropyAccount.publicKey,
+          rootBank.publicKey,
+          nodeBanks[0].publicKey,
+          nodeBanks[0].vault,
+          entropyGroup.feesVault,
+          entropyGroup.signerKey,
+        ),
+      ],
+      signers: [],
+    };
+  }
+
+  async resolvePerpBankruptcy(
+    entropyGroup: EntropyGroup,
+    liqeeEntropyAccount: EntropyAccount,
+    liqorEntropyAccount: EntropyAccount,
+    perpMarket: PerpMarket,
+    rootBank: RootBank,
+    payer: PublicKey,
+    liabIndex: number,
+    maxLiabTransfer: I80F48,
+  ): Promise<InstructionsAndSigners> {
+    const nodeBanks = await rootBank.loadNodeBanks(this.connection);
+
+    return {
+      instructions: [
+        makeResolvePerpBankruptcyInstruction(
+          this.programId,
+          entropyGroup.publicKey,
+          entropyGroup.entropyCache,
+          liqeeEntropyAccount.publicKey,
+          liqorEntropyAccount.publicKey,
+          payer,
+          rootBank.publicKey,
+          nodeBanks[0].publicKey,
+          nodeBanks[0].vault,
+          entropyGroup.insuranceVault,
+          entropyGroup.signerKey,
+          perpMarket.publicKey,
+          liqorEntropyAccount.spotOpenOrders,
+          new BN(liabIndex),
+          maxLiabTransfer,
+        ),
+      ],
+      signers: [],
+    };
+  }
+
+  async resolveTokenBankruptcy(
+    entropyGroup: EntropyGroup,
+    liqeeEntropyAccount: EntropyAccount,
+    liqorEntropyAccount: EntropyAccount,
+    quoteRootBank: RootBank,
+    liabRootBank: RootBank,
+    payer: PublicKey,
+    maxLiabTransfer: I80F48,
+  ): Promise<InstructionsAndSigners> {
+    const quoteNodeBanks = await quoteRootBank.loadNodeBanks(this.connection);
+
+    return {
+      instructions: [
+        makeResolveTokenBankruptcyInstruction(
+          this.programId,
+          entropyGroup.publicKey,
+          entropyGroup.entropyCache,
+          liqeeEntropyAccount.publicKey,
+          liqorEntropyAccount.publicKey,
+          payer,
+          quoteRootBank.publicKey,
+          quoteRootBank.nodeBanks[0],
+          quoteNodeBanks[0].vault,
+          entropyGroup.insuranceVault,
+          entropyGroup.signerKey,
+          liabRootBank.publicKey,
+          liabRootBank.nodeBanks[0],
+          liqorEntropyAccount.spotOpenOrders,
+          liabRootBank.nodeBanks,
+          maxLiabTransfer,
+        ),
+      ],
+      signers: [],
+    };
+  }
+
+  async redeemMngo(
+    entropyGroup: EntropyGroup,
+    entropyAccount: EntropyAccount,
+    perpMarket: PerpMarket,
+    payer: PublicKey,
+    mngoRootBank: PublicKey,
+    mngoNodeBank: PublicKey,
+    mngoVault: PublicKey,
+  ): Promise<InstructionsAndSigners> {
+    return {
+      instructions: [
+        makeRedeemMngoInstruction(
+          this.programId,
+          entropyGroup.publicKey,
+          entropyGroup.entropyCache,
+          entropyAccount.publicKey,
+          payer,
+          perpMarket.publicKey,
+          perpMarket.mngoVault,
+          mngoRootBank,
+          mngoNodeBank,
+          mngoVault,
+          entropyGroup.signerKey,
+        ),
+      ],
+      signers: [],
+    };
+  }
+
+  /**
+   * Redeem accrued MNGO on every perp market. Returns one instruction per
+   * market with rewards.
+   */
+  async redeemAllMngo(
+    entropyGroup: EntropyGroup,
+    entropyAccount: EntropyAccount,
+    payer: PublicKey,
+    mngoRootBank: PublicKey,
+    mngoNodeBank: PublicKey,
+    mngoVault: PublicKey,
+  ): Promise<InstructionsAndSigners> {
+    const perpMarkets = await Promise.all(
+      entropyAccount.perpAccounts.map((perpAccount, i) => {
+        if (perpAccount.mngoAccrued.eq(ZERO_BN)) {
+          return undefined;
+        } else {
+          return this.client.getPerpMarket(
+            entropyGroup.perpMarkets[i].perpMarket,
+            entropyGroup.tokens[i].decimals,
+            entropyGroup.tokens[QUOTE_INDEX].decimals,
+          );
+        }
+      }),
+    );
+
+    const instructions: TransactionInstruction[] = [];
+    for (const perpMarket of perpMarkets) {
+      if (perpMarket === undefined) continue;
+
+      const { instructions: redeemInstructions } = await this.redeemMngo(
+        entropyGroup,
+        entropyAccount,
+        perpMarket,
+        payer,
+        mngoRootBank,
+        mngoNodeBank,
+        mngoVault,
+      );
+      instructions.push(...redeemInstructions);
+    }
+
+    return { instructions, signers: [] };
+  }
+
+  async addEntropyAccountInfo(
+    entropyGroup: EntropyGroup,
+    entropyAccount: EntropyAccount,
+    owner: PublicKey,
+    info: string,
+  ): Promise<InstructionsAndSigners> {
+    return {
+      instructions: [
+        makeAddEntropyAccountInfoInstruction(
+          this.programId,
+          entropyGroup.publicKey,
+          entropyAccount.publicKey,
+          owner,
+          info,
+        ),
+      ],
+      signers: [],
+    };
+  }
+
+  async depositMsrm(
+    entropyGroup: EntropyGroup,
+    entropyAccount: EntropyAccount,
+    owner: PublicKey,
+    msrmAccount: PublicKey,
+    quantity: number,
+  ): Promise<InstructionsAndSigners> {
+    return {
+      instructions: [
+        makeDepositMsrmInstruction(
+          this.programId,
+          entropyGroup.publicKey,
+          entropyAccount.publicKey,
+          owner,
+          msrmAccount,
+          entropyGroup.msrmVault,
+          new BN(Math.floor(quantity)),
+        ),
+      ],
+      signers: [],
+    };
+  }
+
+  async withdrawMsrm(
+    entropyGroup: EntropyGroup,
+    entropyAccount: EntropyAccount,
+    owner: PublicKey,
+    msrmAccount: PublicKey,
+    quantity: number,
+  ): Promise<InstructionsAndSigners> {
+    return {
+      instructions: [
+        makeWithdrawMsrmInstruction(
+          this.programId,
+          entropyGroup.publicKey,
+          entropyAccount.publicKey,
+          owner,
+          msrmAccount,
+          entropyGroup.msrmVault,
+          entropyGroup.signerKey,
+          new BN(Math.floor(quantity)),
+        ),
+      ],
+      signers: [],
+    };
+  }
+
+  async changePerpMarketParams(
+    entropyGroup: EntropyGroup,
+    perpMarket: PerpMarket,
+    admin: PublicKey,
+
+    maintLeverage: number | undefined,
+    initLeverage: number | undefined,
+    liquidationFee: number | undefined,
+    makerFee: number | undefined,
+    takerFee: number | undefined,
+    rate: number | undefined,
+    maxDepthBps: number | undefined,
+    targetPeriodLength: number | undefined,
+    mngoPerPeriod: number | undefined,
+    exp: number | undefined,
+  ): Promise<InstructionsAndSigners> {
+    return {
+      instructions: [
+        makeChangePerpMarketParamsInstruction(
+          this.programId,
+          entropyGroup.publicKey,
+          perpMarket.publicKey,
+          admin,
+          I80F48.fromNumberOrUndef(maintLeverage),
+          I80F48.fromNumberOrUndef(initLeverage),
+          I80F48.fromNumberOrUndef(liquidationFee),
+          I80F48.fromNumberOrUndef(makerFee),
+          I80F48.fromNumberOrUndef(takerFee),
+          I80F48.fromNumberOrUndef(rate),
+          I80F48.fromNumberOrUndef(maxDepthBps),
+          targetPeriodLength !== undefined
+            ? new BN(targetPeriodLength)
+            : undefined,
+          mngoPerPeriod !== undefined ? new BN(mngoPerPeriod) : undefined,
+          exp !== undefined ? new BN(exp) : undefined,
+        ),
+      ],
+      signers: [],
+    };
+  }
+
+  async changePerpMarketParams2(
+    entropyGroup: EntropyGroup,
+    perpMarket: PerpMarket,
+    admin: PublicKey,
+
+    maintLeverage: number | undefined,
+    initLeverage: number | undefined,
+    liquidationFee: number | undefined,
+    makerFee: number | undefined,
+    takerFee: number | undefined,
+    rate: number | undefined,
+    maxDepthBps: number | undefined,
+    targetPeriodLength: number | undefined,
+    mngoPerPeriod: number | undefined,
+    exp: number | undefined,
+    version: number | undefined,
+    lmSizeShift: number | undefined,
+  ): Promise<InstructionsAndSigners> {
+    return {
+      instructions: [
+        makeChangePerpMarketParams2Instruction(
+          this.programId,
+          entropyGroup.publicKey,
+          perpMarket.publicKey,
+          admin,
+          I80F48.fromNumberOrUndef(maintLeverage),
+          I80F48.fromNumberOrUndef(initLeverage),
+          I80F48.fromNumberOrUndef(liquidationFee),
+          I80F48.fromNumberOrUndef(makerFee),
+          I80F48.fromNumberOrUndef(takerFee),
+          I80F48.fromNumberOrUndef(rate),
+          I80F48.fromNumberOrUndef(maxDepthBps),
+          targetPeriodLength !== undefined
+            ? new BN(targetPeriodLength)
+            : undefined,
+          mngoPerPeriod !== undefined ? new BN(mngoPerPeriod) : undefined,
+          exp !== undefined ? new BN(exp) : undefined,
+          version !== undefined ? new BN(version) : undefined,
+          lmSizeShift !== undefined ? new BN(lmSizeShift) : undefined,
+        ),
+      ],
+      signers: [],
+    };
+  }
+
+  async setGroupAdmin(
+    entropyGroup: EntropyGroup,
+    newAdmin: PublicKey,
+    admin: PublicKey,
+  ): Promise<InstructionsAndSigners> {
+    return {
+      instructions: [
+        makeSetGroupAdminInstruction(
+          this.programId,
+          entropyGroup.publicKey,
+          newAdmin,
+          admin,
+        ),
+      ],
+      signers: [],
+    };
+  }
+
+  /**
+   * Cancel a spot order, settle funds and place the replacement order
+   */
+  async modifySpotOrder(
+    entropyGroup: EntropyGroup,
+    entropyAccount: EntropyAccount,
+    entropyCache: PublicKey,
+    spotMarket: Market,
+    owner: PublicKey,
+    order: Order,
+
+    side: 'buy' | 'sell',
+    price: number,
+    size: number,
+    orderType?: 'limit' | 'ioc' | 'postOnly',
+  ): Promise<InstructionsAndSigners & { openOrders: PublicKey }> {
+    const { instructions: cancelInstructions } = await this.cancelSpotOrder(
+      entropyGroup,
+      entropyAccount,
+      owner,
+      spotMarket,
+      order,
+    );
+    const { instructions, signers, openOrders } = await this.placeSpotOrder(
+      entropyGroup,
+      entropyAccount,
+      entropyCache,
+      spotMarket,
+      owner,
+      side,
+      price,
+      size,
+      orderType,
+      order.clientId,
+    );
+
+    return {
+      instructions: [...cancelInstructions, ...instructions],
+      signers,
+      openOrders,
+    };
+  }
+
+  /**
+   * Cancel a perp order and place the replacement in the same transaction
+   *
+   * @param bookSideInfo Account info for asks if side === bid, bids if side === ask. If this is given, crank instruction is added
+   * @param invalidIdOk Don't throw error if order is invalid
+   */
+  async modifyPerpOrder(
+    entropyGroup: EntropyGroup,
+    entropyAccount: EntropyAccount,
+    entropyCache: PublicKey,
+    perpMarket: PerpMarket,
+    owner: PublicKey,
+    order: PerpOrder,
+
+    side: 'buy' | 'sell',
+    price: number,
+    quantity: number,
+    orderType?: PerpOrderType,
+    clientOrderId?: number,
+    bookSideInfo?: AccountInfo<Buffer>,
+    invalidIdOk = false,
+  ): Promise<InstructionsAndSigners> {
+    const [nativePrice, nativeQuantity] = perpMarket.uiToNativePriceQuantity(
+      price,
+      quantity,
+    );
+
+    const instructions = [
+      makeCancelPerpOrderInstruction(
+        this.programId,
+        entropyGroup.publicKey,
+        entropyAccount.publicKey,
+        owner,
+        perpMarket.publicKey,
+        perpMarket.bids,
+        perpMarket.asks,
+        order,
+        invalidIdOk,
+      ),
+      makePlacePerpOrderInstruction(
+        this.programId,
+        entropyGroup.publicKey,
+        entropyAccount.publicKey,
+        owner,
+        entropyCache,
+        perpMarket.publicKey,
+        perpMarket.bids,
+        perpMarket.asks,
+        perpMarket.eventQueue,
+        entropyAccount.spotOpenOrders,
+        nativePrice,
+        nativeQuantity,
+        clientOrderId
+          ? new BN(clientOrderId)
+          : order.clientId ?? new BN(Date.now()),
+        side,
+        orderType,
+      ),
+    ];
+
+    if (bookSideInfo) {
+      instructions.push(
+        this.makeCrankInstruction(
+          entropyGroup,
+          entropyAccount,
+          perpMarket,
+          side,
+          bookSideInfo,
+        ),
+      );
+    }
+
+    return { instructions, signers: [] };
+  }
+
+  /**
+   * Add a trigger order, initializing the AdvancedOrders account if needed
+   */
+  async addPerpTriggerOrder(
+    entropyGroup: EntropyGroup,
+    entropyAccount: EntropyAccount,
+    perpMarket: PerpMarket,
+    owner: PublicKey,
+    orderType: PerpOrderType,
+    side: 'buy' | 'sell',
+    price: number,
+    quantity: number,
+    triggerCondition: 'above' | 'below',
+    triggerPrice: number,
+    reduceOnly: boolean,
+    clientOrderId?: number,
+  ): Promise<InstructionsAndSigners & { advancedOrders: PublicKey }> {
+    const instructions: TransactionInstruction[] = [];
+
+    let advancedOrders: PublicKey = entropyAccount.advancedOrdersKey;
+    if (entropyAccount.advancedOrdersKey.equals(zeroKey)) {
+      [advancedOrders] = await PublicKey.findProgramAddress(
+        [entropyAccount.publicKey.toBytes()],
+        this.programId,
+      );
+
+      instructions.push(
+        makeInitAdvancedOrdersInstruction(
+          this.programId,
+          entropyGroup.publicKey,
+          entropyAccount.publicKey,
+          owner,
+          advancedOrders,
+        ),
+      );
+    }
+
+    const marketIndex = entropyGroup.getPerpMarketIndex(perpMarket.publicKey);
+
+    const baseTokenInfo = entropyGroup.tokens[marketIndex];
+    const quoteTokenInfo = entropyGroup.tokens[QUOTE_INDEX];
+    const baseUnit = Math.pow(10, baseTokenInfo.decimals);
+    const quoteUnit = Math.pow(10, quoteTokenInfo.decimals);
+
+    const nativePrice = new BN(price * quoteUnit)
+      .mul(perpMarket.baseLotSize)
+      .div(perpMarket.quoteLotSize.mul(new BN(baseUnit)));
+    const nativeQuantity = new BN(quantity * baseUnit).div(
+      perpMarket.baseLotSize,
+    );
+
+    const nativeTriggerPrice = I80F48.fromNumber(
+      triggerPrice *
+        Math.pow(10, perpMarket.quoteDecimals - perpMarket.baseDecimals),
+    );
+    const openOrders = entropyAccount.spotOpenOrders.filter(
+      (pk, i) => entropyAccount.inMarginBasket[i],
+    );
+
+    instructions.push(
+      makeAddPerpTriggerOrderInstruction(
+        this.programId,
+        entropyGroup.publicKey,
+        entropyAccount.publicKey,
+        owner,
+        advancedOrders,
+        entropyGroup.entropyCache,
+        perpMarket.publicKey,
+        openOrders,
+        orderType,
+        side,
+        nativePrice,
+        nativeQuantity,
+        triggerCondition,
+        nativeTriggerPrice,
+        reduceOnly,
+        new BN(clientOrderId ?? Date.now()),
+      ),
+    );
+
+    return { instructions, signers: [], advancedOrders };
+  }
+
+  async removeAdvancedOrder(
+    entropyGroup: EntropyGroup,
+    entropyAccount: EntropyAccount,
+    owner: PublicKey,
+    orderIndex: number,
+  ): Promise<InstructionsAndSigners> {
+    return {
+      instructions: [
+        makeRemoveAdvancedOrderInstruction(
+          this.programId,
+          entropyGroup.publicKey,
+          entropyAccount.publicKey,
+          owner,
+          entropyAccount.advancedOrdersKey,
+          orderIndex,
+        ),
+      ],
+      signers: [],
+    };
+  }
+
+  async executePerpTriggerOrder(
+    entropyGroup: EntropyGroup,
+    entropyAccount: EntropyAccount,
+    entropyCache: EntropyCache,
+    perpMarket: PerpMarket,
+    payer: PublicKey,
+    orderIndex: number,
+  ): Promise<InstructionsAndSigners> {
+    const openOrders = entropyAccount.spotOpenOrders.filter(
+      (pk, i) => entropyAccount.inMarginBasket[i],
+    );
+
+    return {
+      instructions: [
+        makeExecutePerpTriggerOrderInstruction(
+          this.programId,
+          entropyGroup.publicKey,
+          entropyAccount.publicKey,
+          entropyAccount.advancedOrdersKey,
+          payer,
+          entropyCache.publicKey,
+          perpMarket.publicKey,
+          perpMarket.bids,
+          perpMarket.asks,
+          perpMarket.eventQueue,
+          openOrders,
+          new BN(orderIndex),
+        ),
+      ],
+      signers: [],
+    };
+  }
+
+  async updateMarginBasket(
+    entropyGroup: EntropyGroup,
+    entropyAccount: EntropyAccount,
+  ): Promise<InstructionsAndSigners> {
+    return {
+      instructions: [
+        makeUpdateMarginBasketInstruction(
+          this.programId,
+          entropyGroup.publicKey,
+          entropyAccount.publicKey,
+          entropyAccount.spotOpenOrders,
+        ),
+      ],
+      signers: [],
+    };
+  }
+
+  /**
+   * consumeEvents for up to 10 accounts on the opposite book side, so that
+   * a taker order gets cranked right away
+   */
+  private makeCrankInstruction(
+    entropyGroup: EntropyGroup,
+    entropyAccount: EntropyAccount,
+    perpMarket: PerpMarket,
+    side: 'buy' | 'sell',
+    bookSideInfo: AccountInfo<Buffer>,
+  ): TransactionInstruction {
+    const bookSide = bookSideInfo.data
+      ? new BookSide(
+          side === 'buy' ? perpMarket.asks : perpMarket.bids,
+          perpMarket,
+          BookSideLayout.decode(bookSideInfo.data),
+        )
+      : [];
+    const accounts: Set<string> = new Set();
+    accounts.add(entropyAccount.publicKey.toBase58());
+
+    for (const order of bookSide) {
+      accounts.add(order.owner.toBase58());
+      if (accounts.size >= 10) {
+        break;
+      }
+    }
+
+    return makeConsumeEventsInstruction(
+      this.programId,
+      entropyGroup.publicKey,
+      entropyGroup.entropyCache,
+      perpMarket.publicKey,
+      perpMarket.eventQueue,
+      Array.from(accounts)
+        .map((s) => new PublicKey(s))
+        .sort(),
+      new BN(4),
+    );
+  }
+}
+
+/**
+ * The OpenOrders account for a spot market. Creating one is left to its own
+ * transaction, as together with an order it can exceed the packet size.
+ */
+function getSpotOpenOrders(
+  entropyAccount: EntropyAccount,
+  spotMarketIndex: number,
+): PublicKey {
+  const openOrders = entropyAccount.spotOpenOrders[spotMarketIndex];
+  if (openOrders.equals(zeroKey)) {
+    throw new Error(
+      `No OpenOrders account for spot market ${spotMarketIndex}; create one with initSpotOpenOrders first`,
+    );
+  }
+  return openOrders;
+}
+
+async function getDexSigner(spotMarket: Market): Promise<PublicKey> {
+  return await PublicKey.createProgramAddress(
+    [
+      spotMarket.publicKey.toBuffer(),
+      spotMarket['_decoded'].vaultSignerNonce.toArrayLike(Buffer, 'le', 8),
+    ],
+    spotMarket.programId,
+  );
+}
+
+function getMaxQuoteQuantity(
+  spotMarket: Market,
+  price: number,
+  size: number,
+): BN {
+  // TODO implement srm vault fee discount
+  // const feeTier = getFeeTier(0, nativeToUi(entropyGroup.nativeSrm || 0, SRM_DECIMALS));
+  const feeTier = getFeeTier(0, nativeToUi(0, 0));
+  const rates = getFeeRates(feeTier);
+  return new BN(
+    spotMarket['_decoded'].quoteLotSize.toNumber() * (1 + rates.taker),
+  ).mul(
+    spotMarket
+      .baseSizeNumberToLots(size)
+      .mul(spotMarket.priceNumberToLots(price)),
+  );
+}
@@ -7,7 +7,6 @@ import { EntropyClient } from './client';
 import {
   Account,
   Commitment,
-  Connection,
   PublicKey,
   Transaction,
 } from '@solana/web3.js';
@@ -23,8 +22,12 @@ import {
 } from './instruction';
 import BN from 'bn.js';
 import { PerpEventQueueLayout } from './layout';
-import { EntropyGroup, PerpMarket, promiseUndef } from '.';
+import { EntropyGroup, PerpMarket } from '.';
 import PerpEventQueue from './PerpEventQueue';
+import { RemoteSigner, SignerLike } from './signer';
+import { logTransactionEvents } from './transactionEvents';
+import { loggerFromEnv } from './logger';
+import { connectionFromEnv } from './connectionPool';
 import { PROGRAM_LAYOUT_VERSIONS } from '@project-serum/serum/lib/tokens_and_markets';
 require('dotenv').config({ path: '../.env' });
 
@@ -32,22 +35,28 @@ let lastRootBankCacheUpdate = 0;
 const groupName = process.env.GROUP || 'mainnet.2';
 const updateCacheInterval = parseInt(
   process.env.UPDATE_CACHE_INTERVAL || '3000',
+  10,
 );
 const updateRootBankCacheInterval = parseInt(
   process.env.UPDATE_ROOT_BANK_CACHE_INTERVAL || '5000',
+  10,
 );
 const processKeeperInterval = parseInt(
   process.env.PROCESS_KEEPER_INTERVAL || '10000',
+  10,
 );
 const consumeEventsInterval = parseInt(
   process.env.CONSUME_EVENTS_INTERVAL || '1000',
+  10,
 );
-const maxUniqueAccounts = parseInt(process.env.MAX_UNIQUE_ACCOUNTS || '10');
+const maxUniqueAccounts = parseInt(process.env.MAX_UNIQUE_ACCOUNTS || '10', 10);
 const consumeEventsLimit = new BN(process.env.CONSUME_EVENTS_LIMIT || '10');
 const consumeEvents = process.env.CONSUME_EVENTS
   ? process.env.CONSUME_EVENTS === 'true'
   : true;
 const cluster = (process.env.CLUSTER || 'mainnet') as Cluster;
+// LOG_FORMAT=json writes JSON lines; client lines carry component 'client'
+const logger = loggerFromEnv({ component: 'keeper' });
 const config = new Config(configFile);
 const groupIds = config.getGroup(cluster, groupName);
 
@@ -55,20 +64,32 @@ if (!groupIds) {
   throw new Error(`Group ${groupName} not found`);
 }
 const entropyProgramId = groupIds.entropyProgramId;
-console.log("PROGRAM ID: ", entropyProgramId.toString())
+logger.info('PROGRAM ID: ', { programId: entropyProgramId.toString() });
 const entropyGroupKey = groupIds.publicKey;
-const payerJsonFile =  fs.readFileSync(process.env.KEYPAIR || (os.homedir() + '/.config/solana/entropy-mainnet-authority.json'), 'utf-8');
-const payer = new Account(
-  JSON.parse(
-    payerJsonFile
-  ),
-);
-const connection = new Connection(
+// REMOTE_SIGNER points at a descriptor written by `cli serve-signer`, so the
+// key stays in the signer process instead of this one
+const payer: SignerLike = process.env.REMOTE_SIGNER
+  ? RemoteSigner.fromFile(process.env.REMOTE_SIGNER)
+  : new Account(
+      JSON.parse(
+        fs.readFileSync(
+          process.env.KEYPAIR ||
+            os.homedir() + '/.config/solana/entropy-mainnet-authority.json',
+          'utf-8',
+        ),
+      ),
+    );
+// ENDPOINT_URLS lists several RPC endpoints to fail over between
+const connection = connectionFromEnv(
   config.cluster_urls[cluster],
   'confirmed' as Commitment,
+  logger,
 );
-console.log("DEVNET RPC: ", process.env.DEVNET_ENDPOINT_URL)
-const client = new EntropyClient(connection, entropyProgramId);
+logger.info('DEVNET RPC: ', { endpoint: process.env.DEVNET_ENDPOINT_URL });
+const client = new EntropyClient(connection, entropyProgramId, {
+  logger: logger.child({ component: 'client' }),
+});
+logTransactionEvents(client.events);
 
 async function main() {
   if (!groupIds) {
@@ -135,7 +156,7 @@ async function processUpdateCache(entropyGroup: EntropyGroup) {
     }
 
     Promise.all(promises).catch((err) => {
-      console.error('Error updating cache', err);
+      logger.error('Error updating cache', { error: err });
     });
 
     promises = [];
@@ -144,7 +165,7 @@ async function processUpdateCache(entropyGroup: EntropyGroup) {
       const endIndex = i * batchSize + batchSize;
       const cacheTransaction = new Transaction();
 
-      console.log('oracles: ', oracles.toString());
+      logger.debug('oracles: ', { oracles: oracles.toString() });
 
       cacheTransaction.add(
         makeCachePricesInstruction(
@@ -169,7 +190,7 @@ async function processUpdateCache(entropyGroup: EntropyGroup) {
     }
 
     Promise.all(promises).catch((err) => {
-      console.error('Error updating cache', err);
+      logger.error('Error updating cache', { error: err });
     });
 
   } finally {
@@ -203,55 +224,64 @@ async function processConsumeEvents(
       },
     );
 
-    const promises: Promise<string | void>[] = perpMktAndEventQueue.map(
-      ({ perpMarket, eventQueue }) => {
-        const events = eventQueue.getUnconsumedEvents();
-        if (events.length === 0) {
-          // console.log('No events to consume');
-          return promiseUndef();
-        }
+    const promises: Promise<void>[] = [];
+    for (const { perpMarket, eventQueue } of perpMktAndEventQueue) {
+      const events = eventQueue.getUnconsumedEvents();
+      if (events.length === 0) {
+        // console.log('No events to consume');
+        continue;
+      }
 
-        const accounts: Set<string> = new Set();
-        for (const event of events) {
-          if (event.fill) {
-            accounts.add(event.fill.maker.toBase58());
-            accounts.add(event.fill.taker.toBase58());
-          } else if (event.out) {
-            accounts.add(event.out.owner.toBase58());
-          }
+      const accounts: Set<string> = new Set();
+      for (const event of events) {
+        if (event.fill) {
+          accounts.add(event.fill.maker.toBase58());
+          accounts.add(event.fill.taker.toBase58());
+        } else if (event.out) {
+          accounts.add(event.out.owner.toBase58());
+        }
 
-          // Limit unique accounts to first 20 or 21
-          if (accounts.size >= maxUniqueAccounts) {
-            break;
-          }
+        // Limit unique accounts to first 20 or 21
+        if (accounts.size >= maxUniqueAccounts) {
+          break;
         }
+      }
 
-        return client
-          .consumeEvents(
-            entropyGroup,
-            perpMarket,
-            Array.from(accounts)
-              .map((s) => new PublicKey(s))
-              .sort(),
-            payer,
-            consumeEventsLimit,
-          )
+      const { instructions } = await client.instructions.consumeEvents(
+        entropyGroup,
+        perpMarket,
+        Array.from(accounts)
+          .map((s) => new PublicKey(s))
+          .sort(),
+        consumeEventsLimit,
+      );
+
+      // each market gets its own transactions, so one market's failure
+      // does not hold up another's events
+      const transactions = client
+        .makePacker(payer.publicKey)
+        .pack(instructions.map((instruction) => ({ instruction })));
+      promises.push(
+        Promise.all(
+          transactions.map(({ transaction, signers }) =>
+            client.sendTransaction(transaction, payer, signers, null),
+          ),
+        )
           .then(() => {
-            console.log(
+            logger.info(
               `Consumed up to ${
                 events.length
               } events ${perpMarket.publicKey.toBase58()}`,
             );
-            console.log(
-              'EVENTS:',
-              events.map((e) => e?.fill?.seqNum.toString()),
-            );
+            logger.info('EVENTS:', {
+              seqNums: events.map((e) => e?.fill?.seqNum.toString()),
+            });
           })
           .catch((err) => {
-            console.error('Error consuming events', err);
-          });
-      },
-    );
+            logger.error('Error consuming events', { error: err });
+          }),
+      );
+    }
 
     Promise.all(promises);
   } finally {
@@ -272,7 +302,7 @@ async function processKeeperTransactions(
     if (!groupIds) {
       throw new Error(`Group ${groupName} not found`);
     }
-    console.log('processKeeperTransactions');
+    logger.debug('processKeeperTransactions');
     const batchSize = 8;
     const promises: Promise<string>[] = [];
 
@@ -326,7 +356,7 @@ async function processKeeperTransactions(
     }
 
     Promise.all(promises).catch((err) => {
-      console.error('Error processing keeper instructions', err);
+      logger.error('Error processing keeper instructions', { error: err });
     });
   } finally {
     setTimeout(
@@ -2,7 +2,6 @@ import * as os from 'os';
 import * as fs from 'fs';
 import {
   AssetType,
-  getMultipleAccounts,
   EntropyAccount,
   EntropyGroup,
   PerpMarket,
@@ -10,7 +9,6 @@ import {
   zeroKey,
   ZERO_BN,
   AdvancedOrdersLayout,
-  EntropyAccountLayout,
   EntropyCache,
   QUOTE_INDEX,
   Cluster,
@@ -21,25 +19,37 @@ import {
   EntropyClient,
   sleep,
   ZERO_I80F48,
+  SpotBookSide,
+  getMarketByPublicKey,
 } from '.';
-import { Account, Commitment, Connection, PublicKey } from '@solana/web3.js';
-import { Market, OpenOrders } from '@project-serum/serum';
+import { Account, Commitment, PublicKey } from '@solana/web3.js';
+import { Market } from '@project-serum/serum';
 import BN from 'bn.js';
-import { Orderbook } from '@project-serum/serum/lib/market';
 import axios from 'axios';
+import { RemoteSigner, SignerLike } from './signer';
+import { parseComputeBudget } from './computeBudget';
+import { logTransactionEvents } from './transactionEvents';
+import { loggerFromEnv } from './logger';
+import { connectionFromEnv, quorumFromEnv } from './connectionPool';
+import { EntropyAccountIndex } from './entropyAccountIndex';
 //import * as Env from 'dotenv';
 //import { expand } from 'dotenv-expand';
 
 //expand(Env.config());
 
-const interval = parseInt(process.env.INTERVAL || '3500');
+const interval = parseInt(process.env.INTERVAL || '3500', 10);
 const refreshAccountsInterval = parseInt(
   process.env.INTERVAL_ACCOUNTS || '600000',
+  10,
 );
 const refreshWebsocketInterval = parseInt(
   process.env.INTERVAL_WEBSOCKET || '300000',
+  10,
+);
+const rebalanceInterval = parseInt(
+  process.env.INTERVAL_REBALANCE || '10000',
+  10,
 );
-const rebalanceInterval = parseInt(process.env.INTERVAL_REBALANCE || '10000');
 const checkTriggers = process.env.CHECK_TRIGGERS
   ? process.env.CHECK_TRIGGERS === 'true'
   : true;
@@ -47,6 +57,8 @@ const liabLimit = I80F48.fromNumber(
   Math.min(parseFloat(process.env.LIAB_LIMIT || '0.9'), 1),
 );
 let lastRebalance = Date.now();
+// LOG_FORMAT=json writes JSON lines; client lines carry component 'client'
+const logger = loggerFromEnv({ component: 'liquidator' });
 
 const config = new Config(IDS);
 
@@ -69,32 +81,56 @@ const TARGETS = process.env.TARGETS
 const entropyProgramId = groupIds.entropyProgramId;
 const entropyGroupKey = groupIds.publicKey;
 
-const payer = new Account(
-  JSON.parse(
-    process.env.PRIVATE_KEY ||
-      fs.readFileSync(
-        process.env.KEYPAIR || os.homedir() + '/.config/solana/entropy-mainnet-authority.json',
-        'utf-8',
+// REMOTE_SIGNER points at a descriptor written by `cli serve-signer`, so the
+// key stays in the signer process instead of this one
+const payer: SignerLike = process.env.REMOTE_SIGNER
+  ? RemoteSigner.fromFile(process.env.REMOTE_SIGNER)
+  : new Account(
+      JSON.parse(
+        process.env.PRIVATE_KEY ||
+          fs.readFileSync(
+            process.env.KEYPAIR ||
+              os.homedir() + '/.config/solana/entropy-mainnet-authority.json',
+            'utf-8',
+          ),
       ),
-  ),
+    );
+logger.info(`Payer: ${payer.publicKey.toBase58()}`);
+const rpcEndpoint =
+  process.env.ENDPOINT_URLS ||
+  process.env.ENDPOINT_URL ||
+  config.cluster_urls[cluster];
+// ENDPOINT_URLS lists several RPC endpoints to fail over between
+const connection = connectionFromEnv(
+  rpcEndpoint,
+  'confirmed' as Commitment,
+  logger,
 );
-console.log(`Payer: ${payer.publicKey.toBase58()}`);
-const rpcEndpoint = process.env.ENDPOINT_URL || config.cluster_urls[cluster];
-const connection = new Connection(rpcEndpoint, 'confirmed' as Commitment);
-const client = new EntropyClient(connection, entropyProgramId);
-
-let entropySubscriptionId = -1;
-let dexSubscriptionId = -1;
+// RPC_QUORUM makes cache reads wait for that many endpoints to agree
+const cacheConnection = quorumFromEnv(connection);
+const client = new EntropyClient(connection, entropyProgramId, {
+  computeBudget: parseComputeBudget(
+    process.env.COMPUTE_UNIT_LIMIT,
+    process.env.COMPUTE_UNIT_PRICE,
+    logger,
+  ),
+  logger: logger.child({ component: 'client' }),
+  // RPC_CONCURRENCY bounds getMultipleAccounts requests in flight
+  accountLoader: {
+    maxConcurrency: parseInt(process.env.RPC_CONCURRENCY || '4', 10),
+  },
+});
+logTransactionEvents(client.events);
 
 async function main() {
   if (!groupIds) {
     throw new Error(`Group ${groupName} not found`);
   }
-  console.log(`Starting liquidator for ${groupName}...`);
-  console.log(`RPC Endpoint: ${rpcEndpoint}`);
+  logger.info(`Starting liquidator for ${groupName}...`);
+  logger.info(`RPC Endpoint: ${rpcEndpoint}`);
 
   const entropyGroup = await client.getEntropyGroup(entropyGroupKey);
-  let cache = await entropyGroup.loadCache(connection);
+  let cache = await entropyGroup.loadCache(cacheConnection);
   let liqorEntropyAccount: EntropyAccount;
 
   try {
@@ -125,15 +161,15 @@ async function main() {
       }
     }
   } catch (err: any) {
-    console.error(`Error loading liqor Entropy Account: ${err}`);
+    logger.error(`Error loading liqor Entropy Account: ${err}`);
     return;
   }
 
-  console.log(`Liqor Public Key: ${liqorEntropyAccount.publicKey.toBase58()}`);
+  logger.info(`Liqor Public Key: ${liqorEntropyAccount.publicKey.toBase58()}`);
 
-  const entropyAccounts: EntropyAccount[] = [];
-  await refreshAccounts(entropyGroup, entropyAccounts);
-  watchAccounts(groupIds.entropyProgramId, entropyGroup, entropyAccounts);
+  const index = new EntropyAccountIndex(client, entropyGroup);
+  await refreshAccounts(index);
+  watchAccounts(index);
 
   const perpMarkets = await Promise.all(
     groupIds.perpMarkets.map((perpMarket) => {
@@ -161,6 +197,9 @@ async function main() {
   // eslint-disable-next-line
   while (true) {
     try {
+      const entropyAccounts = index.all();
+      shuffleArray(entropyAccounts);
+
       if (checkTriggers) {
         // load all the advancedOrders accounts
         const entropyAccountsWithAOs = entropyAccounts.filter(
@@ -168,21 +207,25 @@ async function main() {
         );
         const allAOs = entropyAccountsWithAOs.map((ma) => ma.advancedOrdersKey);
 
-        const advancedOrders = await getMultipleAccounts(connection, allAOs);
+        const advancedOrders = await Promise.all(
+          allAOs.map((pk) => client.accountLoader.load(pk)),
+        );
         [cache, liqorEntropyAccount] = await Promise.all([
-          entropyGroup.loadCache(connection),
+          entropyGroup.loadCache(cacheConnection),
           liqorEntropyAccount.reload(connection, entropyGroup.dexProgramId),
         ]);
 
         entropyAccountsWithAOs.forEach((ma, i) => {
+          const advancedOrdersAccount = advancedOrders[i];
+          if (!advancedOrdersAccount) return;
           const decoded = AdvancedOrdersLayout.decode(
-            advancedOrders[i].accountInfo.data,
+            advancedOrdersAccount.accountInfo.data,
           );
           ma.advancedOrders = decoded.orders;
         });
       } else {
         [cache, liqorEntropyAccount] = await Promise.all([
-          entropyGroup.loadCache(connection),
+          entropyGroup.loadCache(cacheConnection),
           liqorEntropyAccount.reload(connection, entropyGroup.dexProgramId),
         ]);
       }
@@ -200,18 +243,16 @@ async function main() {
               entropyAccount,
             );
           } catch (err: any) {
-            if (err.message.includes('EntropyErrorCode::InvalidParam')) {
-              console.error(
+            if (err.code === 'InvalidParam') {
+              logger.error(
                 'Failed to execute trigger order, order already executed',
               );
-            } else if (
-              err.message.includes('EntropyErrorCode::TriggerConditionFalse')
-            ) {
-              console.error(
+            } else if (err.code === 'TriggerConditionFalse') {
+              logger.error(
                 'Failed to execute trigger order, trigger condition was false',
               );
             } else {
-              console.error(
+              logger.error(
                 `Failed to execute trigger order for ${entropyAccountKeyString}: ${err}`,
               );
             }
@@ -226,7 +267,7 @@ async function main() {
         // Reload entropy account to make sure still liquidatable
         await entropyAccount.reload(connection, entropyGroup.dexProgramId);
         if (!entropyAccount.isLiquidatable(entropyGroup, cache)) {
-          console.log(
+          logger.info(
             `Account ${entropyAccountKeyString} no longer liquidatable`,
           );
           continue;
@@ -238,7 +279,7 @@ async function main() {
           entropyGroup,
           cache,
         );
-        console.log(
+        logger.info(
           `Sick account ${entropyAccountKeyString} health ratio: ${health.toString()}\n${accountInfoString}`,
         );
         notify(`Sick account\n${accountInfoString}`);
@@ -253,10 +294,12 @@ async function main() {
             liqorEntropyAccount,
           );
 
-          console.log('Liquidated account', entropyAccountKeyString);
+          logger.info('Liquidated account', {
+            account: entropyAccountKeyString,
+          });
           notify(`Liquidated account ${entropyAccountKeyString}`);
         } catch (err: any) {
-          console.error(
+          logger.error(
             `Failed to liquidate account ${entropyAccountKeyString}: ${err}`,
           );
           notify(
@@ -273,7 +316,7 @@ async function main() {
         }
       }
 
-      cache = await entropyGroup.loadCache(connection);
+      cache = await entropyGroup.loadCache(cacheConnection);
       await liqorEntropyAccount.reload(connection, entropyGroup.dexProgramId);
 
       // Check need to rebalance again after checking accounts
@@ -286,144 +329,34 @@ async function main() {
       );
       await sleep(interval);
     } catch (err) {
-      console.error('Error checking accounts:', err);
+      logger.error('Error checking accounts:', { error: err });
     }
   }
 }
 
-function watchAccounts(
-  entropyProgramId: PublicKey,
-  entropyGroup: EntropyGroup,
-  entropyAccounts: EntropyAccount[],
-) {
+async function watchAccounts(index: EntropyAccountIndex) {
   try {
-    console.log('Watching accounts...');
-    const openOrdersAccountSpan = OpenOrders.getLayout(
-      entropyGroup.dexProgramId,
-    ).span;
-    const openOrdersAccountOwnerOffset = OpenOrders.getLayout(
-      entropyGroup.dexProgramId,
-    ).offsetOf('owner');
-
-    if (entropySubscriptionId != -1) {
-      connection.removeProgramAccountChangeListener(entropySubscriptionId);
-    }
-    if (dexSubscriptionId != -1) {
-      connection.removeProgramAccountChangeListener(dexSubscriptionId);
-    }
-
-    entropySubscriptionId = connection.onProgramAccountChange(
-      entropyProgramId,
-      async ({ accountId, accountInfo }) => {
-        try {
-          const index = entropyAccounts.findIndex((account) =>
-            account.publicKey.equals(accountId),
-          );
-
-          const entropyAccount = new EntropyAccount(
-            accountId,
-            EntropyAccountLayout.decode(accountInfo.data),
-          );
-          if (index == -1) {
-            entropyAccounts.push(entropyAccount);
-          } else {
-            const spotOpenOrdersAccounts =
-              entropyAccounts[index].spotOpenOrdersAccounts;
-            entropyAccount.spotOpenOrdersAccounts = spotOpenOrdersAccounts;
-            entropyAccounts[index] = entropyAccount;
-            await entropyAccount.loadOpenOrders(
-              connection,
-              entropyGroup.dexProgramId,
-            );
-          }
-        } catch (err) {
-          console.error(`could not update entropy account ${err}`);
-        }
-      },
-      'processed',
-      [
-        { dataSize: EntropyAccountLayout.span },
-        {
-          memcmp: {
-            offset: EntropyAccountLayout.offsetOf('entropyGroup'),
-            bytes: entropyGroup.publicKey.toBase58(),
-          },
-        },
-      ],
-    );
-
-    dexSubscriptionId = connection.onProgramAccountChange(
-      entropyGroup.dexProgramId,
-      ({ accountId, accountInfo }) => {
-        const ownerIndex = entropyAccounts.findIndex((account) =>
-          account.spotOpenOrders.some((key) => key.equals(accountId)),
-        );
-
-        if (ownerIndex > -1) {
-          const openOrdersIndex = entropyAccounts[
-            ownerIndex
-          ].spotOpenOrders.findIndex((key) => key.equals(accountId));
-          const openOrders = OpenOrders.fromAccountInfo(
-            accountId,
-            accountInfo,
-            entropyGroup.dexProgramId,
-          );
-          entropyAccounts[ownerIndex].spotOpenOrdersAccounts[openOrdersIndex] =
-            openOrders;
-        } else {
-          console.error('Could not match OpenOrdersAccount to EntropyAccount');
-        }
-      },
-      'processed',
-      [
-        { dataSize: openOrdersAccountSpan },
-        {
-          memcmp: {
-            offset: openOrdersAccountOwnerOffset,
-            bytes: entropyGroup.signerKey.toBase58(),
-          },
-        },
-      ],
-    );
+    logger.info('Watching accounts...');
+    await index.subscribe();
   } catch (err) {
-    console.error('Error watching accounts', err);
+    logger.error('Error watching accounts', { error: err });
   } finally {
-    setTimeout(
-      watchAccounts,
-      refreshWebsocketInterval,
-      entropyProgramId,
-      entropyGroup,
-      entropyAccounts,
-    );
+    setTimeout(watchAccounts, refreshWebsocketInterval, index);
   }
 }
 
-async function refreshAccounts(
-  entropyGroup: EntropyGroup,
-  entropyAccounts: EntropyAccount[],
-) {
+async function refreshAccounts(index: EntropyAccountIndex) {
   try {
-    console.log('Refreshing accounts...');
-    console.time('getAllEntropyAccounts');
+    logger.info('Refreshing accounts...');
+    const start = Date.now();
 
-    entropyAccounts.splice(
-      0,
-      entropyAccounts.length,
-      ...(await client.getAllEntropyAccounts(entropyGroup, undefined, true)),
-    );
-    shuffleArray(entropyAccounts);
+    await index.load();
 
-    console.timeEnd('getAllEntropyAccounts');
-    console.log(`Fetched ${entropyAccounts.length} accounts`);
+    logger.info(`Fetched ${index.size} accounts`, { ms: Date.now() - start });
   } catch (err: any) {
-    console.error(`Error reloading accounts: ${err}`);
+    logger.error(`Error reloading accounts: ${err}`);
   } finally {
-    setTimeout(
-      refreshAccounts,
-      refreshAccountsInterval,
-      entropyGroup,
-      entropyAccounts,
-    );
+    setTimeout(refreshAccounts, refreshAccountsInterval, index);
   }
 }
 
@@ -457,7 +390,7 @@ async function processTriggerOrders(
       (trigger.triggerCondition == 'below' &&
         currentPrice.lt(trigger.triggerPrice))
     ) {
-      console.log(
+      logger.info(
         `Executing order for account ${entropyAccount.publicKey.toBase58()}`,
       );
       return client.executePerpTriggerOrder(
@@ -486,7 +419,7 @@ async function liquidateAccount(
   );
 
   if (hasPerpOpenOrders) {
-    console.log('forceCancelPerpOrders');
+    logger.info('forceCancelPerpOrders');
     await Promise.all(
       perpMarkets.map((perpMarket) => {
         return client.forceCancelAllPerpOrdersInMarket(
@@ -512,7 +445,7 @@ async function liquidateAccount(
         const quoteRootBank = rootBanks[QUOTE_INDEX];
 
         if (baseRootBank && quoteRootBank) {
-          console.log('forceCancelOrders ', i);
+          logger.info('forceCancelOrders ', { index: i });
           await client.forceCancelSpotOrders(
             entropyGroup,
             liqee,
@@ -573,7 +506,7 @@ async function liquidateAccount(
     liqee.beingLiquidated
   ) {
     // Send a ForceCancelPerp to reset the being_liquidated flag
-    console.log('forceCancelAllPerpOrdersInMarket');
+    logger.info('forceCancelAllPerpOrdersInMarket');
     await client.forceCancelAllPerpOrdersInMarket(
       entropyGroup,
       liqee,
@@ -592,7 +525,7 @@ async function liquidateSpot(
   liqee: EntropyAccount,
   liqor: EntropyAccount,
 ) {
-  console.log('liquidateSpot');
+  logger.info('liquidateSpot');
 
   let minNet = ZERO_I80F48;
   let minNetIndex = -1;
@@ -643,7 +576,7 @@ async function liquidateSpot(
       .mul(liabLimit);
 
     if (liqee.isBankrupt) {
-      console.log('Bankrupt account', liqee.publicKey.toBase58());
+      logger.info('Bankrupt account', { account: liqee.publicKey.toBase58() });
       const quoteRootBank = rootBanks[QUOTE_INDEX];
       if (quoteRootBank) {
         await client.resolveTokenBankruptcy(
@@ -689,7 +622,9 @@ async function liquidateSpot(
             .mul(liabLimit);
         }
 
-        console.log('liquidateTokenAndPerp', highestHealthMarket.marketIndex);
+        logger.info('liquidateTokenAndPerp', {
+          marketIndex: highestHealthMarket.marketIndex,
+        });
         await client.liquidateTokenAndPerp(
           entropyGroup,
           liqee,
@@ -703,7 +638,7 @@ async function liquidateSpot(
           maxLiabTransfer,
         );
       } else {
-        console.log('liquidateTokenAndToken', maxNetIndex, minNetIndex);
+        logger.info('liquidateTokenAndToken', { maxNetIndex, minNetIndex });
         await client.liquidateTokenAndToken(
           entropyGroup,
           liqee,
@@ -717,7 +652,9 @@ async function liquidateSpot(
 
       await liqee.reload(connection, entropyGroup.dexProgramId);
       if (liqee.isBankrupt) {
-        console.log('Bankrupt account', liqee.publicKey.toBase58());
+        logger.info('Bankrupt account', {
+          account: liqee.publicKey.toBase58(),
+        });
         const quoteRootBank = rootBanks[QUOTE_INDEX];
         if (quoteRootBank) {
           await client.resolveTokenBankruptcy(
@@ -744,7 +681,7 @@ async function liquidatePerps(
   liqee: EntropyAccount,
   liqor: EntropyAccount,
 ) {
-  console.log('liquidatePerps');
+  logger.info('liquidatePerps');
   const lowestHealthMarket = perpMarkets
     .map((perpMarket, i) => {
       const marketIndex = entropyGroup.getPerpMarketIndex(perpMarket.publicKey);
@@ -784,7 +721,9 @@ async function liquidatePerps(
     const quoteRootBank = rootBanks[QUOTE_INDEX];
     if (quoteRootBank) {
       // don't do anything it if quote position is zero
-      console.log('resolvePerpBankruptcy', maxLiabTransfer.toString());
+      logger.info('resolvePerpBankruptcy', {
+        maxLiabTransfer: maxLiabTransfer.toString(),
+      });
       await client.resolvePerpBankruptcy(
         entropyGroup,
         liqee,
@@ -818,7 +757,7 @@ async function liquidatePerps(
     if (perpAccount.basePosition.isZero()) {
       if (assetRootBank) {
         // we know that since sum of perp healths is negative, lowest perp market must be negative
-        console.log('liquidateTokenAndPerp', marketIndex);
+        logger.info('liquidateTokenAndPerp', { marketIndex });
         if (maxNetIndex !== QUOTE_INDEX) {
           maxLiabTransfer = liqorInitHealth
             .div(
@@ -842,7 +781,7 @@ async function liquidatePerps(
         );
       }
     } else {
-      console.log('liquidatePerpMarket', marketIndex);
+      logger.info('liquidatePerpMarket', { marketIndex });
 
       // technically can be higher because of liquidation fee, but
       // let's just give ourselves extra room
@@ -888,7 +827,9 @@ async function liquidatePerps(
       const maxLiabTransfer = liqorInitHealth.mul(liabLimit);
       const quoteRootBank = rootBanks[QUOTE_INDEX];
       if (quoteRootBank) {
-        console.log('resolvePerpBankruptcy', maxLiabTransfer.toString());
+        logger.info('resolvePerpBankruptcy', {
+          maxLiabTransfer: maxLiabTransfer.toString(),
+        });
         await client.resolvePerpBankruptcy(
           entropyGroup,
           liqee,
@@ -974,30 +915,28 @@ async function balanceTokens(
   markets: Market[],
 ) {
   try {
-    console.log('balanceTokens');
+    logger.info('balanceTokens');
     await entropyAccount.reload(connection, entropyGroup.dexProgramId);
-    const cache = await entropyGroup.loadCache(connection);
+    const cache = await entropyGroup.loadCache(cacheConnection);
     const cancelOrdersPromises: Promise<string>[] = [];
-    const bidsInfo = await getMultipleAccounts(
-      connection,
-      markets.map((m) => m.bidsAddress),
-    );
-    const bids = bidsInfo
-      ? bidsInfo.map((o, i) => Orderbook.decode(markets[i], o.accountInfo.data))
-      : [];
-    const asksInfo = await getMultipleAccounts(
-      connection,
-      markets.map((m) => m.asksAddress),
+    const books = await Promise.all(
+      markets.map((market) =>
+        client.loadBook(getMarketByPublicKey(groupIds!, market.publicKey)!),
+      ),
     );
-    const asks = asksInfo
-      ? asksInfo.map((o, i) => Orderbook.decode(markets[i], o.accountInfo.data))
-      : [];
 
     for (let i = 0; i < markets.length; i++) {
       const marketIndex = entropyGroup.getSpotMarketIndex(markets[i].publicKey);
-      const orders = [...bids[i], ...asks[i]].filter((o) =>
-        o.openOrdersAddress.equals(entropyAccount.spotOpenOrders[marketIndex]),
-      );
+      // cancelSpotOrder takes serum's orders, which spot books wrap
+      const orders = [books[i].bids, books[i].asks]
+        .flatMap((book) =>
+          book instanceof SpotBookSide ? [...book.orderbook] : [],
+        )
+        .filter((o) =>
+          o.openOrdersAddress.equals(
+            entropyAccount.spotOpenOrders[marketIndex],
+          ),
+        );
 
       for (const order of orders) {
         cancelOrdersPromises.push(
@@ -1011,7 +950,7 @@ async function balanceTokens(
         );
       }
     }
-    console.log(`Cancelling ${cancelOrdersPromises.length} orders`);
+    logger.info(`Cancelling ${cancelOrdersPromises.length} orders`);
     await Promise.all(cancelOrdersPromises);
 
     const openOrders = await entropyAccount.loadOpenOrders(
@@ -1032,7 +971,7 @@ async function balanceTokens(
         );
       }
     }
-    console.log(`Settling on ${settlePromises.length} markets`);
+    logger.info(`Settling on ${settlePromises.length} markets`);
     await Promise.all(settlePromises);
 
     const { diffs, netValues } = getDiffsAndNet(
@@ -1060,7 +999,7 @@ async function balanceTokens(
           .toNumber();
         const quantity = Math.abs(diffs[netIndex].toNumber());
 
-        console.log(
+        logger.info(
           `${side}ing ${quantity} of ${marketConfig.baseSymbol} for $${price}`,
         );
         await client.placeSpotOrder(
@@ -1083,7 +1022,7 @@ async function balanceTokens(
       }
     }
   } catch (err) {
-    console.error('Error rebalancing tokens', err);
+    logger.error('Error rebalancing tokens', { error: err });
   }
 }
 
@@ -1093,9 +1032,9 @@ async function closePositions(
   perpMarkets: PerpMarket[],
 ) {
   try {
-    console.log('closePositions');
+    logger.info('closePositions');
     await entropyAccount.reload(connection, entropyGroup.dexProgramId);
-    const cache = await entropyGroup.loadCache(connection);
+    const cache = await entropyGroup.loadCache(cacheConnection);
 
     for (let i = 0; i < perpMarkets.length; i++) {
       const perpMarket = perpMarkets[i];
@@ -1135,7 +1074,7 @@ async function closePositions(
               ? await connection.getAccountInfo(perpMarket.bids)
               : await connection.getAccountInfo(perpMarket.asks);
 
-          console.log(
+          logger.info(
             `${side}ing ${basePositionSize} of ${groupIds?.perpMarkets[i].baseSymbol}-PERP for $${orderPrice}`,
           );
 
@@ -1160,7 +1099,7 @@ async function closePositions(
         if (perpAccount.quotePosition.gt(ZERO_I80F48)) {
           const quoteRootBank = entropyGroup.rootBankAccounts[QUOTE_INDEX];
           if (quoteRootBank) {
-            console.log('settlePnl');
+            logger.info('settlePnl');
             await client.settlePnl(
               entropyGroup,
               cache,
@@ -1175,7 +1114,7 @@ async function closePositions(
       }
     }
   } catch (err) {
-    console.error('Error closing positions', err);
+    logger.error('Error closing positions', { error: err });
   }
 }
 
@@ -1191,13 +1130,13 @@ function notify(content: string) {
     try {
       axios.post(process.env.WEBHOOK_URL, { content });
     } catch (err) {
-      console.error('Error posting to notify webhook:', err);
+      logger.error('Error posting to notify webhook:', { error: err });
     }
   }
 }
 
 process.on('unhandledRejection', (err: any, p: any) => {
-  console.error(`Unhandled rejection: ${err} promise: ${p})`);
+  logger.error(`Unhandled rejection: ${err} promise: ${p})`);
 });
 
 main();
\ No newline at end of file
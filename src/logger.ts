@@ -0,0 +1,147 @@
+import { PublicKey } from '@solana/web3.js';
+import BN from 'bn.js';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = { [key: string]: any };
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * What EntropyClient and the bots log through. fields carry the values that
+ * used to be extra console.log arguments, keyed so they can be filtered.
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  /** A logger that adds fields to every line, e.g. `{ component: 'keeper' }` */
+  child(fields: LogFields): Logger;
+}
+
+abstract class BaseLogger implements Logger {
+  level: LogLevel;
+  context: LogFields;
+
+  constructor(level: LogLevel = 'debug', context: LogFields = {}) {
+    this.level = level;
+    this.context = context;
+  }
+
+  debug(message: string, fields?: LogFields) {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields) {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields) {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields) {
+    this.log('error', message, fields);
+  }
+
+  abstract child(fields: LogFields): Logger;
+
+  protected abstract write(
+    level: LogLevel,
+    message: string,
+    fields: LogFields,
+  ): void;
+
+  private log(level: LogLevel, message: string, fields: LogFields = {}) {
+    if (LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(this.level)) {
+      this.write(level, message, fields);
+    }
+  }
+}
+
+/**
+ * Prints a timestamp, the message and the field values the way the client
+ * and bots always have: errors with console.error, warnings with
+ * console.warn and everything else with console.log. Context from child()
+ * is not printed.
+ */
+export class ConsoleLogger extends BaseLogger {
+  child(fields: LogFields): Logger {
+    return new ConsoleLogger(this.level, { ...this.context, ...fields });
+  }
+
+  protected write(level: LogLevel, message: string, fields: LogFields) {
+    const print =
+      level === 'error'
+        ? console.error
+        : level === 'warn'
+        ? console.warn
+        : console.log;
+    print(new Date().toISOString(), message, ...Object.values(fields));
+  }
+}
+
+/**
+ * Writes one JSON object per line with time, level, msg, the child context
+ * and fields. PublicKeys, BNs and Errors are converted to readable values.
+ */
+export class JsonLinesLogger extends BaseLogger {
+  stream: { write(line: string): any };
+
+  constructor(
+    stream: { write(line: string): any } = process.stdout,
+    level?: LogLevel,
+    context?: LogFields,
+  ) {
+    super(level, context);
+    this.stream = stream;
+  }
+
+  child(fields: LogFields): Logger {
+    return new JsonLinesLogger(this.stream, this.level, {
+      ...this.context,
+      ...fields,
+    });
+  }
+
+  protected write(level: LogLevel, message: string, fields: LogFields) {
+    const line = {
+      time: new Date().toISOString(),
+      level,
+      msg: message,
+      ...this.context,
+      ...fields,
+    };
+    this.stream.write(JSON.stringify(line, jsonReplacer) + '\n');
+  }
+}
+
+function jsonReplacer(this: any, key: string, value: any) {
+  // BN.toJSON gives hex, so look at the value before toJSON ran
+  const raw = this[key];
+  if (BN.isBN(raw)) {
+    return raw.toString();
+  }
+  if (value instanceof PublicKey) {
+    return value.toBase58();
+  }
+  if (value instanceof Error) {
+    return { ...value, name: value.name, message: value.message };
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  return value;
+}
+
+/**
+ * A logger for the bots: JSON lines when LOG_FORMAT=json, console otherwise,
+ * at LOG_LEVEL (default debug)
+ */
+export function loggerFromEnv(context: LogFields = {}): Logger {
+  const level = (process.env.LOG_LEVEL as LogLevel) || 'debug';
+  return process.env.LOG_FORMAT === 'json'
+    ? new JsonLinesLogger(process.stdout, level, context)
+    : new ConsoleLogger(level, context);
+}
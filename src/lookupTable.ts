@@ -0,0 +1,129 @@
+import {
+  AddressLookupTableProgram,
+  Connection,
+  PublicKey,
+  SYSVAR_CLOCK_PUBKEY,
+  SYSVAR_RENT_PUBKEY,
+  SystemProgram,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { GroupConfig } from './config';
+import EntropyGroup from './EntropyGroup';
+import RootBank from './RootBank';
+import { EntropyGroupLayout } from './layout';
+import { zeroKey } from './utils';
+
+/** Most addresses an address lookup table can hold */
+export const LOOKUP_TABLE_MAX_ADDRESSES = 256;
+/** Addresses added per extend instruction so each fits in its own transaction */
+export const LOOKUP_TABLE_EXTEND_CHUNK = 20;
+
+/**
+ * The accounts shared by every user of a group, in a stable order: group,
+ * cache, signer and programs, then per token the root bank, node banks and
+ * vaults, then spot markets, perp markets and oracles.
+ *
+ * The cache, signer and vaults are not in GroupConfig; they are included
+ * when entropyGroup and rootBanks (with nodeBankAccounts loaded) are given.
+ */
+export function getGroupLookupTableAddresses(
+  groupConfig: GroupConfig,
+  entropyGroup?: EntropyGroup,
+  rootBanks: (RootBank | undefined)[] = [],
+): PublicKey[] {
+  const addresses: PublicKey[] = [groupConfig.publicKey];
+  if (entropyGroup) {
+    addresses.push(
+      entropyGroup.entropyCache,
+      entropyGroup.signerKey,
+      entropyGroup.msrmVault,
+    );
+  }
+  addresses.push(
+    groupConfig.serumProgramId,
+    TOKEN_PROGRAM_ID,
+    SystemProgram.programId,
+    SYSVAR_CLOCK_PUBKEY,
+    SYSVAR_RENT_PUBKEY,
+  );
+
+  for (const token of groupConfig.tokens) {
+    addresses.push(token.rootKey, ...token.nodeKeys);
+    const rootBank = rootBanks.find((rb) =>
+      rb?.publicKey.equals(token.rootKey),
+    );
+    for (const nodeBank of rootBank?.nodeBankAccounts ?? []) {
+      addresses.push(nodeBank.vault);
+    }
+  }
+  for (const market of [
+    ...groupConfig.spotMarkets,
+    ...groupConfig.perpMarkets,
+  ]) {
+    addresses.push(
+      market.publicKey,
+      market.bidsKey,
+      market.asksKey,
+      market.eventsKey,
+    );
+  }
+  for (const oracle of groupConfig.oracles) {
+    addresses.push(oracle.publicKey);
+  }
+
+  const unique: PublicKey[] = [];
+  const seen = new Set<string>();
+  for (const address of addresses) {
+    const key = address.toBase58();
+    if (!address.equals(zeroKey) && !seen.has(key)) {
+      seen.add(key);
+      unique.push(address);
+    }
+  }
+  return unique;
+}
+
+/**
+ * Load the group, its root banks and node banks, and return
+ * getGroupLookupTableAddresses for them
+ */
+export async function loadGroupLookupTableAddresses(
+  connection: Connection,
+  groupConfig: GroupConfig,
+): Promise<PublicKey[]> {
+  const account = await connection.getAccountInfo(groupConfig.publicKey);
+  if (!account) {
+    throw new Error(`Unable to load group ${groupConfig.publicKey.toBase58()}`);
+  }
+  const entropyGroup = new EntropyGroup(
+    groupConfig.publicKey,
+    EntropyGroupLayout.decode(account.data),
+  );
+  const rootBanks = await entropyGroup.loadRootBanks(connection);
+  return getGroupLookupTableAddresses(groupConfig, entropyGroup, rootBanks);
+}
+
+/**
+ * Instructions adding addresses to lookupTable, LOOKUP_TABLE_EXTEND_CHUNK at
+ * a time. Send each in its own transaction.
+ */
+export function makeExtendLookupTableInstructions(
+  lookupTable: PublicKey,
+  authority: PublicKey,
+  payer: PublicKey,
+  addresses: PublicKey[],
+): TransactionInstruction[] {
+  const instructions: TransactionInstruction[] = [];
+  for (let i = 0; i < addresses.length; i += LOOKUP_TABLE_EXTEND_CHUNK) {
+    instructions.push(
+      AddressLookupTableProgram.extendLookupTable({
+        lookupTable,
+        authority,
+        payer,
+        addresses: addresses.slice(i, i + LOOKUP_TABLE_EXTEND_CHUNK),
+      }),
+    );
+  }
+  return instructions;
+}
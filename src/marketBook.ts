@@ -0,0 +1,133 @@
+import BN from 'bn.js';
+import { PublicKey } from '@solana/web3.js';
+import { getFeeRates, getFeeTier, Market } from '@project-serum/serum';
+import { Orderbook } from '@project-serum/serum/lib/market';
+import {
+  BookOrder,
+  simulateTakerFill,
+  TakerOrderParams,
+  TakerOrderSimulation,
+  TakerOrderSize,
+} from './book';
+import { MarketKind } from './config';
+import { ZERO_BN } from './utils';
+
+/**
+ * One side of a market's order book, perp or spot. Orders come best price
+ * first and levels are [price, size, priceLots, sizeLots].
+ */
+export interface MarketBook {
+  kind: MarketKind;
+  /** The bids or asks account */
+  publicKey: PublicKey;
+  isBids: boolean;
+
+  getBest(): BookOrder | undefined;
+  getL2(depth: number): [number, number, BN, BN][];
+  items(): Generator<BookOrder>;
+  [Symbol.iterator](): Generator<BookOrder>;
+  getImpactPriceUi(quantity: BN): number | undefined;
+  simulateTakerOrder(params: TakerOrderParams): TakerOrderSimulation;
+}
+
+export interface MarketBooks {
+  bids: MarketBook;
+  asks: MarketBook;
+}
+
+/**
+ * A serum spot market's bids or asks. Orders are owned by the open orders
+ * account that placed them.
+ */
+export class SpotBookSide implements MarketBook {
+  readonly kind = 'spot';
+  market: Market;
+  orderbook: Orderbook;
+  /** Fraction of the quote filled that a taker pays */
+  takerFee: number;
+
+  constructor(market: Market, orderbook: Orderbook, takerFee?: number) {
+    this.market = market;
+    this.orderbook = orderbook;
+    this.takerFee = takerFee ?? getFeeRates(getFeeTier(0, 0)).taker;
+  }
+
+  static decode(market: Market, data: Buffer, takerFee?: number) {
+    return new SpotBookSide(market, Orderbook.decode(market, data), takerFee);
+  }
+
+  get publicKey(): PublicKey {
+    return this.isBids ? this.market.bidsAddress : this.market.asksAddress;
+  }
+
+  get isBids(): boolean {
+    return this.orderbook.isBids;
+  }
+
+  *items(): Generator<BookOrder> {
+    // serum walks low to high unless asked otherwise
+    for (const order of this.orderbook.items(this.isBids)) {
+      yield {
+        orderId: order.orderId,
+        owner: order.openOrdersAddress,
+        openOrdersSlot: order.openOrdersSlot,
+        price: order.price,
+        priceLots: order.priceLots,
+        size: order.size,
+        sizeLots: order.sizeLots,
+        side: order.side,
+        clientId: order.clientId,
+      };
+    }
+  }
+
+  [Symbol.iterator]() {
+    return this.items();
+  }
+
+  getBest(): BookOrder | undefined {
+    return this.items().next().value || undefined;
+  }
+
+  /** Not serum's getL2, which adds each level into its first leaf's size */
+  getL2(depth: number): [number, number, BN, BN][] {
+    const levels: [BN, BN][] = []; // (price, size)
+    for (const { priceLots, sizeLots } of this.items()) {
+      if (levels.length > 0 && levels[levels.length - 1][0].eq(priceLots)) {
+        levels[levels.length - 1][1].iadd(sizeLots);
+      } else if (levels.length === depth) {
+        break;
+      } else {
+        levels.push([priceLots, sizeLots.clone()]);
+      }
+    }
+    return levels.map(([priceLots, sizeLots]) => [
+      this.market.priceLotsToNumber(priceLots),
+      this.market.baseSizeLotsToNumber(sizeLots),
+      priceLots,
+      sizeLots,
+    ]);
+  }
+
+  getImpactPriceUi(quantity: BN): number | undefined {
+    const s = ZERO_BN.clone();
+    for (const order of this) {
+      s.iadd(order.sizeLots);
+      if (s.gte(quantity)) {
+        return order.price;
+      }
+    }
+    return undefined;
+  }
+
+  /** Like BookSide.simulateTakerOrder; the group is not needed for spot */
+  simulateTakerOrder(params: TakerOrderSize): TakerOrderSimulation {
+    return simulateTakerFill(
+      this,
+      this.isBids,
+      this.market,
+      this.takerFee,
+      params,
+    );
+  }
+}
@@ -8,7 +8,6 @@ import configFile from './ids.json';
 import {
   Account,
   Commitment,
-  Connection,
   PublicKey,
   Transaction,
 } from '@solana/web3.js';
@@ -27,11 +26,17 @@ import { BN } from 'bn.js';
 import EntropyAccount from './EntropyAccount';
 import EntropyGroup from './EntropyGroup';
 import PerpMarket from './PerpMarket';
+import { parseComputeBudget } from './computeBudget';
+import { logTransactionEvents } from './transactionEvents';
+import { Logger, loggerFromEnv } from './logger';
+import { connectionFromEnv, quorumFromEnv } from './connectionPool';
 
-const interval = parseInt(process.env.INTERVAL || '10000');
+const interval = parseInt(process.env.INTERVAL || '10000', 10);
 const control = { isRunning: true, interval: interval };
+// LOG_FORMAT=json writes JSON lines; client lines carry component 'client'
+const logger = loggerFromEnv({ component: 'mm' });
 
-async function mm() {
+async function mm(logger: Logger) {
   // load entropy group and clients
   const config = new Config(configFile);
   const groupName = process.env.GROUP || 'devnet.2';
@@ -53,13 +58,25 @@ async function mm() {
       ),
     ),
   );
-  console.log(`Payer: ${payer.publicKey.toBase58()}`);
+  logger.info(`Payer: ${payer.publicKey.toBase58()}`);
 
-  const connection = new Connection(
+  // ENDPOINT_URLS lists several RPC endpoints to fail over between
+  const connection = connectionFromEnv(
     process.env.ENDPOINT_URL || config.cluster_urls[cluster],
     'confirmed' as Commitment,
+    logger,
   );
-  const client = new EntropyClient(connection, entropyProgramId);
+  // RPC_QUORUM makes cache reads wait for that many endpoints to agree
+  const cacheConnection = quorumFromEnv(connection);
+  const client = new EntropyClient(connection, entropyProgramId, {
+    computeBudget: parseComputeBudget(
+      process.env.COMPUTE_UNIT_LIMIT,
+      process.env.COMPUTE_UNIT_PRICE,
+      logger,
+    ),
+    logger: logger.child({ component: 'client' }),
+  });
+  logTransactionEvents(client.events);
 
   const entropyGroup = await client.getEntropyGroup(entropyGroupKey);
 
@@ -118,7 +135,7 @@ async function mm() {
   const spammerCharge = parseFloat(process.env.SPAMMER_CHARGE || '2'); // multiplier on charge
 
   process.on('SIGINT', function () {
-    console.log('Caught keyboard interrupt. Canceling orders');
+    logger.info('Caught keyboard interrupt. Canceling orders');
     control.isRunning = false;
     onExit(
       client,
@@ -127,6 +144,7 @@ async function mm() {
       entropyGroup,
       perpMarket,
       entropyAccountPk,
+      logger,
     );
   });
 
@@ -143,7 +161,7 @@ async function mm() {
       ] = await Promise.all([
         perpMarket.loadBids(connection),
         perpMarket.loadAsks(connection),
-        entropyGroup.loadCache(connection),
+        entropyGroup.loadCache(cacheConnection),
         client.getEntropyAccount(entropyAccountPk, entropyGroup.dexProgramId),
       ]);
 
@@ -191,7 +209,7 @@ async function mm() {
         .filter((o) => o.marketIndex === marketIndex);
       let moveOrders = openOrders.length === 0 || openOrders.length > 2;
       for (const o of openOrders) {
-        console.log(
+        logger.debug(
           `${o.side} ${o.price.toString()} -> ${
             o.side === 'buy' ? bookAdjBid.toString() : bookAdjAsk.toString()
           }`,
@@ -227,7 +245,7 @@ async function mm() {
         bestBid.priceLots.toNumber() / modelAskPrice.toNumber() - 1 >
           spammerCharge * charge + 0.0005
       ) {
-        console.log(`${marketName}-PERP taking best bid spammer`);
+        logger.info(`${marketName}-PERP taking best bid spammer`);
         const takerSell = makePlacePerpOrderInstruction(
           entropyProgramId,
           entropyGroup.publicKey,
@@ -253,7 +271,7 @@ async function mm() {
         modelBidPrice.toNumber() / bestAsk.priceLots.toNumber() - 1 >
           spammerCharge * charge + 0.0005
       ) {
-        console.log(`${marketName}-PERP taking best ask spammer`);
+        logger.info(`${marketName}-PERP taking best ask spammer`);
         const takerBuy = makePlacePerpOrderInstruction(
           entropyProgramId,
           entropyGroup.publicKey,
@@ -325,19 +343,19 @@ async function mm() {
         tx.add(placeBidInstr);
         tx.add(placeAskInstr);
       } else {
-        console.log(`${marketName}-PERP Not requoting. No need to move orders`);
+        logger.info(`${marketName}-PERP Not requoting. No need to move orders`);
       }
       if (tx.instructions.length > 0) {
         const txid = await client.sendTransaction(tx, payer, []);
-        console.log(
+        logger.info(
           `${marketName}-PERP adjustment success: ${txid.toString()}`,
         );
       }
     } catch (e) {
       // sleep for some time and retry
-      console.log(e);
+      logger.error('Market maker error', { error: e });
     } finally {
-      console.log(`sleeping for ${interval / 1000}s`);
+      logger.debug(`sleeping for ${interval / 1000}s`);
       await sleep(interval);
     }
   }
@@ -350,6 +368,7 @@ async function onExit(
   entropyGroup: EntropyGroup,
   perpMarket: PerpMarket,
   entropyAccountPk: PublicKey,
+  logger: Logger,
 ) {
   await sleep(control.interval);
   const entropyAccount = await client.getEntropyAccount(
@@ -371,25 +390,19 @@ async function onExit(
   tx.add(cancelAllInstr);
 
   const txid = await client.sendTransaction(tx, payer, []);
-  console.log(`cancel successful: ${txid.toString()}`);
+  logger.info(`cancel successful: ${txid.toString()}`);
 
   process.exit();
 }
 
 function startMarketMaker() {
   if (control.isRunning) {
-    mm().finally(startMarketMaker);
+    mm(logger).finally(startMarketMaker);
   }
 }
 
 process.on('unhandledRejection', function (err, promise) {
-  console.error(
-    'Unhandled rejection (promise: ',
-    promise,
-    ', reason: ',
-    err,
-    ').',
-  );
+  logger.error('Unhandled rejection', { promise, reason: err });
 });
 
 startMarketMaker();
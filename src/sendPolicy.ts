@@ -0,0 +1,41 @@
+import {
+  TransactionConfirmationStatus,
+  TransactionSignature,
+} from '@solana/web3.js';
+
+/**
+ * Controls how EntropyClient broadcasts a signed transaction and waits for it
+ */
+export interface SendPolicy {
+  /** Run preflight simulation on the first send. Resends always skip it */
+  preflight: boolean;
+  /** Milliseconds between rebroadcasts while awaiting confirmation */
+  resendInterval: number;
+  /** Stop rebroadcasting after this many resends; confirmation is still awaited */
+  maxResends: number;
+  /** Commitment the transaction must reach before the send resolves */
+  commitment: TransactionConfirmationStatus;
+  /** Fail early once the block height passes the blockhash's lastValidBlockHeight */
+  detectExpiry: boolean;
+  /** Wall-clock limit in ms. null returns right after the first send without confirming */
+  timeout: number | null;
+}
+
+export const DEFAULT_SEND_POLICY: SendPolicy = {
+  preflight: false,
+  resendInterval: 2000,
+  maxResends: 30,
+  commitment: 'processed',
+  detectExpiry: true,
+  timeout: 60000,
+};
+
+export interface SendTransactionResult {
+  txid: TransactionSignature;
+  /** Slot the transaction was confirmed in; undefined when not awaited */
+  slot?: number;
+  /** Number of times the transaction was broadcast, including the first */
+  attempts: number;
+  /** Milliseconds from first send to confirmation */
+  latency: number;
+}
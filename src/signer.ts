@@ -0,0 +1,280 @@
+import * as fs from 'fs';
+import * as net from 'net';
+import {
+  Account,
+  Keypair,
+  PublicKey,
+  Transaction,
+  VersionedMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { WalletAdapter } from './types';
+
+type AnyTransaction = Transaction | VersionedTransaction;
+
+/**
+ * Anything that can sign legacy and v0 transactions on behalf of publicKey
+ */
+export interface EntropySigner {
+  publicKey: PublicKey;
+  signTransaction<T extends AnyTransaction>(transaction: T): Promise<T>;
+  signAllTransactions<T extends AnyTransaction>(
+    transactions: T[],
+  ): Promise<T[]>;
+}
+
+/**
+ * What EntropyClient methods accept as owner, payer or admin. Account and
+ * Keypair are wrapped in a KeypairSigner and a WalletAdapter in a
+ * WalletAdapterSigner; see toEntropySigner.
+ */
+export type SignerLike = EntropySigner | WalletAdapter | Account | Keypair;
+
+export class KeypairSigner implements EntropySigner {
+  keypair: Account | Keypair;
+
+  constructor(keypair: Account | Keypair) {
+    this.keypair = keypair;
+  }
+
+  get publicKey(): PublicKey {
+    return this.keypair.publicKey;
+  }
+
+  async signTransaction<T extends AnyTransaction>(transaction: T): Promise<T> {
+    if (transaction instanceof VersionedTransaction) {
+      transaction.sign([this.keypair]);
+    } else {
+      transaction.partialSign(this.keypair);
+    }
+    return transaction;
+  }
+
+  async signAllTransactions<T extends AnyTransaction>(
+    transactions: T[],
+  ): Promise<T[]> {
+    for (const transaction of transactions) {
+      await this.signTransaction(transaction);
+    }
+    return transactions;
+  }
+}
+
+/**
+ * The part of a wallet adapter WalletAdapterSigner needs. A WalletAdapter
+ * fits; wallets that predate v0 transactions will reject them.
+ */
+export interface SigningWallet {
+  publicKey: PublicKey;
+  connected: boolean;
+  signTransaction(transaction: AnyTransaction): Promise<AnyTransaction>;
+  signAllTransactions(
+    transactions: AnyTransaction[],
+  ): Promise<AnyTransaction[]>;
+}
+
+export class WalletAdapterSigner implements EntropySigner {
+  wallet: SigningWallet;
+
+  constructor(wallet: SigningWallet) {
+    this.wallet = wallet;
+  }
+
+  get publicKey(): PublicKey {
+    return this.wallet.publicKey;
+  }
+
+  async signTransaction<T extends AnyTransaction>(transaction: T): Promise<T> {
+    if (!this.wallet.connected) {
+      throw new Error('Wallet not connected');
+    }
+    return (await this.wallet.signTransaction(transaction)) as T;
+  }
+
+  async signAllTransactions<T extends AnyTransaction>(
+    transactions: T[],
+  ): Promise<T[]> {
+    if (!this.wallet.connected) {
+      throw new Error('Wallet not connected');
+    }
+    return (await this.wallet.signAllTransactions(transactions)) as T[];
+  }
+}
+
+/**
+ * Signs through a signer process listening on a local unix socket, so the
+ * private key never enters this process. See serveRemoteSigner for the
+ * other end.
+ *
+ * Requests and responses are single lines of JSON:
+ *   -> { "method": "signMessages", "messages": [<base64 message>, ...] }
+ *   <- { "publicKey": <base58>, "signatures": [<base64 signature>, ...] }
+ * An `error` field in the response means the signer refused. The signer
+ * answers each request line in order, so a connection may carry several.
+ */
+export class RemoteSigner implements EntropySigner {
+  socketPath: string;
+  publicKey: PublicKey;
+  timeout: number;
+
+  constructor(socketPath: string, publicKey: PublicKey, timeout = 30000) {
+    this.socketPath = socketPath;
+    this.publicKey = publicKey;
+    this.timeout = timeout;
+  }
+
+  /**
+   * Load a signer from a JSON file of the form `{ socketPath, publicKey }`,
+   * as written by serveRemoteSigner
+   */
+  static fromFile(path: string, timeout?: number): RemoteSigner {
+    const { socketPath, publicKey } = JSON.parse(
+      fs.readFileSync(path, 'utf-8'),
+    );
+    return new RemoteSigner(socketPath, new PublicKey(publicKey), timeout);
+  }
+
+  async signTransaction<T extends AnyTransaction>(transaction: T): Promise<T> {
+    return (await this.signAllTransactions([transaction]))[0];
+  }
+
+  async signAllTransactions<T extends AnyTransaction>(
+    transactions: T[],
+  ): Promise<T[]> {
+    const response = await this.request({
+      method: 'signMessages',
+      messages: transactions.map((tx) =>
+        (tx instanceof VersionedTransaction
+          ? Buffer.from(tx.message.serialize())
+          : tx.serializeMessage()
+        ).toString('base64'),
+      ),
+    });
+
+    if (response.publicKey !== this.publicKey.toBase58()) {
+      throw new Error(
+        `Remote signer at ${this.socketPath} signs for ${
+          response.publicKey
+        }, expected ${this.publicKey.toBase58()}`,
+      );
+    }
+    transactions.forEach((tx, i) =>
+      tx.addSignature(
+        this.publicKey,
+        Buffer.from(response.signatures[i], 'base64'),
+      ),
+    );
+    return transactions;
+  }
+
+  private request(body: any): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection(this.socketPath);
+      let data = '';
+
+      socket.setTimeout(this.timeout, () => {
+        socket.destroy();
+        reject(new Error(`Remote signer at ${this.socketPath} timed out`));
+      });
+      socket.on('connect', () => socket.write(JSON.stringify(body) + '\n'));
+      socket.on('data', (chunk) => {
+        data += chunk.toString();
+        const newline = data.indexOf('\n');
+        if (newline === -1) return;
+
+        socket.end();
+        try {
+          const response = JSON.parse(data.slice(0, newline));
+          if (response.error) {
+            reject(new Error(`Remote signer refused: ${response.error}`));
+          } else {
+            resolve(response);
+          }
+        } catch (e) {
+          reject(e);
+        }
+      });
+      socket.on('error', reject);
+    });
+  }
+}
+
+/**
+ * Run the signing side of RemoteSigner on socketPath. If descriptorPath is
+ * given, a file RemoteSigner.fromFile can load is written there.
+ *
+ * @param approve Optional check run on every batch before it is signed
+ */
+export function serveRemoteSigner(
+  socketPath: string,
+  keypair: Account | Keypair,
+  descriptorPath?: string,
+  approve?: (messages: VersionedMessage[]) => boolean,
+): net.Server {
+  const sign = (line: string) => {
+    try {
+      const request = JSON.parse(line);
+      if (request.method !== 'signMessages') {
+        throw new Error(`unknown method ${request.method}`);
+      }
+      const messages: VersionedMessage[] = request.messages.map((m: string) =>
+        VersionedMessage.deserialize(Buffer.from(m, 'base64')),
+      );
+      if (approve && !approve(messages)) {
+        throw new Error('not approved');
+      }
+      return {
+        publicKey: keypair.publicKey.toBase58(),
+        signatures: messages.map((message) => {
+          const index = message.staticAccountKeys
+            .slice(0, message.header.numRequiredSignatures)
+            .findIndex((pk) => pk.equals(keypair.publicKey));
+          if (index === -1) {
+            throw new Error('keypair is not a signer of this message');
+          }
+          const transaction = new VersionedTransaction(message);
+          transaction.sign([keypair]);
+          return Buffer.from(transaction.signatures[index]).toString('base64');
+        }),
+      };
+    } catch (e: any) {
+      return { error: e.message ?? `${e}` };
+    }
+  };
+
+  const server = net.createServer((socket) => {
+    // only the trailing partial line is kept between chunks
+    let partial = '';
+    socket.setEncoding('utf-8');
+    socket.on('data', (chunk: string) => {
+      const lines = (partial + chunk).split('\n');
+      partial = lines.pop() ?? '';
+      for (const line of lines) {
+        socket.write(JSON.stringify(sign(line)) + '\n');
+      }
+    });
+    socket.on('error', () => socket.destroy());
+  });
+
+  if (fs.existsSync(socketPath)) {
+    fs.unlinkSync(socketPath);
+  }
+  server.listen(socketPath);
+  if (descriptorPath) {
+    fs.writeFileSync(
+      descriptorPath,
+      JSON.stringify({ socketPath, publicKey: keypair.publicKey.toBase58() }),
+    );
+  }
+  return server;
+}
+
+export function toEntropySigner(signer: SignerLike): EntropySigner {
+  if ('secretKey' in signer) {
+    return new KeypairSigner(signer);
+  }
+  if ('connected' in signer) {
+    return new WalletAdapterSigner(signer);
+  }
+  return signer;
+}
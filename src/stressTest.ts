@@ -0,0 +1,289 @@
+import { PublicKey } from '@solana/web3.js';
+import EntropyAccount from './EntropyAccount';
+import EntropyGroup from './EntropyGroup';
+import { I80F48 } from './fixednum';
+import { EntropyCache, QUOTE_INDEX } from './layout';
+
+/**
+ * Prices moved together. shocks[i] is the fractional move of oracle i,
+ * e.g. -0.3 for a 30% fall; oracles without an entry do not move.
+ */
+export interface StressScenario {
+  name: string;
+  shocks: number[];
+}
+
+export interface AccountStressResult {
+  entropyAccount: PublicKey;
+  /** UI quote */
+  maintHealth: number;
+  liquidatable: boolean;
+  /** UI quote the account's liabilities exceed its assets by; 0 if solvent */
+  shortfall: number;
+}
+
+export interface ScenarioStressResult {
+  scenario: StressScenario;
+  accounts: AccountStressResult[];
+  /** Number of accounts that could be liquidated */
+  liquidatable: number;
+  /** Total shortfall of bankrupt accounts, UI quote */
+  shortfall: number;
+  /** Shortfall beyond the insurance fund, which would be socialized */
+  uncovered: number;
+}
+
+export interface AccountStressSummary {
+  entropyAccount: PublicKey;
+  /** Lowest maint health over the scenarios, UI quote */
+  worstMaintHealth: number;
+  /** Number of scenarios the account could be liquidated in */
+  liquidatableScenarios: number;
+  /** Mean shortfall over the scenarios, UI quote */
+  expectedShortfall: number;
+}
+
+/**
+ * Expected values are means over the scenarios, so they are only
+ * probability weighted when the scenarios are equally likely, as those of
+ * correlatedScenarios and historicalScenarios are.
+ */
+export interface StressReport {
+  scenarios: ScenarioStressResult[];
+  accounts: AccountStressSummary[];
+  insuranceFund: number;
+  expectedShortfall: number;
+  expectedUncovered: number;
+  /** The scenario with the largest shortfall */
+  worst?: ScenarioStressResult;
+}
+
+export interface StressTestOptions {
+  /**
+   * UI quote held by the group's insurance vault, entropyGroup.insuranceVault.
+   * Defaults to 0
+   */
+  insuranceFund?: number;
+}
+
+/** A copy of entropyCache with every oracle price moved by the scenario */
+export function shockEntropyCache(
+  entropyCache: EntropyCache,
+  scenario: StressScenario,
+): EntropyCache {
+  return new EntropyCache(entropyCache.publicKey, {
+    ...entropyCache,
+    priceCache: entropyCache.priceCache.map((priceCache, i) => {
+      const shock = scenario.shocks[i] ?? 0;
+      return shock
+        ? {
+            ...priceCache,
+            price: priceCache.price.mul(
+              I80F48.fromNumber(Math.max(0, 1 + shock)),
+            ),
+          }
+        : priceCache;
+    }),
+  });
+}
+
+/**
+ * Health, liquidation status and shortfall of each account in each
+ * scenario, with the group's exposure beyond its insurance fund. Open orders
+ * count at their worst case, as in getHealthComponents, so load each
+ * account's spotOpenOrdersAccounts first.
+ */
+export function runStressTest(
+  entropyGroup: EntropyGroup,
+  entropyCache: EntropyCache,
+  entropyAccounts: EntropyAccount[],
+  scenarios: StressScenario[],
+  opts: StressTestOptions = {},
+): StressReport {
+  const insuranceFund = opts.insuranceFund ?? 0;
+  const quoteUnit = Math.pow(10, entropyGroup.getTokenDecimals(QUOTE_INDEX));
+  const toUi = (native: I80F48) => native.toNumber() / quoteUnit;
+
+  const results = scenarios.map((scenario) => {
+    const shocked = shockEntropyCache(entropyCache, scenario);
+    const accounts = entropyAccounts.map((entropyAccount) => {
+      const unweighted = entropyAccount.getHealthUnweighted(
+        entropyGroup,
+        shocked,
+      );
+      return {
+        entropyAccount: entropyAccount.publicKey,
+        maintHealth: toUi(
+          entropyAccount.getHealth(entropyGroup, shocked, 'Maint'),
+        ),
+        liquidatable: entropyAccount.isLiquidatable(entropyGroup, shocked),
+        shortfall: unweighted.isNeg() ? -toUi(unweighted) : 0,
+      };
+    });
+    const shortfall = sum(accounts.map((a) => a.shortfall));
+    return {
+      scenario,
+      accounts,
+      liquidatable: accounts.filter((a) => a.liquidatable).length,
+      shortfall,
+      uncovered: Math.max(0, shortfall - insuranceFund),
+    };
+  });
+
+  const mean = (values: number[]) =>
+    values.length ? sum(values) / values.length : 0;
+  const summaries = entropyAccounts.map((entropyAccount, i) => {
+    const perScenario = results.map((r) => r.accounts[i]);
+    return {
+      entropyAccount: entropyAccount.publicKey,
+      worstMaintHealth: Math.min(...perScenario.map((a) => a.maintHealth)),
+      liquidatableScenarios: perScenario.filter((a) => a.liquidatable).length,
+      expectedShortfall: mean(perScenario.map((a) => a.shortfall)),
+    };
+  });
+
+  return {
+    scenarios: results,
+    accounts: summaries,
+    insuranceFund,
+    expectedShortfall: mean(results.map((r) => r.shortfall)),
+    expectedUncovered: mean(results.map((r) => r.uncovered)),
+    worst: results.reduce<ScenarioStressResult | undefined>(
+      (worst, r) => (!worst || r.shortfall > worst.shortfall ? r : worst),
+      undefined,
+    ),
+  };
+}
+
+/**
+ * Every combination of the moves for the given oracles, e.g. moves
+ * [-0.5, -0.25, 0, 0.25] over oracles [1, 3] gives 16 scenarios
+ */
+export function gridScenarios(
+  oracleIndexes: number[],
+  moves: number[],
+): StressScenario[] {
+  let scenarios: StressScenario[] = [{ name: '', shocks: [] }];
+  for (const oracleIndex of oracleIndexes) {
+    scenarios = scenarios.flatMap(({ name, shocks }) =>
+      moves.map((move) => {
+        const next = [...shocks];
+        next[oracleIndex] = move;
+        const label = `oracle${oracleIndex} ${formatMove(move)}`;
+        return { name: name ? `${name}, ${label}` : label, shocks: next };
+      }),
+    );
+  }
+  return scenarios.map(({ name, shocks }) => ({
+    name,
+    shocks: Array.from(shocks, (shock) => shock ?? 0),
+  }));
+}
+
+export interface PriceSnapshot {
+  /** e.g. the date the prices are from */
+  label: string;
+  /** UI price of each oracle; undefined where there is none */
+  prices: (number | undefined)[];
+}
+
+/**
+ * The moves between each snapshot and the one horizon snapshots later,
+ * applied to today's prices. Snapshots are oldest first.
+ */
+export function historicalScenarios(
+  snapshots: PriceSnapshot[],
+  horizon = 1,
+): StressScenario[] {
+  const scenarios: StressScenario[] = [];
+  for (let t = 0; t + horizon < snapshots.length; t++) {
+    const [from, to] = [snapshots[t], snapshots[t + horizon]];
+    scenarios.push({
+      name: `${from.label} to ${to.label}`,
+      shocks: from.prices.map((price, i) => {
+        const later = to.prices[i];
+        return price && later !== undefined ? later / price - 1 : 0;
+      }),
+    });
+  }
+  return scenarios;
+}
+
+export interface CorrelatedScenarioOptions {
+  /** Oracles to move; the others stay where they are */
+  oracleIndexes: number[];
+  /** Standard deviation of each oracle's log return over the horizon */
+  volatilities: number[];
+  /** Correlation matrix of the log returns, in the order of oracleIndexes */
+  correlations: number[][];
+  count: number;
+  /** Uniform random numbers in [0, 1); Math.random by default */
+  random?: () => number;
+}
+
+/**
+ * Monte Carlo scenarios: correlated lognormal moves drawn with the
+ * Cholesky factor of the correlation matrix
+ */
+export function correlatedScenarios(
+  opts: CorrelatedScenarioOptions,
+): StressScenario[] {
+  const { oracleIndexes, volatilities, correlations, count } = opts;
+  const random = opts.random ?? Math.random;
+  const factor = cholesky(correlations);
+  const normal = () => {
+    // Box-Muller; 1 - random() keeps the log finite
+    const u = 1 - random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+  };
+
+  const scenarios: StressScenario[] = [];
+  for (let n = 0; n < count; n++) {
+    const z = oracleIndexes.map(() => normal());
+    const shocks: number[] = [];
+    oracleIndexes.forEach((oracleIndex, i) => {
+      let x = 0;
+      for (let j = 0; j <= i; j++) {
+        x += factor[i][j] * z[j];
+      }
+      const vol = volatilities[i];
+      shocks[oracleIndex] = Math.exp(vol * x - (vol * vol) / 2) - 1;
+    });
+    scenarios.push({
+      name: `sample${n}`,
+      shocks: Array.from(shocks, (shock) => shock ?? 0),
+    });
+  }
+  return scenarios;
+}
+
+function cholesky(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const factor = matrix.map(() => new Array(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let s = matrix[i][j];
+      for (let k = 0; k < j; k++) {
+        s -= factor[i][k] * factor[j][k];
+      }
+      if (i === j) {
+        if (s <= 0) {
+          throw new Error('Correlation matrix is not positive definite');
+        }
+        factor[i][i] = Math.sqrt(s);
+      } else {
+        factor[i][j] = s / factor[j][j];
+      }
+    }
+  }
+  return factor;
+}
+
+function formatMove(move: number): string {
+  const percent = Math.round(move * 10000) / 100;
+  return `${percent >= 0 ? '+' : ''}${percent}%`;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0);
+}
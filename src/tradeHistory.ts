@@ -0,0 +1,391 @@
+import * as fs from 'fs';
+import { Connection, PublicKey } from '@solana/web3.js';
+import BN from 'bn.js';
+import { ConsoleLogger, Logger } from './logger';
+import PerpMarket from './PerpMarket';
+import { sleep } from './utils';
+
+/**
+ * A perp fill as stored, with prices and quantities in UI units and keys as
+ * base58 strings
+ */
+export interface FillRecord {
+  eventType: 'fill';
+  /** The perp market's key */
+  market: string;
+  seqNum: number;
+  /** Unix time in seconds */
+  timestamp: number;
+  takerSide: 'buy' | 'sell';
+  maker: string;
+  taker: string;
+  makerOrderId: string;
+  takerOrderId: string;
+  makerFee: number;
+  takerFee: number;
+  price: number;
+  quantity: number;
+}
+
+/** A perp liquidation as stored, in the same units as FillRecord */
+export interface LiquidationRecord {
+  eventType: 'liquidate';
+  market: string;
+  seqNum: number;
+  timestamp: number;
+  liqee: string;
+  liqor: string;
+  liquidationFee: number;
+  price: number;
+  /** Base the liqor took over, negative if the liqee was short */
+  quantity: number;
+}
+
+/**
+ * Fills and liquidations both change positions, so both are kept.
+ * PerpAccount.getAverageOpenPrice and getBreakEvenPrice take these as they
+ * come back from a query.
+ */
+export type TradeRecord = FillRecord | LiquidationRecord;
+
+export interface TradeQuery {
+  market?: PublicKey;
+  /** Fills the account was maker or taker in and liquidations of or by it */
+  account?: PublicKey;
+  /** Unix time in seconds, inclusive */
+  from?: number;
+  /** Unix time in seconds, inclusive */
+  to?: number;
+  limit?: number;
+}
+
+/** Where TradeRecorder writes trades. Trades are unique by market and seqNum */
+export interface TradeStore {
+  /** Adds the trades not stored yet and returns how many that was */
+  insert(trades: TradeRecord[]): Promise<number>;
+  /** Matching trades, latest first */
+  query(query?: TradeQuery): Promise<TradeRecord[]>;
+  /** The highest seqNum stored for the market */
+  lastSeqNum(market: PublicKey): Promise<number | undefined>;
+  close(): Promise<void>;
+}
+
+function tradeKey(trade: { market: string; seqNum: number }) {
+  return `${trade.market}:${trade.seqNum}`;
+}
+
+function involves(trade: TradeRecord, account: string) {
+  return trade.eventType === 'fill'
+    ? trade.maker === account || trade.taker === account
+    : trade.liqee === account || trade.liqor === account;
+}
+
+function latestFirst(a: TradeRecord, b: TradeRecord) {
+  return b.timestamp - a.timestamp || b.seqNum - a.seqNum;
+}
+
+/**
+ * Keeps trades in memory and appends each new one to a file as a line of
+ * JSON, so the file can be tailed or read line by line elsewhere.
+ */
+export class JsonlTradeStore implements TradeStore {
+  filename: string;
+  private trades = new Map<string, TradeRecord>();
+
+  constructor(filename: string) {
+    this.filename = filename;
+    if (fs.existsSync(filename)) {
+      for (const line of fs.readFileSync(filename, 'utf-8').split('\n')) {
+        if (!line.trim()) continue;
+        const trade: TradeRecord = JSON.parse(line);
+        this.trades.set(tradeKey(trade), trade);
+      }
+    }
+  }
+
+  async insert(trades: TradeRecord[]): Promise<number> {
+    const added = trades.filter((trade) => {
+      const key = tradeKey(trade);
+      if (this.trades.has(key)) return false;
+      this.trades.set(key, trade);
+      return true;
+    });
+    if (added.length) {
+      await fs.promises.appendFile(
+        this.filename,
+        added.map((trade) => JSON.stringify(trade) + '\n').join(''),
+      );
+    }
+    return added.length;
+  }
+
+  async query(query: TradeQuery = {}): Promise<TradeRecord[]> {
+    const market = query.market?.toBase58();
+    const account = query.account?.toBase58();
+    const trades = [...this.trades.values()]
+      .filter(
+        (trade) =>
+          (market === undefined || trade.market === market) &&
+          (account === undefined || involves(trade, account)) &&
+          (query.from === undefined || trade.timestamp >= query.from) &&
+          (query.to === undefined || trade.timestamp <= query.to),
+      )
+      .sort(latestFirst);
+    return query.limit === undefined ? trades : trades.slice(0, query.limit);
+  }
+
+  async lastSeqNum(market: PublicKey): Promise<number | undefined> {
+    let last: number | undefined;
+    for (const trade of this.trades.values()) {
+      if (trade.market === market.toBase58()) {
+        last = Math.max(last ?? trade.seqNum, trade.seqNum);
+      }
+    }
+    return last;
+  }
+
+  async close(): Promise<void> {
+    this.trades.clear();
+  }
+}
+
+/** The parts of a better-sqlite3 Database that SqliteTradeStore uses */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    run(...params: unknown[]): { changes: number };
+    all(...params: unknown[]): any[];
+    get(...params: unknown[]): any;
+  };
+  transaction<F extends (...args: any[]) => any>(fn: F): F;
+  close(): unknown;
+}
+
+/** Fields of either kind of record; those the other kind lacks are NULL */
+const TRADE_COLUMNS: [keyof FillRecord | keyof LiquidationRecord, string][] = [
+  ['eventType', 'event_type TEXT NOT NULL'],
+  ['market', 'market TEXT NOT NULL'],
+  ['seqNum', 'seq_num INTEGER NOT NULL'],
+  ['timestamp', 'timestamp INTEGER NOT NULL'],
+  ['takerSide', 'taker_side TEXT'],
+  ['maker', 'maker TEXT'],
+  ['taker', 'taker TEXT'],
+  ['makerOrderId', 'maker_order_id TEXT'],
+  ['takerOrderId', 'taker_order_id TEXT'],
+  ['makerFee', 'maker_fee REAL'],
+  ['takerFee', 'taker_fee REAL'],
+  ['liqee', 'liqee TEXT'],
+  ['liqor', 'liqor TEXT'],
+  ['liquidationFee', 'liquidation_fee REAL'],
+  ['price', 'price REAL NOT NULL'],
+  ['quantity', 'quantity REAL NOT NULL'],
+];
+
+/**
+ * Stores trades in a `trades` table, created if missing, of a SQLite
+ * database opened by the caller, e.g. `new SqliteTradeStore(new
+ * Database('trades.db'))` with better-sqlite3.
+ */
+export class SqliteTradeStore implements TradeStore {
+  db: SqliteDatabase;
+
+  constructor(db: SqliteDatabase) {
+    this.db = db;
+    db.exec(
+      `CREATE TABLE IF NOT EXISTS trades (
+        ${TRADE_COLUMNS.map(([, column]) => column).join(',\n        ')},
+        PRIMARY KEY (market, seq_num)
+      );
+      CREATE INDEX IF NOT EXISTS trades_maker ON trades (maker, timestamp);
+      CREATE INDEX IF NOT EXISTS trades_taker ON trades (taker, timestamp);
+      CREATE INDEX IF NOT EXISTS trades_liqee ON trades (liqee, timestamp);
+      CREATE INDEX IF NOT EXISTS trades_liqor ON trades (liqor, timestamp);
+      CREATE INDEX IF NOT EXISTS trades_timestamp ON trades (timestamp);`,
+    );
+  }
+
+  async insert(trades: TradeRecord[]): Promise<number> {
+    const columns = TRADE_COLUMNS.map(([, column]) => column.split(' ')[0]);
+    const statement = this.db.prepare(
+      `INSERT OR IGNORE INTO trades (${columns.join(', ')})
+      VALUES (${columns.map(() => '?').join(', ')})`,
+    );
+    const insertAll = this.db.transaction((rows: TradeRecord[]) =>
+      rows.reduce(
+        (added, trade) =>
+          added +
+          statement.run(...TRADE_COLUMNS.map(([field]) => trade[field] ?? null))
+            .changes,
+        0,
+      ),
+    );
+    return insertAll(trades);
+  }
+
+  async query(query: TradeQuery = {}): Promise<TradeRecord[]> {
+    const where: string[] = [];
+    const params: unknown[] = [];
+    if (query.market) {
+      where.push('market = ?');
+      params.push(query.market.toBase58());
+    }
+    if (query.account) {
+      where.push('(maker = ? OR taker = ? OR liqee = ? OR liqor = ?)');
+      params.push(...Array(4).fill(query.account.toBase58()));
+    }
+    if (query.from !== undefined) {
+      where.push('timestamp >= ?');
+      params.push(query.from);
+    }
+    if (query.to !== undefined) {
+      where.push('timestamp <= ?');
+      params.push(query.to);
+    }
+    if (query.limit !== undefined) {
+      params.push(query.limit);
+    }
+
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM trades
+        ${where.length ? `WHERE ${where.join(' AND ')}` : ''}
+        ORDER BY timestamp DESC, seq_num DESC
+        ${query.limit !== undefined ? 'LIMIT ?' : ''}`,
+      )
+      .all(...params);
+    return rows.map((row) => {
+      const trade: any = {};
+      for (const [field, column] of TRADE_COLUMNS) {
+        const value = row[column.split(' ')[0]];
+        if (value !== null) trade[field] = value;
+      }
+      return trade as TradeRecord;
+    });
+  }
+
+  async lastSeqNum(market: PublicKey): Promise<number | undefined> {
+    const row = this.db
+      .prepare('SELECT MAX(seq_num) AS seqNum FROM trades WHERE market = ?')
+      .get(market.toBase58());
+    return row?.seqNum ?? undefined;
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
+
+export interface TradeRecorderOptions {
+  /** Milliseconds between polls of each event queue. Defaults to 5000 */
+  interval?: number;
+  logger?: Logger;
+}
+
+/**
+ * Polls the event queues of perp markets and writes their fills and
+ * liquidations to a TradeStore. Each market picks up after the last seqNum already stored, so
+ * a restarted recorder neither loses nor repeats trades still in the queue.
+ */
+export class TradeRecorder {
+  connection: Connection;
+  store: TradeStore;
+  perpMarkets: PerpMarket[];
+  interval: number;
+  logger: Logger;
+
+  /** Next seqNum to read per perp market */
+  private nextSeqNums = new Map<string, BN>();
+  private stopped = false;
+
+  constructor(
+    connection: Connection,
+    store: TradeStore,
+    perpMarkets: PerpMarket[],
+    opts: TradeRecorderOptions = {},
+  ) {
+    this.connection = connection;
+    this.store = store;
+    this.perpMarkets = perpMarkets;
+    this.interval = opts.interval ?? 5000;
+    this.logger = opts.logger ?? new ConsoleLogger();
+  }
+
+  /** Polls until stop() is called */
+  async run(): Promise<void> {
+    this.stopped = false;
+    while (!this.stopped) {
+      await Promise.all(
+        this.perpMarkets.map((perpMarket) =>
+          this.poll(perpMarket).catch((e) =>
+            this.logger.error('Could not record trades', {
+              perpMarket: perpMarket.publicKey.toBase58(),
+              error: e,
+            }),
+          ),
+        ),
+      );
+      await sleep(this.interval);
+    }
+  }
+
+  stop() {
+    this.stopped = true;
+  }
+
+  /** Reads the market's event queue once and returns how many trades were new */
+  async poll(perpMarket: PerpMarket): Promise<number> {
+    const market = perpMarket.publicKey.toBase58();
+    const queue = await perpMarket.loadEventQueue(this.connection);
+
+    let next = this.nextSeqNums.get(market);
+    if (!next) {
+      const last = await this.store.lastSeqNum(perpMarket.publicKey);
+      next = last === undefined ? queue.oldestSeqNum : new BN(last + 1);
+    }
+
+    const trades: TradeRecord[] = [];
+    for (const event of queue.eventsFrom(next)) {
+      if (event.eventType === 'gap') {
+        this.logger.warn('Trades missed', {
+          perpMarket: market,
+          firstSeqNum: event.firstSeqNum,
+          lastSeqNum: event.lastSeqNum,
+        });
+      } else if (event.eventType === 'fill') {
+        const fill = perpMarket.parseFillEvent(event.fill);
+        trades.push({
+          eventType: 'fill',
+          market,
+          seqNum: fill.seqNum.toNumber(),
+          timestamp: fill.timestamp.toNumber(),
+          takerSide: fill.takerSide,
+          maker: fill.maker.toBase58(),
+          taker: fill.taker.toBase58(),
+          makerOrderId: fill.makerOrderId.toString(),
+          takerOrderId: fill.takerOrderId.toString(),
+          makerFee: fill.makerFee.toNumber(),
+          takerFee: fill.takerFee.toNumber(),
+          price: fill.price,
+          quantity: fill.quantity,
+        });
+      } else if (event.eventType === 'liquidate') {
+        const liquidation = perpMarket.parseLiquidateEvent(event.liquidate);
+        trades.push({
+          eventType: 'liquidate',
+          market,
+          seqNum: liquidation.seqNum.toNumber(),
+          timestamp: liquidation.timestamp.toNumber(),
+          liqee: liquidation.liqee.toBase58(),
+          liqor: liquidation.liqor.toBase58(),
+          liquidationFee: liquidation.liquidationFee.toNumber(),
+          price: liquidation.price,
+          quantity: liquidation.quantity,
+        });
+      }
+    }
+
+    const added = await this.store.insert(trades);
+    this.nextSeqNums.set(market, BN.max(next, queue.seqNum));
+    return added;
+  }
+}
@@ -0,0 +1,149 @@
+import { TransactionSignature } from '@solana/web3.js';
+import { ConsoleLogger, Logger } from './logger';
+
+/** Fields every transaction lifecycle event carries */
+export interface TransactionEvent {
+  /** Undefined until the transaction is signed */
+  txid?: TransactionSignature;
+  marketName?: string;
+  /** Broadcasts so far, including the first */
+  attempts: number;
+  /** Milliseconds since the first broadcast */
+  latency: number;
+}
+
+export interface TransactionFailedEvent extends TransactionEvent {
+  txid: TransactionSignature;
+  /** Decoded the same way the error thrown to the caller is */
+  error: Error;
+}
+
+/**
+ * Events EntropyClient.events emits while a transaction is built, signed,
+ * sent and awaited
+ */
+export interface TransactionEvents {
+  /**
+   * Compute budget added and ready for the payer to sign; txid is set if the
+   * fee payer was among the additional signers
+   */
+  built: TransactionEvent;
+  signed: TransactionEvent & { txid: TransactionSignature };
+  /** First broadcast; size is the serialized length in bytes */
+  sent: TransactionEvent & { txid: TransactionSignature; size: number };
+  /** A rebroadcast while awaiting confirmation; error is set if it failed */
+  resent: TransactionEvent & { txid: TransactionSignature; error?: Error };
+  confirmed: TransactionEvent & { txid: TransactionSignature; slot?: number };
+  /** Rejected by preflight or failed on chain */
+  failed: TransactionFailedEvent;
+  /** Gave up after the send policy timeout or because the blockhash expired */
+  timedOut: TransactionFailedEvent;
+}
+
+export type TransactionEventName = keyof TransactionEvents;
+
+export type TransactionEventListener<K extends TransactionEventName> = (
+  event: TransactionEvents[K],
+) => void;
+
+/**
+ * A minimal typed event emitter. Listeners run synchronously; one that throws
+ * is logged and does not stop the others or the transaction.
+ */
+export class TransactionEventEmitter {
+  logger: Logger;
+  private listeners: {
+    [K in TransactionEventName]?: TransactionEventListener<K>[];
+  } = {};
+
+  constructor(logger: Logger = new ConsoleLogger()) {
+    this.logger = logger;
+  }
+
+  on<K extends TransactionEventName>(
+    event: K,
+    listener: TransactionEventListener<K>,
+  ): this {
+    const listeners = (this.listeners[event] ??= []) as
+      | TransactionEventListener<K>[];
+    listeners.push(listener);
+    return this;
+  }
+
+  off<K extends TransactionEventName>(
+    event: K,
+    listener: TransactionEventListener<K>,
+  ): this {
+    const listeners = this.listeners[event] as
+      | TransactionEventListener<K>[]
+      | undefined;
+    const index = listeners?.indexOf(listener) ?? -1;
+    if (index !== -1) {
+      listeners?.splice(index, 1);
+    }
+    return this;
+  }
+
+  once<K extends TransactionEventName>(
+    event: K,
+    listener: TransactionEventListener<K>,
+  ): this {
+    const wrapper: TransactionEventListener<K> = (e) => {
+      this.off(event, wrapper);
+      listener(e);
+    };
+    return this.on(event, wrapper);
+  }
+
+  emit<K extends TransactionEventName>(
+    event: K,
+    payload: TransactionEvents[K],
+  ) {
+    const listeners = (this.listeners[event] ?? []) as
+      | TransactionEventListener<K>[];
+    for (const listener of [...listeners]) {
+      try {
+        listener(payload);
+      } catch (e) {
+        this.logger.error(`${event} listener error`, { error: e });
+      }
+    }
+  }
+}
+
+/**
+ * Log sent, confirmed, resend failures and errors the way EntropyClient did
+ * before it emitted events
+ */
+export function logTransactionEvents(
+  events: TransactionEventEmitter,
+  logger: Logger = events.logger,
+) {
+  const prefix = (marketName?: string) => (marketName ? `${marketName} ` : '');
+  events.on('sent', ({ txid, marketName, size }) =>
+    logger.info(
+      `${prefix(marketName)}Started awaiting confirmation for txid: `,
+      { txid, size },
+    ),
+  );
+  events.on('resent', ({ txid, marketName, error }) => {
+    if (error) {
+      logger.warn(`${prefix(marketName)}resend error for txid: `, {
+        txid,
+        error,
+      });
+    }
+  });
+  events.on('confirmed', ({ txid, marketName, latency }) =>
+    logger.info(`${prefix(marketName)}Transaction Latency for txid: `, {
+      txid,
+      latency: latency / 1000,
+    }),
+  );
+  events.on('failed', ({ txid, error }) =>
+    logger.error('Transaction failed', { txid, error }),
+  );
+  events.on('timedOut', ({ txid, error }) =>
+    logger.error('Transaction timed out', { txid, error }),
+  );
+}
@@ -0,0 +1,214 @@
+import {
+  Account,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+} from '@solana/web3.js';
+
+/** Compute units the runtime grants an instruction when nothing else is requested */
+export const DEFAULT_INSTRUCTION_COMPUTE_UNITS = 200_000;
+/** Most compute units a single transaction may use */
+export const MAX_TRANSACTION_COMPUTE_UNITS = 1_400_000;
+
+export interface PackableInstruction {
+  instruction: TransactionInstruction;
+  signers?: Account[];
+  /** Estimated compute units; defaults to the packer's defaultComputeUnits */
+  computeUnits?: number;
+}
+
+export interface PackedTransaction {
+  transaction: Transaction;
+  signers: Account[];
+  /** Positions of the packed instructions in the list given to pack() */
+  indices: number[];
+}
+
+export interface TransactionPackerOptions {
+  /** Serialized size limit in bytes. Defaults to PACKET_DATA_SIZE (1232) */
+  maxSize?: number;
+  /** Compute budget a transaction may not exceed */
+  maxComputeUnits?: number;
+  /** Estimate for instructions that do not give computeUnits */
+  defaultComputeUnits?: number;
+  /**
+   * Instructions that will be added to every transaction after packing, such
+   * as compute budget instructions. Their size is reserved but they are not
+   * included in the output.
+   */
+  reservedInstructions?: TransactionInstruction[];
+}
+
+/** Bytes taken by the compact-u16 length prefix for n */
+function shortVecLength(n: number): number {
+  return n < 0x80 ? 1 : n < 0x4000 ? 2 : 3;
+}
+
+/**
+ * Splits an ordered list of instructions into the fewest transactions that
+ * keep the order, stay under the packet size and compute limits, and count
+ * every account only once per transaction.
+ */
+export class TransactionPacker {
+  payer: PublicKey;
+  maxSize: number;
+  maxComputeUnits: number;
+  defaultComputeUnits: number;
+  reservedInstructions: TransactionInstruction[];
+
+  constructor(payer: PublicKey, opts: TransactionPackerOptions = {}) {
+    this.payer = payer;
+    this.maxSize = opts.maxSize ?? PACKET_DATA_SIZE;
+    this.maxComputeUnits =
+      opts.maxComputeUnits ?? MAX_TRANSACTION_COMPUTE_UNITS;
+    this.defaultComputeUnits =
+      opts.defaultComputeUnits ?? DEFAULT_INSTRUCTION_COMPUTE_UNITS;
+    this.reservedInstructions = opts.reservedInstructions ?? [];
+  }
+
+  pack(items: PackableInstruction[]): PackedTransaction[] {
+    const packed: PackedTransaction[] = [];
+    let current = this.newState();
+
+    items.forEach((item, i) => {
+      const computeUnits = item.computeUnits ?? this.defaultComputeUnits;
+      if (!current.isEmpty() && !this.fits(current, item, computeUnits)) {
+        packed.push(current.finish());
+        current = this.newState();
+      }
+      if (current.isEmpty() && !this.fits(current, item, computeUnits)) {
+        throw new Error(
+          `Instruction ${i} does not fit in a transaction on its own`,
+        );
+      }
+      current.add(item, computeUnits, i);
+    });
+
+    if (!current.isEmpty()) {
+      packed.push(current.finish());
+    }
+    return packed;
+  }
+
+  private newState(): PackingState {
+    const state = new PackingState(this.payer);
+    for (const instruction of this.reservedInstructions) {
+      state.reserve({ instruction });
+    }
+    return state;
+  }
+
+  private fits(
+    state: PackingState,
+    item: PackableInstruction,
+    computeUnits: number,
+  ): boolean {
+    return (
+      state.sizeWith(item) <= this.maxSize &&
+      state.computeUnits + computeUnits <= this.maxComputeUnits
+    );
+  }
+}
+
+class PackingState {
+  keys: Set<string>;
+  signerKeys: Set<string>;
+  instructionsSize = 0;
+  computeUnits = 0;
+  numReserved = 0;
+  items: PackableInstruction[] = [];
+  indices: number[] = [];
+
+  constructor(payer: PublicKey) {
+    this.keys = new Set([payer.toBase58()]);
+    this.signerKeys = new Set([payer.toBase58()]);
+  }
+
+  /** Count item toward size without packing it */
+  reserve(item: PackableInstruction) {
+    addKeys(item, this.keys, this.signerKeys);
+    this.instructionsSize += instructionSize(item.instruction);
+    this.numReserved += 1;
+  }
+
+  isEmpty(): boolean {
+    return this.items.length === 0;
+  }
+
+  /** Serialized transaction size if item were added */
+  sizeWith(item: PackableInstruction): number {
+    const keys = new Set(this.keys);
+    const signerKeys = new Set(this.signerKeys);
+    addKeys(item, keys, signerKeys);
+
+    const numInstructions = this.numReserved + this.items.length + 1;
+    return (
+      shortVecLength(signerKeys.size) +
+      signerKeys.size * 64 +
+      3 + // message header
+      shortVecLength(keys.size) +
+      keys.size * 32 +
+      32 + // recent blockhash
+      shortVecLength(numInstructions) +
+      this.instructionsSize +
+      instructionSize(item.instruction)
+    );
+  }
+
+  add(item: PackableInstruction, computeUnits: number, index: number) {
+    addKeys(item, this.keys, this.signerKeys);
+    this.instructionsSize += instructionSize(item.instruction);
+    this.computeUnits += computeUnits;
+    this.items.push(item);
+    this.indices.push(index);
+  }
+
+  finish(): PackedTransaction {
+    const signers: Account[] = [];
+    for (const item of this.items) {
+      for (const signer of item.signers ?? []) {
+        if (!signers.some((s) => s.publicKey.equals(signer.publicKey))) {
+          signers.push(signer);
+        }
+      }
+    }
+    return {
+      transaction: new Transaction().add(
+        ...this.items.map((item) => item.instruction),
+      ),
+      signers,
+      indices: this.indices,
+    };
+  }
+}
+
+function addKeys(
+  item: PackableInstruction,
+  keys: Set<string>,
+  signerKeys: Set<string>,
+) {
+  const { instruction, signers = [] } = item;
+  keys.add(instruction.programId.toBase58());
+  for (const { pubkey, isSigner } of instruction.keys) {
+    keys.add(pubkey.toBase58());
+    if (isSigner) {
+      signerKeys.add(pubkey.toBase58());
+    }
+  }
+  for (const signer of signers) {
+    keys.add(signer.publicKey.toBase58());
+    signerKeys.add(signer.publicKey.toBase58());
+  }
+}
+
+/** Program id index, account indices and data, each with its length prefix */
+function instructionSize(instruction: TransactionInstruction): number {
+  return (
+    1 +
+    shortVecLength(instruction.keys.length) +
+    instruction.keys.length +
+    shortVecLength(instruction.data.length) +
+    instruction.data.length
+  );
+}
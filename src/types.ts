@@ -1,4 +1,13 @@
-import { PublicKey, Transaction } from '@solana/web3.js';
+import {
+  AddressLookupTableAccount,
+  PublicKey,
+  Transaction,
+  TransactionError,
+} from '@solana/web3.js';
+import type { ComputeBudgetOptions } from './computeBudget';
+import type EntropyAccount from './EntropyAccount';
+import type { SendPolicy, SendTransactionResult } from './sendPolicy';
+import type { EntropyError } from './utils';
 
 /** @internal */
 export type Modify<T, R> = Omit<T, keyof R> & R;
@@ -19,3 +28,61 @@ export type PerpOrderType =
   | 'postOnly'
   | 'market'
   | 'postOnlySlide';
+
+/**
+ * Per-call options accepted as the last argument of every EntropyClient action
+ */
+export interface ActionOptions {
+  /** Sign and simulate instead of sending; the action resolves to a SimulationResult */
+  simulate?: boolean;
+  /** Overrides for the client's send policy */
+  sendPolicy?: Partial<SendPolicy>;
+  /**
+   * Resolve to a SendTransactionResult, with the slot, attempts and latency,
+   * instead of the bare signature of each transaction
+   */
+  sendResult?: boolean;
+  /** Overrides for the client's compute unit limit and price */
+  computeBudget?: ComputeBudgetOptions;
+  /**
+   * Send as a v0 transaction using these lookup tables; defaults to the
+   * client's lookupTables. Pass [] to send a legacy transaction. Simulation
+   * always uses a legacy transaction.
+   */
+  lookupTables?: AddressLookupTableAccount[];
+}
+
+export interface SimulationResult {
+  err: TransactionError | string | null;
+  /** err decoded the same way a failed send would be */
+  error?: EntropyError;
+  logs: string[];
+  unitsConsumed?: number;
+  /**
+   * The EntropyAccount the action operates on, as it would be after the
+   * transaction. Open orders accounts it already had are loaded too.
+   */
+  entropyAccount?: EntropyAccount;
+}
+
+/** What an action resolves to: T when sent, a SimulationResult per transaction when simulated */
+export type SimulatedOr<O extends ActionOptions, T> = O extends {
+  simulate: true;
+}
+  ? T extends any[]
+    ? SimulationResult[]
+    : SimulationResult
+  : T;
+
+/**
+ * What an action that sends signatures resolves to: like SimulatedOr, with a
+ * SendTransactionResult in place of each signature when `sendResult` is set
+ */
+export type ActionResult<O extends ActionOptions, T> = SimulatedOr<
+  O,
+  O extends { sendResult: true }
+    ? T extends any[]
+      ? SendTransactionResult[]
+      : SendTransactionResult
+    : T
+>;
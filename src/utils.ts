@@ -58,11 +58,27 @@ export class TimeoutError extends Error {
 export class EntropyError extends Error {
   message: string;
   txid: string;
-
-  constructor({ txid, message }) {
+  /** Stable name of the failure, e.g. 'InsufficientHealth'. See decodeTransactionError */
+  code?: string;
+  /** Index of the failing instruction within the transaction */
+  instructionIndex?: number;
+
+  constructor({
+    txid,
+    message,
+    code,
+    instructionIndex,
+  }: {
+    txid: string;
+    message: string;
+    code?: string;
+    instructionIndex?: number;
+  }) {
     super();
     this.message = message;
     this.txid = txid;
+    this.code = code;
+    this.instructionIndex = instructionIndex;
   }
 }
 
@@ -216,10 +232,15 @@ export async function sleep(ms) {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/**
+ * @param accounts Addresses whose post-simulation state should be returned,
+ * base64 encoded, in `value.accounts`
+ */
 export async function simulateTransaction(
   connection: Connection,
   transaction: Transaction,
   commitment: Commitment,
+  accounts?: PublicKey[],
 ): Promise<RpcResponseAndContext<SimulatedTransactionResponse>> {
   // @ts-ignore
   transaction.recentBlockhash = await connection._recentBlockhash(
@@ -232,6 +253,12 @@ export async function simulateTransaction(
   const wireTransaction = transaction._serialize(signData);
   const encodedTransaction = wireTransaction.toString('base64');
   const config: any = { encoding: 'base64', commitment };
+  if (accounts) {
+    config.accounts = {
+      encoding: 'base64',
+      addresses: accounts.map((pk) => pk.toBase58()),
+    };
+  }
   const args = [encodedTransaction, config];
 
   // @ts-ignore
@@ -0,0 +1,136 @@
+import { expect } from 'chai';
+import { Account, PublicKey } from '@solana/web3.js';
+import { AccountLoader } from '../src/accountLoader';
+
+/**
+ * A connection whose getMultipleAccountsInfoAndContext returns each key's base58 string as
+ * account data and records the keys and concurrency of every request
+ */
+function makeConnection(
+  opts: { missing?: PublicKey[]; rateLimited?: number; latency?: number } = {},
+) {
+  const requests: string[][] = [];
+  let inFlight = 0;
+  let maxInFlight = 0;
+  let rateLimited = opts.rateLimited ?? 0;
+  const missing = new Set((opts.missing ?? []).map((pk) => pk.toBase58()));
+
+  const connection = {
+    commitment: 'processed',
+    async getMultipleAccountsInfoAndContext(publicKeys: PublicKey[]) {
+      if (rateLimited > 0) {
+        rateLimited--;
+        throw new Error('429 Too Many Requests: {"message":"rate limited"}');
+      }
+      const keys = publicKeys.map((pk) => pk.toBase58());
+      requests.push(keys);
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await new Promise((resolve) => setTimeout(resolve, opts.latency ?? 5));
+      inFlight--;
+      return {
+        context: { slot: 1 },
+        value: keys.map((key) =>
+          missing.has(key)
+            ? null
+            : {
+                data: Buffer.from(key),
+                executable: false,
+                owner: PublicKey.default,
+                lamports: 1,
+              },
+        ),
+      };
+    },
+  };
+  return {
+    connection: connection as any,
+    requests,
+    maxInFlight: () => maxInFlight,
+  };
+}
+
+function makeKeys(n: number): PublicKey[] {
+  return [...Array(n)].map(() => new Account().publicKey);
+}
+
+describe('accountLoader', async () => {
+  it('loads keys in chunks with bounded concurrency', async () => {
+    const { connection, requests, maxInFlight } = makeConnection();
+    const loader = new AccountLoader(connection, {
+      chunkSize: 10,
+      maxConcurrency: 2,
+    });
+    const keys = makeKeys(55);
+
+    const accounts = await loader.loadMultiple(keys);
+
+    expect(requests.map((r) => r.length)).to.deep.equal([
+      10, 10, 10, 10, 10, 5,
+    ]);
+    expect(maxInFlight()).to.equal(2);
+    expect(accounts.map((a) => a.publicKey)).to.deep.equal(keys);
+    accounts.forEach((a) => {
+      expect(a.accountInfo.data.toString()).to.equal(a.publicKey.toBase58());
+      expect(a.context.slot).to.equal(1);
+    });
+  });
+
+  it('shares one request for keys asked for in the same tick', async () => {
+    const { connection, requests } = makeConnection();
+    const loader = new AccountLoader(connection);
+    const [a, b] = makeKeys(2);
+
+    const [first, second, third] = await Promise.all([
+      loader.load(a),
+      loader.loadMultiple([a, b]),
+      loader.load(new PublicKey(a.toBase58())),
+    ]);
+
+    expect(requests).to.deep.equal([[a.toBase58(), b.toBase58()]]);
+    expect(first).to.equal(third);
+    expect(second[0]).to.equal(first);
+
+    // a later tick asks again
+    await loader.load(a);
+    expect(requests).to.have.length(2);
+  });
+
+  it('retries rate limited requests with backoff', async () => {
+    const { connection, requests } = makeConnection({ rateLimited: 2 });
+    const loader = new AccountLoader(connection, { retryDelay: 10 });
+
+    const start = Date.now();
+    const account = await loader.load(makeKeys(1)[0]);
+
+    expect(account).to.not.equal(null);
+    expect(requests).to.have.length(1);
+    // 10ms then 20ms
+    expect(Date.now() - start).to.be.at.least(30);
+  });
+
+  it('gives up after maxRetries', async () => {
+    const { connection } = makeConnection({ rateLimited: 3 });
+    const loader = new AccountLoader(connection, {
+      maxRetries: 2,
+      retryDelay: 1,
+    });
+
+    let error: any;
+    try {
+      await loader.load(makeKeys(1)[0]);
+    } catch (e) {
+      error = e;
+    }
+    expect(error?.message).to.match(/^429/);
+  });
+
+  it('leaves out accounts that do not exist', async () => {
+    const keys = makeKeys(3);
+    const { connection } = makeConnection({ missing: [keys[1]] });
+    const loader = new AccountLoader(connection);
+
+    expect(await loader.load(keys[1])).to.equal(null);
+    const accounts = await loader.loadMultiple(keys);
+    expect(accounts.map((a) => a.publicKey)).to.deep.equal([keys[0], keys[2]]);
+  });
+});
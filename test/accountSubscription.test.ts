@@ -0,0 +1,259 @@
+import { expect } from 'chai';
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PublicKey } from '@solana/web3.js';
+import { AccountLoader } from '../src/accountLoader';
+import { EntropyAccountSubscription } from '../src/accountSubscription';
+import EntropyAccount from '../src/EntropyAccount';
+import { AdvancedOrdersLayout, EntropyAccountLayout } from '../src/layout';
+import { ConsoleLogger } from '../src/logger';
+import { zeroKey } from '../src/utils';
+import { loadTestEntropyAccount } from './testdata';
+
+interface StoredAccount {
+  data: Buffer;
+  owner: PublicKey;
+}
+
+/**
+ * A connection serving the account1 fixtures at the current slot, with
+ * account change listeners that notify() triggers
+ */
+function makeConnection() {
+  const accounts = new Map<string, StoredAccount>();
+  const dir = path.join(__dirname, 'testdata', 'account1');
+  for (const file of fs.readdirSync(dir)) {
+    if (!file.endsWith('.json')) continue;
+    const json = require(`./testdata/account1/${file}`);
+    accounts.set(json.address, {
+      data: Buffer.from(json.data[0], 'base64'),
+      owner: new PublicKey(json.owner),
+    });
+  }
+
+  let nextId = 0;
+  const listeners = new Map<number, { key: string; callback: any }>();
+  const state = { slot: 10 };
+  const toInfo = (account: StoredAccount) => ({
+    data: account.data,
+    owner: account.owner,
+    executable: false,
+    lamports: 1,
+  });
+
+  const connection = {
+    _rpcWebSocket: new EventEmitter(),
+    async getMultipleAccountsInfoAndContext(publicKeys: PublicKey[]) {
+      return {
+        context: { slot: state.slot },
+        value: publicKeys.map((pk) => {
+          const account = accounts.get(pk.toBase58());
+          return account
+            ? { ...account, executable: false, lamports: 1 }
+            : null;
+        }),
+      };
+    },
+    onAccountChange(publicKey: PublicKey, callback: any) {
+      listeners.set(nextId, { key: publicKey.toBase58(), callback });
+      return nextId++;
+    },
+    async removeAccountChangeListener(id: number) {
+      listeners.delete(id);
+    },
+  };
+
+  const notify = (key: string, slot: number) => {
+    for (const listener of listeners.values()) {
+      if (listener.key === key) {
+        listener.callback(toInfo(accounts.get(key) as StoredAccount), {
+          slot,
+        });
+      }
+    }
+  };
+  return { connection: connection as any, accounts, listeners, state, notify };
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+describe('accountSubscription', async () => {
+  const fixture = loadTestEntropyAccount('./testdata/account1/account.json');
+  const openOrdersKeys = fixture.spotOpenOrders.filter(
+    (pk) => !pk.equals(zeroKey),
+  );
+  const logger = new ConsoleLogger('error');
+  let subscription: EntropyAccountSubscription | undefined;
+
+  function subscribe(connection: any, updates: [EntropyAccount, number][]) {
+    subscription = new EntropyAccountSubscription(
+      connection,
+      new AccountLoader(connection),
+      fixture.publicKey,
+      (account, slot) => updates.push([account, slot]),
+      { logger, resyncInterval: 0 },
+    );
+    return subscription;
+  }
+
+  function withAdvancedOrders(accounts: Map<string, StoredAccount>) {
+    if (!fixture.advancedOrdersKey.equals(zeroKey)) {
+      accounts.set(fixture.advancedOrdersKey.toBase58(), {
+        data: Buffer.alloc(AdvancedOrdersLayout.span),
+        owner: PublicKey.default,
+      });
+    }
+  }
+
+  afterEach(async () => {
+    await subscription?.close();
+    subscription = undefined;
+  });
+
+  it('delivers the account with its open orders decoded', async () => {
+    const { connection, accounts, listeners } = makeConnection();
+    withAdvancedOrders(accounts);
+    const updates: [EntropyAccount, number][] = [];
+    const account = await subscribe(connection, updates).ready;
+
+    await tick();
+    expect(updates).to.have.length(1);
+    expect(updates[0][1]).to.equal(10);
+    expect(account.owner.toBase58()).to.equal(fixture.owner.toBase58());
+    const openOrders = account.spotOpenOrdersAccounts.filter((oo) => oo);
+    expect(openOrders).to.have.length(openOrdersKeys.length);
+    expect(openOrdersKeys.length).to.be.greaterThan(0);
+    // the account, its open orders and advanced orders are all followed
+    const followed = [...listeners.values()].map((l) => l.key);
+    for (const pk of openOrdersKeys) {
+      expect(followed).to.include(pk.toBase58());
+    }
+  });
+
+  it('delivers changes to open orders and drops stale notifications', async () => {
+    const { connection, accounts, notify } = makeConnection();
+    withAdvancedOrders(accounts);
+    const updates: [EntropyAccount, number][] = [];
+    await subscribe(connection, updates).ready;
+
+    const key = openOrdersKeys[0].toBase58();
+    notify(key, 12);
+    notify(key, 12);
+    notify(key, 11);
+    await tick();
+    expect(updates.map(([, slot]) => slot)).to.deep.equal([10, 12]);
+
+    // changes in the same tick are delivered together
+    notify(fixture.publicKey.toBase58(), 13);
+    notify(key, 13);
+    await tick();
+    expect(updates.map(([, slot]) => slot)).to.deep.equal([10, 12, 13]);
+  });
+
+  it('reloads after the websocket reconnects', async () => {
+    const { connection, accounts, state } = makeConnection();
+    withAdvancedOrders(accounts);
+    const updates: [EntropyAccount, number][] = [];
+    await subscribe(connection, updates).ready;
+
+    // a change made while disconnected
+    state.slot = 20;
+    connection._rpcWebSocket.emit('close');
+    connection._rpcWebSocket.emit('open');
+    await tick();
+    expect(updates.map(([, slot]) => slot)).to.deep.equal([10, 20]);
+
+    // nothing newer, nothing delivered
+    connection._rpcWebSocket.emit('open');
+    await tick();
+    expect(updates).to.have.length(2);
+
+    // no longer reloads once closed
+    await subscription?.close();
+    state.slot = 30;
+    connection._rpcWebSocket.emit('open');
+    await tick();
+    expect(updates).to.have.length(2);
+  });
+
+  it('falls back to resyncInterval without a websocket to watch', async () => {
+    const { connection, accounts, state } = makeConnection();
+    withAdvancedOrders(accounts);
+    delete connection._rpcWebSocket;
+    const warnings: string[] = [];
+    const updates: [EntropyAccount, number][] = [];
+    subscription = new EntropyAccountSubscription(
+      connection,
+      new AccountLoader(connection),
+      fixture.publicKey,
+      (account, slot) => updates.push([account, slot]),
+      {
+        logger: Object.assign(new ConsoleLogger('error'), {
+          warn: (message: string) => warnings.push(message),
+        }),
+        resyncInterval: 20,
+      },
+    );
+    await subscription.ready;
+    expect(warnings).to.have.length(1);
+    expect(warnings[0]).to.include('resyncInterval');
+
+    state.slot = 20;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(updates.map(([, slot]) => slot)).to.deep.equal([10, 20]);
+  });
+
+  it('logs listeners it could not remove', async () => {
+    const { connection, accounts, notify } = makeConnection();
+    withAdvancedOrders(accounts);
+    const warnings: string[] = [];
+    const updates: [EntropyAccount, number][] = [];
+    subscription = new EntropyAccountSubscription(
+      connection,
+      new AccountLoader(connection),
+      fixture.publicKey,
+      (account, slot) => updates.push([account, slot]),
+      {
+        logger: Object.assign(new ConsoleLogger('error'), {
+          warn: (message: string) => warnings.push(message),
+        }),
+        resyncInterval: 0,
+      },
+    );
+    await subscription.ready;
+
+    // the account closes one of its open orders and the node fails to unsubscribe
+    const remove = connection.removeAccountChangeListener;
+    connection.removeAccountChangeListener = async () => {
+      throw new Error('socket closed');
+    };
+    const key = fixture.publicKey.toBase58();
+    const { data, owner } = accounts.get(key) as StoredAccount;
+    const changed = Buffer.from(data);
+    const i = fixture.spotOpenOrders.findIndex((pk) => !pk.equals(zeroKey));
+    zeroKey
+      .toBuffer()
+      .copy(changed, EntropyAccountLayout.offsetOf('spotOpenOrders') + 32 * i);
+    accounts.set(key, { data: changed, owner });
+    notify(key, 11);
+    await tick();
+
+    expect(warnings).to.deep.equal(['Could not remove account listener']);
+    expect(updates[updates.length - 1][0].spotOpenOrders[i].equals(zeroKey)).to
+      .be.true;
+    connection.removeAccountChangeListener = remove;
+  });
+
+  it('removes its listeners on close', async () => {
+    const { connection, accounts, listeners } = makeConnection();
+    withAdvancedOrders(accounts);
+    const updates: [EntropyAccount, number][] = [];
+    const sub = subscribe(connection, updates);
+    await sub.ready;
+
+    await sub.close();
+    expect(listeners.size).to.equal(0);
+    expect(connection._rpcWebSocket.listenerCount('open')).to.equal(0);
+  });
+});
@@ -0,0 +1,221 @@
+import { expect } from 'chai';
+import BN from 'bn.js';
+import { Account } from '@solana/web3.js';
+import { diffBookSides } from '../src/book';
+import PerpMarket from '../src/PerpMarket';
+import { ZERO_BN } from '../src/utils';
+import { loadTestEntropyGroup, makeTestBookSide } from './testdata';
+
+describe('book', async () => {
+  const entropyGroup = loadTestEntropyGroup('./testdata/1deposit/group.json');
+  const marketIndex = entropyGroup.perpMarkets.findIndex(
+    (pmi) => !pmi.isEmpty(),
+  );
+  const takerFee = entropyGroup.perpMarkets[marketIndex].takerFee.toNumber();
+  // prices are priceLots / 10 and sizes sizeLots / 10000
+  const perpMarket = new PerpMarket(
+    entropyGroup.perpMarkets[marketIndex].perpMarket,
+    6,
+    6,
+    {
+      bids: new Account().publicKey,
+      asks: new Account().publicKey,
+      baseLotSize: new BN(100),
+      quoteLotSize: new BN(10),
+    },
+  );
+  const alice = new Account().publicKey;
+  const bob = new Account().publicKey;
+
+  it('walks test books best price first', () => {
+    const bids = makeTestBookSide(perpMarket, true, [
+      { priceLots: 100, sizeLots: 1 },
+      { priceLots: 102, sizeLots: 2 },
+      { priceLots: 101, sizeLots: 3 },
+    ]);
+    expect([...bids].map((o) => o.priceLots.toNumber())).to.deep.equal([
+      102, 101, 100,
+    ]);
+    expect(bids.getBest()?.priceLots.toNumber()).to.equal(102);
+
+    const asks = makeTestBookSide(perpMarket, false, [
+      { priceLots: 105, sizeLots: 1 },
+      { priceLots: 103, sizeLots: 2 },
+    ]);
+    expect([...asks].map((o) => o.priceLots.toNumber())).to.deep.equal([
+      103, 105,
+    ]);
+    expect(asks.getBest()?.priceLots.toNumber()).to.equal(103);
+  });
+
+  it('diffs orders and levels between snapshots', () => {
+    const prev = makeTestBookSide(perpMarket, true, [
+      { priceLots: 102, sizeLots: 2, owner: alice, seqNum: 1 },
+      { priceLots: 101, sizeLots: 3, owner: bob, seqNum: 2 },
+      { priceLots: 101, sizeLots: 1, owner: alice, seqNum: 3 },
+      { priceLots: 100, sizeLots: 4, owner: bob, seqNum: 4 },
+    ]);
+    const next = makeTestBookSide(perpMarket, true, [
+      // partially filled
+      { priceLots: 102, sizeLots: 1, owner: alice, seqNum: 1 },
+      { priceLots: 101, sizeLots: 3, owner: bob, seqNum: 2 },
+      // alice's 101 order is cancelled and one placed at 99
+      { priceLots: 100, sizeLots: 4, owner: bob, seqNum: 4 },
+      { priceLots: 99, sizeLots: 5, owner: alice, seqNum: 5 },
+    ]);
+
+    const { orders, levels } = diffBookSides(prev, next);
+    expect(
+      orders.map((e) => [e.type, e.order.priceLots.toNumber()]),
+    ).to.deep.equal([
+      ['changed', 102],
+      ['added', 99],
+      ['removed', 101],
+    ]);
+    expect(orders[0].previousSizeLots.toNumber()).to.equal(2);
+    expect(orders[0].order.sizeLots.toNumber()).to.equal(1);
+    expect(orders[2].order.owner.toBase58()).to.equal(alice.toBase58());
+
+    expect(
+      levels.map((l) => [
+        l.priceLots.toNumber(),
+        l.previousSizeLots.toNumber(),
+        l.sizeLots.toNumber(),
+      ]),
+    ).to.deep.equal([
+      [102, 2, 1],
+      [101, 4, 3],
+      [99, 0, 5],
+    ]);
+    expect(levels[0].side).to.equal('buy');
+    expect(levels[0].price).to.equal(perpMarket.priceLotsToNumber(new BN(102)));
+  });
+
+  it('lists the whole book without a previous snapshot', () => {
+    const asks = makeTestBookSide(perpMarket, false, [
+      { priceLots: 105, sizeLots: 1 },
+      { priceLots: 103, sizeLots: 2 },
+      { priceLots: 103, sizeLots: 3 },
+    ]);
+    const { orders, levels } = diffBookSides(undefined, asks);
+    expect(orders.every((e) => e.type === 'added')).to.equal(true);
+    expect(orders).to.have.length(3);
+    expect(levels.map((l) => [l.priceLots.toNumber(), l.size])).to.deep.equal([
+      [103, 0.0005],
+      [105, 0.0001],
+    ]);
+    expect(diffBookSides(asks, asks)).to.deep.equal({ orders: [], levels: [] });
+
+    // each entry gets its own zero, so changing one leaves the others alone
+    orders[0].previousSizeLots.iaddn(1);
+    expect(orders[1].previousSizeLots.toNumber()).to.equal(0);
+    expect(ZERO_BN.toNumber()).to.equal(0);
+  });
+
+  it('finds orders by order id, client id and owner', () => {
+    const bids = makeTestBookSide(perpMarket, true, [
+      { priceLots: 100, sizeLots: 1, owner: alice, clientId: 7, seqNum: 1 },
+      { priceLots: 102, sizeLots: 2, owner: bob, clientId: 7, seqNum: 2 },
+      { priceLots: 101, sizeLots: 3, owner: alice, seqNum: 3 },
+    ]);
+    const orderId = new BN(102).shln(64).addn(2);
+    expect(bids.findByOrderId(orderId)?.owner.toBase58()).to.equal(
+      bob.toBase58(),
+    );
+    expect(bids.findByOrderId(new BN(1))).to.equal(undefined);
+    expect(
+      bids.findByClientId(alice, new BN(7))?.priceLots.toNumber(),
+    ).to.equal(100);
+    expect(bids.findByClientId(bob, new BN(8))).to.equal(undefined);
+    expect(
+      bids.ordersByOwner(alice).map((o) => o.priceLots.toNumber()),
+    ).to.deep.equal([101, 100]);
+    expect(bids.ordersByOwner(new Account().publicKey)).to.be.empty;
+
+    // decoded once; later walks reuse the orders
+    expect([...bids][0]).to.equal(bids.getBest());
+    expect(bids.getOrders()).to.equal(bids.getOrders());
+  });
+
+  it('leaves the orders untouched when building levels', () => {
+    const asks = makeTestBookSide(perpMarket, false, [
+      { priceLots: 103, sizeLots: 2 },
+      { priceLots: 103, sizeLots: 3 },
+    ]);
+    expect(asks.getL2(5)[0][3].toNumber()).to.equal(5);
+    expect(asks.getL2(5)[0][3].toNumber()).to.equal(5);
+    expect(asks.getBest()?.sizeLots.toNumber()).to.equal(2);
+  });
+
+  describe('simulateTakerOrder', () => {
+    const asks = makeTestBookSide(perpMarket, false, [
+      { priceLots: 103, sizeLots: 2 },
+      { priceLots: 103, sizeLots: 3 },
+      { priceLots: 105, sizeLots: 1 },
+      { priceLots: 110, sizeLots: 4 },
+    ]);
+
+    it('fills a quantity across levels', () => {
+      const sim = asks.simulateTakerOrder({ quantity: 0.0006, entropyGroup });
+      expect(sim.side).to.equal('buy');
+      expect(sim.levelsConsumed).to.equal(2);
+      expect(sim.worstPrice).to.equal(10.5);
+      expect(sim.filledQuantity).to.equal(0.0006);
+      expect(sim.filledQuote).to.be.closeTo(0.0062, 1e-12);
+      expect(sim.averagePrice).to.be.closeTo(0.0062 / 0.0006, 1e-9);
+      expect(sim.unfilledQuantity).to.equal(0);
+      expect(sim.takerFee).to.be.closeTo(0.0062 * takerFee, 1e-12);
+    });
+
+    it('stops at the limit price and reports what is left', () => {
+      const sim = asks.simulateTakerOrder({
+        quantity: 0.0008,
+        limitPrice: 10.4,
+        entropyGroup,
+      });
+      expect(sim.levelsConsumed).to.equal(1);
+      expect(sim.worstPrice).to.equal(10.3);
+      expect(sim.filledQuantity).to.equal(0.0005);
+      expect(sim.unfilledQuantity).to.equal(0.0003);
+
+      const none = asks.simulateTakerOrder({
+        quantity: 0.0001,
+        limitPrice: 10,
+        entropyGroup,
+      });
+      expect(none.filledQuantity).to.equal(0);
+      expect(none.averagePrice).to.equal(undefined);
+      expect(none.worstPrice).to.equal(undefined);
+      expect(none.takerFee).to.equal(0);
+    });
+
+    it('spends a quote amount', () => {
+      const sim = asks.simulateTakerOrder({
+        quoteAmount: 0.0041,
+        entropyGroup,
+      });
+      // 2 lots at 103 and 1 more, after which 101 quote lots buy nothing
+      expect(sim.filledQuantity).to.equal(0.0003);
+      expect(sim.filledQuote).to.be.closeTo(0.00309, 1e-12);
+      expect(sim.unfilledQuote).to.be.closeTo(0.00101, 1e-12);
+      expect(sim.unfilledQuantity).to.equal(0);
+    });
+
+    it('sells into bids', () => {
+      const bids = makeTestBookSide(perpMarket, true, [
+        { priceLots: 100, sizeLots: 1 },
+        { priceLots: 99, sizeLots: 5 },
+      ]);
+      const sim = bids.simulateTakerOrder({
+        quantity: 1,
+        limitPrice: 9.9,
+        entropyGroup,
+      });
+      expect(sim.side).to.equal('sell');
+      expect(sim.levelsConsumed).to.equal(2);
+      expect(sim.worstPrice).to.equal(9.9);
+      expect(sim.filledQuantity).to.equal(0.0006);
+      expect(sim.unfilledQuantity).to.equal(0.9994);
+    });
+  });
+});
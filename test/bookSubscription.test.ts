@@ -0,0 +1,137 @@
+import { expect } from 'chai';
+import BN from 'bn.js';
+import { Account, PublicKey } from '@solana/web3.js';
+import { BookUpdate } from '../src/bookSubscription';
+import { ConsoleLogger } from '../src/logger';
+import PerpMarket from '../src/PerpMarket';
+import { encodeTestBookSide, TestOrder } from './testdata';
+
+/** A connection holding the book accounts, with listeners notify() triggers */
+function makeConnection(perpMarket: PerpMarket) {
+  const accounts = new Map<string, Buffer>([
+    [perpMarket.bids.toBase58(), encodeTestBookSide(true, [])],
+    [perpMarket.asks.toBase58(), encodeTestBookSide(false, [])],
+  ]);
+  let nextId = 0;
+  const listeners = new Map<number, { key: string; callback: any }>();
+  const toInfo = (data: Buffer) => ({
+    data,
+    owner: PublicKey.default,
+    executable: false,
+    lamports: 1,
+  });
+
+  const connection = {
+    async getAccountInfoAndContext(publicKey: PublicKey) {
+      return {
+        context: { slot: 10 },
+        value: toInfo(accounts.get(publicKey.toBase58()) as Buffer),
+      };
+    },
+    onAccountChange(publicKey: PublicKey, callback: any) {
+      listeners.set(nextId, { key: publicKey.toBase58(), callback });
+      return nextId++;
+    },
+    async removeAccountChangeListener(id: number) {
+      listeners.delete(id);
+    },
+  };
+
+  const notify = (
+    publicKey: PublicKey,
+    isBids: boolean,
+    orders: TestOrder[],
+    slot: number,
+  ) => {
+    const data = encodeTestBookSide(isBids, orders);
+    accounts.set(publicKey.toBase58(), data);
+    for (const listener of listeners.values()) {
+      if (listener.key === publicKey.toBase58()) {
+        listener.callback(toInfo(data), { slot });
+      }
+    }
+  };
+  return { connection: connection as any, listeners, notify };
+}
+
+describe('bookSubscription', async () => {
+  const perpMarket = new PerpMarket(new Account().publicKey, 6, 6, {
+    bids: new Account().publicKey,
+    asks: new Account().publicKey,
+    baseLotSize: new BN(100),
+    quoteLotSize: new BN(10),
+  });
+  const logger = new ConsoleLogger('error');
+
+  it('delivers diffs of each side and drops stale notifications', async () => {
+    const { connection, notify } = makeConnection(perpMarket);
+    const updates: BookUpdate[] = [];
+    const subscription = perpMarket.subscribeBook(
+      connection,
+      (update) => updates.push(update),
+      { logger },
+    );
+    await subscription.ready;
+    expect(updates.map((u) => [u.side, u.slot])).to.deep.equal([
+      ['buy', 10],
+      ['sell', 10],
+    ]);
+
+    notify(perpMarket.bids, true, [{ priceLots: 100, sizeLots: 2 }], 11);
+    notify(perpMarket.bids, true, [{ priceLots: 99, sizeLots: 2 }], 11);
+    notify(perpMarket.asks, false, [{ priceLots: 101, sizeLots: 1 }], 12);
+    expect(updates).to.have.length(4);
+    expect(updates[2].diff.orders.map((e) => e.type)).to.deep.equal(['added']);
+    expect(updates[2].bookSide.getBest()?.priceLots.toNumber()).to.equal(100);
+    expect(subscription.bids?.getBest()?.priceLots.toNumber()).to.equal(100);
+    expect(updates[3].diff.levels[0].priceLots.toNumber()).to.equal(101);
+
+    // a change that leaves the orders as they were is not delivered
+    notify(perpMarket.asks, false, [{ priceLots: 101, sizeLots: 1 }], 13);
+    expect(updates).to.have.length(4);
+
+    await subscription.close();
+  });
+
+  it('logs a failed first load instead of leaving it unhandled', async () => {
+    const { connection, notify } = makeConnection(perpMarket);
+    connection.getAccountInfoAndContext = async () => {
+      throw new Error('node is behind');
+    };
+    const errors: string[] = [];
+    const updates: BookUpdate[] = [];
+    const subscription = perpMarket.subscribeBook(
+      connection,
+      (update) => updates.push(update),
+      {
+        logger: Object.assign(new ConsoleLogger('error'), {
+          error: (message: string) => errors.push(message),
+        }),
+      },
+    );
+
+    let error: any;
+    try {
+      await subscription.ready;
+    } catch (e) {
+      error = e;
+    }
+    expect(error?.message).to.equal('node is behind');
+    expect(errors).to.deep.equal(['Could not load book']);
+
+    notify(perpMarket.bids, true, [{ priceLots: 100, sizeLots: 2 }], 11);
+    expect(updates).to.have.length(1);
+    await subscription.close();
+  });
+
+  it('removes its listeners on close', async () => {
+    const { connection, listeners } = makeConnection(perpMarket);
+    const subscription = perpMarket.subscribeBook(connection, () => null, {
+      logger,
+    });
+    await subscription.ready;
+    expect(listeners.size).to.equal(2);
+    await subscription.close();
+    expect(listeners.size).to.equal(0);
+  });
+});
@@ -0,0 +1,154 @@
+import { expect } from 'chai';
+import {
+  Account,
+  ComputeBudgetInstruction,
+  ComputeBudgetProgram,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+} from '@solana/web3.js';
+import { EntropyClient } from '../src/client';
+import { parseComputeBudget } from '../src/computeBudget';
+import { ConsoleLogger } from '../src/logger';
+
+/** Connection whose simulations report unitsConsumed */
+function makeConnection(unitsConsumed: number) {
+  const connection = {
+    simulations: 0,
+    async getLatestBlockhash() {
+      return {
+        blockhash: new Account().publicKey.toBase58(),
+        lastValidBlockHeight: 100,
+      };
+    },
+    async _recentBlockhash() {
+      return new Account().publicKey.toBase58();
+    },
+    async _rpcRequest() {
+      connection.simulations += 1;
+      return {
+        result: { context: { slot: 1 }, value: { err: null, unitsConsumed } },
+      };
+    },
+  };
+  return connection;
+}
+
+function makeTransaction(payer: Account) {
+  return new Transaction().add(
+    SystemProgram.transfer({
+      fromPubkey: payer.publicKey,
+      toPubkey: new Account().publicKey,
+      lamports: 1,
+    }),
+  );
+}
+
+function budgetOf(transaction: Transaction) {
+  const budget: { units?: number; microLamports?: number | bigint } = {};
+  for (const ix of transaction.instructions) {
+    if (!ix.programId.equals(ComputeBudgetProgram.programId)) continue;
+    const type = ComputeBudgetInstruction.decodeInstructionType(ix);
+    if (type === 'SetComputeUnitLimit') {
+      budget.units =
+        ComputeBudgetInstruction.decodeSetComputeUnitLimit(ix).units;
+    } else if (type === 'SetComputeUnitPrice') {
+      budget.microLamports = Number(
+        ComputeBudgetInstruction.decodeSetComputeUnitPrice(ix).microLamports,
+      );
+    }
+  }
+  return budget;
+}
+
+describe('computeBudget', async () => {
+  const payer = new Account();
+
+  it('prepends the client default budget when signing', async () => {
+    const client = new EntropyClient(
+      makeConnection(0) as any,
+      PublicKey.default,
+      { computeBudget: { computeUnitLimit: 300_000, computeUnitPrice: 5 } },
+    );
+    const signed = await client.signTransaction({
+      transaction: makeTransaction(payer),
+      payer,
+      signers: [],
+    });
+    expect(budgetOf(signed)).to.deep.equal({
+      units: 300_000,
+      microLamports: 5,
+    });
+    expect(signed.instructions.length).to.equal(3);
+    expect(signed.verifySignatures()).to.be.true;
+  });
+
+  it('lets a call override the defaults', async () => {
+    const client = new EntropyClient(
+      makeConnection(0) as any,
+      PublicKey.default,
+      { computeBudget: { computeUnitPrice: 5 } },
+    );
+    const [signed] = await client.signTransactions({
+      transactionsAndSigners: [{ transaction: makeTransaction(payer) }],
+      payer,
+      computeBudget: { computeUnitPrice: 50 },
+    });
+    expect(budgetOf(signed)).to.deep.equal({ microLamports: 50 });
+  });
+
+  it('sets the limit from a simulation in auto mode', async () => {
+    const connection = makeConnection(100_000);
+    const client = new EntropyClient(connection as any, PublicKey.default, {
+      computeBudget: { computeUnitLimit: 'auto', autoMargin: 0.2 },
+    });
+    const signed = await client.signTransaction({
+      transaction: makeTransaction(payer),
+      payer,
+      signers: [],
+    });
+    expect(connection.simulations).to.equal(1);
+    expect(budgetOf(signed)).to.deep.equal({ units: 120_000 });
+  });
+
+  it('adds nothing by default', async () => {
+    const client = new EntropyClient(
+      makeConnection(0) as any,
+      PublicKey.default,
+    );
+    const signed = await client.signTransaction({
+      transaction: makeTransaction(payer),
+      payer,
+      signers: [],
+    });
+    expect(signed.instructions.length).to.equal(1);
+  });
+
+  it('parses budgets from strings', () => {
+    expect(parseComputeBudget('auto', '10')).to.deep.equal({
+      computeUnitLimit: 'auto',
+      computeUnitPrice: 10,
+    });
+    expect(parseComputeBudget('0200000', '5')).to.deep.equal({
+      computeUnitLimit: 200000,
+      computeUnitPrice: 5,
+    });
+    expect(parseComputeBudget(undefined, undefined)).to.deep.equal({
+      computeUnitLimit: undefined,
+      computeUnitPrice: undefined,
+    });
+  });
+
+  it('ignores budgets that are not whole numbers with a warning', () => {
+    const warnings: string[] = [];
+    const logger = Object.assign(new ConsoleLogger('error'), {
+      warn: (message: string) => warnings.push(message),
+    });
+    expect(parseComputeBudget('lots', '1.5', logger)).to.deep.equal({
+      computeUnitLimit: undefined,
+      computeUnitPrice: undefined,
+    });
+    expect(warnings).to.have.length(2);
+    expect(warnings[0]).to.include('compute unit limit');
+  });
+});
@@ -0,0 +1,158 @@
+import { expect } from 'chai';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { Account } from '@solana/web3.js';
+import { ConnectionPool } from '../src/connectionPool';
+import { QuorumError } from '../src/errors';
+import { ConsoleLogger } from '../src/logger';
+
+type Handler = (method: string) => any | 'fail' | 'hang';
+
+/** A JSON-RPC server on localhost answering with handler's result */
+async function startServer(handler: Handler) {
+  const calls: string[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const { id, method } = JSON.parse(body);
+      calls.push(method);
+      const result = handler(method);
+      if (result === 'hang') return;
+      if (result === 'fail') {
+        res.writeHead(500);
+        res.end('internal error');
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ jsonrpc: '2.0', id, result }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}`, server, calls };
+}
+
+function accountInfoAt(slot: number) {
+  return { context: { slot }, value: null };
+}
+
+describe('connectionPool', async () => {
+  const servers: http.Server[] = [];
+  const logger = new ConsoleLogger('error');
+
+  async function start(handler: Handler) {
+    const started = await startServer(handler);
+    servers.push(started.server);
+    return started;
+  }
+
+  afterEach(() => {
+    servers.forEach((server) => {
+      server.closeAllConnections?.();
+      server.close();
+    });
+    servers.length = 0;
+  });
+
+  it('fails over to the next endpoint on errors', async () => {
+    const bad = await start(() => 'fail');
+    const good = await start(() => 42);
+    const pool = new ConnectionPool([bad.url, good.url], { logger });
+
+    expect(await pool.getSlot()).to.equal(42);
+    expect(pool.active).to.equal(1);
+    expect(bad.calls).to.deep.equal(['getSlot']);
+
+    // the working endpoint stays active
+    await pool.getSlot();
+    expect(bad.calls).to.have.length(1);
+  });
+
+  it('fails over when an endpoint stalls', async () => {
+    const stalled = await start(() => 'hang');
+    const good = await start(() => 7);
+    const pool = new ConnectionPool([stalled.url, good.url], {
+      logger,
+      requestTimeout: 200,
+    });
+
+    expect(await pool.getSlot()).to.equal(7);
+  });
+
+  it('broadcasts transactions to every endpoint', async () => {
+    const txid = new Account().publicKey.toBase58();
+    const a = await start(() => txid);
+    const b = await start(() => 'fail');
+    const c = await start(() => txid);
+    const pool = new ConnectionPool([a.url, b.url, c.url], {
+      logger,
+      broadcast: true,
+    });
+
+    expect(await pool.sendRawTransaction(Buffer.alloc(10))).to.equal(txid);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    for (const server of [a, b, c]) {
+      expect(server.calls).to.deep.equal(['sendTransaction']);
+    }
+  });
+
+  it('requires a quorum to agree on data within a few slots', async () => {
+    const a = await start(() => accountInfoAt(10));
+    const b = await start(() => ({ ...accountInfoAt(11), value: 'stale' }));
+    const c = await start(() => accountInfoAt(12));
+    const pool = new ConnectionPool([a.url, b.url, c.url], { logger });
+    const address = new Account().publicKey;
+
+    // a and c agree on the data, so the newer of them is returned
+    const { context } = await pool.quorum().getAccountInfoAndContext(address);
+    expect(context.slot).to.equal(12);
+
+    let error: any;
+    try {
+      await new ConnectionPool([a.url, b.url, c.url], {
+        logger,
+        quorum: 2,
+        quorumSlotTolerance: 1,
+        quorumAttempts: 1,
+      }).getAccountInfoAndContext(address);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).to.be.instanceOf(QuorumError);
+  });
+
+  it('throws QuorumError when endpoints disagree', async () => {
+    let lamports = 0;
+    const accountInfo = () => ({
+      context: { slot: 10 },
+      value: {
+        data: ['', 'base64'],
+        executable: false,
+        lamports: ++lamports,
+        owner: new Account().publicKey.toBase58(),
+        rentEpoch: 0,
+      },
+    });
+    const a = await start(accountInfo);
+    const b = await start(accountInfo);
+    const pool = new ConnectionPool([a.url, b.url], {
+      logger,
+      quorum: 2,
+      quorumAttempts: 2,
+      quorumRetryDelay: 100,
+    });
+
+    const startedAt = Date.now();
+    let error: any;
+    try {
+      await pool.getAccountInfoAndContext(new Account().publicKey);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).to.be.instanceOf(QuorumError);
+    expect(a.calls).to.have.length(2);
+    // waited between the rounds
+    expect(Date.now() - startedAt).to.be.at.least(100);
+  });
+});
@@ -0,0 +1,251 @@
+import { expect } from 'chai';
+import { Account, PublicKey } from '@solana/web3.js';
+import { AccountLoader } from '../src/accountLoader';
+import EntropyAccount from '../src/EntropyAccount';
+import { EntropyAccountIndex } from '../src/entropyAccountIndex';
+import { EntropyAccountLayout, QUOTE_INDEX } from '../src/layout';
+import { ConsoleLogger } from '../src/logger';
+import { zeroKey } from '../src/utils';
+import { loadTestEntropyCache, loadTestEntropyGroup } from './testdata';
+
+const accountDirs = [
+  '1deposit',
+  'account3',
+  'account4',
+  'account5',
+  'account6',
+];
+
+function accountJson(dir: string) {
+  return require(`./testdata/${dir}/account.json`);
+}
+
+/**
+ * account3 to account6 are one account at different times, so each fixture
+ * gets a key of its own
+ */
+const fixtures = accountDirs.map(
+  (dir) =>
+    new EntropyAccount(
+      new Account().publicKey,
+      EntropyAccountLayout.decode(
+        Buffer.from(accountJson(dir).data[0], 'base64'),
+      ),
+    ),
+);
+
+/**
+ * A client whose getAllEntropyAccounts returns the fixtures, after calling
+ * duringLoad if given, and whose connection is at connection.slot, serves
+ * account5's open orders and records subscriptions
+ */
+function makeClient(duringLoad?: () => Promise<void>) {
+  const openOrders = new Map<string, any>();
+  for (const i of [0, 1, 2, 3, 8]) {
+    const json = require(`./testdata/account5/openorders${i}.json`);
+    openOrders.set(json.address, json);
+  }
+
+  const subscriptions = new Map<number, PublicKey>();
+  let nextId = 0;
+  const connection = {
+    async getMultipleAccountsInfoAndContext(publicKeys: PublicKey[]) {
+      return {
+        context: { slot: 1 },
+        value: publicKeys.map((pk) => {
+          const json = openOrders.get(pk.toBase58());
+          return json
+            ? {
+                data: Buffer.from(json.data[0], 'base64'),
+                executable: false,
+                owner: new PublicKey(json.owner),
+                lamports: 1,
+              }
+            : null;
+        }),
+      };
+    },
+    slot: 100,
+    async getSlot() {
+      return this.slot;
+    },
+    onProgramAccountChange(programId: PublicKey) {
+      subscriptions.set(nextId, programId);
+      return nextId++;
+    },
+    async removeProgramAccountChangeListener(id: number) {
+      subscriptions.delete(id);
+    },
+  };
+
+  const client = {
+    connection,
+    programId: new PublicKey(accountJson('1deposit').owner),
+    logger: new ConsoleLogger('error'),
+    accountLoader: new AccountLoader(connection as any),
+    async getAllEntropyAccounts() {
+      await duringLoad?.();
+      return fixtures;
+    },
+  };
+  return { client: client as any, subscriptions, openOrders };
+}
+
+describe('entropyAccountIndex', async () => {
+  const entropyGroup = loadTestEntropyGroup('./testdata/1deposit/group.json');
+  const entropyCache = loadTestEntropyCache('./testdata/account4/cache.json');
+
+  async function loadIndex(includeOpenOrders = false) {
+    const { client, subscriptions } = makeClient();
+    const index = await new EntropyAccountIndex(client, entropyGroup, {
+      includeOpenOrders,
+    }).load();
+    return { index, subscriptions };
+  }
+
+  it('answers queries from the loaded accounts', async () => {
+    const { index } = await loadIndex();
+    expect(index.size).to.equal(accountDirs.length);
+
+    const [first, second] = fixtures;
+    expect(index.byOwner(second.owner)).to.include(second);
+    expect(index.byOwner(second.owner)).to.not.include(first);
+    expect(index.get(first.publicKey)).to.equal(first);
+
+    const top = index.topByDeposit(QUOTE_INDEX, 3);
+    expect(top).to.have.length(3);
+    for (let i = 1; i < top.length; i++) {
+      expect(
+        top[i - 1].deposits[QUOTE_INDEX].gte(top[i].deposits[QUOTE_INDEX]),
+      ).to.equal(true);
+    }
+
+    const marketIndex = 0;
+    const positions = index
+      .topByPerpPosition(marketIndex)
+      .map((a) => a.perpAccounts[marketIndex].basePosition.abs());
+    for (let i = 1; i < positions.length; i++) {
+      expect(positions[i - 1].gte(positions[i])).to.equal(true);
+    }
+  });
+
+  it('finds accounts below a health ratio, lowest first', async () => {
+    const { index } = await loadIndex();
+    const ratio = (a: EntropyAccount) =>
+      a.getHealthRatio(entropyGroup, entropyCache, 'Maint').toNumber();
+    // 1deposit has no borrows, so sits at 100 and is not below it
+    const below = index.accountsBelowHealthRatio(100, entropyCache);
+    const expected = index.all().filter((a) => ratio(a) < 100);
+    expect(below).to.have.length(expected.length);
+    expect(below.length).to.be.greaterThan(0);
+    expect(below.length).to.be.lessThan(index.size);
+    for (let i = 1; i < below.length; i++) {
+      expect(ratio(below[i - 1])).to.be.at.most(ratio(below[i]));
+    }
+  });
+
+  it('applies account and open orders changes', async () => {
+    const { client, openOrders } = makeClient();
+    const index = new EntropyAccountIndex(client, entropyGroup);
+    const json = accountJson('account5');
+    const publicKey = new PublicKey(json.address);
+    const accountInfo = {
+      data: Buffer.from(json.data[0], 'base64'),
+      owner: new PublicKey(json.owner),
+      executable: false,
+      lamports: 1,
+    };
+
+    const updated = await index.applyAccountChange(publicKey, accountInfo);
+    expect(index.get(publicKey)).to.equal(updated);
+    const loaded = updated.spotOpenOrdersAccounts.filter((oo) => oo);
+    expect(loaded).to.have.length(
+      updated.spotOpenOrders.filter((pk) => !pk.equals(zeroKey)).length,
+    );
+
+    // open orders held already are kept on the next change
+    const again = await index.applyAccountChange(publicKey, accountInfo);
+    expect(again.spotOpenOrdersAccounts[0]).to.equal(
+      updated.spotOpenOrdersAccounts[0],
+    );
+
+    const openOrdersPk = updated.spotOpenOrders[0];
+    const ooJson = openOrders.get(openOrdersPk.toBase58());
+    index.applyOpenOrdersChange(openOrdersPk, {
+      data: Buffer.from(ooJson.data[0], 'base64'),
+      owner: new PublicKey(ooJson.owner),
+      executable: false,
+      lamports: 1,
+    });
+    expect(again.spotOpenOrdersAccounts[0]).to.not.equal(
+      updated.spotOpenOrdersAccounts[0],
+    );
+    expect(again.spotOpenOrdersAccounts[0]?.publicKey.toBase58()).to.equal(
+      openOrdersPk.toBase58(),
+    );
+  });
+
+  it('drops changes older than the last one applied', async () => {
+    const { client } = makeClient();
+    const index = new EntropyAccountIndex(client, entropyGroup, {
+      includeOpenOrders: false,
+    });
+    const [older, newer] = ['account3', 'account4'].map((dir) => ({
+      data: Buffer.from(accountJson(dir).data[0], 'base64'),
+      owner: new PublicKey(accountJson(dir).owner),
+      executable: false,
+      lamports: 1,
+    }));
+    const publicKey = new Account().publicKey;
+
+    const applied = await index.applyAccountChange(publicKey, newer, 20);
+    expect(await index.applyAccountChange(publicKey, older, 10)).to.equal(
+      applied,
+    );
+    expect(index.get(publicKey)).to.equal(applied);
+    const later = await index.applyAccountChange(publicKey, older, 20);
+    expect(index.get(publicKey)).to.equal(later);
+  });
+
+  it('keeps changes made while loading', async () => {
+    const changed = new Account().publicKey;
+    const data = Buffer.from(accountJson('account4').data[0], 'base64');
+    const accountInfo = {
+      data,
+      owner: new PublicKey(accountJson('account4').owner),
+      executable: false,
+      lamports: 1,
+    };
+    const { client } = makeClient(async () => {
+      if (client.connection.slot > 100) return;
+      // a fixture changes after the first load began but before it returned
+      client.connection.slot = 101;
+      await index.applyAccountChange(fixtures[0].publicKey, accountInfo, 101);
+      await index.applyAccountChange(changed, accountInfo, 101);
+    });
+    const index = new EntropyAccountIndex(client, entropyGroup, {
+      includeOpenOrders: false,
+    });
+    await index.load();
+
+    expect(index.size).to.equal(accountDirs.length + 1);
+    expect(index.get(fixtures[0].publicKey)).to.not.equal(fixtures[0]);
+    expect(index.get(fixtures[1].publicKey)).to.equal(fixtures[1]);
+    expect(index.get(changed)).to.not.equal(undefined);
+
+    // a load that began after the change replaces it
+    await index.load();
+    expect(index.get(fixtures[0].publicKey)).to.equal(fixtures[0]);
+    expect(index.get(changed)).to.equal(undefined);
+  });
+
+  it('replaces its subscriptions when subscribing again', async () => {
+    const { index, subscriptions } = await loadIndex(true);
+    await index.subscribe();
+    expect(subscriptions.size).to.equal(2);
+    await index.subscribe();
+    expect(subscriptions.size).to.equal(2);
+    await index.unsubscribe();
+    expect(subscriptions.size).to.equal(0);
+  });
+});
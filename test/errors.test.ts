@@ -0,0 +1,89 @@
+import { expect } from 'chai';
+import { PublicKey } from '@solana/web3.js';
+import {
+  decodeTransactionError,
+  ENTROPY_ERROR_CODES,
+  InsufficientHealthError,
+  InvalidOracleError,
+  OutOfSpaceError,
+  SlippageError,
+} from '../src/errors';
+import { EntropyError } from '../src/utils';
+
+const programId = new PublicKey('4AFs2kwMPHwp3K7ow4VnnhBdX5Q6SxdDXbKFNvUGKWKq');
+const dexProgramId = new PublicKey(
+  '9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin',
+);
+
+describe('errors', async () => {
+  it('maps custom codes to typed errors with the instruction index', () => {
+    const error = decodeTransactionError({
+      txid: 'txid',
+      err: {
+        InstructionError: [
+          2,
+          { Custom: ENTROPY_ERROR_CODES.indexOf('InsufficientHealth') },
+        ],
+      },
+      programId,
+    });
+    expect(error).to.be.instanceOf(InsufficientHealthError);
+    expect(error).to.be.instanceOf(EntropyError);
+    expect(error.code).to.equal('InsufficientHealth');
+    expect(error.instructionIndex).to.equal(2);
+    expect(error.txid).to.equal('txid');
+  });
+
+  it('prefers the error code named in the logs', () => {
+    const error = decodeTransactionError({
+      txid: 'txid',
+      err: { InstructionError: [0, { Custom: 0 }] },
+      logs: [
+        `Program ${programId.toBase58()} invoke [1]`,
+        'Program log: EntropyErrorCode::InvalidOraclePrice; src/oracle.rs:42',
+        `Program ${programId.toBase58()} failed: custom program error: 0x26`,
+      ],
+      programId,
+    });
+    expect(error).to.be.instanceOf(InvalidOracleError);
+    expect(error.code).to.equal('InvalidOraclePrice');
+    expect(error.message).to.contain('EntropyErrorCode::InvalidOraclePrice');
+  });
+
+  it('does not map custom codes raised by another program', () => {
+    const error = decodeTransactionError({
+      txid: 'txid',
+      err: { InstructionError: [1, { Custom: 12 }] },
+      logs: [
+        `Program ${programId.toBase58()} invoke [1]`,
+        `Program ${dexProgramId.toBase58()} invoke [2]`,
+        `Program ${dexProgramId.toBase58()} failed: custom program error: 0xc`,
+        `Program ${programId.toBase58()} failed: custom program error: 0xc`,
+      ],
+      programId,
+    });
+    expect(error).to.not.be.instanceOf(OutOfSpaceError);
+    expect(error.code).to.be.undefined;
+    expect(error.instructionIndex).to.equal(1);
+  });
+
+  it('falls back to known log patterns', () => {
+    const error = decodeTransactionError({
+      txid: 'txid',
+      err: { InstructionError: [0, 'InvalidArgument'] },
+      logs: ['Program log: price moved beyond max slippage'],
+    });
+    expect(error).to.be.instanceOf(SlippageError);
+    expect(error.code).to.equal('Slippage');
+  });
+
+  it('decodes preflight failure messages', () => {
+    const error = decodeTransactionError({
+      txid: 'txid',
+      err: 'Transaction simulation failed: Error processing Instruction 3: custom program error: 0xc',
+      logs: [],
+    });
+    expect(error).to.be.instanceOf(OutOfSpaceError);
+    expect(error.instructionIndex).to.equal(3);
+  });
+});
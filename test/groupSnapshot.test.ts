@@ -0,0 +1,307 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Account, PublicKey } from '@solana/web3.js';
+import { AccountLoader } from '../src/accountLoader';
+import { InconsistentSnapshotError } from '../src/errors';
+import { GroupSnapshot, loadGroupSnapshot } from '../src/groupSnapshot';
+import {
+  BookSideLayout,
+  NodeBankLayout,
+  PerpEventLayout,
+  PerpEventQueueHeaderLayout,
+  PerpMarketLayout,
+  RootBankLayout,
+} from '../src/layout';
+import RootBank from '../src/RootBank';
+import { zeroKey } from '../src/utils';
+import {
+  loadTestEntropyAccount,
+  loadTestEntropyGroup,
+  loadTestGroupSnapshot,
+} from './testdata';
+
+interface AccountJson {
+  data: string;
+  owner: string;
+}
+
+/**
+ * base64 account data by key for every account in a testdata directory, with
+ * empty root banks, node banks and perp markets for those it lacks
+ */
+function makeAccounts(dir = '1deposit'): Map<string, AccountJson> {
+  const accounts = new Map<string, AccountJson>();
+  const empty = (span: number, owner = PublicKey.default) => ({
+    data: Buffer.alloc(span).toString('base64'),
+    owner: owner.toBase58(),
+  });
+  for (const file of fs.readdirSync(path.join(__dirname, 'testdata', dir))) {
+    if (!file.endsWith('.json')) continue;
+    const json = require(`./testdata/${dir}/${file}`);
+    accounts.set(json.address, { data: json.data[0], owner: json.owner });
+  }
+
+  const group = loadTestEntropyGroup(`./testdata/${dir}/group.json`);
+  for (const token of group.tokens) {
+    if (token.rootBank.equals(zeroKey)) continue;
+    if (!accounts.has(token.rootBank.toBase58())) {
+      accounts.set(token.rootBank.toBase58(), empty(RootBankLayout.span));
+    }
+    const rootBank = new RootBank(
+      token.rootBank,
+      RootBankLayout.decode(
+        Buffer.from(
+          (accounts.get(token.rootBank.toBase58()) as AccountJson).data,
+          'base64',
+        ),
+      ),
+    );
+    rootBank.nodeBanks
+      .filter((pk) => !pk.equals(zeroKey))
+      .forEach((pk) => accounts.set(pk.toBase58(), empty(NodeBankLayout.span)));
+  }
+
+  // the fixtures have no perp market accounts; empty ones with book keys do
+  for (const info of group.perpMarkets.filter((pmi) => !pmi.isEmpty())) {
+    const data = Buffer.alloc(PerpMarketLayout.span);
+    const bids = new Account().publicKey;
+    const asks = new Account().publicKey;
+    const eventQueue = new Account().publicKey;
+    bids.toBuffer().copy(data, PerpMarketLayout.offsetOf('bids'));
+    asks.toBuffer().copy(data, PerpMarketLayout.offsetOf('asks'));
+    eventQueue.toBuffer().copy(data, PerpMarketLayout.offsetOf('eventQueue'));
+    accounts.set(info.perpMarket.toBase58(), {
+      data: data.toString('base64'),
+      owner: PublicKey.default.toBase58(),
+    });
+    for (const book of [bids, asks]) {
+      accounts.set(book.toBase58(), empty(BookSideLayout.span));
+    }
+    accounts.set(
+      eventQueue.toBase58(),
+      empty(PerpEventQueueHeaderLayout.span + 4 * PerpEventLayout.span),
+    );
+  }
+  return accounts;
+}
+
+/** Serves the accounts, answering request n at slot(n) */
+function makeConnection(
+  accounts: Map<string, AccountJson>,
+  slot: (request: number) => number = () => 100,
+) {
+  const requests: string[][] = [];
+  const connection = {
+    async getMultipleAccountsInfoAndContext(publicKeys: PublicKey[]) {
+      const keys = publicKeys.map((pk) => pk.toBase58());
+      requests.push(keys);
+      return {
+        context: { slot: slot(requests.length - 1) },
+        value: keys.map((key) => {
+          const account = accounts.get(key);
+          return account
+            ? {
+                data: Buffer.from(account.data, 'base64'),
+                executable: false,
+                owner: new PublicKey(account.owner),
+                lamports: 1,
+              }
+            : null;
+        }),
+      };
+    },
+  };
+  return { connection: connection as any, requests };
+}
+
+describe('groupSnapshot', async () => {
+  const group = loadTestEntropyGroup('./testdata/1deposit/group.json');
+
+  it('loads the group, cache, banks, markets and books at one slot', async () => {
+    const { connection, requests } = makeConnection(makeAccounts());
+    const snapshot = await loadGroupSnapshot(
+      new AccountLoader(connection),
+      group.publicKey,
+      { books: true },
+    );
+
+    expect(requests).to.have.length(3);
+    expect(snapshot.slot).to.equal(100);
+    expect(snapshot.cache.publicKey.toBase58()).to.equal(
+      group.entropyCache.toBase58(),
+    );
+    expect(snapshot.rootBanks.filter((rb) => rb)).to.have.length(8);
+    expect(snapshot.getNodeBanks(0)).to.have.length(1);
+    expect(snapshot.entropyGroup.rootBankAccounts[0]).to.equal(
+      snapshot.getRootBank(0),
+    );
+    expect(snapshot.perpMarkets.filter((pm) => pm)).to.have.length(3);
+
+    const marketIndex = snapshot.perpMarkets.findIndex((pm) => pm);
+    expect(snapshot.getBids(marketIndex).publicKey.toBase58()).to.equal(
+      snapshot.getPerpMarket(marketIndex).bids.toBase58(),
+    );
+    expect(snapshot.getPrice(0).toString()).to.equal(
+      group.getPrice(0, snapshot.cache).toString(),
+    );
+    expect(Object.isFrozen(snapshot)).to.equal(true);
+    expect(Object.isFrozen(snapshot.rootBanks)).to.equal(true);
+  });
+
+  it('leaves out books unless asked for', async () => {
+    const { connection } = makeConnection(makeAccounts());
+    const snapshot = await loadGroupSnapshot(
+      new AccountLoader(connection),
+      group.publicKey,
+    );
+    const marketIndex = snapshot.perpMarkets.findIndex((pm) => pm);
+    expect(() => snapshot.getBids(marketIndex)).to.throw('No bids loaded');
+  });
+
+  it('refreshes in one round-trip from a previous snapshot', async () => {
+    const accounts = makeAccounts();
+    const first = await loadGroupSnapshot(
+      new AccountLoader(makeConnection(accounts).connection),
+      group.publicKey,
+      { books: true },
+    );
+
+    const { connection, requests } = makeConnection(accounts, () => 101);
+    const snapshot = await loadGroupSnapshot(
+      new AccountLoader(connection),
+      group.publicKey,
+      { books: true, previous: first },
+    );
+    expect(requests).to.have.length(1);
+    expect(snapshot.slot).to.equal(101);
+    expect(snapshot.accounts.size).to.equal(first.accounts.size);
+  });
+
+  it('retries until the accounts are close enough in slot', async () => {
+    // chunks of 10 put the final round in several requests
+    const { connection, requests } = makeConnection(makeAccounts(), (n) =>
+      n < 6 ? 100 + 10 * n : 200,
+    );
+    const snapshot = await loadGroupSnapshot(
+      new AccountLoader(connection, { chunkSize: 10 }),
+      group.publicKey,
+      { books: true, maxAttempts: 10 },
+    );
+    expect(snapshot.slot).to.equal(200);
+    expect(requests.length).to.be.greaterThan(6);
+  });
+
+  it('retries a round read at mixed slots by default', async () => {
+    const accounts = makeAccounts();
+    const first = await loadGroupSnapshot(
+      new AccountLoader(makeConnection(accounts).connection),
+      group.publicKey,
+      { books: true },
+    );
+
+    // only the first request of the first round lags a slot behind
+    const { connection, requests } = makeConnection(accounts, (n) =>
+      n === 0 ? 99 : 100,
+    );
+    const snapshot = await loadGroupSnapshot(
+      new AccountLoader(connection, { chunkSize: 10 }),
+      group.publicKey,
+      { books: true, previous: first },
+    );
+    expect(snapshot.slot).to.equal(100);
+    expect(requests).to.have.length(2 * Math.ceil(first.accounts.size / 10));
+  });
+
+  it('accepts accounts a few slots apart', async () => {
+    const { connection } = makeConnection(makeAccounts(), (n) => 100 + n);
+    const snapshot = await loadGroupSnapshot(
+      new AccountLoader(connection, { chunkSize: 10 }),
+      group.publicKey,
+      { maxSlotSpread: 2 },
+    );
+    expect(snapshot.slot).to.be.greaterThan(100);
+  });
+
+  it('throws InconsistentSnapshotError when slots never agree', async () => {
+    const { connection, requests } = makeConnection(makeAccounts(), (n) => n);
+    let error: any;
+    try {
+      await loadGroupSnapshot(
+        new AccountLoader(connection, { chunkSize: 10 }),
+        group.publicKey,
+        { maxAttempts: 2, maxSlotSpread: 0 },
+      );
+    } catch (e) {
+      error = e;
+    }
+    expect(error).to.be.instanceOf(InconsistentSnapshotError);
+    expect(error.slots.length).to.be.greaterThan(1);
+    // the round that found the root banks and markets counts as an attempt
+    expect(requests).to.have.length(3);
+  });
+
+  it('restores a snapshot from JSON without an RPC', async () => {
+    const accounts = makeAccounts('account1');
+    const account = loadTestEntropyAccount('./testdata/account1/account.json');
+    const { connection } = makeConnection(accounts);
+    const snapshot = await loadGroupSnapshot(
+      new AccountLoader(connection),
+      account.entropyGroup,
+      { books: true, eventQueues: true, entropyAccounts: [account.publicKey] },
+    );
+
+    // written the way a fixture in testdata would be
+    const filename = path.join(os.tmpdir(), `snapshot-${Date.now()}.json`);
+    fs.writeFileSync(filename, JSON.stringify(snapshot));
+    const json = JSON.parse(fs.readFileSync(filename, 'utf-8'));
+    const restored = loadTestGroupSnapshot(filename);
+    fs.unlinkSync(filename);
+
+    expect(json.version).to.equal(1);
+    expect(restored.slot).to.equal(snapshot.slot);
+    expect(restored.publicKeys.map((pk) => pk.toBase58())).to.deep.equal(
+      snapshot.publicKeys.map((pk) => pk.toBase58()),
+    );
+    restored.accounts.forEach((info, key) => {
+      const original = snapshot.accounts.get(key);
+      expect(info.data.equals(original?.data as Buffer)).to.equal(true);
+      expect(info.owner.toBase58()).to.equal(original?.owner.toBase58());
+    });
+
+    const marketIndex = restored.perpMarkets.findIndex((pm) => pm);
+    expect(restored.getEventQueue(marketIndex)).to.not.equal(undefined);
+    expect(restored.getAsks(marketIndex).publicKey.toBase58()).to.equal(
+      snapshot.getAsks(marketIndex).publicKey.toBase58(),
+    );
+
+    const before = snapshot.getEntropyAccount(account.publicKey);
+    const after = restored.getEntropyAccount(account.publicKey);
+    expect(before.spotOpenOrdersAccounts.filter((oo) => oo)).to.not.be.empty;
+    expect(after.spotOpenOrdersAccounts.filter((oo) => oo)).to.have.length(
+      before.spotOpenOrdersAccounts.filter((oo) => oo).length,
+    );
+    expect(
+      after
+        .getHealth(restored.entropyGroup, restored.cache, 'Maint')
+        .toString(),
+    ).to.equal(
+      before
+        .getHealth(snapshot.entropyGroup, snapshot.cache, 'Maint')
+        .toString(),
+    );
+  });
+
+  it('rejects snapshots of another version', () => {
+    expect(() =>
+      GroupSnapshot.fromJSON({
+        version: 2,
+        group: PublicKey.default.toBase58(),
+        slot: 0,
+        entropyAccounts: [],
+        accounts: {},
+      }),
+    ).to.throw('Unsupported snapshot version 2');
+  });
+});
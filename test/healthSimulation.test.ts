@@ -0,0 +1,146 @@
+import { expect } from 'chai';
+import EntropyAccount from '../src/EntropyAccount';
+import { QUOTE_INDEX } from '../src/layout';
+import {
+  loadTestEntropyAccount,
+  loadTestEntropyCache,
+  loadTestEntropyGroup,
+} from './testdata';
+
+describe('healthSimulation', async () => {
+  // 1 BTC (token 1) deposited, nothing else
+  const prefix = './testdata/1deposit';
+  const entropyGroup = loadTestEntropyGroup(`${prefix}/group.json`);
+  const entropyCache = loadTestEntropyCache(`${prefix}/cache.json`);
+  const btc = 1;
+  const btcPrice = entropyGroup.getPrice(btc, entropyCache).toNumber();
+  const usdc = 1e6; // native per UI quote
+
+  const health = (account: EntropyAccount, healthType: 'Init' | 'Maint') =>
+    account.getHealth(entropyGroup, entropyCache, healthType).toNumber();
+
+  it('matches the account as it is without actions', () => {
+    const entropyAccount = loadTestEntropyAccount(`${prefix}/account.json`);
+    const sim = entropyAccount.simulate(entropyGroup, entropyCache, []);
+    expect(sim.account).to.not.equal(entropyAccount);
+    expect(sim.initHealth.toString()).to.equal(
+      entropyAccount.getHealth(entropyGroup, entropyCache, 'Init').toString(),
+    );
+    expect(sim.maintHealthRatio.toString()).to.equal('100');
+    expect(sim.leverage.toString()).to.equal('0');
+    expect(sim.liquidationPrices).to.have.length(7);
+  });
+
+  it('deposits, withdraws and borrows without changing the account', () => {
+    const entropyAccount = loadTestEntropyAccount(`${prefix}/account.json`);
+    const before = health(entropyAccount, 'Init');
+
+    const deposited = entropyAccount.simulate(entropyGroup, entropyCache, [
+      { type: 'deposit', tokenIndex: QUOTE_INDEX, quantity: 100 },
+    ]);
+    expect(deposited.initHealth.toNumber() - before).to.be.closeTo(
+      100 * usdc,
+      1,
+    );
+
+    const borrowed = entropyAccount.simulate(entropyGroup, entropyCache, [
+      { type: 'borrow', tokenIndex: QUOTE_INDEX, quantity: 100 },
+    ]);
+    expect(before - borrowed.initHealth.toNumber()).to.be.closeTo(
+      100 * usdc,
+      1,
+    );
+    expect(borrowed.leverage.toNumber()).to.be.greaterThan(0);
+    expect(borrowed.liquidationPrices[btc]?.toNumber()).to.be.lessThan(
+      btcPrice,
+    );
+
+    expect(() =>
+      entropyAccount.simulate(entropyGroup, entropyCache, [
+        { type: 'withdraw', tokenIndex: btc, quantity: 2 },
+      ]),
+    ).to.throw('would borrow');
+    const { account } = entropyAccount.simulate(entropyGroup, entropyCache, [
+      { type: 'withdraw', tokenIndex: btc, quantity: 2, allowBorrow: true },
+    ]);
+    const bankCache = entropyCache.rootBankCache[btc];
+    expect(account.deposits[btc].isZero()).to.equal(true);
+    expect(account.getNativeBorrow(bankCache, btc).toNumber()).to.be.closeTo(
+      2e6 - entropyAccount.getNativeDeposit(bankCache, btc).toNumber(),
+      1e-6,
+    );
+
+    expect(health(entropyAccount, 'Init')).to.equal(before);
+    expect(entropyAccount.borrows[btc].isZero()).to.equal(true);
+  });
+
+  it('fills perp orders and settles their pnl', () => {
+    const entropyAccount = loadTestEntropyAccount(`${prefix}/account.json`);
+    const { maintAssetWeight, takerFee } = entropyGroup.perpMarkets[btc];
+    const before = health(entropyAccount, 'Maint');
+    const buy = {
+      type: 'perpFill' as const,
+      marketIndex: btc,
+      side: 'buy' as const,
+      price: btcPrice,
+      quantity: 1,
+    };
+
+    const noFee = entropyAccount.simulate(entropyGroup, entropyCache, [
+      { ...buy, fee: 0 },
+    ]);
+    const notional = btcPrice * usdc;
+    expect(before - noFee.maintHealth.toNumber()).to.be.closeTo(
+      notional * (1 - maintAssetWeight.toNumber()),
+      1,
+    );
+    expect(noFee.account.perpAccounts[btc].basePosition.toNumber()).to.equal(
+      10000,
+    );
+    // long BTC twice over, so a fall of about half liquidates
+    const liquidationPrice = noFee.liquidationPrices[btc]?.toNumber() ?? 0;
+    expect(liquidationPrice).to.be.within(btcPrice * 0.4, btcPrice * 0.6);
+
+    const withFee = entropyAccount.simulate(entropyGroup, entropyCache, [buy]);
+    expect(
+      noFee.maintHealth.toNumber() - withFee.maintHealth.toNumber(),
+    ).to.be.closeTo(notional * takerFee.toNumber(), 1);
+
+    // bought 100 below the oracle, then settled
+    const settled = entropyAccount.simulate(entropyGroup, entropyCache, [
+      { ...buy, price: btcPrice - 100, fee: 0 },
+      { type: 'settlePnl', marketIndex: btc },
+    ]);
+    const quoteBank = entropyCache.rootBankCache[QUOTE_INDEX];
+    expect(
+      settled.account.getNativeDeposit(quoteBank, QUOTE_INDEX).toNumber(),
+    ).to.be.closeTo(100 * usdc, 1);
+    expect(settled.maintHealth.toNumber()).to.be.closeTo(
+      noFee.maintHealth.toNumber() + 100 * usdc,
+      1,
+    );
+  });
+
+  it('fills spot orders against the quote token', () => {
+    const entropyAccount = loadTestEntropyAccount(`${prefix}/account.json`);
+    const { initAssetWeight } = entropyGroup.spotMarkets[btc];
+    const sim = entropyAccount.simulate(entropyGroup, entropyCache, [
+      {
+        type: 'spotFill',
+        marketIndex: btc,
+        side: 'buy',
+        price: btcPrice,
+        quantity: 1,
+        fee: 0,
+      },
+    ]);
+    const quoteBank = entropyCache.rootBankCache[QUOTE_INDEX];
+    expect(
+      sim.account.getNativeBorrow(quoteBank, QUOTE_INDEX).toNumber(),
+    ).to.be.closeTo(btcPrice * usdc, 1);
+    expect(
+      health(entropyAccount, 'Init') - sim.initHealth.toNumber(),
+    ).to.be.closeTo(btcPrice * usdc * (1 - initAssetWeight.toNumber()), 1);
+    expect(sim.initHealthRatio.toNumber()).to.be.lessThan(100);
+  });
+});
@@ -0,0 +1,271 @@
+import { expect } from 'chai';
+import BN from 'bn.js';
+import {
+  Account,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+} from '@solana/web3.js';
+import { Market } from '@project-serum/serum';
+import {
+  TOKEN_PROGRAM_ID,
+  WRAPPED_SOL_MINT,
+} from '@project-serum/serum/lib/token-instructions';
+import { EntropyClient } from '../src/client';
+import EntropyGroup from '../src/EntropyGroup';
+import { NodeBank, NodeBankLayout, RootBankLayout } from '../src/layout';
+import RootBank from '../src/RootBank';
+import { zeroKey } from '../src/utils';
+import {
+  encodeTestSpotMarket,
+  loadTestEntropyAccount,
+  loadTestEntropyGroup,
+  loadTestOpenOrders,
+} from './testdata';
+
+/** A serum market at publicKey whose vault signer can be derived */
+function makeSpotMarket(publicKey: PublicKey, dexProgramId: PublicKey) {
+  const layout = Market.getLayout(dexProgramId);
+  const data = encodeTestSpotMarket(
+    dexProgramId,
+    new Account().publicKey,
+    new Account().publicKey,
+    100,
+    10,
+  );
+  publicKey.toBuffer().copy(data, layout.offsetOf('ownAddress'));
+  for (let nonce = 0; ; nonce++) {
+    const nonceBuffer = new BN(nonce).toArrayLike(Buffer, 'le', 8);
+    try {
+      PublicKey.createProgramAddressSync(
+        [publicKey.toBuffer(), nonceBuffer],
+        dexProgramId,
+      );
+    } catch (e) {
+      continue;
+    }
+    nonceBuffer.copy(data, layout.offsetOf('vaultSignerNonce'));
+    break;
+  }
+  return new Market(layout.decode(data), 6, 6, {}, dexProgramId);
+}
+
+/** Empty root banks with one node bank each, so nothing is loaded */
+function setEmptyRootBanks(entropyGroup: EntropyGroup) {
+  entropyGroup.rootBankAccounts = entropyGroup.tokens.map((token) => {
+    if (token.rootBank.equals(zeroKey)) return undefined;
+    const rootBank = new RootBank(
+      token.rootBank,
+      RootBankLayout.decode(Buffer.alloc(RootBankLayout.span)),
+    );
+    rootBank.nodeBankAccounts = [
+      new NodeBank(
+        new Account().publicKey,
+        NodeBankLayout.decode(Buffer.alloc(NodeBankLayout.span)),
+      ),
+    ];
+    return rootBank;
+  });
+}
+
+describe('instructionBuilder', async () => {
+  // token and spot market 3 are SOL; the account has OpenOrders on 3, 6 and 7
+  const prefix = './testdata/account1';
+  const entropyGroup = loadTestEntropyGroup(`${prefix}/group.json`);
+  setEmptyRootBanks(entropyGroup);
+  const client = new EntropyClient({} as any, new Account().publicKey);
+  const owner = new Account().publicKey;
+  const spotMarkets = entropyGroup.spotMarkets
+    .filter((info) => !info.isEmpty())
+    .map((info) => makeSpotMarket(info.spotMarket, entropyGroup.dexProgramId));
+
+  it('deposits SOL through a temporary wrapped SOL account', async () => {
+    const entropyAccount = loadTestEntropyAccount(`${prefix}/account.json`);
+    const { rootBank } = entropyGroup.tokens[3];
+    const [nodeBank, vault] = [
+      new Account().publicKey,
+      new Account().publicKey,
+    ];
+    expect(entropyGroup.tokens[3].mint.toBase58()).to.equal(
+      WRAPPED_SOL_MINT.toBase58(),
+    );
+
+    const { instructions, signers } = await client.instructions.deposit(
+      entropyGroup,
+      entropyAccount,
+      owner,
+      rootBank,
+      nodeBank,
+      vault,
+      owner,
+      1.5,
+    );
+    expect(instructions.map((ix) => ix.programId.toBase58())).to.deep.equal([
+      SystemProgram.programId.toBase58(),
+      TOKEN_PROGRAM_ID.toBase58(),
+      client.programId.toBase58(),
+      TOKEN_PROGRAM_ID.toBase58(),
+    ]);
+    expect(signers).to.have.length(1);
+    const wrapped = signers[0].publicKey;
+    // createAccount funds it with the deposit plus rent
+    expect(instructions[0].keys[1].pubkey.toBase58()).to.equal(
+      wrapped.toBase58(),
+    );
+    expect(instructions[0].data.readBigUInt64LE(4)).to.equal(
+      BigInt(1.5 * LAMPORTS_PER_SOL + 1e7),
+    );
+    const depositKeys = instructions[2].keys.map((k) => k.pubkey.toBase58());
+    expect(depositKeys).to.include(wrapped.toBase58());
+    expect(instructions[3].keys[0].pubkey.toBase58()).to.equal(
+      wrapped.toBase58(),
+    );
+
+    const fromTokenAccount = await client.instructions.deposit(
+      entropyGroup,
+      entropyAccount,
+      owner,
+      rootBank,
+      nodeBank,
+      vault,
+      new Account().publicKey,
+      1.5,
+    );
+    expect(fromTokenAccount.instructions).to.have.length(1);
+    expect(fromTokenAccount.signers).to.be.empty;
+  });
+
+  it('places spot orders with only the OpenOrders in use', async () => {
+    const entropyAccount = loadTestEntropyAccount(`${prefix}/account.json`);
+    entropyAccount.inMarginBasket[6] = true;
+    const spotMarket = spotMarkets[3];
+
+    const { instructions, signers, openOrders } =
+      await client.instructions.placeSpotOrder2(
+        entropyGroup,
+        entropyAccount,
+        spotMarket,
+        owner,
+        'buy',
+        10,
+        0.01,
+        'limit',
+        new BN(7),
+        false,
+      );
+    expect(instructions).to.have.length(1);
+    expect(signers).to.be.empty;
+    expect(openOrders.toBase58()).to.equal(
+      entropyAccount.spotOpenOrders[3].toBase58(),
+    );
+
+    const { keys } = instructions[0];
+    expect(keys.find((k) => k.isSigner)?.pubkey.toBase58()).to.equal(
+      owner.toBase58(),
+    );
+    expect(keys[21].pubkey.toBase58()).to.equal(
+      entropyGroup.srmVault.toBase58(),
+    );
+    expect(
+      keys
+        .slice(22)
+        .map(({ pubkey, isWritable }) => [pubkey.toBase58(), isWritable]),
+    ).to.deep.equal([
+      [entropyAccount.spotOpenOrders[3].toBase58(), true],
+      [entropyAccount.spotOpenOrders[6].toBase58(), false],
+    ]);
+  });
+
+  it('needs the OpenOrders account to exist before placing', async () => {
+    const entropyAccount = loadTestEntropyAccount(`${prefix}/account.json`);
+    expect(entropyAccount.spotOpenOrders[0].equals(zeroKey)).to.equal(true);
+    let error: any;
+    try {
+      await client.instructions.placeSpotOrder2(
+        entropyGroup,
+        entropyAccount,
+        spotMarkets[0],
+        owner,
+        'sell',
+        10,
+        0.01,
+        'limit',
+        undefined,
+        false,
+      );
+    } catch (e) {
+      error = e;
+    }
+    expect(error?.message).to.include('initSpotOpenOrders');
+  });
+
+  it('settles only the spot markets with funds to settle', async () => {
+    const entropyAccount = loadTestEntropyAccount(`${prefix}/account.json`);
+    for (const i of [3, 6, 7]) {
+      entropyAccount.spotOpenOrdersAccounts[i] = loadTestOpenOrders(
+        `${prefix}/openorders${i}.json`,
+      );
+    }
+    entropyAccount.spotOpenOrdersAccounts[6]!['referrerRebatesAccrued'] =
+      new BN(0);
+
+    const { instructions, signers } = await client.instructions.settleAll(
+      entropyGroup,
+      entropyAccount,
+      spotMarkets,
+      owner,
+    );
+    expect(signers).to.be.empty;
+    expect(
+      instructions.map((ix) => ix.keys[5].pubkey.toBase58()),
+    ).to.deep.equal([3, 7].map((i) => spotMarkets[i].publicKey.toBase58()));
+    expect(
+      instructions.map((ix) => ix.keys[6].pubkey.toBase58()),
+    ).to.deep.equal(
+      [3, 7].map((i) => entropyAccount.spotOpenOrders[i].toBase58()),
+    );
+    for (const { keys } of instructions) {
+      expect(
+        keys.filter((k) => k.isSigner).map((k) => k.pubkey.toBase58()),
+      ).to.deep.equal([owner.toBase58()]);
+    }
+  });
+
+  it('settles several spot markets in one transaction', async () => {
+    const entropyAccount = loadTestEntropyAccount(`${prefix}/account.json`);
+    for (const i of [3, 7]) {
+      entropyAccount.spotOpenOrdersAccounts[i] = loadTestOpenOrders(
+        `${prefix}/openorders${i}.json`,
+      );
+    }
+    const sent: Transaction[] = [];
+    const connection = {
+      async getLatestBlockhash() {
+        return {
+          blockhash: new Account().publicKey.toBase58(),
+          lastValidBlockHeight: 1000,
+        };
+      },
+      async sendRawTransaction(rawTransaction: Buffer) {
+        sent.push(Transaction.from(rawTransaction));
+        return 'txid';
+      },
+    };
+    const sendingClient = new EntropyClient(
+      connection as any,
+      new Account().publicKey,
+    );
+
+    const txids = await sendingClient.settleAll(
+      entropyGroup,
+      entropyAccount,
+      spotMarkets,
+      new Account(),
+      { sendPolicy: { timeout: null } },
+    );
+    expect(txids).to.deep.equal(['txid']);
+    expect(sent).to.have.length(1);
+    expect(sent[0].instructions).to.have.length(2);
+  });
+});
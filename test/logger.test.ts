@@ -0,0 +1,77 @@
+import { expect } from 'chai';
+import { Account, PublicKey } from '@solana/web3.js';
+import BN from 'bn.js';
+import { EntropyClient } from '../src/client';
+import { JsonLinesLogger } from '../src/logger';
+import { logTransactionEvents } from '../src/transactionEvents';
+import { EntropyError } from '../src/utils';
+
+function makeStream() {
+  const lines: any[] = [];
+  return {
+    lines,
+    write(line: string) {
+      lines.push(JSON.parse(line));
+    },
+  };
+}
+
+describe('logger', async () => {
+  it('writes one JSON object per line with context and fields', () => {
+    const stream = makeStream();
+    const logger = new JsonLinesLogger(stream).child({
+      component: 'liquidator',
+    });
+    const account = new Account().publicKey;
+
+    logger.info('Liquidated account', {
+      account,
+      quantity: new BN(1234),
+      error: new EntropyError({
+        message: 'Transaction failed',
+        txid: 'txid',
+        code: 'InsufficientHealth',
+      }),
+    });
+
+    expect(stream.lines).to.have.length(1);
+    const [line] = stream.lines;
+    expect(line.level).to.equal('info');
+    expect(line.msg).to.equal('Liquidated account');
+    expect(line.component).to.equal('liquidator');
+    expect(line.account).to.equal(account.toBase58());
+    expect(line.quantity).to.equal('1234');
+    expect(line.error.message).to.equal('Transaction failed');
+    expect(line.error.code).to.equal('InsufficientHealth');
+    expect(line.time).to.be.a('string');
+  });
+
+  it('drops lines below the minimum level', () => {
+    const stream = makeStream();
+    const logger = new JsonLinesLogger(stream, 'warn');
+    logger.debug('debug');
+    logger.info('info');
+    logger.warn('warn');
+    logger.error('error');
+    expect(stream.lines.map((l) => l.level)).to.deep.equal(['warn', 'error']);
+  });
+
+  it('routes client output through the injected logger', () => {
+    const stream = makeStream();
+    const client = new EntropyClient({} as any, PublicKey.default, {
+      logger: new JsonLinesLogger(stream).child({ component: 'client' }),
+    });
+    logTransactionEvents(client.events);
+
+    client.events.emit('sent', {
+      txid: 'txid',
+      marketName: 'BTC-PERP',
+      attempts: 1,
+      latency: 0,
+      size: 200,
+    });
+    expect(stream.lines).to.have.length(1);
+    expect(stream.lines[0].component).to.equal('client');
+    expect(stream.lines[0].txid).to.equal('txid');
+  });
+});
@@ -0,0 +1,186 @@
+import { expect } from 'chai';
+import {
+  Account,
+  AddressLookupTableAccount,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+} from '@solana/web3.js';
+import { EntropyClient } from '../src/client';
+import { GroupConfig } from '../src/config';
+import {
+  getGroupLookupTableAddresses,
+  LOOKUP_TABLE_EXTEND_CHUNK,
+  makeExtendLookupTableInstructions,
+} from '../src/lookupTable';
+import {
+  loadTestEntropyGroup,
+  loadTestEntropyNodeBank,
+  loadTestEntropyRootBank,
+} from './testdata';
+
+const prefix = './testdata/tokenbank';
+
+function randomKey(): PublicKey {
+  return new Account().publicKey;
+}
+
+function makeMarket(name: string, marketIndex: number) {
+  return {
+    name,
+    publicKey: randomKey(),
+    baseSymbol: name.split('-')[0],
+    baseDecimals: 6,
+    quoteDecimals: 6,
+    marketIndex,
+    bidsKey: randomKey(),
+    asksKey: randomKey(),
+    eventsKey: randomKey(),
+  };
+}
+
+function makeGroupConfig(): GroupConfig {
+  const btcRootBank = loadTestEntropyRootBank(`${prefix}/btc_root_bank.json`);
+  return {
+    cluster: 'mainnet',
+    name: 'test.1',
+    quoteSymbol: 'USDC',
+    publicKey: loadTestEntropyGroup(`${prefix}/group.json`).publicKey,
+    entropyProgramId: randomKey(),
+    serumProgramId: randomKey(),
+    oracles: [{ symbol: 'BTC', publicKey: randomKey() }],
+    perpMarkets: [makeMarket('BTC-PERP', 0)],
+    spotMarkets: [makeMarket('BTC/USDC', 0)],
+    tokens: [
+      {
+        symbol: 'BTC',
+        mintKey: randomKey(),
+        decimals: 6,
+        rootKey: btcRootBank.publicKey,
+        nodeKeys: btcRootBank.nodeBanks.filter(
+          (pk) => !pk.equals(PublicKey.default),
+        ),
+      },
+    ],
+  };
+}
+
+describe('lookupTable', async () => {
+  it('collects every shared group account once', () => {
+    const groupConfig = makeGroupConfig();
+    const entropyGroup = loadTestEntropyGroup(`${prefix}/group.json`);
+    const rootBank = loadTestEntropyRootBank(`${prefix}/btc_root_bank.json`);
+    const nodeBank = loadTestEntropyNodeBank(`${prefix}/btc_node_bank.json`);
+    rootBank.nodeBankAccounts = [nodeBank];
+
+    const addresses = getGroupLookupTableAddresses(groupConfig, entropyGroup, [
+      rootBank,
+    ]);
+    const keys = addresses.map((pk) => pk.toBase58());
+    expect(new Set(keys).size).to.equal(keys.length);
+
+    const market = groupConfig.perpMarkets[0];
+    for (const expected of [
+      groupConfig.publicKey,
+      entropyGroup.entropyCache,
+      entropyGroup.signerKey,
+      groupConfig.serumProgramId,
+      rootBank.publicKey,
+      nodeBank.publicKey,
+      nodeBank.vault,
+      market.publicKey,
+      market.bidsKey,
+      market.asksKey,
+      market.eventsKey,
+      groupConfig.spotMarkets[0].eventsKey,
+      groupConfig.oracles[0].publicKey,
+    ]) {
+      expect(keys).to.include(expected.toBase58());
+    }
+
+    // without the loaded group only GroupConfig keys are known
+    const fromConfig = getGroupLookupTableAddresses(groupConfig);
+    expect(fromConfig.map((pk) => pk.toBase58())).to.not.include(
+      nodeBank.vault.toBase58(),
+    );
+  });
+
+  it('splits extends into chunks', () => {
+    const addresses = [...Array(LOOKUP_TABLE_EXTEND_CHUNK * 2 + 1)].map(
+      randomKey,
+    );
+    const authority = randomKey();
+    const instructions = makeExtendLookupTableInstructions(
+      randomKey(),
+      authority,
+      authority,
+      addresses,
+    );
+    expect(instructions.length).to.equal(3);
+  });
+
+  it('sends v0 transactions that use the lookup table', async () => {
+    const payer = new Account();
+    const lookedUp = [randomKey(), randomKey()];
+    const lookupTable = new AddressLookupTableAccount({
+      key: randomKey(),
+      state: {
+        deactivationSlot: BigInt('18446744073709551615'),
+        lastExtendedSlot: 0,
+        lastExtendedSlotStartIndex: 0,
+        addresses: [randomKey(), ...lookedUp],
+      },
+    });
+    const sent: Buffer[] = [];
+    const connection = {
+      async getLatestBlockhash() {
+        return {
+          blockhash: randomKey().toBase58(),
+          lastValidBlockHeight: 100,
+        };
+      },
+      async sendRawTransaction(raw: Buffer) {
+        sent.push(raw);
+        return 'txid';
+      },
+    };
+    const client = new EntropyClient(connection as any, randomKey(), {
+      lookupTables: [lookupTable],
+      sendPolicy: { timeout: null },
+    });
+
+    const transaction = new Transaction().add(
+      SystemProgram.transfer({
+        fromPubkey: payer.publicKey,
+        toPubkey: lookedUp[0],
+        lamports: 1,
+      }),
+      SystemProgram.transfer({
+        fromPubkey: payer.publicKey,
+        toPubkey: lookedUp[1],
+        lamports: 1,
+      }),
+    );
+    const { signedTransaction, lastValidBlockHeight } =
+      await client.signVersionedTransaction({
+        transaction,
+        payer,
+        signers: [],
+        lookupTables: client.lookupTables,
+      });
+    expect(lastValidBlockHeight).to.equal(100);
+
+    const message = signedTransaction.message;
+    expect(message.version).to.equal(0);
+    expect(message.addressTableLookups).to.have.length(1);
+    expect(message.addressTableLookups[0].writableIndexes).to.deep.equal([
+      1, 2,
+    ]);
+    expect(message.staticAccountKeys.some((pk) => pk.equals(lookedUp[0]))).to.be
+      .false;
+
+    const txid = await client.sendVersionedTransaction(transaction, payer, []);
+    expect(txid).to.equal('txid');
+    expect(sent).to.have.length(1);
+  });
+});
@@ -0,0 +1,235 @@
+import { expect } from 'chai';
+import BN from 'bn.js';
+import { Account, PublicKey } from '@solana/web3.js';
+import { Market } from '@project-serum/serum';
+import { BookSide } from '../src/book';
+import { EntropyClient } from '../src/client';
+import { MarketConfig } from '../src/config';
+import { PerpMarketLayout } from '../src/layout';
+import { MarketBook, SpotBookSide } from '../src/marketBook';
+import PerpMarket from '../src/PerpMarket';
+import {
+  encodeTestBookSide,
+  encodeTestOrderbook,
+  encodeTestSpotMarket,
+  loadTestEntropyGroup,
+  makeTestBookSide,
+  TestOrder,
+} from './testdata';
+
+/** A connection serving getMultipleAccounts from accounts */
+function makeConnection(accounts: Map<string, [PublicKey, Buffer]>) {
+  return {
+    commitment: 'processed',
+    async getMultipleAccountsInfoAndContext(publicKeys: PublicKey[]) {
+      return {
+        context: { slot: 1 },
+        value: publicKeys.map((pk) => {
+          const account = accounts.get(pk.toBase58());
+          return account
+            ? {
+                data: account[1],
+                executable: false,
+                owner: account[0],
+                lamports: 1,
+              }
+            : null;
+        }),
+      };
+    },
+  } as any;
+}
+
+describe('marketBook', async () => {
+  const entropyGroup = loadTestEntropyGroup('./testdata/1deposit/group.json');
+  const marketIndex = entropyGroup.perpMarkets.findIndex(
+    (pmi) => !pmi.isEmpty(),
+  );
+  const dexProgramId = new Account().publicKey;
+  const [bidsKey, asksKey] = [new Account().publicKey, new Account().publicKey];
+  const alice = new Account().publicKey;
+
+  // both markets price in lots of 10 and size in lots of 100, at 6 decimals
+  const perpMarket = new PerpMarket(
+    entropyGroup.perpMarkets[marketIndex].perpMarket,
+    6,
+    6,
+    {
+      bids: bidsKey,
+      asks: asksKey,
+      baseLotSize: new BN(100),
+      quoteLotSize: new BN(10),
+    },
+  );
+  const spotMarket = new Market(
+    Market.getLayout(dexProgramId).decode(
+      encodeTestSpotMarket(dexProgramId, bidsKey, asksKey, 100, 10),
+    ),
+    6,
+    6,
+    {},
+    dexProgramId,
+  );
+  const makeSpotBookSide = (isBids: boolean, orders: TestOrder[]) =>
+    SpotBookSide.decode(spotMarket, encodeTestOrderbook(isBids, orders), 0.001);
+
+  const orders: TestOrder[] = [
+    { priceLots: 103, sizeLots: 2, owner: alice, clientId: 7 },
+    { priceLots: 105, sizeLots: 1 },
+    { priceLots: 103, sizeLots: 3 },
+    { priceLots: 110, sizeLots: 4 },
+  ];
+
+  it('walks spot books best price first', () => {
+    const bids = makeSpotBookSide(true, [
+      { priceLots: 100, sizeLots: 1 },
+      { priceLots: 102, sizeLots: 2, owner: alice, clientId: 7 },
+      { priceLots: 101, sizeLots: 3 },
+    ]);
+    expect(bids.kind).to.equal('spot');
+    expect(bids.isBids).to.equal(true);
+    expect(bids.publicKey.toBase58()).to.equal(bidsKey.toBase58());
+    expect([...bids].map((o) => o.price)).to.deep.equal([10.2, 10.1, 10]);
+
+    const best = bids.getBest();
+    expect(best?.side).to.equal('buy');
+    expect(best?.owner.toBase58()).to.equal(alice.toBase58());
+    expect(best?.clientId?.toNumber()).to.equal(7);
+    expect(makeSpotBookSide(false, []).getBest()).to.equal(undefined);
+  });
+
+  it('answers the same for perp and spot books of the same orders', () => {
+    const books: MarketBook[] = [
+      makeTestBookSide(perpMarket, false, orders),
+      makeSpotBookSide(false, orders),
+    ];
+    const [perp, spot] = books.map((book) => ({
+      l2: book.getL2(2).map(([price, size]) => [price, size]),
+      impact: book.getImpactPriceUi(new BN(6)),
+      sim: book.simulateTakerOrder({
+        quantity: 0.0006,
+        limitPrice: 11,
+        entropyGroup,
+      }),
+    }));
+    expect(spot.l2).to.deep.equal([
+      [10.3, 0.0005],
+      [10.5, 0.0001],
+    ]);
+    expect(perp.l2).to.deep.equal(spot.l2);
+    expect(spot.impact).to.equal(10.5);
+    expect(perp.impact).to.equal(spot.impact);
+
+    expect(spot.sim.levelsConsumed).to.equal(2);
+    expect(spot.sim.filledQuantity).to.equal(0.0006);
+    expect(spot.sim.filledQuote).to.be.closeTo(0.0062, 1e-12);
+    expect(spot.sim.takerFee).to.be.closeTo(0.0062 * 0.001, 1e-12);
+    // only the fee differs, perp's being the group's
+    expect({ ...perp.sim, takerFee: 0 }).to.deep.equal({
+      ...spot.sim,
+      takerFee: 0,
+    });
+
+    // spot books know their fee; perp books need the group's
+    expect(books[1].simulateTakerOrder({ quantity: 0.0006 })).to.deep.equal(
+      books[1].simulateTakerOrder({ quantity: 0.0006, entropyGroup }),
+    );
+    expect(() => books[0].simulateTakerOrder({ quantity: 0.0006 })).to.throw(
+      'entropyGroup',
+    );
+  });
+
+  describe('EntropyClient.loadBook', () => {
+    const perpMarketData = Buffer.alloc(PerpMarketLayout.span);
+    perpMarketData.writeBigInt64LE(
+      BigInt(10),
+      PerpMarketLayout.offsetOf('quoteLotSize'),
+    );
+    perpMarketData.writeBigInt64LE(
+      BigInt(100),
+      PerpMarketLayout.offsetOf('baseLotSize'),
+    );
+    const spotMarketKey = new Account().publicKey;
+    const accounts = new Map<string, [PublicKey, Buffer]>([
+      [perpMarket.publicKey.toBase58(), [PublicKey.default, perpMarketData]],
+      [
+        spotMarketKey.toBase58(),
+        [
+          dexProgramId,
+          encodeTestSpotMarket(dexProgramId, bidsKey, asksKey, 100, 10),
+        ],
+      ],
+    ]);
+    const client = new EntropyClient(
+      makeConnection(accounts),
+      PublicKey.default,
+    );
+    const marketConfig = {
+      name: 'TEST',
+      baseSymbol: 'TEST',
+      baseDecimals: 6,
+      quoteDecimals: 6,
+      marketIndex: 0,
+      bidsKey,
+      asksKey,
+      eventsKey: PublicKey.default,
+    };
+
+    it('loads either kind of market', async () => {
+      for (const [kind, publicKey] of [
+        ['perp', perpMarket.publicKey],
+        ['spot', spotMarketKey],
+      ] as const) {
+        if (kind === 'perp') {
+          accounts.set(bidsKey.toBase58(), [
+            PublicKey.default,
+            encodeTestBookSide(true, orders),
+          ]);
+          accounts.set(asksKey.toBase58(), [
+            PublicKey.default,
+            encodeTestBookSide(false, orders),
+          ]);
+        } else {
+          accounts.set(bidsKey.toBase58(), [
+            dexProgramId,
+            encodeTestOrderbook(true, orders),
+          ]);
+          accounts.set(asksKey.toBase58(), [
+            dexProgramId,
+            encodeTestOrderbook(false, orders),
+          ]);
+        }
+        const { bids, asks } = await client.loadBook({
+          ...marketConfig,
+          kind,
+          publicKey,
+        } as MarketConfig);
+
+        expect(bids.kind).to.equal(kind);
+        expect(bids.publicKey.toBase58()).to.equal(bidsKey.toBase58());
+        expect(bids.getBest()?.price).to.equal(11);
+        expect(asks.getBest()?.price).to.equal(10.3);
+        if (kind === 'perp') {
+          expect(bids).to.be.instanceOf(BookSide);
+        } else {
+          expect(bids).to.be.instanceOf(SpotBookSide);
+        }
+      }
+    });
+
+    it('fails for a market that does not exist', async () => {
+      const missing = new Account().publicKey;
+      let error: any;
+      try {
+        await client.loadBook({
+          ...marketConfig,
+          kind: 'spot',
+          publicKey: missing,
+        } as MarketConfig);
+      } catch (e) {
+        error = e;
+      }
+      expect(error?.message).to.include(missing.toBase58());
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { expect } from 'chai';
+import BN from 'bn.js';
+import { PublicKey } from '@solana/web3.js';
+import { I80F48 } from '../src/fixednum';
+import PerpEventQueue, {
+  PerpEventGap,
+  PerpQueueEvent,
+} from '../src/PerpEventQueue';
+import PerpMarket, { ParsedPerpEvent } from '../src/PerpMarket';
+
+/** A ring buffer of the given capacity holding the events seqNums name */
+function makeQueue(seqNum: number, capacity: number, seqNums: number[]) {
+  const events: any[] = [];
+  for (let i = 0; i < capacity; i++) {
+    // never written slots are zeroed
+    events.push({ fill: { seqNum: new BN(0), timestamp: new BN(0) } });
+  }
+  for (const n of seqNums) {
+    const kind = ['fill', 'out', 'liquidate'][n % 3];
+    events[n % capacity] = {
+      [kind]: {
+        seqNum: new BN(n),
+        timestamp: new BN(1000 + n),
+        quantity: new BN(10),
+        price: kind === 'liquidate' ? I80F48.fromNumber(0.5) : new BN(20),
+      },
+    };
+  }
+  return new PerpEventQueue({
+    head: new BN(0),
+    count: new BN(0),
+    seqNum: new BN(seqNum),
+    events,
+  });
+}
+
+function describeEvent(e: PerpQueueEvent | ParsedPerpEvent | PerpEventGap) {
+  if (e.eventType === 'gap') {
+    return `gap ${e.firstSeqNum.toString()}-${e.lastSeqNum.toString()}`;
+  }
+  const seqNum = 'seqNum' in e ? e.seqNum : e[e.eventType].seqNum;
+  return `${e.eventType} ${seqNum.toString()}`;
+}
+
+function makePerpMarket() {
+  return new PerpMarket(PublicKey.default, 9, 6, {
+    baseLotSize: new BN(1000),
+    quoteLotSize: new BN(10),
+  });
+}
+
+describe('perpEventQueue', async () => {
+  it('returns events from a seqNum in order', () => {
+    const queue = makeQueue(5, 8, [0, 1, 2, 3, 4]);
+    expect(queue.eventsFrom(new BN(2)).map(describeEvent)).to.deep.equal([
+      'liquidate 2',
+      'fill 3',
+      'out 4',
+    ]);
+    expect(queue.eventsFrom(new BN(5))).to.be.empty;
+    expect(queue.oldestSeqNum.toNumber()).to.equal(0);
+  });
+
+  it('reports events overwritten in the ring buffer as a gap', () => {
+    const queue = makeQueue(10, 4, [6, 7, 8, 9]);
+    expect(queue.oldestSeqNum.toNumber()).to.equal(6);
+    expect(queue.eventsFrom(new BN(3)).map(describeEvent)).to.deep.equal([
+      'gap 3-5',
+      'fill 6',
+      'out 7',
+      'liquidate 8',
+      'fill 9',
+    ]);
+  });
+
+  it('streams events across polls with gaps between them', async () => {
+    const perpMarket = makePerpMarket();
+    const queues = [
+      makeQueue(3, 4, [0, 1, 2]),
+      makeQueue(3, 4, [0, 1, 2]),
+      makeQueue(9, 4, [5, 6, 7, 8]),
+    ];
+    let polls = 0;
+    perpMarket.loadEventQueue = async () =>
+      queues[Math.min(polls++, queues.length - 1)];
+
+    const seen: string[] = [];
+    for await (const event of perpMarket.streamEvents(null as any, {
+      interval: 0,
+    })) {
+      seen.push(describeEvent(event));
+      if (seen.length === 8) break;
+    }
+    expect(seen).to.deep.equal([
+      'fill 0',
+      'out 1',
+      'liquidate 2',
+      'gap 3-4',
+      'liquidate 5',
+      'fill 6',
+      'out 7',
+      'liquidate 8',
+    ]);
+    expect(polls).to.equal(3);
+  });
+
+  it('parses events into UI units without changing the queue', () => {
+    const perpMarket = makePerpMarket();
+    const queue = makeQueue(3, 4, [0, 1, 2]);
+    const [fill, out, liquidate] = queue
+      .eventsSince()
+      .map((e) => perpMarket.parseEvent(e));
+
+    // 20 price lots of 10 quote lots per 1000 base lots, at 9 base decimals
+    expect(fill.eventType).to.equal('fill');
+    expect((fill as any).price).to.equal(200);
+    expect(fill.quantity).to.equal(0.00001);
+    expect(out.eventType).to.equal('out');
+    expect(out.quantity).to.equal(0.00001);
+    expect(liquidate.eventType).to.equal('liquidate');
+    expect((liquidate as any).price).to.equal(500);
+    expect(queue.events[0].fill.eventType).to.equal(undefined);
+  });
+
+  it('starts streaming from fromSeqNum', async () => {
+    const perpMarket = makePerpMarket();
+    perpMarket.loadEventQueue = async () => makeQueue(5, 8, [0, 1, 2, 3, 4]);
+
+    const stream = perpMarket.streamEvents(null as any, {
+      fromSeqNum: new BN(4),
+      interval: 0,
+    });
+    const first = await stream.next();
+    expect(describeEvent(first.value)).to.equal('out 4');
+    await stream.return(undefined);
+  });
+});
@@ -0,0 +1,181 @@
+import { expect } from 'chai';
+import {
+  Account,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+} from '@solana/web3.js';
+import { EntropyClient } from '../src/client';
+import { BlockhashExpiredError } from '../src/errors';
+import { loadTestEntropyAccount, loadTestEntropyGroup } from './testdata';
+
+function makeSignedTransaction(lastValidBlockHeight: number): Transaction {
+  const payer = new Account();
+  const transaction = new Transaction().add(
+    SystemProgram.transfer({
+      fromPubkey: payer.publicKey,
+      toPubkey: new Account().publicKey,
+      lamports: 1,
+    }),
+  );
+  transaction.recentBlockhash = new Account().publicKey.toBase58();
+  transaction.lastValidBlockHeight = lastValidBlockHeight;
+  transaction.sign(payer);
+  return transaction;
+}
+
+/** Just enough of Connection for the send path; status comes from `status` */
+function makeConnection(status: () => any, blockHeight: number) {
+  const connection = {
+    sent: 0,
+    async sendRawTransaction() {
+      connection.sent += 1;
+      return 'txid';
+    },
+    async getSignatureStatuses() {
+      return { context: { slot: 50 }, value: [status()] };
+    },
+    async getBlockHeight() {
+      return blockHeight;
+    },
+    async getLatestBlockhash() {
+      return {
+        blockhash: new Account().publicKey.toBase58(),
+        lastValidBlockHeight: 1000,
+      };
+    },
+    onSignature() {
+      return 1;
+    },
+    async removeSignatureListener() {},
+  };
+  return connection;
+}
+
+describe('sendPolicy', async () => {
+  it('returns slot, attempts and latency once confirmed', async () => {
+    const connection = makeConnection(
+      () => ({ slot: 42, confirmationStatus: 'confirmed', err: null }),
+      100,
+    );
+    const client = new EntropyClient(connection as any, PublicKey.default, {
+      sendPolicy: { resendInterval: 10, maxResends: 3 },
+    });
+
+    const result = await client.sendSignedTransactionWithResult({
+      signedTransaction: makeSignedTransaction(1000),
+    });
+    expect(result.txid).to.equal('txid');
+    expect(result.slot).to.equal(42);
+    expect(result.attempts).to.equal(4);
+    expect(connection.sent).to.equal(4);
+    expect(result.latency).to.be.greaterThan(0);
+  });
+
+  it('does not resolve a confirmed send on a processed notification', async () => {
+    let statuses = 0;
+    const connection = makeConnection(
+      () =>
+        ++statuses < 3
+          ? { slot: 41, confirmationStatus: 'processed', err: null }
+          : { slot: 42, confirmationStatus: 'confirmed', err: null },
+      100,
+    );
+    // the websocket notifies at the commitment it was subscribed with
+    const subscriptions: string[] = [];
+    connection.onSignature = ((
+      _txid: string,
+      callback: (result: any, context: any) => void,
+      commitment: string,
+    ) => {
+      subscriptions.push(commitment);
+      if (commitment === 'processed') {
+        setTimeout(() => callback({ err: null }, { slot: 41 }), 0);
+      }
+      return 1;
+    }) as any;
+    const client = new EntropyClient(connection as any, PublicKey.default, {
+      sendPolicy: { resendInterval: 10000, commitment: 'confirmed' },
+    });
+
+    const result = await client.sendSignedTransactionWithResult({
+      signedTransaction: makeSignedTransaction(1000),
+    });
+    expect(subscriptions).to.deep.equal(['confirmed']);
+    expect(result.slot).to.equal(42);
+  });
+
+  it('fails fast once the blockhash has expired', async () => {
+    const connection = makeConnection(() => null, 1001);
+    const client = new EntropyClient(connection as any, PublicKey.default, {
+      sendPolicy: { resendInterval: 10, timeout: 5000 },
+    });
+
+    let error: any;
+    try {
+      await client.sendSignedTransactionWithResult({
+        signedTransaction: makeSignedTransaction(1000),
+      });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).to.be.instanceOf(BlockhashExpiredError);
+    expect(error.lastValidBlockHeight).to.equal(1000);
+  });
+
+  it('fails once the blockhash expires before the commitment is reached', async () => {
+    const connection = makeConnection(
+      () => ({ slot: 42, confirmationStatus: 'processed', err: null }),
+      1001,
+    );
+    const client = new EntropyClient(connection as any, PublicKey.default, {
+      sendPolicy: { resendInterval: 10, commitment: 'confirmed' },
+    });
+
+    let error: any;
+    try {
+      await client.sendSignedTransactionWithResult({
+        signedTransaction: makeSignedTransaction(1000),
+      });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).to.be.instanceOf(BlockhashExpiredError);
+  });
+
+  it('resolves actions to send results when asked', async () => {
+    const prefix = './testdata/account1';
+    const connection = makeConnection(
+      () => ({ slot: 42, confirmationStatus: 'confirmed', err: null }),
+      100,
+    );
+    const client = new EntropyClient(connection as any, PublicKey.default, {
+      sendPolicy: { resendInterval: 10 },
+    });
+    const args = [
+      loadTestEntropyGroup(`${prefix}/group.json`),
+      loadTestEntropyAccount(`${prefix}/account.json`),
+      new Account(),
+      'name',
+    ] as const;
+
+    const result = await client.addEntropyAccountInfo(...args, {
+      sendResult: true,
+    });
+    expect(result.txid).to.equal('txid');
+    expect(result.slot).to.equal(42);
+    expect(await client.addEntropyAccountInfo(...args)).to.equal('txid');
+  });
+
+  it('skips confirmation when timeout is null', async () => {
+    const connection = makeConnection(() => null, 0);
+    const client = new EntropyClient(connection as any, PublicKey.default);
+
+    const txid = await client.sendSignedTransaction({
+      signedTransaction: makeSignedTransaction(1000),
+      timeout: null,
+    });
+    expect(txid).to.equal('txid');
+    expect(connection.sent).to.equal(1);
+  });
+});
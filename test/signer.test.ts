@@ -0,0 +1,136 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  Account,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { Server, createConnection } from 'net';
+import {
+  KeypairSigner,
+  RemoteSigner,
+  serveRemoteSigner,
+  toEntropySigner,
+} from '../src/signer';
+
+function makeTransaction(payer: PublicKey): Transaction {
+  const transaction = new Transaction().add(
+    SystemProgram.transfer({
+      fromPubkey: payer,
+      toPubkey: new Account().publicKey,
+      lamports: 1,
+    }),
+  );
+  transaction.recentBlockhash = new Account().publicKey.toBase58();
+  transaction.feePayer = payer;
+  return transaction;
+}
+
+describe('signer', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'entropy-signer-'));
+  const socketPath = path.join(dir, 'signer.sock');
+  const descriptorPath = path.join(dir, 'signer.json');
+  const keypair = new Account();
+  let server: Server;
+
+  before(() => {
+    server = serveRemoteSigner(socketPath, keypair, descriptorPath);
+  });
+
+  after(() => {
+    server.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('wraps keypairs and accounts in a KeypairSigner', () => {
+    expect(toEntropySigner(keypair)).to.be.instanceOf(KeypairSigner);
+    const signer = new KeypairSigner(keypair);
+    expect(toEntropySigner(signer)).to.equal(signer);
+  });
+
+  it('signs through the remote signer socket', async () => {
+    const signer = RemoteSigner.fromFile(descriptorPath);
+    expect(signer.publicKey.equals(keypair.publicKey)).to.be.true;
+
+    const transactions = await signer.signAllTransactions([
+      makeTransaction(keypair.publicKey),
+      makeTransaction(keypair.publicKey),
+    ]);
+    transactions.forEach((tx) => expect(tx.verifySignatures()).to.be.true);
+  });
+
+  it('signs v0 transactions through the remote signer socket', async () => {
+    const signer = RemoteSigner.fromFile(descriptorPath);
+    const legacy = makeTransaction(keypair.publicKey);
+    const transaction = new VersionedTransaction(
+      new TransactionMessage({
+        payerKey: keypair.publicKey,
+        recentBlockhash: legacy.recentBlockhash as string,
+        instructions: legacy.instructions,
+      }).compileToV0Message(),
+    );
+
+    const signed = await signer.signTransaction(transaction);
+    const expected = new VersionedTransaction(transaction.message);
+    expected.sign([keypair]);
+    expect(Buffer.from(signed.signatures[0])).to.deep.equal(
+      Buffer.from(expected.signatures[0]),
+    );
+  });
+
+  it('rejects transactions the remote key cannot sign', async () => {
+    const signer = RemoteSigner.fromFile(descriptorPath);
+    let error: Error | undefined;
+    try {
+      await signer.signTransaction(makeTransaction(new Account().publicKey));
+    } catch (e: any) {
+      error = e;
+    }
+    expect(error?.message).to.contain('Remote signer refused');
+  });
+
+  it('answers each request line of a connection, however it is split', async () => {
+    const request = JSON.stringify({
+      method: 'signMessages',
+      messages: [
+        makeTransaction(keypair.publicKey)
+          .serializeMessage()
+          .toString('base64'),
+      ],
+    });
+    const socket = createConnection(socketPath);
+    socket.setEncoding('utf-8');
+    let received = '';
+    socket.on('data', (chunk: string) => (received += chunk));
+    socket.on('connect', () => {
+      const requests = `${request}\n${request}\n`;
+      socket.write(requests.slice(0, 10));
+      setTimeout(() => socket.write(requests.slice(10)), 10);
+    });
+
+    await new Promise<void>((resolve) => {
+      const check = setInterval(() => {
+        if (received.split('\n').length > 2) {
+          clearInterval(check);
+          resolve();
+        }
+      }, 5);
+    });
+    socket.end();
+
+    const responses = received
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    expect(responses).to.have.length(2);
+    responses.forEach((response) => {
+      expect(response.publicKey).to.equal(keypair.publicKey.toBase58());
+      expect(response.signatures).to.have.length(1);
+    });
+  });
+});
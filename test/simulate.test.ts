@@ -0,0 +1,147 @@
+import { expect } from 'chai';
+import {
+  Account,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import { EntropyClient } from '../src/client';
+import { InsufficientHealthError } from '../src/errors';
+import { loadTestEntropyAccount, loadTestEntropyGroup } from './testdata';
+
+const prefix = './testdata/account1';
+const accountJson = require(`${prefix}/account.json`);
+const openOrdersJson = require(`${prefix}/openorders3.json`);
+
+/** Connection that answers simulateTransaction with `value` and records the request */
+function makeConnection(value: any) {
+  const connection = {
+    requests: [] as any[],
+    async getLatestBlockhash() {
+      return {
+        blockhash: new Account().publicKey.toBase58(),
+        lastValidBlockHeight: 100,
+      };
+    },
+    async _recentBlockhash() {
+      return new Account().publicKey.toBase58();
+    },
+    async _rpcRequest(method: string, args: any[]) {
+      connection.requests.push({ method, args });
+      return { result: { context: { slot: 1 }, value } };
+    },
+  };
+  return connection;
+}
+
+describe('simulate', async () => {
+  const entropyGroup = loadTestEntropyGroup(`${prefix}/group.json`);
+  const entropyAccount = loadTestEntropyAccount(`${prefix}/account.json`);
+  const owner = new Account();
+
+  it('returns logs, compute units and the simulated account state', async () => {
+    const connection = makeConnection({
+      err: null,
+      logs: ['Program log: ok'],
+      unitsConsumed: 12345,
+      accounts: [
+        { ...accountJson, lamports: 1 },
+        { ...openOrdersJson, lamports: 1 },
+      ],
+    });
+    const client = new EntropyClient(connection as any, PublicKey.default);
+
+    const result = await client.addEntropyAccountInfo(
+      entropyGroup,
+      entropyAccount,
+      owner,
+      'name',
+      { simulate: true },
+    );
+
+    const [{ method, args }] = connection.requests;
+    expect(method).to.equal('simulateTransaction');
+    expect(args[1].accounts.addresses[0]).to.equal(
+      entropyAccount.publicKey.toBase58(),
+    );
+    expect(result.err).to.be.null;
+    expect(result.logs).to.deep.equal(['Program log: ok']);
+    expect(result.unitsConsumed).to.equal(12345);
+    expect(result.entropyAccount?.publicKey.equals(entropyAccount.publicKey)).to
+      .be.true;
+    expect(
+      result.entropyAccount?.spotOpenOrdersAccounts
+        .filter((oo) => oo)
+        .map((oo) => oo?.publicKey.toBase58()),
+    ).to.deep.equal([openOrdersJson.address]);
+  });
+
+  it('decodes the simulation error', async () => {
+    const connection = makeConnection({
+      err: { InstructionError: [0, { Custom: 23 }] },
+      logs: [],
+      accounts: null,
+    });
+    const client = new EntropyClient(connection as any, PublicKey.default);
+
+    const { instructions } = await client.instructions.addEntropyAccountInfo(
+      entropyGroup,
+      entropyAccount,
+      owner.publicKey,
+      'name',
+    );
+    const result = await client.simulateAction(
+      new Transaction().add(...instructions),
+      owner,
+      [],
+    );
+    expect(result.error).to.be.instanceOf(InsufficientHealthError);
+    expect(result.entropyAccount).to.be.undefined;
+  });
+
+  it('returns a result for every transaction of a multi-transaction action', async () => {
+    const connection = makeConnection({ err: null, logs: [], accounts: null });
+    const client = new EntropyClient(connection as any, PublicKey.default);
+    // more redeem instructions than fit in one transaction's compute limit
+    const opts = {
+      simulate: true,
+      computeBudget: { computeUnitLimit: 100_000 },
+    } as const;
+    client.instructions.redeemAllMngo = async () => ({
+      instructions: Array.from(
+        { length: 10 },
+        () =>
+          new TransactionInstruction({
+            programId: PublicKey.default,
+            keys: [],
+            data: Buffer.alloc(0),
+          }),
+      ),
+      signers: [],
+    });
+
+    const results = await client.redeemAllMngoTransactions(
+      entropyGroup,
+      entropyAccount,
+      owner,
+      PublicKey.default,
+      PublicKey.default,
+      PublicKey.default,
+      opts,
+    );
+    expect(results).to.have.length(2);
+    expect(connection.requests).to.have.length(2);
+
+    // redeemAllMngo keeps resolving to the first transaction's result
+    const result = await client.redeemAllMngo(
+      entropyGroup,
+      entropyAccount,
+      owner,
+      PublicKey.default,
+      PublicKey.default,
+      PublicKey.default,
+      opts,
+    );
+    expect(result).to.deep.equal(results[0]);
+  });
+});
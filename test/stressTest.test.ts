@@ -0,0 +1,160 @@
+import { expect } from 'chai';
+import {
+  correlatedScenarios,
+  gridScenarios,
+  historicalScenarios,
+  runStressTest,
+  shockEntropyCache,
+} from '../src/stressTest';
+import {
+  loadTestEntropyAccount,
+  loadTestEntropyCache,
+  loadTestEntropyGroup,
+  loadTestOpenOrders,
+} from './testdata';
+
+/** Repeatable uniform numbers in [0, 1) */
+function makeRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+}
+
+describe('stressTest', async () => {
+  // long about 39 SOL (oracle 3) in spot and perps, against a USDC borrow
+  const prefix = './testdata/account1';
+  const entropyGroup = loadTestEntropyGroup(`${prefix}/group.json`);
+  const entropyCache = loadTestEntropyCache(`${prefix}/cache.json`);
+  const entropyAccount = loadTestEntropyAccount(`${prefix}/account.json`);
+  for (const i of [3, 6, 7]) {
+    entropyAccount.spotOpenOrdersAccounts[i] = loadTestOpenOrders(
+      `${prefix}/openorders${i}.json`,
+    );
+  }
+  const solvent = loadTestEntropyAccount('./testdata/1deposit/account.json');
+
+  it('moves cache prices without changing the cache', () => {
+    const before = entropyCache.priceCache[3].price.toNumber();
+    const shocked = shockEntropyCache(entropyCache, {
+      name: 'crash',
+      shocks: [0, -2, 0, -0.25],
+    });
+    expect(shocked.priceCache[3].price.toNumber()).to.be.closeTo(
+      before * 0.75,
+      1e-9,
+    );
+    expect(shocked.priceCache[1].price.isZero()).to.equal(true);
+    expect(shocked.priceCache[2]).to.equal(entropyCache.priceCache[2]);
+    expect(entropyCache.priceCache[3].price.toNumber()).to.equal(before);
+  });
+
+  it('builds grid and historical scenarios', () => {
+    const grid = gridScenarios([1, 3], [-0.5, 0, 0.25]);
+    expect(grid).to.have.length(9);
+    expect(grid[0]).to.deep.equal({
+      name: 'oracle1 -50%, oracle3 -50%',
+      shocks: [0, -0.5, 0, -0.5],
+    });
+    expect(grid[8].name).to.equal('oracle1 +25%, oracle3 +25%');
+
+    const snapshots = [
+      { label: 'mon', prices: [1, 100, undefined] },
+      { label: 'tue', prices: [1, 75, 4] },
+      { label: 'wed', prices: [1, 150, 5] },
+    ];
+    const historical = historicalScenarios(snapshots);
+    expect(historical.map((s) => s.name)).to.deep.equal([
+      'mon to tue',
+      'tue to wed',
+    ]);
+    expect(historical[0].shocks).to.deep.equal([0, -0.25, 0]);
+    expect(historical[1].shocks).to.deep.equal([0, 1, 0.25]);
+    expect(historicalScenarios(snapshots, 2)[0].shocks).to.deep.equal([
+      0, 0.5, 0,
+    ]);
+    expect(historicalScenarios(snapshots, 3)).to.be.empty;
+  });
+
+  it('draws correlated moves', () => {
+    const scenarios = correlatedScenarios({
+      oracleIndexes: [1, 3],
+      volatilities: [0.5, 0.5],
+      correlations: [
+        [1, 0.9],
+        [0.9, 1],
+      ],
+      count: 2000,
+      random: makeRandom(7),
+    });
+    expect(scenarios).to.have.length(2000);
+    expect(scenarios[0].shocks[0]).to.equal(0);
+    expect(scenarios[0].shocks[2]).to.equal(0);
+
+    const logs = [1, 3].map((i) =>
+      scenarios.map((s) => Math.log(1 + s.shocks[i])),
+    );
+    const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+    const [mx, my] = logs.map(mean);
+    const cov = mean(logs[0].map((x, n) => (x - mx) * (logs[1][n] - my)));
+    const [sx, sy] = logs.map((xs, i) =>
+      Math.sqrt(mean(xs.map((x) => (x - [mx, my][i]) ** 2))),
+    );
+    expect(sx).to.be.closeTo(0.5, 0.05);
+    expect(cov / (sx * sy)).to.be.closeTo(0.9, 0.05);
+
+    expect(() =>
+      correlatedScenarios({
+        oracleIndexes: [1, 3],
+        volatilities: [0.5, 0.5],
+        correlations: [
+          [1, 1.5],
+          [1.5, 1],
+        ],
+        count: 1,
+      }),
+    ).to.throw('not positive definite');
+  });
+
+  it('reports health, liquidations and shortfall per scenario', () => {
+    const report = runStressTest(
+      entropyGroup,
+      entropyCache,
+      [entropyAccount, solvent],
+      gridScenarios([3], [-0.5, 0, 0.5]),
+      { insuranceFund: 1000 },
+    );
+    const [crash, flat, rally] = report.scenarios;
+
+    expect(flat.accounts[0].maintHealth).to.be.closeTo(
+      entropyAccount.getHealth(entropyGroup, entropyCache, 'Maint').toNumber() /
+        1e6,
+      1e-6,
+    );
+    expect(flat.liquidatable).to.equal(0);
+    expect(flat.shortfall).to.equal(0);
+    expect(rally.accounts[0].maintHealth).to.be.greaterThan(
+      flat.accounts[0].maintHealth,
+    );
+
+    // losing half of 39 SOL is more than the account's 1348 of equity
+    expect(crash.accounts[0].liquidatable).to.equal(true);
+    expect(crash.accounts[0].shortfall).to.be.closeTo(1488.3, 0.1);
+    expect(crash.accounts[1]).to.deep.include({
+      liquidatable: false,
+      shortfall: 0,
+    });
+    expect(crash.liquidatable).to.equal(1);
+    expect(crash.uncovered).to.be.closeTo(488.3, 0.1);
+    expect(report.worst).to.equal(crash);
+    expect(report.expectedShortfall).to.be.closeTo(1488.3 / 3, 0.1);
+    expect(report.expectedUncovered).to.be.closeTo(488.3 / 3, 0.1);
+
+    const [summary] = report.accounts;
+    expect(summary.entropyAccount).to.equal(entropyAccount.publicKey);
+    expect(summary.liquidatableScenarios).to.equal(1);
+    expect(summary.worstMaintHealth).to.equal(crash.accounts[0].maintHealth);
+    expect(report.accounts[1].expectedShortfall).to.equal(0);
+  });
+});
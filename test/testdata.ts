@@ -1,7 +1,9 @@
-import { OpenOrders } from '@project-serum/serum';
+import { Market, OpenOrders } from '@project-serum/serum';
+import { Orderbook } from '@project-serum/serum/lib/market';
 import { PublicKey } from '@solana/web3.js';
-import { EntropyGroup, RootBank } from '../src';
-import { EntropyAccountLayout, EntropyCache, EntropyCacheLayout, EntropyGroupLayout, NodeBank, NodeBankLayout, RootBankLayout } from '../src/layout';
+import BN from 'bn.js';
+import { BookSide, EntropyGroup, GroupSnapshot, GroupSnapshotJson, PerpMarket, RootBank } from '../src';
+import { BookSideLayout, DataType, EntropyAccountLayout, EntropyCache, EntropyCacheLayout, EntropyGroupLayout, NodeBank, NodeBankLayout, RootBankLayout } from '../src/layout';
 import EntropyAccount from '../src/EntropyAccount';
 
 export function loadTestEntropyGroup(filename: string): EntropyGroup {
@@ -45,3 +47,131 @@ export function loadTestEntropyNodeBank(filename: string): NodeBank {
   const layout = NodeBankLayout.decode(data)
   return new NodeBank(new PublicKey(accountJson.address), layout)
 }
+
+export function loadTestGroupSnapshot(filename: string): GroupSnapshot {
+  const snapshotJson: GroupSnapshotJson = require(filename);
+  return GroupSnapshot.fromJSON(snapshotJson)
+}
+
+export interface TestOrder {
+  priceLots: number;
+  sizeLots: number;
+  owner?: PublicKey;
+  clientId?: number;
+  /** Low bits of the order id; defaults to the order's position */
+  seqNum?: number;
+}
+
+/**
+ * BookSide account data holding the orders, as a chain of inner nodes with
+ * one leaf each so that the book walks them best price first
+ */
+export function encodeTestBookSide(isBids: boolean, orders: TestOrder[]): Buffer {
+  const data = Buffer.alloc(BookSideLayout.span);
+  const nodeLayout = (BookSideLayout as any).fields.find((f) => f.property === 'nodes').elementLayout;
+  const nodesOffset = BookSideLayout.offsetOf('nodes') as number;
+  const sorted = orders
+    .map((order, i) => ({ seqNum: i, ...order }))
+    .sort((a, b) => (isBids ? b.priceLots - a.priceLots : a.priceLots - b.priceLots));
+
+  const nodes: any[] = [];
+  sorted.forEach((order, i) => {
+    const leaf = {
+      leafNode: {
+        ownerSlot: i % 64,
+        orderType: 'limit',
+        version: 0,
+        key: new BN(order.priceLots).shln(64).addn(order.seqNum),
+        owner: order.owner ?? PublicKey.default,
+        quantity: new BN(order.sizeLots),
+        clientOrderId: new BN(order.clientId ?? 0),
+        bestInitial: new BN(0),
+        timestamp: new BN(i),
+      },
+    };
+    if (i === sorted.length - 1) {
+      nodes.push(leaf);
+    } else {
+      // the leaf, then the rest of the chain
+      const [leafIndex, restIndex] = [nodes.length + 1, nodes.length + 2];
+      nodes.push({
+        innerNode: {
+          prefixLen: 0,
+          key: new BN(0),
+          children: isBids ? [restIndex, leafIndex] : [leafIndex, restIndex],
+        },
+      });
+      nodes.push(leaf);
+    }
+  });
+
+  data.writeUInt8(isBids ? DataType.Bids : DataType.Asks, 0);
+  data.writeUInt8(1, 2); // isInitialized
+  data.writeUInt32LE(nodes.length, BookSideLayout.offsetOf('bumpIndex'));
+  data.writeUInt32LE(0, BookSideLayout.offsetOf('rootNode'));
+  data.writeUInt32LE(sorted.length, BookSideLayout.offsetOf('leafCount'));
+  nodes.forEach((node, i) => nodeLayout.encode(node, data, nodesOffset + i * nodeLayout.span));
+  return data;
+}
+
+export function makeTestBookSide(perpMarket: PerpMarket, isBids: boolean, orders: TestOrder[]): BookSide {
+  const publicKey = isBids ? perpMarket.bids : perpMarket.asks;
+  return new BookSide(publicKey, perpMarket, BookSideLayout.decode(encodeTestBookSide(isBids, orders)));
+}
+
+/** Serum market account data with the given book accounts and lot sizes */
+export function encodeTestSpotMarket(programId: PublicKey, bids: PublicKey, asks: PublicKey, baseLotSize: number, quoteLotSize: number): Buffer {
+  const layout = Market.getLayout(programId);
+  const data = Buffer.alloc(layout.span);
+  data.writeUInt8(0b11, layout.offsetOf('accountFlags')); // initialized, market
+  bids.toBuffer().copy(data, layout.offsetOf('bids'));
+  asks.toBuffer().copy(data, layout.offsetOf('asks'));
+  data.writeBigUInt64LE(BigInt(baseLotSize), layout.offsetOf('baseLotSize'));
+  data.writeBigUInt64LE(BigInt(quoteLotSize), layout.offsetOf('quoteLotSize'));
+  return data;
+}
+
+/** Serum bids or asks account data, chained like encodeTestBookSide */
+export function encodeTestOrderbook(isBids: boolean, orders: TestOrder[]): Buffer {
+  const slabLayout = (Orderbook.LAYOUT as any).fields.find((f) => f.property === 'slab');
+  const nodeLayout = slabLayout.fields.find((f) => f.property === 'nodes').elementLayout;
+  const slabOffset = Orderbook.LAYOUT.offsetOf('slab') as number;
+  const nodesOffset = slabOffset + slabLayout.offsetOf('nodes');
+  const sorted = orders
+    .map((order, i) => ({ seqNum: i, ...order }))
+    .sort((a, b) => (isBids ? b.priceLots - a.priceLots : a.priceLots - b.priceLots));
+
+  const nodes: any[] = [];
+  sorted.forEach((order, i) => {
+    const leaf = {
+      leafNode: {
+        ownerSlot: i % 128,
+        feeTier: 0,
+        key: new BN(order.priceLots).shln(64).addn(order.seqNum),
+        owner: order.owner ?? PublicKey.default,
+        quantity: new BN(order.sizeLots),
+        clientOrderId: new BN(order.clientId ?? 0),
+      },
+    };
+    if (i === sorted.length - 1) {
+      nodes.push(leaf);
+    } else {
+      const [leafIndex, restIndex] = [nodes.length + 1, nodes.length + 2];
+      nodes.push({
+        innerNode: {
+          prefixLen: 0,
+          key: new BN(0),
+          children: isBids ? [restIndex, leafIndex] : [leafIndex, restIndex],
+        },
+      });
+      nodes.push(leaf);
+    }
+  });
+
+  const data = Buffer.alloc(nodesOffset + nodes.length * nodeLayout.span + 7);
+  data.writeUInt8(isBids ? 0b100001 : 0b1000001, 5); // initialized, bids or asks
+  data.writeUInt32LE(nodes.length, slabOffset); // bumpIndex, root is 0
+  data.writeUInt32LE(sorted.length, slabOffset + 24); // leafCount
+  nodes.forEach((node, i) => nodeLayout.encode(node, data, nodesOffset + i * nodeLayout.span));
+  return data;
+}
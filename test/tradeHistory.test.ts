@@ -0,0 +1,242 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import BN from 'bn.js';
+import { Account, PublicKey } from '@solana/web3.js';
+import { I80F48 } from '../src/fixednum';
+import { ConsoleLogger } from '../src/logger';
+import PerpAccount from '../src/PerpAccount';
+import PerpEventQueue from '../src/PerpEventQueue';
+import PerpMarket from '../src/PerpMarket';
+import Database from 'better-sqlite3';
+import {
+  JsonlTradeStore,
+  SqliteTradeStore,
+  TradeRecord,
+  TradeRecorder,
+  TradeStore,
+} from '../src/tradeHistory';
+
+const alice = new Account().publicKey;
+const bob = new Account().publicKey;
+
+/** A fill of quantity lots at price lots, alice taking from bob */
+function fill(seqNum: number, price: number, quantity: number) {
+  return {
+    fill: {
+      takerSide: 'buy',
+      seqNum: new BN(seqNum),
+      timestamp: new BN(1000 + seqNum),
+      maker: bob,
+      makerOrderId: new BN(seqNum),
+      makerFee: I80F48.fromNumber(-0.0004),
+      taker: alice,
+      takerOrderId: new BN(seqNum),
+      takerFee: I80F48.fromNumber(0.0005),
+      price: new BN(price),
+      quantity: new BN(quantity),
+    },
+  };
+}
+
+/** alice taking over quantity lots of a long from bob at price */
+function liquidate(seqNum: number, price: number, quantity: number) {
+  return {
+    liquidate: {
+      seqNum: new BN(seqNum),
+      timestamp: new BN(1000 + seqNum),
+      liqee: bob,
+      liqor: alice,
+      price: I80F48.fromNumber(price),
+      quantity: new BN(quantity),
+      liquidationFee: I80F48.fromNumber(0.025),
+    },
+  };
+}
+
+function out(seqNum: number) {
+  return {
+    out: { seqNum: new BN(seqNum), timestamp: new BN(1000 + seqNum) },
+  };
+}
+
+function makeQueue(seqNum: number, events: any[]) {
+  return new PerpEventQueue({
+    head: new BN(0),
+    count: new BN(0),
+    seqNum: new BN(seqNum),
+    events,
+  });
+}
+
+function makePerpMarket(queues: PerpEventQueue[]) {
+  const perpMarket = new PerpMarket(new Account().publicKey, 6, 6, {
+    baseLotSize: new BN(100),
+    quoteLotSize: new BN(10),
+  });
+  perpMarket.loadEventQueue = async () => queues.shift() as PerpEventQueue;
+  return perpMarket;
+}
+
+describe('tradeHistory', async () => {
+  const logger = new ConsoleLogger('error');
+  let filename: string;
+
+  beforeEach(() => {
+    filename = path.join(os.tmpdir(), `trades-${Date.now()}.jsonl`);
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(filename)) fs.unlinkSync(filename);
+  });
+
+  it('records fills and liquidations once each, across polls and restarts', async () => {
+    const queue = makeQueue(4, [
+      fill(0, 1000, 50),
+      out(1),
+      fill(2, 1200, 50),
+      liquidate(3, 130, 20),
+    ]);
+    const perpMarket = makePerpMarket([queue, queue, queue]);
+
+    const store = new JsonlTradeStore(filename);
+    const recorder = new TradeRecorder(null as any, store, [perpMarket], {
+      logger,
+    });
+    expect(await recorder.poll(perpMarket)).to.equal(3);
+    expect(await recorder.poll(perpMarket)).to.equal(0);
+
+    // a new recorder picks up after the last trade stored
+    const restarted = new TradeRecorder(
+      null as any,
+      new JsonlTradeStore(filename),
+      [perpMarket],
+      { logger },
+    );
+    expect(await restarted.poll(perpMarket)).to.equal(0);
+    expect(
+      fs.readFileSync(filename, 'utf-8').trim().split('\n'),
+    ).to.have.length(3);
+
+    const [liquidation, latest] = await store.query();
+    expect(liquidation).to.deep.include({
+      eventType: 'liquidate',
+      market: perpMarket.publicKey.toBase58(),
+      seqNum: 3,
+      timestamp: 1003,
+      liqee: bob.toBase58(),
+      liqor: alice.toBase58(),
+      price: 130,
+      quantity: 0.002,
+    });
+    expect(
+      liquidation.eventType === 'liquidate' && liquidation.liquidationFee,
+    ).to.be.closeTo(0.025, 1e-9);
+    expect(latest.seqNum).to.equal(2);
+    expect(latest.price).to.equal(120);
+    expect(latest.quantity).to.equal(0.005);
+    expect(latest.eventType === 'fill' && latest.taker).to.equal(
+      alice.toBase58(),
+    );
+    expect(latest.market).to.equal(perpMarket.publicKey.toBase58());
+  });
+
+  const stores: [string, () => TradeStore][] = [
+    ['JsonlTradeStore', () => new JsonlTradeStore(filename)],
+    ['SqliteTradeStore', () => new SqliteTradeStore(new Database(filename))],
+  ];
+  for (const [name, openStore] of stores) {
+    it(`queries ${name} by market, account and time range`, async () => {
+      const store = openStore();
+      const [first, second] = [makePerpMarket([]), makePerpMarket([])];
+      const carol = new Account().publicKey;
+      const trades: TradeRecord[] = [
+        { market: first, seqNum: 0, timestamp: 100, taker: alice },
+        { market: first, seqNum: 1, timestamp: 200, taker: carol },
+        { market: second, seqNum: 0, timestamp: 300, taker: alice },
+      ].map(({ market, seqNum, timestamp, taker }) => ({
+        eventType: 'fill' as const,
+        market: market.publicKey.toBase58(),
+        seqNum,
+        timestamp,
+        takerSide: 'buy' as const,
+        maker: bob.toBase58(),
+        taker: taker.toBase58(),
+        makerOrderId: '0',
+        takerOrderId: '0',
+        makerFee: 0,
+        takerFee: 0,
+        price: 1,
+        quantity: 1,
+      }));
+      trades.push({
+        eventType: 'liquidate',
+        market: second.publicKey.toBase58(),
+        seqNum: 1,
+        timestamp: 400,
+        liqee: bob.toBase58(),
+        liqor: carol.toBase58(),
+        liquidationFee: 0.025,
+        price: 1,
+        quantity: -1,
+      });
+      expect(await store.insert(trades)).to.equal(4);
+      expect(await store.insert(trades)).to.equal(0);
+
+      const timestamps = (found: { timestamp: number }[]) =>
+        found.map((t) => t.timestamp);
+      expect(timestamps(await store.query())).to.deep.equal([
+        400, 300, 200, 100,
+      ]);
+      expect(
+        timestamps(await store.query({ market: first.publicKey })),
+      ).to.deep.equal([200, 100]);
+      expect(timestamps(await store.query({ account: alice }))).to.deep.equal([
+        300, 100,
+      ]);
+      expect(
+        timestamps(await store.query({ account: bob, limit: 2 })),
+      ).to.deep.equal([400, 300]);
+      expect(
+        timestamps(await store.query({ from: 150, to: 300, account: carol })),
+      ).to.deep.equal([200]);
+      expect(await store.lastSeqNum(second.publicKey)).to.equal(1);
+      expect(await store.lastSeqNum(PublicKey.default)).to.equal(undefined);
+      expect(await store.query({ account: carol, from: 400 })).to.deep.equal([
+        trades[3],
+      ]);
+      const stored = await store.query();
+      await store.close();
+
+      // everything is back after reopening
+      const reopened = openStore();
+      expect(await reopened.query()).to.deep.equal(stored);
+      expect(timestamps(await reopened.query())).to.deep.equal([
+        400, 300, 200, 100,
+      ]);
+      expect((await reopened.query())[1]).to.deep.equal(trades[2]);
+      await reopened.close();
+    });
+  }
+
+  it('gives PerpAccount the trade history it needs', async () => {
+    // alice buys 50 lots at 100, then takes over 50 more at 130 liquidating bob
+    const perpMarket = makePerpMarket([
+      makeQueue(2, [fill(0, 1000, 50), liquidate(1, 130, 50)]),
+    ]);
+    const store = new JsonlTradeStore(filename);
+    await new TradeRecorder(null as any, store, [perpMarket], {
+      logger,
+    }).poll(perpMarket);
+
+    const perpAccount = new PerpAccount({ basePosition: new BN(100) });
+    const entropyAccount = { publicKey: alice } as any;
+    const price = perpAccount.getAverageOpenPrice(
+      entropyAccount,
+      perpMarket,
+      await store.query({ market: perpMarket.publicKey, account: alice }),
+    );
+    expect(price.toNumber()).to.equal(115);
+  });
+});
@@ -0,0 +1,201 @@
+import { expect } from 'chai';
+import {
+  Account,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+} from '@solana/web3.js';
+import { EntropyClient } from '../src/client';
+import { BlockhashExpiredError } from '../src/errors';
+import { TransactionEventEmitter } from '../src/transactionEvents';
+import { EntropyError } from '../src/utils';
+
+function makeTransaction(payer: PublicKey): Transaction {
+  return new Transaction().add(
+    SystemProgram.transfer({
+      fromPubkey: payer,
+      toPubkey: new Account().publicKey,
+      lamports: 1,
+    }),
+  );
+}
+
+/** Enough of Connection to sign and send; status comes from `status` */
+function makeConnection(status: () => any, blockHeight = 0) {
+  return {
+    async getLatestBlockhash() {
+      return {
+        blockhash: new Account().publicKey.toBase58(),
+        lastValidBlockHeight: 1000,
+      };
+    },
+    async sendRawTransaction() {
+      return 'txid';
+    },
+    async getSignatureStatuses() {
+      return { context: { slot: 50 }, value: [status()] };
+    },
+    async getBlockHeight() {
+      return blockHeight;
+    },
+    async _rpcRequest() {
+      return { result: { context: { slot: 50 }, value: { err: 'failed' } } };
+    },
+    onSignature() {
+      return 1;
+    },
+    async removeSignatureListener() {},
+  };
+}
+
+/** Record every event the client emits, in order */
+function record(client: EntropyClient): [string, any][] {
+  const events: [string, any][] = [];
+  for (const name of [
+    'built',
+    'signed',
+    'sent',
+    'resent',
+    'confirmed',
+    'failed',
+    'timedOut',
+  ] as const) {
+    client.events.on(name, (e: any) => events.push([name, e]));
+  }
+  return events;
+}
+
+describe('transactionEvents', async () => {
+  it('emits each stage of a confirmed transaction', async () => {
+    const payer = new Account();
+    const client = new EntropyClient(
+      makeConnection(() => ({
+        slot: 42,
+        confirmationStatus: 'confirmed',
+      })) as any,
+      PublicKey.default,
+    );
+    const events = record(client);
+
+    const result = await client.sendTransactionWithResult(
+      makeTransaction(payer.publicKey),
+      payer,
+      [],
+      { resendInterval: 10000 },
+      'BTC-PERP',
+    );
+
+    expect(events.map(([name]) => name)).to.deep.equal([
+      'built',
+      'signed',
+      'sent',
+      'confirmed',
+    ]);
+    const [, confirmed] = events[3];
+    expect(confirmed.txid).to.equal(result.txid);
+    expect(confirmed.marketName).to.equal('BTC-PERP');
+    expect(confirmed.slot).to.equal(42);
+    expect(confirmed.attempts).to.equal(1);
+  });
+
+  it('emits failed with the decoded error', async () => {
+    const payer = new Account();
+    const client = new EntropyClient(
+      makeConnection(() => ({ slot: 42, err: 'failed' })) as any,
+      PublicKey.default,
+    );
+    const events = record(client);
+
+    let error: any;
+    try {
+      await client.sendTransaction(makeTransaction(payer.publicKey), payer, []);
+    } catch (e) {
+      error = e;
+    }
+    const [name, failed] = events[events.length - 1];
+    expect(name).to.equal('failed');
+    expect(failed.error).to.equal(error);
+    expect(failed.error).to.be.instanceOf(EntropyError);
+  });
+
+  it('emits failed when the node refuses the transaction', async () => {
+    const payer = new Account();
+    const connection = {
+      ...makeConnection(() => null),
+      async sendRawTransaction(): Promise<string> {
+        throw new Error('connection refused');
+      },
+    };
+    const client = new EntropyClient(connection as any, PublicKey.default);
+    const events = record(client);
+
+    let error: any;
+    try {
+      // the payer signs along with the other signers, so built has the txid
+      await client.sendTransaction(makeTransaction(payer.publicKey), payer, [
+        payer,
+      ]);
+    } catch (e) {
+      error = e;
+    }
+    expect(error?.message).to.equal('connection refused');
+    expect(events.map(([name]) => name)).to.deep.equal([
+      'built',
+      'signed',
+      'failed',
+    ]);
+    const [[, built], , [, failed]] = events;
+    expect(failed.error).to.equal(error);
+    expect(built.txid).to.be.a('string');
+    expect(built.txid).to.equal(failed.txid);
+  });
+
+  it('emits timedOut when the blockhash expires', async () => {
+    const payer = new Account();
+    const client = new EntropyClient(
+      makeConnection(() => null, 1001) as any,
+      PublicKey.default,
+    );
+    const events = record(client);
+
+    try {
+      await client.sendTransaction(makeTransaction(payer.publicKey), payer, []);
+    } catch (e) {
+      // expected
+    }
+    const [name, timedOut] = events[events.length - 1];
+    expect(name).to.equal('timedOut');
+    expect(timedOut.error).to.be.instanceOf(BlockhashExpiredError);
+  });
+
+  it('still calls postSendTxCallback', async () => {
+    const payer = new Account();
+    const txids: string[] = [];
+    const client = new EntropyClient(
+      makeConnection(() => null) as any,
+      PublicKey.default,
+      { postSendTxCallback: ({ txid }) => txids.push(txid) },
+    );
+
+    await client.sendTransaction(
+      makeTransaction(payer.publicKey),
+      payer,
+      [],
+      null,
+    );
+    expect(txids).to.deep.equal(['txid']);
+  });
+
+  it('keeps calling listeners after one throws', () => {
+    const emitter = new TransactionEventEmitter();
+    const seen: string[] = [];
+    emitter.on('signed', () => {
+      throw new Error('listener failed');
+    });
+    emitter.once('signed', ({ txid }) => seen.push(txid));
+
+    emitter.emit('signed', { txid: 'a', attempts: 0, latency: 0 });
+    emitter.emit('signed', { txid: 'b', attempts: 0, latency: 0 });
+    expect(seen).to.deep.equal(['a']);
+  });
+});
@@ -0,0 +1,119 @@
+import { expect } from 'chai';
+import {
+  Account,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import { TransactionPacker } from '../src/transactionPacker';
+
+const programId = new Account().publicKey;
+
+function makeInstruction(keys: PublicKey[], dataLength = 8) {
+  return new TransactionInstruction({
+    programId,
+    keys: keys.map((pubkey) => ({ pubkey, isSigner: false, isWritable: true })),
+    data: Buffer.alloc(dataLength),
+  });
+}
+
+/** Real serialized size, for checking the packer's arithmetic */
+function serializedSize(transaction: Transaction, payer: Account): number {
+  transaction.recentBlockhash = new Account().publicKey.toBase58();
+  transaction.feePayer = payer.publicKey;
+  return transaction.serialize({ requireAllSignatures: false }).length;
+}
+
+describe('transactionPacker', async () => {
+  const payer = new Account();
+
+  it('computes the exact serialized size', () => {
+    const shared = new Account().publicKey;
+    const items = [0, 1, 2].map(() => ({
+      instruction: makeInstruction([shared, new Account().publicKey]),
+    }));
+    const [packed] = new TransactionPacker(payer.publicKey).pack(items);
+    expect(packed.indices).to.deep.equal([0, 1, 2]);
+
+    const one = new TransactionPacker(payer.publicKey, {
+      maxSize: serializedSize(packed.transaction, payer),
+    }).pack(items);
+    expect(one.length).to.equal(1);
+    const two = new TransactionPacker(payer.publicKey, {
+      maxSize: serializedSize(packed.transaction, payer) - 1,
+    }).pack(items);
+    expect(two.length).to.equal(2);
+  });
+
+  it('packs in order under the packet limit', () => {
+    const items = Array.from({ length: 20 }, () => ({
+      instruction: makeInstruction(
+        Array.from({ length: 6 }, () => new Account().publicKey),
+      ),
+    }));
+    const packed = new TransactionPacker(payer.publicKey).pack(items);
+
+    expect(packed.length).to.be.greaterThan(1);
+    expect(packed.flatMap((p) => p.indices)).to.deep.equal(
+      items.map((_, i) => i),
+    );
+    for (const { transaction } of packed) {
+      expect(serializedSize(transaction, payer)).to.be.at.most(1232);
+    }
+  });
+
+  it('counts shared accounts once', () => {
+    const keys = Array.from({ length: 20 }, () => new Account().publicKey);
+    const items = Array.from({ length: 10 }, () => ({
+      instruction: makeInstruction(keys),
+    }));
+    // 20 distinct keys per instruction would overflow after two instructions
+    expect(new TransactionPacker(payer.publicKey).pack(items).length).to.equal(
+      2,
+    );
+  });
+
+  it('respects the compute limit and merges signers', () => {
+    const signer = new Account();
+    const items = [0, 1, 2].map(() => ({
+      instruction: makeInstruction([new Account().publicKey]),
+      signers: [signer],
+      computeUnits: 500_000,
+    }));
+    const packed = new TransactionPacker(payer.publicKey).pack(items);
+    expect(packed.map((p) => p.indices)).to.deep.equal([[0, 1], [2]]);
+    expect(packed[0].signers).to.deep.equal([signer]);
+  });
+
+  it('leaves room for reserved instructions', () => {
+    const shared = new Account().publicKey;
+    const items = [0, 1, 2].map(() => ({
+      instruction: makeInstruction([shared, new Account().publicKey]),
+    }));
+    const reserved = makeInstruction([]);
+    const [packed] = new TransactionPacker(payer.publicKey).pack(items);
+    const withReserved = new Transaction().add(
+      reserved,
+      ...packed.transaction.instructions,
+    );
+    const maxSize = serializedSize(withReserved, payer);
+
+    expect(
+      new TransactionPacker(payer.publicKey, {
+        maxSize,
+        reservedInstructions: [reserved],
+      }).pack(items).length,
+    ).to.equal(1);
+    expect(
+      new TransactionPacker(payer.publicKey, {
+        maxSize: maxSize - 1,
+        reservedInstructions: [reserved],
+      }).pack(items).length,
+    ).to.equal(2);
+  });
+
+  it('rejects an instruction too large for any transaction', () => {
+    const items = [{ instruction: makeInstruction([], 1300) }];
+    expect(() => new TransactionPacker(payer.publicKey).pack(items)).to.throw();
+  });
+});